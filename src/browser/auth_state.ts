@@ -0,0 +1,90 @@
+import type { ConvexClient } from "./simple_client.js";
+import { AuthTokenFetcher } from "./sync/authentication_manager.js";
+
+/**
+ * Whether the Convex client is authenticated, as exposed by the UI framework
+ * bindings.
+ */
+export type ConvexAuthState = {
+  isLoading: boolean;
+  isAuthenticated: boolean;
+};
+
+/**
+ * Keeps a {@link ConvexClient} authenticated with an auth provider, for UI
+ * framework bindings other than React.
+ *
+ * It follows the same transitions as {@link react.ConvexProviderWithAuth}:
+ * call `update` with the provider's state whenever it changes, and
+ * `onChange` is called with the resulting {@link ConvexAuthState}.
+ */
+export class ConvexAuthStateTracker {
+  private readonly client: ConvexClient;
+  private readonly fetchAccessToken: AuthTokenFetcher;
+  private readonly onChange: (state: ConvexAuthState) => void;
+  private isAuthenticated = false;
+  // `null` until the server confirms or rejects the token.
+  private isConvexAuthenticated: boolean | null = null;
+  // Incremented whenever auth is cleared so stale confirmations are ignored.
+  private generation = 0;
+
+  constructor(
+    client: ConvexClient,
+    fetchAccessToken: AuthTokenFetcher,
+    onChange: (state: ConvexAuthState) => void,
+  ) {
+    this.client = client;
+    this.fetchAccessToken = fetchAccessToken;
+    this.onChange = onChange;
+  }
+
+  update(isLoading: boolean, isAuthenticated: boolean) {
+    if (this.isAuthenticated) {
+      this.clearAuth();
+    }
+    this.isAuthenticated = isAuthenticated;
+    if (isAuthenticated && !this.client.disabled) {
+      const generation = this.generation;
+      this.client.setAuth(this.fetchAccessToken, (isConvexAuthenticated) => {
+        if (generation === this.generation) {
+          this.isConvexAuthenticated = isConvexAuthenticated;
+          this.emit();
+        }
+      });
+    }
+    // If the provider went back to the loading state, go back to loading too
+    // so that we transition from "loading" to "authenticated" without going
+    // through "unauthenticated".
+    if (isLoading) {
+      this.isConvexAuthenticated = null;
+    } else if (!isAuthenticated) {
+      this.isConvexAuthenticated = false;
+    }
+    this.emit();
+  }
+
+  close() {
+    if (this.isAuthenticated) {
+      this.clearAuth();
+      this.isAuthenticated = false;
+    }
+  }
+
+  private clearAuth() {
+    this.generation++;
+    // If we haven't finished fetching the token by now we shouldn't
+    // transition to a loaded state.
+    this.isConvexAuthenticated = this.isConvexAuthenticated ? false : null;
+    if (!this.client.disabled) {
+      this.client.client.clearAuth();
+    }
+  }
+
+  private emit() {
+    this.onChange({
+      isLoading: this.isConvexAuthenticated === null,
+      isAuthenticated:
+        this.isAuthenticated && (this.isConvexAuthenticated ?? false),
+    });
+  }
+}
@@ -18,12 +18,40 @@
  */
 export { BaseConvexClient } from "./sync/client.js";
 export type {
+  AuthFailure,
+  AuthOptions,
+  AuthTokenFetcher,
+  AuthTokenWithExpiry,
   BaseConvexClientOptions,
+  ConnectionState,
   MutationOptions,
   SubscribeOptions,
 } from "./sync/client.js";
+export {
+  InMemoryPersistenceStorage,
+  IndexedDBPersistenceStorage,
+} from "./sync/persistence.js";
+export type {
+  MutationOutboxOptions,
+  PersistedMutation,
+} from "./sync/mutation_outbox.js";
+export type { QueryCacheOptions } from "./sync/query_cache.js";
+export type {
+  MessageEncoding,
+  ReconnectOptions,
+  RetryPolicy,
+} from "./sync/web_socket_manager.js";
+export type {
+  PersistenceOptions,
+  PersistenceStorage,
+} from "./sync/persistence.js";
 export type { ConvexClientOptions } from "./simple_client.js";
 export { ConvexClient } from "./simple_client.js";
+export type {
+  PaginatedQueryResult,
+  PaginatedQueryStatus,
+  PaginatedSubscription,
+} from "./paginated_query.js";
 export type {
   OptimisticUpdate,
   OptimisticLocalStore,
@@ -0,0 +1,134 @@
+import { describe, expect, test, vi } from "vitest";
+import { PaginationResult } from "../server/index.js";
+import { Value } from "../values/index.js";
+import {
+  PageSubscriber,
+  PaginatedQuery,
+  PaginatedQueryResult,
+} from "./paginated_query.js";
+
+type FakePage = {
+  paginationOpts: Record<string, Value>;
+  onResult: (result: PaginationResult<Value>) => void;
+  onError: (error: Error) => void;
+  unsubscribed: boolean;
+};
+
+function setup(initialNumItems = 1) {
+  const pages: FakePage[] = [];
+  const subscribe: PageSubscriber = (args, onResult, onError) => {
+    const page: FakePage = {
+      paginationOpts: args.paginationOpts as Record<string, Value>,
+      onResult,
+      onError,
+      unsubscribed: false,
+    };
+    pages.push(page);
+    return () => {
+      page.unsubscribed = true;
+    };
+  };
+  const updates: PaginatedQueryResult<Value>[] = [];
+  const onError = vi.fn();
+  const paginatedQuery = new PaginatedQuery(
+    subscribe,
+    { channel: "general" },
+    initialNumItems,
+    (result) => updates.push(result),
+    onError,
+  );
+  return { pages, updates, onError, paginatedQuery };
+}
+
+describe("PaginatedQuery", () => {
+  test("loads more pages", () => {
+    const { pages, updates, paginatedQuery } = setup();
+    expect(paginatedQuery.value.status).toEqual("LoadingFirstPage");
+    expect(paginatedQuery.loadMore(1)).toBe(false);
+    expect(pages[0].paginationOpts).toMatchObject({
+      numItems: 1,
+      cursor: null,
+    });
+
+    pages[0].onResult({ page: ["a"], continueCursor: "c1", isDone: false });
+    expect(updates).toEqual([{ results: ["a"], status: "CanLoadMore" }]);
+
+    expect(paginatedQuery.loadMore(2)).toBe(true);
+    expect(paginatedQuery.value.status).toEqual("LoadingMore");
+    expect(pages[1].paginationOpts).toMatchObject({
+      numItems: 2,
+      cursor: "c1",
+    });
+
+    pages[1].onResult({ page: ["b", "c"], continueCursor: "c2", isDone: true });
+    expect(paginatedQuery.value).toEqual({
+      results: ["a", "b", "c"],
+      status: "Exhausted",
+    });
+
+    // Pages stay reactive.
+    pages[0].onResult({
+      page: ["z", "a"],
+      continueCursor: "c1",
+      isDone: false,
+    });
+    expect(paginatedQuery.value.results).toEqual(["z", "a", "b", "c"]);
+  });
+
+  test("splits large pages", () => {
+    const { pages, paginatedQuery } = setup();
+    pages[0].onResult({
+      page: ["a", "b", "c"],
+      continueCursor: "end",
+      splitCursor: "mid",
+      isDone: true,
+    });
+    expect(pages.slice(1).map((page) => page.paginationOpts)).toMatchObject([
+      { cursor: null, endCursor: "mid" },
+      { cursor: "mid", endCursor: "end" },
+    ]);
+    pages[1].onResult({
+      page: ["a", "b"],
+      continueCursor: "mid",
+      isDone: false,
+    });
+    expect(pages[0].unsubscribed).toBe(false);
+    pages[2].onResult({ page: ["c"], continueCursor: "end", isDone: true });
+    expect(pages[0].unsubscribed).toBe(true);
+    expect(paginatedQuery.value).toEqual({
+      results: ["a", "b", "c"],
+      status: "Exhausted",
+    });
+  });
+
+  test("restarts on invalid cursors", () => {
+    const { pages, onError, paginatedQuery } = setup();
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    pages[0].onResult({ page: ["a"], continueCursor: "c1", isDone: false });
+    paginatedQuery.loadMore(1);
+    pages[1].onError(new Error("InvalidCursor: the query changed"));
+    expect(pages[0].unsubscribed).toBe(true);
+    expect(pages[1].unsubscribed).toBe(true);
+    expect(pages[2].paginationOpts).toMatchObject({ cursor: null });
+    expect(pages[2].paginationOpts.id).not.toEqual(pages[0].paginationOpts.id);
+    expect(paginatedQuery.value.status).toEqual("LoadingFirstPage");
+    expect(onError).not.toHaveBeenCalled();
+  });
+
+  test("reports other errors", () => {
+    const { pages, onError } = setup();
+    const error = new Error("boom");
+    pages[0].onError(error);
+    expect(onError).toHaveBeenCalledWith(error);
+  });
+
+  test("unsubscribes every page when closed", () => {
+    const { pages, updates, paginatedQuery } = setup();
+    pages[0].onResult({ page: ["a"], continueCursor: "c1", isDone: false });
+    paginatedQuery.loadMore(1);
+    paginatedQuery.close();
+    expect(pages.every((page) => page.unsubscribed)).toBe(true);
+    expect(paginatedQuery.loadMore(1)).toBe(false);
+    expect(updates).toHaveLength(2);
+  });
+});
@@ -0,0 +1,304 @@
+import { PaginationResult } from "../server/index.js";
+import { Value } from "../values/index.js";
+
+/**
+ * The status of a paginated query subscription.
+ *
+ * - "LoadingFirstPage": The first page of results is loading.
+ * - "CanLoadMore": The query may have more results. Call `loadMore` to load
+ * another page.
+ * - "LoadingMore": Another page of results is loading.
+ * - "Exhausted": All the results are loaded.
+ *
+ * @public
+ */
+export type PaginatedQueryStatus =
+  | "LoadingFirstPage"
+  | "CanLoadMore"
+  | "LoadingMore"
+  | "Exhausted";
+
+/**
+ * The results of a paginated query subscription, passed to the callback of
+ * {@link ConvexClient.onPaginatedUpdate}.
+ *
+ * @public
+ */
+export type PaginatedQueryResult<Item> = {
+  /** The results of all the loaded pages, concatenated. */
+  results: Item[];
+  /** The status of the subscription. */
+  status: PaginatedQueryStatus;
+};
+
+/**
+ * A subscription to a paginated query, returned by
+ * {@link ConvexClient.onPaginatedUpdate}.
+ *
+ * Like {@link Unsubscribe}, it can be called as a function to unsubscribe.
+ *
+ * @public
+ */
+export type PaginatedSubscription<Item> = {
+  /** Stop loading pages and calling the callback. */
+  (): void;
+  /** Stop loading pages and calling the callback. */
+  unsubscribe(): void;
+  /** The current status of the subscription. */
+  readonly status: PaginatedQueryStatus;
+  /**
+   * Load another page of results after the last loaded result.
+   *
+   * @param numItems - The number of items to load in the next page.
+   * @returns Whether a page started loading, which is only the case if the
+   * status is "CanLoadMore".
+   */
+  loadMore(numItems: number): boolean;
+  /** Get the results of the pages loaded so far. */
+  getCurrentValue(): PaginatedQueryResult<Item>;
+};
+
+/**
+ * Subscribe to a single page of a paginated query.
+ *
+ * Either `onResult` or `onError` must be called whenever the page's result
+ * changes. The returned function unsubscribes.
+ */
+export type PageSubscriber = (
+  args: Record<string, Value>,
+  onResult: (result: PaginationResult<Value>) => void,
+  onError: (error: Error) => void,
+) => () => void;
+
+type PageKey = number;
+
+type Page = {
+  args: Record<string, Value>;
+  result: PaginationResult<Value> | Error | undefined;
+  unsubscribe: () => void;
+};
+
+let paginationId = 0;
+
+/**
+ * Reactive pagination over a paginated query, independent of any UI
+ * framework. It keeps one subscription per page, so the pages stay gapless
+ * as documents are added and removed, and handles splitting pages that grow
+ * too large and restarting after invalid cursors, like
+ * {@link react.usePaginatedQuery}.
+ */
+export class PaginatedQuery {
+  private readonly subscribePage: PageSubscriber;
+  private readonly args: Record<string, Value>;
+  private readonly initialNumItems: number;
+  private readonly onChange: (result: PaginatedQueryResult<Value>) => void;
+  private readonly onError: (error: Error) => void;
+
+  private id = 0;
+  private nextPageKey: PageKey = 0;
+  private pageKeys: PageKey[] = [];
+  private pages = new Map<PageKey, Page>();
+  private ongoingSplits = new Map<PageKey, [PageKey, PageKey]>();
+  private current: PaginatedQueryResult<Value> = {
+    results: [],
+    status: "LoadingFirstPage",
+  };
+  private continueCursor: string | null = null;
+  private closed = false;
+
+  constructor(
+    subscribePage: PageSubscriber,
+    args: Record<string, Value>,
+    initialNumItems: number,
+    onChange: (result: PaginatedQueryResult<Value>) => void,
+    onError: (error: Error) => void,
+  ) {
+    if (typeof initialNumItems !== "number" || initialNumItems < 0) {
+      throw new Error(
+        `\`options.initialNumItems\` must be a positive number. Received \`${initialNumItems}\`.`,
+      );
+    }
+    this.subscribePage = subscribePage;
+    this.args = args;
+    this.initialNumItems = initialNumItems;
+    this.onChange = onChange;
+    this.onError = onError;
+    this.restart();
+  }
+
+  get value(): PaginatedQueryResult<Value> {
+    return this.current;
+  }
+
+  loadMore(numItems: number): boolean {
+    if (this.closed || this.current.status !== "CanLoadMore") {
+      return false;
+    }
+    this.pageKeys.push(
+      this.addPage({ numItems, cursor: this.continueCursor, id: this.id }),
+    );
+    this.update();
+    return true;
+  }
+
+  close() {
+    this.closed = true;
+    for (const page of this.pages.values()) {
+      page.unsubscribe();
+    }
+    this.pages.clear();
+  }
+
+  private restart() {
+    for (const page of this.pages.values()) {
+      page.unsubscribe();
+    }
+    this.pages.clear();
+    this.ongoingSplits.clear();
+    paginationId++;
+    this.id = paginationId;
+    this.pageKeys = [
+      this.addPage({
+        numItems: this.initialNumItems,
+        cursor: null,
+        id: this.id,
+      }),
+    ];
+  }
+
+  private addPage(paginationOpts: Record<string, Value>): PageKey {
+    const key = this.nextPageKey++;
+    const page: Page = {
+      args: { ...this.args, paginationOpts },
+      result: undefined,
+      unsubscribe: () => {},
+    };
+    this.pages.set(key, page);
+    // Results may arrive synchronously, so only update once the page is set
+    // up.
+    let subscribed = false;
+    const onResult = (result: PaginationResult<Value> | Error) => {
+      if (this.pages.get(key) !== page) {
+        return;
+      }
+      page.result = result;
+      if (subscribed) {
+        this.update();
+      }
+    };
+    page.unsubscribe = this.subscribePage(page.args, onResult, onResult);
+    subscribed = true;
+    return key;
+  }
+
+  private splitPage(key: PageKey, splitCursor: string, continueCursor: string) {
+    const paginationOpts = this.pages.get(key)!.args.paginationOpts as Record<
+      string,
+      Value
+    >;
+    this.ongoingSplits.set(key, [
+      this.addPage({ ...paginationOpts, endCursor: splitCursor }),
+      this.addPage({
+        ...paginationOpts,
+        cursor: splitCursor,
+        endCursor: continueCursor,
+      }),
+    ]);
+  }
+
+  private completeSplit(key: PageKey) {
+    const split = this.ongoingSplits.get(key)!;
+    this.ongoingSplits.delete(key);
+    this.pages.get(key)!.unsubscribe();
+    this.pages.delete(key);
+    const pageIndex = this.pageKeys.indexOf(key);
+    if (pageIndex >= 0) {
+      this.pageKeys.splice(pageIndex, 1, ...split);
+    }
+  }
+
+  // Recompute the results from the pages, splitting pages as needed, and
+  // report them if they changed.
+  private update() {
+    if (this.closed) {
+      return;
+    }
+    const next = this.computeResult();
+    if (next === null) {
+      return;
+    }
+    if (
+      next.status !== this.current.status ||
+      next.results.length !== this.current.results.length ||
+      next.results.some((item, i) => item !== this.current.results[i])
+    ) {
+      this.current = next;
+      this.onChange(next);
+    }
+  }
+
+  // `null` if the pages changed and `update` was called again.
+  private computeResult(): PaginatedQueryResult<Value> | null {
+    const results: Value[] = [];
+    let lastResult: PaginationResult<Value> | undefined = undefined;
+    for (const pageKey of this.pageKeys) {
+      const result = this.pages.get(pageKey)!.result;
+      lastResult = undefined;
+      if (result === undefined) {
+        break;
+      }
+      if (result instanceof Error) {
+        if (result.message.includes("InvalidCursor")) {
+          // The paginated database query probably changed underneath us, so
+          // throw away all our cursors and start again.
+          console.warn(
+            "Paginated query hit error, resetting pagination state: " +
+              result.message,
+          );
+          this.restart();
+          this.update();
+        } else {
+          this.onError(result);
+        }
+        return null;
+      }
+      const ongoingSplit = this.ongoingSplits.get(pageKey);
+      if (ongoingSplit !== undefined) {
+        if (
+          ongoingSplit.every((key) => this.pages.get(key)!.result !== undefined)
+        ) {
+          // Both pages of the split have results now. Swap them in.
+          this.completeSplit(pageKey);
+          this.update();
+          return null;
+        }
+      } else if (
+        result.splitCursor &&
+        (result.pageStatus === "SplitRecommended" ||
+          result.pageStatus === "SplitRequired" ||
+          result.page.length > this.initialNumItems * 2)
+      ) {
+        // If a single page has more than double the expected number of
+        // items, or if the server requests a split, split the page into two.
+        this.splitPage(pageKey, result.splitCursor, result.continueCursor);
+      }
+      if (result.pageStatus === "SplitRequired") {
+        // The page is incomplete, so stop before it while it's splitting.
+        break;
+      }
+      results.push(...result.page);
+      lastResult = result;
+    }
+    if (lastResult === undefined) {
+      return {
+        results,
+        status: this.pageKeys.length === 1 ? "LoadingFirstPage" : "LoadingMore",
+      };
+    }
+    this.continueCursor = lastResult.continueCursor;
+    return {
+      results,
+      status: lastResult.isDone ? "Exhausted" : "CanLoadMore",
+    };
+  }
+}
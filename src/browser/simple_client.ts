@@ -9,9 +9,17 @@ import {
   FunctionArgs,
   FunctionReference,
   FunctionReturnType,
+  PaginationOptions,
+  PaginationResult,
 } from "../server/index.js";
 import { getFunctionName } from "../server/api.js";
 import { AuthTokenFetcher } from "./sync/authentication_manager.js";
+import { BetterOmit, Expand } from "../type_utils.js";
+import {
+  PaginatedQuery,
+  PaginatedQueryResult,
+  PaginatedSubscription,
+} from "./paginated_query.js";
 
 // In Node.js builds this points to a bundled WebSocket implementation. If no
 // WebSocket implementation is manually specified or globally available,
@@ -230,6 +238,96 @@ export class ConvexClient {
     return ret;
   }
 
+  /**
+   * Load a paginated query page by page, calling a callback whenever the
+   * loaded results change.
+   *
+   * This keeps every loaded page subscribed, so the results stay up to date
+   * without gaps as documents are added and removed. Pages that grow too
+   * large are split, and pagination restarts from the first page if a cursor
+   * becomes invalid, the same way as {@link react.usePaginatedQuery}.
+   *
+   * ```ts
+   * const messages = client.onPaginatedUpdate(
+   *   api.messages.list,
+   *   { channel: "#general" },
+   *   { initialNumItems: 10 },
+   *   ({ results, status }) => {
+   *     render(results, status);
+   *   },
+   * );
+   * // Later, e.g. when the user scrolls to the bottom:
+   * if (messages.status === "CanLoadMore") {
+   *   messages.loadMore(10);
+   * }
+   * ```
+   *
+   * @param query - A {@link server.FunctionReference} for the public query to
+   * run. It must take a `paginationOpts` argument and return a
+   * {@link server.PaginationResult}.
+   * @param args - The arguments to run the query with, excluding
+   * `paginationOpts`.
+   * @param options - An object specifying the `initialNumItems` to load in the
+   * first page.
+   * @param callback - Function to call when the loaded results or the status
+   * change.
+   * @param onError - Function to call when a page fails to load. If not
+   * provided, errors will be thrown instead of calling the callback.
+   *
+   * @return A {@link PaginatedSubscription} to load more pages and stop
+   * loading them.
+   */
+  onPaginatedUpdate<
+    Query extends FunctionReference<
+      "query",
+      "public",
+      { paginationOpts: PaginationOptions },
+      PaginationResult<any>
+    >,
+  >(
+    query: Query,
+    args: Expand<BetterOmit<FunctionArgs<Query>, "paginationOpts">>,
+    options: { initialNumItems: number },
+    callback: (
+      result: PaginatedQueryResult<FunctionReturnType<Query>["page"][number]>,
+    ) => unknown,
+    onError?: (e: Error) => unknown,
+  ): PaginatedSubscription<FunctionReturnType<Query>["page"][number]> {
+    const paginatedQuery = this.disabled
+      ? null
+      : new PaginatedQuery(
+          (pageArgs, onResult, onPageError) =>
+            this.onUpdate(query, pageArgs as any, onResult, onPageError),
+          args as Record<string, any>,
+          options?.initialNumItems,
+          callback,
+          (error) => {
+            if (onError) {
+              onError(error);
+            } else {
+              // Make some noise without unsubscribing.
+              void Promise.reject(error);
+            }
+          },
+        );
+    const unsubscribe = () => paginatedQuery?.close();
+    const subscriptionProps = {
+      unsubscribe,
+      loadMore: (numItems: number) =>
+        paginatedQuery?.loadMore(numItems) ?? false,
+      getCurrentValue: () =>
+        paginatedQuery?.value ?? {
+          results: [],
+          status: "LoadingFirstPage" as const,
+        },
+    };
+    const ret = Object.assign(unsubscribe, subscriptionProps);
+    Object.defineProperty(ret, "status", {
+      get: () => ret.getCurrentValue().status,
+    });
+    return ret as PaginatedSubscription<any>;
+  }
+
   // Run all callbacks that have never been run before if they have a query
   // result available now.
   private callNewListenersWithCurrentValues() {
@@ -9,13 +9,81 @@ import jwtDecode from "jwt-decode";
  * `forceRefreshToken` is `true` if the server rejected a previously
  * returned token, and the client should try to fetch a new one.
  *
+ * Tokens that aren't JWTs, or whose lifetime isn't described by their `iat`
+ * and `exp` claims, can be returned as an {@link AuthTokenWithExpiry} instead.
+ *
  * See {@link ConvexReactClient.setAuth}.
  *
  * @public
  */
 export type AuthTokenFetcher = (args: {
   forceRefreshToken: boolean;
-}) => Promise<string | null | undefined>;
+}) => Promise<string | AuthTokenWithExpiry | null | undefined>;
+
+/**
+ * An auth token along with how long it's valid for, so that the client knows
+ * when to fetch a new one without decoding the token.
+ *
+ * @public
+ */
+export type AuthTokenWithExpiry = {
+  token: string;
+  /**
+   * How many seconds from now the token expires, like the `expires_in` field
+   * of an OAuth 2.0 token response.
+   */
+  expiresIn: number;
+};
+
+/**
+ * Why the client gave up authenticating, see {@link AuthOptions.onAuthFailure}.
+ *
+ * - `"fetchFailed"`: The {@link AuthTokenFetcher} threw `error`, including on
+ *   every retry.
+ * - `"rejectedByServer"`: The server rejected the token with the message in
+ *   `error`, and fetching a new token didn't help.
+ *
+ * @public
+ */
+export type AuthFailure =
+  | { reason: "fetchFailed"; error: unknown }
+  | { reason: "rejectedByServer"; error: string };
+
+/**
+ * Options for how the client fetches and refreshes auth tokens. See
+ * {@link BaseConvexClientOptions.auth}.
+ *
+ * @public
+ */
+export interface AuthOptions {
+  /**
+   * How many seconds before a token expires to fetch a new one.
+   *
+   * The default value is `2`.
+   */
+  refreshLeeway?: number;
+  /**
+   * How many times to retry fetching a token when the
+   * {@link AuthTokenFetcher} throws, before giving up.
+   *
+   * The default value is `0`.
+   */
+  fetchRetries?: number;
+  /**
+   * The backoff before the first retry of a failed token fetch, in
+   * milliseconds. Backoffs double with every retry.
+   *
+   * The default value is `500`.
+   */
+  fetchRetryBackoff?: number;
+  /**
+   * Called when the client gives up authenticating, after `onChange` of
+   * {@link BaseConvexClient.setAuth} is called with `false`.
+   *
+   * The client doesn't try to authenticate again until `setAuth` is called.
+   */
+  onAuthFailure?: (failure: AuthFailure) => void;
+}
 
 /**
  * What is provided to the client.
@@ -25,6 +93,20 @@ type AuthConfig = {
   onAuthChange: (isAuthenticated: boolean) => void;
 };
 
+/**
+ * The result of fetching a token, see `fetchTokenAndGuardAgainstRace`.
+ */
+type FetchedToken =
+  | { isFromOutdatedConfig: true }
+  | {
+      isFromOutdatedConfig: false;
+      value: string | null | undefined;
+      // Seconds, if the fetcher returned an `AuthTokenWithExpiry`.
+      expiresIn?: number;
+      // Set if the fetcher threw on every attempt.
+      failure?: AuthFailure;
+    };
+
 /**
  * In general we take 3 steps:
  *   1. Fetch a possibly cached token
@@ -53,6 +135,7 @@ type AuthState =
       config: AuthConfig;
       hadAuth: boolean;
       token: string;
+      expiresIn: number | undefined;
     }
   | {
       state: "waitingForScheduledRefetch";
@@ -75,6 +158,8 @@ export class AuthenticationManager {
   // Used to detect races involving `setConfig` calls
   // while a token is being fetched.
   private configVersion = 0;
+  // Whether `setConfig` is fetching the first token of a config.
+  private isFetchingInitialToken = false;
   // Shared by the BaseClient so that the auth manager can easily inspect it
   private readonly syncState: LocalSyncState;
   // Passed down by BaseClient, sends a message to the server
@@ -83,7 +168,13 @@ export class AuthenticationManager {
   private readonly resumeSocket: () => void;
   // Passed down by BaseClient, sends a message to the server
   private readonly clearAuth: () => void;
+  // Passed down by BaseClient, called whenever `isPending()` may have changed
+  private readonly onStateChange: () => void;
   private readonly verbose: boolean;
+  private readonly refreshLeeway: number;
+  private readonly fetchRetries: number;
+  private readonly fetchRetryBackoff: number;
+  private readonly onAuthFailure: ((failure: AuthFailure) => void) | undefined;
 
   constructor(
     syncState: LocalSyncState,
@@ -92,13 +183,17 @@ export class AuthenticationManager {
       pauseSocket: pause,
       resumeSocket: resume,
       clearAuth,
+      onStateChange,
       verbose,
+      options,
     }: {
       authenticate: (token: string) => void;
       pauseSocket: () => Promise<void>;
       resumeSocket: () => void;
       clearAuth: () => void;
+      onStateChange: () => void;
       verbose: boolean;
+      options: AuthOptions;
     },
   ) {
     this.syncState = syncState;
@@ -106,7 +201,38 @@ export class AuthenticationManager {
     this.pauseSocket = pause;
     this.resumeSocket = resume;
     this.clearAuth = clearAuth;
+    this.onStateChange = onStateChange;
     this.verbose = verbose;
+    this.refreshLeeway = options.refreshLeeway ?? 2;
+    this.fetchRetries = options.fetchRetries ?? 0;
+    this.fetchRetryBackoff = options.fetchRetryBackoff ?? 500;
+    this.onAuthFailure = options.onAuthFailure;
+  }
+
+  /**
+   * Whether we're fetching a token or waiting for the server to confirm one,
+   * before we know whether the client is authenticated.
+   *
+   * Refreshing the token of an authenticated client doesn't count.
+   */
+  isPending(): boolean {
+    switch (this.authState.state) {
+      case "noAuth":
+        return this.isFetchingInitialToken;
+      case "waitingForServerConfirmationOfCachedToken":
+      case "initialRefetch":
+        return true;
+      case "waitingForServerConfirmationOfFreshToken":
+        return !this.authState.hadAuth;
+      case "waitingForScheduledRefetch":
+      case "notRefetching":
+        return false;
+      default: {
+        // Enforce that the switch-case is exhaustive.
+        const _: never = this.authState;
+        return false;
+      }
+    }
   }
 
   async setConfig(
@@ -114,12 +240,15 @@ export class AuthenticationManager {
     onChange: (isAuthenticated: boolean) => void,
   ) {
     this.resetAuthState();
+    this.isFetchingInitialToken = true;
+    this.onStateChange();
     const token = await this.fetchTokenAndGuardAgainstRace(fetchToken, {
       forceRefreshToken: false,
     });
     if (token.isFromOutdatedConfig) {
       return;
     }
+    this.isFetchingInitialToken = false;
     if (token.value) {
       this.setAuthState({
         state: "waitingForServerConfirmationOfCachedToken",
@@ -127,6 +256,9 @@ export class AuthenticationManager {
         hasRetried: false,
       });
       this.authenticate(token.value);
+    } else if (token.failure !== undefined) {
+      // The fetch was already retried, so don't retry it again by refetching.
+      this.setAndReportAuthFailed(onChange, token.failure);
     } else {
       this.setAuthState({
         state: "initialRefetch",
@@ -162,7 +294,7 @@ export class AuthenticationManager {
     }
     if (this.authState.state === "waitingForServerConfirmationOfFreshToken") {
       this._logVerbose("server confirmed new auth token is valid");
-      this.scheduleTokenRefetch(this.authState.token);
+      this.scheduleTokenRefetch(this.authState.token, this.authState.expiresIn);
       if (!this.authState.hadAuth) {
         this.authState.config.onAuthChange(true);
       }
@@ -207,7 +339,10 @@ export class AuthenticationManager {
         this.syncState.clearAuth();
       }
       if (this.authState.state !== "noAuth") {
-        this.setAndReportAuthFailed(this.authState.config.onAuthChange);
+        this.setAndReportAuthFailed(this.authState.config.onAuthChange, {
+          reason: "rejectedByServer",
+          error: serverMessage.error,
+        });
       }
       return;
     }
@@ -230,6 +365,7 @@ export class AuthenticationManager {
         state: "waitingForServerConfirmationOfFreshToken",
         config: this.authState.config,
         token: token.value,
+        expiresIn: token.expiresIn,
         hadAuth:
           this.authState.state === "notRefetching" ||
           this.authState.state === "waitingForScheduledRefetch",
@@ -239,7 +375,13 @@ export class AuthenticationManager {
       if (this.syncState.hasAuth()) {
         this.syncState.clearAuth();
       }
-      this.setAndReportAuthFailed(this.authState.config.onAuthChange);
+      this.setAndReportAuthFailed(
+        this.authState.config.onAuthChange,
+        token.failure ?? {
+          reason: "rejectedByServer",
+          error: serverMessage.error,
+        },
+      );
     }
     await this.resumeSocket();
   }
@@ -268,6 +410,7 @@ export class AuthenticationManager {
           state: "waitingForServerConfirmationOfFreshToken",
           hadAuth: this.syncState.hasAuth(),
           token: token.value,
+          expiresIn: token.expiresIn,
           config: this.authState.config,
         });
         this.authenticate(token.value);
@@ -282,37 +425,22 @@ export class AuthenticationManager {
       if (this.syncState.hasAuth()) {
         this.clearAuth();
       }
-      this.setAndReportAuthFailed(this.authState.config.onAuthChange);
+      this.setAndReportAuthFailed(
+        this.authState.config.onAuthChange,
+        token.failure,
+      );
     }
   }
 
-  private scheduleTokenRefetch(token: string) {
+  private scheduleTokenRefetch(token: string, expiresIn: number | undefined) {
     if (this.authState.state === "noAuth") {
       return;
     }
-    const decodedToken = this.decodeToken(token);
-    if (!decodedToken) {
-      // This is no longer really possible, because
-      // we wait on server response before scheduling token refetch,
-      // and the server currently requires JWT tokens.
-      console.error("Auth token is not a valid JWT, cannot refetch the token");
-      return;
-    }
-    // iat: issued at time, UTC seconds timestamp at which the JWT was issued
-    // exp: expiration time, UTC seconds timestamp at which the JWT will expire
-    const { iat, exp } = decodedToken as { iat?: number; exp?: number };
-    if (!iat || !exp) {
-      console.error(
-        "Auth token does not have required fields, cannot refetch the token",
-      );
+    const lifetime = expiresIn ?? this.tokenLifetime(token);
+    if (lifetime === null) {
       return;
     }
-    const leewaySeconds = 2;
-    // Because the client and server clocks may be out of sync,
-    // we only know that the token will expire after `exp - iat`,
-    // and since we just fetched a fresh one we know when that
-    // will happen.
-    const delay = (exp - iat - leewaySeconds) * 1000;
+    const delay = (lifetime - this.refreshLeeway) * 1000;
     if (delay <= 0) {
       console.error(
         "Auth token does not live long enough, cannot refetch the token",
@@ -332,24 +460,84 @@ export class AuthenticationManager {
     );
   }
 
+  // The lifetime of a JWT in seconds, or `null` if we can't tell.
+  private tokenLifetime(token: string): number | null {
+    const decodedToken = this.decodeToken(token);
+    if (!decodedToken) {
+      // This is no longer really possible, because
+      // we wait on server response before scheduling token refetch,
+      // and the server currently requires JWT tokens.
+      console.error("Auth token is not a valid JWT, cannot refetch the token");
+      return null;
+    }
+    // iat: issued at time, UTC seconds timestamp at which the JWT was issued
+    // exp: expiration time, UTC seconds timestamp at which the JWT will expire
+    const { iat, exp } = decodedToken as { iat?: number; exp?: number };
+    if (!iat || !exp) {
+      console.error(
+        "Auth token does not have required fields, cannot refetch the token",
+      );
+      return null;
+    }
+    // Because the client and server clocks may be out of sync,
+    // we only know that the token will expire after `exp - iat`,
+    // and since we just fetched a fresh one we know when that
+    // will happen.
+    return exp - iat;
+  }
+
   // Protects against simultaneous calls to `setConfig`
-  // while we're fetching a token
+  // while we're fetching a token, and retries failed fetches.
   private async fetchTokenAndGuardAgainstRace(
     fetchToken: AuthTokenFetcher,
     fetchArgs: {
       forceRefreshToken: boolean;
     },
-  ) {
+  ): Promise<FetchedToken> {
     const originalConfigVersion = ++this.configVersion;
-    const token = await fetchToken(fetchArgs);
-    if (this.configVersion !== originalConfigVersion) {
-      // This is a stale config
-      return { isFromOutdatedConfig: true };
+    for (let retries = 0; ; retries++) {
+      let token: Awaited<ReturnType<AuthTokenFetcher>>;
+      try {
+        token = await fetchToken(fetchArgs);
+      } catch (error) {
+        if (this.configVersion !== originalConfigVersion) {
+          return { isFromOutdatedConfig: true };
+        }
+        if (retries >= this.fetchRetries) {
+          console.error(`Failed to fetch auth token: ${error as any}`);
+          return {
+            isFromOutdatedConfig: false,
+            value: null,
+            failure: { reason: "fetchFailed", error },
+          };
+        }
+        const backoff = this.fetchRetryBackoff * Math.pow(2, retries);
+        this._logVerbose(
+          `fetching auth token failed, retrying in ${backoff}ms`,
+        );
+        await new Promise((resolve) => setTimeout(resolve, backoff));
+        if (this.configVersion !== originalConfigVersion) {
+          return { isFromOutdatedConfig: true };
+        }
+        continue;
+      }
+      if (this.configVersion !== originalConfigVersion) {
+        // This is a stale config
+        return { isFromOutdatedConfig: true };
+      }
+      if (token !== null && typeof token === "object") {
+        return {
+          isFromOutdatedConfig: false,
+          value: token.token,
+          expiresIn: token.expiresIn,
+        };
+      }
+      return { isFromOutdatedConfig: false, value: token };
     }
-    return { isFromOutdatedConfig: false, value: token };
   }
 
   stop() {
+    this.isFetchingInitialToken = false;
     this.resetAuthState();
     // Bump this in case we are mid-token-fetch when we get stopped
     this.configVersion++;
@@ -357,9 +545,13 @@ export class AuthenticationManager {
 
   private setAndReportAuthFailed(
     onAuthChange: (authenticated: boolean) => void,
+    failure?: AuthFailure,
   ) {
     onAuthChange(false);
     this.resetAuthState();
+    if (failure !== undefined) {
+      this.onAuthFailure?.(failure);
+    }
   }
 
   private resetAuthState() {
@@ -375,6 +567,7 @@ export class AuthenticationManager {
       this.syncState.markAuthCompletion();
     }
     this.authState = newAuth;
+    this.onStateChange();
   }
 
   private decodeToken(token: string) {
@@ -0,0 +1,83 @@
+import { test, expect } from "vitest";
+
+import { convexToJson, jsonToConvex, Value } from "../../values/index.js";
+import { decodeCbor, encodeCbor } from "./cbor.js";
+
+function hex(bytes: Uint8Array) {
+  return Buffer.from(bytes).toString("hex");
+}
+
+function fromHex(encoded: string) {
+  return new Uint8Array(Buffer.from(encoded, "hex"));
+}
+
+test("encodes JSON values like RFC 8949", () => {
+  expect(hex(encodeCbor(0))).toEqual("00");
+  expect(hex(encodeCbor(100))).toEqual("1864");
+  expect(hex(encodeCbor(1000000))).toEqual("1a000f4240");
+  expect(hex(encodeCbor(-1000))).toEqual("3903e7");
+  expect(hex(encodeCbor(1.1))).toEqual("fb3ff199999999999a");
+  expect(hex(encodeCbor(null))).toEqual("f6");
+  expect(hex(encodeCbor(true))).toEqual("f5");
+  expect(hex(encodeCbor("ü"))).toEqual("62c3bc");
+  expect(hex(encodeCbor([1, [2, 3]]))).toEqual("8201820203");
+  expect(hex(encodeCbor({ a: 1, b: [2, 3] }))).toEqual("a26161016162820203");
+});
+
+test("decodes the encodings RFC 8949 allows", () => {
+  expect(decodeCbor(fromHex("1b001fffffffffffff"))).toEqual(
+    Number.MAX_SAFE_INTEGER,
+  );
+  expect(decodeCbor(fromHex("f93c00"))).toEqual(1);
+  expect(decodeCbor(fromHex("f9c400"))).toEqual(-4);
+  expect(decodeCbor(fromHex("fa47c35000"))).toEqual(100000);
+  expect(() => decodeCbor(fromHex("1bffffffffffffffff"))).toThrow("too large");
+  expect(() => decodeCbor(fromHex("9f0102ff"))).toThrow(
+    "Unsupported CBOR additional information 31",
+  );
+  expect(() => decodeCbor(fromHex("0000"))).toThrow("trailing bytes");
+  expect(() => decodeCbor(fromHex("8201"))).toThrow("Unexpected end");
+});
+
+test("represents int64s, bytes and special floats natively", () => {
+  const value = {
+    bytes: new Uint8Array([1, 2, 3]).buffer,
+    negative: BigInt(-2),
+    positive: BigInt(256),
+    zero: BigInt(0),
+  };
+  expect(hex(encodeCbor(convexToJson(value)))).toEqual(
+    "a4" +
+      "656279746573" +
+      "43010203" +
+      "686e65676174697665" +
+      "c34101" +
+      "68706f736974697665" +
+      "c2420100" +
+      "647a65726f" +
+      "c240",
+  );
+});
+
+test("round trips Convex values", () => {
+  const values: Value[] = [
+    BigInt("9223372036854775807"),
+    BigInt("-9223372036854775808"),
+    NaN,
+    -0,
+    Infinity,
+    2 ** 60,
+    -0.5,
+    "",
+    "emoji 🎉",
+    new Uint8Array(300).fill(7).buffer,
+    { nested: [{ deeply: [null, false, BigInt(1)] }] },
+    Array.from({ length: 70000 }, (_, i) => i),
+  ];
+  for (const value of values) {
+    const json = convexToJson(value);
+    const decoded = decodeCbor(encodeCbor(json));
+    expect(decoded).toEqual(json);
+    expect(jsonToConvex(decoded)).toEqual(value);
+  }
+});
@@ -0,0 +1,382 @@
+import { Base64, JSONValue } from "../../values/index.js";
+import { base64ToBigInt, bigIntToBase64 } from "../../values/value.js";
+
+/**
+ * A minimal [CBOR](https://www.rfc-editor.org/rfc/rfc8949) codec for the
+ * messages of the sync protocol.
+ *
+ * Messages are built from the JSON representation of Convex values, where
+ * int64s, bytes and special floats are wrapped in `{ $integer }`, `{ $bytes }`
+ * and `{ $float }` objects holding Base64 strings. CBOR represents these
+ * natively instead: int64s as bignums (tags 2 and 3), bytes as byte strings
+ * and special floats as float64s. That's where most of the savings over JSON
+ * come from.
+ *
+ * Only definite-length items are supported.
+ */
+
+const MAJOR_UNSIGNED = 0;
+const MAJOR_NEGATIVE = 1;
+const MAJOR_BYTES = 2;
+const MAJOR_TEXT = 3;
+const MAJOR_ARRAY = 4;
+const MAJOR_MAP = 5;
+const MAJOR_TAG = 6;
+const MAJOR_SIMPLE = 7;
+
+const TAG_POSITIVE_BIGNUM = 2;
+const TAG_NEGATIVE_BIGNUM = 3;
+
+const FALSE = 0xf4;
+const TRUE = 0xf5;
+const NULL = 0xf6;
+const FLOAT64 = 0xfb;
+
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+const EIGHT = BigInt(8);
+const BYTE_MASK = BigInt(0xff);
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+/**
+ * Encode a protocol message as CBOR.
+ */
+export function encodeCbor(value: JSONValue): Uint8Array {
+  const writer = new CborWriter();
+  writer.writeValue(value);
+  return writer.finish();
+}
+
+/**
+ * Decode a protocol message encoded as CBOR.
+ */
+export function decodeCbor(data: ArrayBuffer | Uint8Array): JSONValue {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  const reader = new CborReader(bytes);
+  const value = reader.readValue();
+  if (!reader.done()) {
+    throw new Error("Unexpected trailing bytes after CBOR message");
+  }
+  return value;
+}
+
+class CborWriter {
+  private bytes = new Uint8Array(256);
+  private view = new DataView(this.bytes.buffer);
+  private length = 0;
+
+  finish(): Uint8Array {
+    return this.bytes.slice(0, this.length);
+  }
+
+  writeValue(value: JSONValue | undefined) {
+    if (value === null || value === undefined) {
+      // Like `JSON.stringify`, encode `undefined` array elements as `null`.
+      this.writeByte(NULL);
+    } else if (typeof value === "boolean") {
+      this.writeByte(value ? TRUE : FALSE);
+    } else if (typeof value === "number") {
+      this.writeNumber(value);
+    } else if (typeof value === "string") {
+      const utf8 = textEncoder.encode(value);
+      this.writeHead(MAJOR_TEXT, utf8.length);
+      this.writeBytes(utf8);
+    } else if (Array.isArray(value)) {
+      this.writeHead(MAJOR_ARRAY, value.length);
+      for (const item of value) {
+        this.writeValue(item);
+      }
+    } else {
+      this.writeObject(value);
+    }
+  }
+
+  private writeObject(value: { [key: string]: JSONValue }) {
+    const entries = Object.entries(value).filter(
+      ([, item]) => item !== undefined,
+    );
+    if (entries.length === 1) {
+      const [key, item] = entries[0];
+      if (key === "$integer" && typeof item === "string") {
+        this.writeBigInt(base64ToBigInt(item));
+        return;
+      }
+      if (key === "$bytes" && typeof item === "string") {
+        const bytes = Base64.toByteArray(item);
+        this.writeHead(MAJOR_BYTES, bytes.length);
+        this.writeBytes(bytes);
+        return;
+      }
+      if (key === "$float" && typeof item === "string") {
+        const floatBytes = Base64.toByteArray(item);
+        this.writeFloat(new DataView(floatBytes.buffer).getFloat64(0, true));
+        return;
+      }
+    }
+    this.writeHead(MAJOR_MAP, entries.length);
+    for (const [key, item] of entries) {
+      this.writeValue(key);
+      this.writeValue(item);
+    }
+  }
+
+  private writeNumber(value: number) {
+    if (Number.isSafeInteger(value) && !Object.is(value, -0)) {
+      if (value >= 0) {
+        this.writeHead(MAJOR_UNSIGNED, value);
+      } else {
+        this.writeHead(MAJOR_NEGATIVE, -1 - value);
+      }
+    } else {
+      this.writeFloat(value);
+    }
+  }
+
+  private writeFloat(value: number) {
+    this.reserve(9);
+    this.bytes[this.length] = FLOAT64;
+    this.view.setFloat64(this.length + 1, value);
+    this.length += 9;
+  }
+
+  private writeBigInt(value: bigint) {
+    let magnitude = value;
+    if (value < ZERO) {
+      this.writeHead(MAJOR_TAG, TAG_NEGATIVE_BIGNUM);
+      magnitude = -ONE - value;
+    } else {
+      this.writeHead(MAJOR_TAG, TAG_POSITIVE_BIGNUM);
+    }
+    // Bignums are big-endian without leading zero bytes.
+    const bytes: number[] = [];
+    while (magnitude > ZERO) {
+      bytes.unshift(Number(magnitude & BYTE_MASK));
+      magnitude >>= EIGHT;
+    }
+    this.writeHead(MAJOR_BYTES, bytes.length);
+    this.writeBytes(bytes);
+  }
+
+  private writeHead(major: number, argument: number) {
+    const type = major << 5;
+    if (argument < 24) {
+      this.writeByte(type | argument);
+    } else if (argument < 0x100) {
+      this.reserve(2);
+      this.bytes[this.length] = type | 24;
+      this.bytes[this.length + 1] = argument;
+      this.length += 2;
+    } else if (argument < 0x10000) {
+      this.reserve(3);
+      this.bytes[this.length] = type | 25;
+      this.view.setUint16(this.length + 1, argument);
+      this.length += 3;
+    } else if (argument < 0x100000000) {
+      this.reserve(5);
+      this.bytes[this.length] = type | 26;
+      this.view.setUint32(this.length + 1, argument);
+      this.length += 5;
+    } else {
+      this.reserve(9);
+      this.bytes[this.length] = type | 27;
+      this.view.setUint32(this.length + 1, Math.floor(argument / 0x100000000));
+      this.view.setUint32(this.length + 5, argument % 0x100000000);
+      this.length += 9;
+    }
+  }
+
+  private writeByte(byte: number) {
+    this.reserve(1);
+    this.bytes[this.length] = byte;
+    this.length += 1;
+  }
+
+  private writeBytes(bytes: ArrayLike<number>) {
+    this.reserve(bytes.length);
+    this.bytes.set(bytes, this.length);
+    this.length += bytes.length;
+  }
+
+  private reserve(count: number) {
+    if (this.length + count <= this.bytes.length) {
+      return;
+    }
+    let size = this.bytes.length * 2;
+    while (size < this.length + count) {
+      size *= 2;
+    }
+    const bytes = new Uint8Array(size);
+    bytes.set(this.bytes.subarray(0, this.length));
+    this.bytes = bytes;
+    this.view = new DataView(bytes.buffer);
+  }
+}
+
+class CborReader {
+  private readonly bytes: Uint8Array;
+  private readonly view: DataView;
+  private offset = 0;
+
+  constructor(bytes: Uint8Array) {
+    this.bytes = bytes;
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  done(): boolean {
+    return this.offset === this.bytes.length;
+  }
+
+  readValue(): JSONValue {
+    const initialByte = this.readUint8();
+    const major = initialByte >> 5;
+    const info = initialByte & 0x1f;
+    switch (major) {
+      case MAJOR_UNSIGNED:
+        return this.readArgument(info);
+      case MAJOR_NEGATIVE:
+        return -1 - this.readArgument(info);
+      case MAJOR_BYTES:
+        return {
+          $bytes: Base64.fromByteArray(this.readBytes(this.readArgument(info))),
+        };
+      case MAJOR_TEXT:
+        return textDecoder.decode(this.readBytes(this.readArgument(info)));
+      case MAJOR_ARRAY: {
+        const length = this.readArgument(info);
+        const array: JSONValue[] = [];
+        for (let i = 0; i < length; i++) {
+          array.push(this.readValue());
+        }
+        return array;
+      }
+      case MAJOR_MAP: {
+        const length = this.readArgument(info);
+        const object: { [key: string]: JSONValue } = {};
+        for (let i = 0; i < length; i++) {
+          const key = this.readValue();
+          if (typeof key !== "string") {
+            throw new Error("CBOR map keys must be strings");
+          }
+          object[key] = this.readValue();
+        }
+        return object;
+      }
+      case MAJOR_TAG:
+        return this.readTagged(this.readArgument(info));
+      case MAJOR_SIMPLE:
+        return this.readSimple(info);
+      default:
+        throw new Error(`Invalid CBOR major type ${major}`);
+    }
+  }
+
+  private readTagged(tag: number): JSONValue {
+    if (tag !== TAG_POSITIVE_BIGNUM && tag !== TAG_NEGATIVE_BIGNUM) {
+      throw new Error(`Unsupported CBOR tag ${tag}`);
+    }
+    const initialByte = this.readUint8();
+    if (initialByte >> 5 !== MAJOR_BYTES) {
+      throw new Error("CBOR bignums must be byte strings");
+    }
+    let magnitude = ZERO;
+    for (const byte of this.readBytes(this.readArgument(initialByte & 0x1f))) {
+      magnitude = (magnitude << EIGHT) | BigInt(byte);
+    }
+    const value = tag === TAG_POSITIVE_BIGNUM ? magnitude : -ONE - magnitude;
+    return { $integer: bigIntToBase64(value) };
+  }
+
+  private readSimple(info: number): JSONValue {
+    let value: number;
+    switch (info) {
+      case 20:
+        return false;
+      case 21:
+        return true;
+      case 22:
+        return null;
+      case 25:
+        value = decodeFloat16(this.view.getUint16(this.advance(2)));
+        break;
+      case 26:
+        value = this.view.getFloat32(this.advance(4));
+        break;
+      case 27:
+        value = this.view.getFloat64(this.advance(8));
+        break;
+      default:
+        throw new Error(`Unsupported CBOR simple value ${info}`);
+    }
+    if (
+      Number.isNaN(value) ||
+      !Number.isFinite(value) ||
+      Object.is(value, -0)
+    ) {
+      // JSON can't represent these, so wrap them like `convexToJson` does.
+      const floatBytes = new Uint8Array(8);
+      new DataView(floatBytes.buffer).setFloat64(0, value, true);
+      return { $float: Base64.fromByteArray(floatBytes) };
+    }
+    return value;
+  }
+
+  private readArgument(info: number): number {
+    if (info < 24) {
+      return info;
+    }
+    switch (info) {
+      case 24:
+        return this.readUint8();
+      case 25:
+        return this.view.getUint16(this.advance(2));
+      case 26:
+        return this.view.getUint32(this.advance(4));
+      case 27: {
+        const offset = this.advance(8);
+        const value =
+          this.view.getUint32(offset) * 0x100000000 +
+          this.view.getUint32(offset + 4);
+        if (!Number.isSafeInteger(value)) {
+          throw new Error(`CBOR integer ${value} is too large`);
+        }
+        return value;
+      }
+      default:
+        throw new Error(`Unsupported CBOR additional information ${info}`);
+    }
+  }
+
+  private readUint8(): number {
+    return this.bytes[this.advance(1)];
+  }
+
+  private readBytes(length: number): Uint8Array {
+    const offset = this.advance(length);
+    return this.bytes.subarray(offset, offset + length);
+  }
+
+  // Move past `length` bytes and return the offset they start at.
+  private advance(length: number): number {
+    const offset = this.offset;
+    if (offset + length > this.bytes.length) {
+      throw new Error("Unexpected end of CBOR message");
+    }
+    this.offset += length;
+    return offset;
+  }
+}
+
+function decodeFloat16(half: number): number {
+  const exponent = (half >> 10) & 0x1f;
+  const fraction = half & 0x3ff;
+  const sign = half & 0x8000 ? -1 : 1;
+  if (exponent === 0) {
+    return sign * fraction * 2 ** -24;
+  }
+  if (exponent === 0x1f) {
+    return fraction === 0 ? sign * Infinity : NaN;
+  }
+  return sign * (1024 + fraction) * 2 ** (exponent - 25);
+}
@@ -1,5 +1,6 @@
+import jwtDecode from "jwt-decode";
 import { version } from "../../index.js";
-import { convexToJson, Value } from "../../values/index.js";
+import { convexToJson, jsonToConvex, Value } from "../../values/index.js";
 import {
   createHybridErrorStacktrace,
   forwardData,
@@ -26,18 +27,40 @@ import {
   UserIdentityAttributes,
 } from "./protocol.js";
 import { RemoteQuerySet } from "./remote_query_set.js";
-import { QueryToken, serializePathAndArgs } from "./udf_path_utils.js";
-import { ReconnectMetadata, WebSocketManager } from "./web_socket_manager.js";
+import {
+  canonicalizeUdfPath,
+  QueryToken,
+  serializePathAndArgs,
+} from "./udf_path_utils.js";
+import {
+  MessageEncoding,
+  ReconnectMetadata,
+  ReconnectOptions,
+  WebSocketManager,
+} from "./web_socket_manager.js";
 import { newSessionId } from "./session.js";
 import { FunctionResult } from "./function_result.js";
 import {
   AuthenticationManager,
+  AuthOptions,
   AuthTokenFetcher,
 } from "./authentication_manager.js";
-export { type AuthTokenFetcher } from "./authentication_manager.js";
+export {
+  type AuthFailure,
+  type AuthOptions,
+  type AuthTokenFetcher,
+  type AuthTokenWithExpiry,
+} from "./authentication_manager.js";
 import { getMarksReport, mark, MarkName } from "./metrics.js";
 import { parseArgs, validateDeploymentUrl } from "../../common/index.js";
 import { ConvexError } from "../../values/errors.js";
+import {
+  PersistedQuery,
+  PersistenceOptions,
+  QueryResultPersistence,
+} from "./persistence.js";
+import { MutationOutbox, MutationOutboxOptions } from "./mutation_outbox.js";
+import { QueryCache, QueryCacheOptions } from "./query_cache.js";
 
 /**
  * Options for {@link BaseConvexClient}.
@@ -83,6 +106,70 @@ export interface BaseConvexClientOptions {
    * The default value is `false`
    */
   skipConvexDeploymentUrlCheck?: boolean;
+  /**
+   * Persist query results to a {@link PersistenceStorage} so that a newly
+   * constructed client can serve the results of a previous session before
+   * the WebSocket connects.
+   *
+   * Restored results are considered stale until the server sends a fresh
+   * result for the query, see {@link BaseConvexClient.localQueryResultIsStale}.
+   * Persisted results are cleared when {@link BaseConvexClient.setAuth}
+   * authenticates a different user than the previous token.
+   *
+   * By default query results are not persisted.
+   */
+  persistence?: PersistenceOptions;
+  /**
+   * Persist mutations to a {@link PersistenceStorage} until they complete, so
+   * that mutations requested while offline survive the page being closed.
+   *
+   * Mutations restored from a previous session are replayed in their original
+   * order once the client is constructed, before any new mutations are sent,
+   * or once the client is authenticated with
+   * {@link MutationOutboxOptions.waitForAuth}. A mutation that committed right
+   * before the previous session ended may run a second time, so mutations
+   * should be safe to retry. Replayed mutations that the server fails are
+   * removed from storage and reported to
+   * {@link MutationOutboxOptions.onReplayFailure}. Pending mutations are forgotten when
+   * {@link BaseConvexClient.setAuth} authenticates a different user than the
+   * previous token.
+   *
+   * By default pending mutations are only kept in memory.
+   */
+  mutationOutbox?: MutationOutboxOptions;
+  /**
+   * Keep queries subscribed for a while after their last subscriber
+   * unsubscribes, so that subscribing to them again doesn't have to wait for
+   * the server. See {@link QueryCacheOptions}.
+   *
+   * By default queries are unsubscribed right away.
+   */
+  queryCache?: QueryCacheOptions;
+  /**
+   * Configure how the client reconnects its WebSocket after losing the
+   * connection, and how long it waits for the server before considering the
+   * connection lost. See {@link ReconnectOptions}.
+   *
+   * By default the client keeps reconnecting with an exponential backoff of
+   * up to 16 seconds.
+   */
+  reconnect?: ReconnectOptions;
+  /**
+   * How to encode the messages the client exchanges with the Convex backend,
+   * see {@link MessageEncoding}.
+   *
+   * With `"cbor"` the client offers CBOR when it connects, and falls back to
+   * JSON if the backend doesn't accept it.
+   *
+   * The default value is `"json"`.
+   */
+  messageEncoding?: MessageEncoding;
+  /**
+   * Configure how the client refreshes auth tokens set with
+   * {@link BaseConvexClient.setAuth}, and get notified when authentication
+   * fails for good. See {@link AuthOptions}.
+   */
+  auth?: AuthOptions;
 }
 
 /**
@@ -94,6 +181,35 @@ export type ConnectionState = {
   hasInflightRequests: boolean;
   isWebSocketConnected: boolean;
   timeOfOldestInflightRequest: Date | null;
+  /**
+   * The number of times the WebSocket has connected to the backend.
+   */
+  connectionCount: number;
+  /**
+   * The number of consecutive attempts to reconnect since the connection was
+   * last healthy.
+   */
+  connectionRetries: number;
+  /**
+   * Why the WebSocket last closed, or `null` while it's connected.
+   */
+  lastCloseReason: string | null;
+  /**
+   * How long, in milliseconds, the client is waiting before trying to
+   * reconnect, or `null` if it isn't waiting to reconnect.
+   */
+  reconnectBackoff: number | null;
+  /**
+   * Whether the client is fetching an auth token or waiting for the backend
+   * to confirm it, before it knows whether it's authenticated.
+   */
+  isAuthPending: boolean;
+  /**
+   * Whether the client ran out of reconnect attempts, see
+   * {@link ReconnectOptions.maxAttempts}. The client stays disconnected until
+   * {@link BaseConvexClient.reconnectNow} is called.
+   */
+  gaveUpReconnecting: boolean;
 };
 
 /**
@@ -110,6 +226,14 @@ export interface SubscribeOptions {
    * name and arguments, this journal will have no effect.
    */
   journal?: QueryJournal;
+  /**
+   * How long, in milliseconds, to keep the query subscribed after its last
+   * subscriber unsubscribes.
+   *
+   * The default value is {@link QueryCacheOptions.keepAliveMs} of the
+   * client's {@link BaseConvexClientOptions.queryCache}.
+   */
+  keepAliveMs?: number;
 }
 
 /**
@@ -151,6 +275,30 @@ export class BaseConvexClient {
   private readonly verbose: boolean;
   private readonly debug: boolean;
   private maxObservedTimestamp: TS | undefined;
+  private readonly persistence: QueryResultPersistence | undefined;
+  // Persisted query results that the server hasn't sent a fresh result for yet.
+  private readonly restoredQueryResults: Map<QueryToken, PersistedQuery>;
+  // Saving before the persisted results are loaded would overwrite them.
+  private queryResultsRestored = false;
+  private readonly mutationOutbox: MutationOutbox | undefined;
+  // The user of the last token sent to the server, `undefined` until one is.
+  private authenticatedUser: string | null | undefined = undefined;
+  // Resolves once mutations from a previous session have been loaded and,
+  // unless they wait for auth, requested.
+  private readonly outboxLoaded: Promise<void>;
+  private readonly onReplayedMutationFailure:
+    | MutationOutboxOptions["onReplayFailure"]
+    | undefined;
+  private readonly outboxOptimisticUpdates: Record<
+    string,
+    OptimisticUpdate<any>
+  >;
+  private readonly queryCache: QueryCache;
+  private readonly connectionStateListeners = new Set<
+    (state: ConnectionState) => void
+  >();
+  // The last state passed to the listeners, to only notify them of changes.
+  private lastConnectionState: ConnectionState | null = null;
 
   /**
    * @param address - The url of your Convex deployment, often provided
@@ -208,6 +356,7 @@ export class BaseConvexClient {
     this.requestManager = new RequestManager();
     this.authenticationManager = new AuthenticationManager(this.state, {
       authenticate: (token) => {
+        this.checkAuthenticatedUser(token);
         const message = this.state.setAuth(token);
         this.webSocketManager.sendMessage(message);
       },
@@ -216,12 +365,47 @@ export class BaseConvexClient {
       clearAuth: () => {
         this.clearAuth();
       },
+      onStateChange: () => this.notifyConnectionStateChange(),
       verbose: this.verbose,
+      options: options.auth ?? {},
     });
     this.optimisticQueryResults = new OptimisticQueryResults();
     this.onTransition = onTransition;
     this._nextRequestId = 0;
     this._sessionId = newSessionId();
+    this.restoredQueryResults = new Map();
+    if (options.persistence !== undefined) {
+      this.persistence = new QueryResultPersistence(
+        options.persistence,
+        address,
+        this.verbose,
+      );
+      void this.restorePersistedQueryResults();
+    }
+    this.outboxOptimisticUpdates =
+      options.mutationOutbox?.optimisticUpdates ?? {};
+    this.onReplayedMutationFailure = options.mutationOutbox?.onReplayFailure;
+    if (options.mutationOutbox !== undefined) {
+      const mutationOutbox = new MutationOutbox(
+        options.mutationOutbox,
+        address,
+      );
+      const waitForAuth = options.mutationOutbox.waitForAuth ?? false;
+      this.mutationOutbox = mutationOutbox;
+      this.outboxLoaded = mutationOutbox.restore().then(() => {
+        if (!waitForAuth) {
+          this.replayPersistedMutations();
+        }
+      });
+    } else {
+      this.outboxLoaded = Promise.resolve();
+    }
+    this.queryCache = new QueryCache(options.queryCache ?? {}, (queryToken) => {
+      const modification = this.state.removeKeptAliveQuery(queryToken);
+      if (modification !== null) {
+        this.webSocketManager.sendMessage(modification);
+      }
+    });
 
     const { unsavedChangesWarning } = options;
     if (
@@ -300,6 +484,7 @@ export class BaseConvexClient {
               this.remoteQuerySet.timestamp(),
             );
             this.notifyOnQueryResultChanges(completedRequests);
+            this.persistQueryResults();
             break;
           }
           case "MutationResponse": {
@@ -332,13 +517,17 @@ export class BaseConvexClient {
             const _typeCheck: never = serverMessage;
           }
         }
+        this.notifyConnectionStateChange();
 
         return {
           hasSyncedPastLastReconnect: this.hasSyncedPastLastReconnect(),
         };
       },
+      () => this.notifyConnectionStateChange(),
       webSocketConstructor,
       this.verbose,
+      options.reconnect,
+      options.messageEncoding,
     );
     this.mark("convexClientConstructed");
   }
@@ -395,6 +584,21 @@ export class BaseConvexClient {
       }
     }
 
+    // Fall back to restored results for subscribed queries the server hasn't
+    // sent a result for yet. Once the server has sent one, the restored result
+    // is no longer needed.
+    for (const [queryToken, restored] of this.restoredQueryResults) {
+      if (queryTokenToValue.has(queryToken)) {
+        this.restoredQueryResults.delete(queryToken);
+      } else if (this.state.hasQuery(queryToken)) {
+        queryTokenToValue.set(queryToken, {
+          result: restored.result,
+          udfPath: restored.udfPath,
+          args: restored.args,
+        });
+      }
+    }
+
     this.onTransition(
       this.optimisticQueryResults.ingestQueryResultsFromServer(
         queryTokenToValue,
@@ -415,7 +619,14 @@ export class BaseConvexClient {
     fetchToken: AuthTokenFetcher,
     onChange: (isAuthenticated: boolean) => void,
   ) {
-    void this.authenticationManager.setConfig(fetchToken, onChange);
+    void this.authenticationManager.setConfig(fetchToken, (isAuthenticated) => {
+      if (isAuthenticated) {
+        // Only replays mutations that waited for auth, the others are already
+        // taken.
+        void this.outboxLoaded.then(() => this.replayPersistedMutations());
+      }
+      onChange(isAuthenticated);
+    });
   }
 
   hasAuth() {
@@ -433,6 +644,33 @@ export class BaseConvexClient {
     this.webSocketManager.sendMessage(message);
   }
 
+  // Auth is cleared and set again whenever a token is refreshed or a provider
+  // re-renders, so only forget the previous user's data once a token for a
+  // different user is sent.
+  private checkAuthenticatedUser(token: string) {
+    let user: string | null;
+    try {
+      const { iss, sub } = jwtDecode<{ iss?: string; sub?: string }>(token);
+      user = JSON.stringify([iss, sub]);
+    } catch (e) {
+      user = null;
+    }
+    const previousUser = this.authenticatedUser;
+    this.authenticatedUser = user;
+    if (previousUser === undefined || previousUser === user) {
+      return;
+    }
+    // Don't replay the pending mutations as the next user.
+    void this.mutationOutbox?.clear();
+    if (this.persistence !== undefined) {
+      void this.persistence.clear();
+      if (this.restoredQueryResults.size > 0) {
+        this.restoredQueryResults.clear();
+        this.notifyOnQueryResultChanges(new Set());
+      }
+    }
+  }
+
   /**
    * Subscribe to a query function.
    *
@@ -454,20 +692,33 @@ export class BaseConvexClient {
   ): { queryToken: QueryToken; unsubscribe: () => void } {
     const argsObject = parseArgs(args);
 
-    const { modification, queryToken, unsubscribe } = this.state.subscribe(
+    // Restored results are stored under canonical tokens.
+    const restored = this.restoredQueryResults.get(
+      serializePathAndArgs(name, argsObject),
+    );
+    const keepAliveMs =
+      options?.keepAliveMs ?? this.queryCache.defaultKeepAliveMs;
+    const { queryToken, modification, unsubscribe } = this.state.subscribe(
       name,
       argsObject,
-      options?.journal,
+      options?.journal ?? restored?.journal,
     );
+    this.queryCache.retain(queryToken);
     if (modification !== null) {
       this.webSocketManager.sendMessage(modification);
+      if (restored !== undefined) {
+        // Make the restored result available right away.
+        this.notifyOnQueryResultChanges(new Set());
+      }
     }
     return {
       queryToken,
       unsubscribe: () => {
-        const modification = unsubscribe();
+        const modification = unsubscribe(keepAliveMs > 0);
         if (modification) {
           this.webSocketManager.sendMessage(modification);
+        } else if (keepAliveMs > 0 && !this.state.hasSubscribers(queryToken)) {
+          this.queryCache.keepAlive(queryToken, keepAliveMs);
         }
       },
     };
@@ -488,6 +739,35 @@ export class BaseConvexClient {
     return this.optimisticQueryResults.queryResult(queryToken);
   }
 
+  /**
+   * Whether the local result for a query was restored from
+   * {@link BaseConvexClientOptions.persistence} and has not been confirmed by
+   * the server yet.
+   *
+   * @param udfPath - The name of the query.
+   * @param args - The arguments object for this query.
+   * @returns `true` if the result returned by
+   * {@link BaseConvexClient.localQueryResult} may be out of date.
+   */
+  localQueryResultIsStale(
+    udfPath: string,
+    args?: Record<string, Value>,
+  ): boolean {
+    const argsObject = parseArgs(args);
+    const queryToken = serializePathAndArgs(udfPath, argsObject);
+    return this.isStaleQueryResultByToken(queryToken);
+  }
+
+  /**
+   * @internal
+   */
+  isStaleQueryResultByToken(queryToken: QueryToken): boolean {
+    return (
+      this.restoredQueryResults.has(queryToken) &&
+      this.state.hasQuery(queryToken)
+    );
+  }
+
   /**
    * Get query result by query token based on current, local state
    *
@@ -548,14 +828,76 @@ export class BaseConvexClient {
    * @returns The {@link ConnectionState} with the Convex backend.
    */
   connectionState(): ConnectionState {
-    return {
+    const reconnectState = this.webSocketManager.reconnectState();
+    const state: ConnectionState = {
       hasInflightRequests: this.requestManager.hasInflightRequests(),
       isWebSocketConnected: this.webSocketManager.socketState() === "ready",
       timeOfOldestInflightRequest:
         this.requestManager.timeOfOldestInflightRequest(),
+      connectionCount: reconnectState.connectionCount,
+      connectionRetries: reconnectState.retries,
+      lastCloseReason: reconnectState.lastCloseReason,
+      reconnectBackoff: reconnectState.reconnectBackoff,
+      isAuthPending: this.authenticationManager.isPending(),
+      gaveUpReconnecting: this.webSocketManager.socketState() === "gaveUp",
+    };
+    // Return the same object while the state doesn't change so that callers
+    // can compare states by identity.
+    if (
+      this.lastConnectionState !== null &&
+      connectionStatesEqual(this.lastConnectionState, state)
+    ) {
+      return this.lastConnectionState;
+    }
+    return state;
+  }
+
+  /**
+   * Subscribe to changes of the {@link ConnectionState} between the client
+   * and the Convex backend.
+   *
+   * @param listener - Called with the new {@link ConnectionState} whenever it
+   * changes.
+   * @returns A function that unsubscribes the listener.
+   */
+  subscribeToConnectionState(
+    listener: (state: ConnectionState) => void,
+  ): () => void {
+    if (this.connectionStateListeners.size === 0) {
+      this.lastConnectionState = this.connectionState();
+    }
+    this.connectionStateListeners.add(listener);
+    return () => {
+      this.connectionStateListeners.delete(listener);
     };
   }
 
+  /**
+   * Try to reconnect the WebSocket right away instead of waiting for the
+   * backoff to elapse.
+   *
+   * This also restarts reconnecting after the client gave up because it ran
+   * out of {@link ReconnectOptions.maxAttempts}. It does nothing while the
+   * WebSocket is connected.
+   */
+  reconnectNow() {
+    this.webSocketManager.reconnectNow();
+  }
+
+  private notifyConnectionStateChange() {
+    if (this.connectionStateListeners.size === 0) {
+      return;
+    }
+    const state = this.connectionState();
+    if (state === this.lastConnectionState) {
+      return;
+    }
+    this.lastConnectionState = state;
+    for (const listener of this.connectionStateListeners) {
+      listener(state);
+    }
+  }
+
   /**
    * Execute a mutation function.
    *
@@ -595,24 +937,38 @@ export class BaseConvexClient {
     options?: MutationOptions,
   ): Promise<FunctionResult> {
     const mutationArgs = parseArgs(args);
+    if (this.mutationOutbox !== undefined) {
+      // Mutations from a previous session go first.
+      await this.outboxLoaded;
+    }
+    return this.requestMutation(
+      udfPath,
+      mutationArgs,
+      options?.optimisticUpdate,
+      false,
+    );
+  }
+
+  private requestMutation(
+    udfPath: string,
+    mutationArgs: Record<string, Value>,
+    optimisticUpdate: OptimisticUpdate<any> | undefined,
+    replayed: boolean,
+  ): Promise<FunctionResult> {
     this.tryReportLongDisconnect();
     const requestId = this.nextRequestId;
     this._nextRequestId++;
 
-    if (options !== undefined) {
-      const optimisticUpdate = options.optimisticUpdate;
-      if (optimisticUpdate !== undefined) {
-        const wrappedUpdate = (localQueryStore: OptimisticLocalStore) => {
-          optimisticUpdate(localQueryStore, mutationArgs);
-        };
+    if (optimisticUpdate !== undefined) {
+      const wrappedUpdate = (localQueryStore: OptimisticLocalStore) => {
+        optimisticUpdate(localQueryStore, mutationArgs);
+      };
 
-        const changedQueries =
-          this.optimisticQueryResults.applyOptimisticUpdate(
-            wrappedUpdate,
-            requestId,
-          );
-        this.onTransition(changedQueries);
-      }
+      const changedQueries = this.optimisticQueryResults.applyOptimisticUpdate(
+        wrappedUpdate,
+        requestId,
+      );
+      this.onTransition(changedQueries);
     }
 
     const message: MutationRequest = {
@@ -622,7 +978,25 @@ export class BaseConvexClient {
       args: [convexToJson(mutationArgs)],
     };
     const mightBeSent = this.webSocketManager.sendMessage(message);
-    return this.requestManager.request(message, mightBeSent);
+    const result = this.requestManager.request(message, mightBeSent);
+    this.notifyConnectionStateChange();
+    if (this.mutationOutbox !== undefined) {
+      const mutationOutbox = this.mutationOutbox;
+      mutationOutbox.add(message);
+      // Mutations without a response stay in storage for the next session.
+      // The server ran the ones with a response, so replaying one that failed
+      // would most likely fail again.
+      void result.then((result) => {
+        mutationOutbox.remove(requestId);
+        if (replayed && !result.success) {
+          this.onReplayedMutationFailure?.(
+            { udfPath, args: convexToJson(mutationArgs) },
+            result.errorMessage,
+          );
+        }
+      });
+    }
+    return result;
   }
 
   /**
@@ -667,7 +1041,9 @@ export class BaseConvexClient {
     };
 
     const mightBeSent = this.webSocketManager.sendMessage(message);
-    return this.requestManager.request(message, mightBeSent);
+    const result = this.requestManager.request(message, mightBeSent);
+    this.notifyConnectionStateChange();
+    return result;
   }
 
   /**
@@ -680,9 +1056,76 @@ export class BaseConvexClient {
    */
   async close(): Promise<void> {
     this.authenticationManager.stop();
+    this.queryCache.clear();
     return this.webSocketManager.stop();
   }
 
+  private async restorePersistedQueryResults() {
+    const persisted = await this.persistence!.load();
+    for (const [queryToken, query] of persisted) {
+      this.restoredQueryResults.set(queryToken, query);
+    }
+    this.queryResultsRestored = true;
+    if (persisted.size > 0) {
+      this.notifyOnQueryResultChanges(new Set());
+    }
+    // Persist the results received while loading.
+    this.persistQueryResults();
+  }
+
+  private replayPersistedMutations() {
+    if (this.mutationOutbox === undefined) {
+      return;
+    }
+    const optimisticUpdates = this.outboxOptimisticUpdates;
+    for (const mutation of this.mutationOutbox.takeRestored()) {
+      // Restored mutations don't have a caller waiting on the result. Failures
+      // are still logged by the RequestManager.
+      void this.requestMutation(
+        mutation.udfPath,
+        jsonToConvex(mutation.args) as Record<string, Value>,
+        optimisticUpdates[mutation.udfPath] ??
+          optimisticUpdates[canonicalizeUdfPath(mutation.udfPath)],
+        true,
+      );
+    }
+  }
+
+  private persistQueryResults() {
+    if (this.persistence === undefined || !this.queryResultsRestored) {
+      return;
+    }
+    // Until the server switches to the current identity, results may belong
+    // to the previous user, e.g. right after `clearAuth`.
+    if (
+      !this.state.isCurrentOrNewerAuthVersion(this.remoteQuerySet.identity())
+    ) {
+      return;
+    }
+    const queries = new Map<QueryToken, PersistedQuery>();
+    for (const [queryId, result] of this.remoteQuerySet.remoteQueryResults()) {
+      const queryToken = this.state.queryToken(queryId);
+      if (queryToken === null || !result.success) {
+        continue;
+      }
+      queries.set(queryToken, {
+        udfPath: this.state.queryPath(queryId)!,
+        args: this.state.queryArgs(queryId)!,
+        result,
+        journal: this.state.queryJournal(queryToken),
+      });
+    }
+    // Keep restored results that haven't been confirmed yet so that results
+    // for queries that weren't subscribed to during this session survive,
+    // after the current ones so they're the first to be evicted.
+    for (const [queryToken, query] of this.restoredQueryResults) {
+      if (!queries.has(queryToken)) {
+        queries.set(queryToken, query);
+      }
+    }
+    this.persistence.save(queries);
+  }
+
   /**
    * @internal
    */
@@ -753,3 +1196,18 @@ export class BaseConvexClient {
       });
   }
 }
+
+function connectionStatesEqual(a: ConnectionState, b: ConnectionState) {
+  return (
+    a.hasInflightRequests === b.hasInflightRequests &&
+    a.isWebSocketConnected === b.isWebSocketConnected &&
+    a.timeOfOldestInflightRequest?.getTime() ===
+      b.timeOfOldestInflightRequest?.getTime() &&
+    a.connectionCount === b.connectionCount &&
+    a.connectionRetries === b.connectionRetries &&
+    a.lastCloseReason === b.lastCloseReason &&
+    a.reconnectBackoff === b.reconnectBackoff &&
+    a.isAuthPending === b.isAuthPending &&
+    a.gaveUpReconnecting === b.gaveUpReconnecting
+  );
+}
@@ -3,7 +3,7 @@ import child_process from "child_process";
 import { test, expect } from "vitest";
 import { Long } from "../long.js";
 
-import { BaseConvexClient } from "./client.js";
+import { BaseConvexClient, ConnectionState } from "./client.js";
 import {
   ActionRequest,
   MutationRequest,
@@ -34,6 +34,229 @@ test("BaseConvexClient protocol in node", async () => {
   });
 });
 
+test("BaseConvexClient reports connection state changes", async () => {
+  await withInMemoryWebSocket(async ({ address, receive, close }) => {
+    const client = new BaseConvexClient(
+      address,
+      () => {
+        // ignore updates.
+      },
+      { webSocketConstructor: nodeWebSocket, unsavedChangesWarning: false },
+    );
+    const states: ConnectionState[] = [];
+    const unsubscribe = client.subscribeToConnectionState((state) =>
+      states.push(state),
+    );
+
+    expect((await receive()).type).toEqual("Connect");
+    expect((await receive()).type).toEqual("ModifyQuerySet");
+    expect(client.connectionState()).toMatchObject({
+      isWebSocketConnected: true,
+      connectionCount: 1,
+      lastCloseReason: null,
+      reconnectBackoff: null,
+      isAuthPending: false,
+    });
+    expect(states.at(-1)).toBe(client.connectionState());
+
+    const originalLog = console.log;
+    console.log = () => {};
+    try {
+      close();
+      expect((await receive()).type).toEqual("Connect");
+    } finally {
+      console.log = originalLog;
+    }
+    const reconnecting = states.find(
+      (state) => state.reconnectBackoff !== null,
+    );
+    expect(reconnecting).toMatchObject({
+      isWebSocketConnected: false,
+      connectionCount: 1,
+      connectionRetries: 1,
+    });
+
+    unsubscribe();
+    await client.close();
+  });
+});
+
+test("BaseConvexClient gives up reconnecting when its retry policy says so", async () => {
+  await withInMemoryWebSocket(async ({ address, receive, close }) => {
+    const attempts: { retries: number; lastCloseReason: string | null }[] = [];
+    const client = new BaseConvexClient(
+      address,
+      () => {
+        // ignore updates.
+      },
+      {
+        webSocketConstructor: nodeWebSocket,
+        unsavedChangesWarning: false,
+        reconnect: {
+          retryPolicy: (attempt) => {
+            attempts.push(attempt);
+            return null;
+          },
+        },
+      },
+    );
+    expect((await receive()).type).toEqual("Connect");
+    expect((await receive()).type).toEqual("ModifyQuerySet");
+
+    const originalLog = console.log;
+    console.log = () => {};
+    try {
+      const gaveUp = new Promise<ConnectionState>((resolve) => {
+        client.subscribeToConnectionState((state) => {
+          if (state.gaveUpReconnecting) {
+            resolve(state);
+          }
+        });
+      });
+      close();
+      expect(await gaveUp).toMatchObject({
+        isWebSocketConnected: false,
+        reconnectBackoff: null,
+      });
+      expect(attempts).toEqual([{ retries: 0, lastCloseReason: "" }]);
+
+      client.reconnectNow();
+      expect((await receive()).type).toEqual("Connect");
+    } finally {
+      console.log = originalLog;
+    }
+    expect(client.connectionState().gaveUpReconnecting).toBe(false);
+    await client.close();
+  });
+});
+
+test("BaseConvexClient uses CBOR when the server accepts it and JSON otherwise", async () => {
+  // Falling back to JSON logs the failed handshake.
+  const originalLog = console.log;
+  console.log = () => {};
+  try {
+    for (const acceptCbor of [true, false]) {
+      await testMessageEncoding(acceptCbor);
+    }
+  } finally {
+    console.log = originalLog;
+  }
+});
+
+test("BaseConvexClient stops offering CBOR once the server declines it", async () => {
+  await withInMemoryWebSocket(
+    async ({ address, receive, close, socket }) => {
+      const attempts: { retries: number; lastCloseReason: string | null }[] =
+        [];
+      const originalLog = console.log;
+      console.log = () => {};
+      try {
+        const client = new BaseConvexClient(
+          address,
+          () => {
+            // ignore updates.
+          },
+          {
+            webSocketConstructor: nodeWebSocket,
+            unsavedChangesWarning: false,
+            messageEncoding: "cbor",
+            reconnect: {
+              maxAttempts: 1,
+              retryPolicy: (attempt) => {
+                attempts.push(attempt);
+                return 0;
+              },
+            },
+          },
+        );
+        expect((await receive()).type).toEqual("Connect");
+        expect((await receive()).type).toEqual("ModifyQuerySet");
+        // Falling back to JSON isn't a reconnect attempt.
+        expect(attempts).toEqual([]);
+
+        close();
+        expect((await receive()).type).toEqual("Connect");
+        expect(socket().protocol).toEqual("");
+        expect(attempts).toHaveLength(1);
+        expect(client.connectionState().gaveUpReconnecting).toBe(false);
+        await client.close();
+      } finally {
+        console.log = originalLog;
+      }
+    },
+    false,
+    { handleProtocols: () => false },
+  );
+});
+
+async function testMessageEncoding(acceptCbor: boolean) {
+  await withInMemoryWebSocket(
+    async ({ address, receive, send, socket }) => {
+      let transitions = 0;
+      const client = new BaseConvexClient(
+        address,
+        () => {
+          transitions += 1;
+        },
+        {
+          webSocketConstructor: nodeWebSocket,
+          unsavedChangesWarning: false,
+          messageEncoding: "cbor",
+        },
+      );
+      expect((await receive()).type).toEqual("Connect");
+      expect((await receive()).type).toEqual("ModifyQuerySet");
+      expect(socket().protocol).toEqual(acceptCbor ? "convex-cbor" : "");
+
+      client.subscribe("messages:list", { after: BigInt(1) });
+      const modification = await receive();
+      expect(modification).toMatchObject({
+        type: "ModifyQuerySet",
+        modifications: [
+          {
+            type: "Add",
+            udfPath: "messages:list",
+            args: [{ after: { $integer: "AQAAAAAAAAA=" } }],
+          },
+        ],
+      });
+
+      send({
+        type: "Transition",
+        startVersion: { querySet: 0, identity: 0, ts: Long.fromNumber(0) },
+        endVersion: { querySet: 1, identity: 0, ts: Long.fromNumber(1) },
+        modifications: [
+          {
+            type: "QueryUpdated",
+            queryId: 0,
+            value: {
+              body: { $bytes: "AQID" },
+              count: { $integer: "AgAAAAAAAAA=" },
+            },
+            logLines: [],
+          },
+        ],
+      });
+      await waitFor(() => transitions > 0);
+      expect(
+        client.localQueryResult("messages:list", { after: BigInt(1) }),
+      ).toEqual({
+        body: new Uint8Array([1, 2, 3]).buffer,
+        count: BigInt(2),
+      });
+      await client.close();
+    },
+    false,
+    acceptCbor ? {} : { handleProtocols: () => false },
+  );
+}
+
+async function waitFor(condition: () => boolean) {
+  while (!condition()) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
 // Run the test above in its own Node.js subprocess to ensure that it exists
 // cleanly. This is the only point of this test.
 test("BaseConvexClient closes cleanly", () => {
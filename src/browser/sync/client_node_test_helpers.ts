@@ -2,12 +2,14 @@ import { Base64 } from "../../values/index.js";
 import { Long } from "../long.js";
 
 // --experimental-vm-modules which we use for jest doesn't support named exports
-import WebSocket, { AddressInfo, WebSocketServer } from "ws";
+import WebSocket, { AddressInfo, ServerOptions, WebSocketServer } from "ws";
 
 // Let's pretend this ws WebSocket is a browser WebSocket (it's very close)
 export const nodeWebSocket = WebSocket as unknown as typeof window.WebSocket;
 
+import { decodeCbor, encodeCbor } from "./cbor.js";
 import { ClientMessage, ServerMessage } from "./protocol.js";
+import { CBOR_SUBPROTOCOL } from "./web_socket_manager.js";
 
 export type InMemoryWebSocketTest = (args: {
   address: string;
@@ -21,11 +23,12 @@ export type InMemoryWebSocketTest = (args: {
 export async function withInMemoryWebSocket(
   cb: InMemoryWebSocketTest,
   debug = false,
+  serverOptions: ServerOptions = {},
 ) {
-  let wss = new WebSocketServer({ port: 0 });
+  let wss = new WebSocketServer({ port: 0, ...serverOptions });
 
-  let received: (msg: string) => void;
-  const messages: Promise<string>[] = [
+  let received: (msg: ClientMessage) => void;
+  const messages: Promise<ClientMessage>[] = [
     new Promise((r) => {
       received = r;
     }),
@@ -34,9 +37,12 @@ export async function withInMemoryWebSocket(
   const setupSocket = () => {
     wss.on("connection", function connection(ws: WebSocket) {
       socket = ws;
-      ws.on("message", function message(data: string) {
-        received(data);
-        if (debug) console.debug(`client --${JSON.parse(data).type}--> `);
+      ws.on("message", function message(data: Buffer, isBinary: boolean) {
+        const msg = (
+          isBinary ? decodeCbor(data) : JSON.parse(data.toString())
+        ) as ClientMessage;
+        received(msg);
+        if (debug) console.debug(`client --${msg.type}--> `);
         messages.push(
           new Promise((r) => {
             received = r;
@@ -51,11 +57,16 @@ export async function withInMemoryWebSocket(
     if (!msgP) {
       throw new Error("Receive() called twice? No message promise found.");
     }
-    return JSON.parse(await msgP);
+    return await msgP;
   }
   function send(message: ServerMessage) {
     if (debug) console.debug(`      <--${message.type}-- server`);
-    socket!.send(encodeServerMessage(message));
+    const encoded = encodeServerMessage(message);
+    socket!.send(
+      socket!.protocol === CBOR_SUBPROTOCOL
+        ? encodeCbor(JSON.parse(encoded))
+        : encoded,
+    );
   }
 
   const s = wss.address();
@@ -72,7 +83,10 @@ export async function withInMemoryWebSocket(
         wss.close();
         // TODO there's a rare race here:
         // Error: listen EADDRINUSE: address already in use :::62257
-        wss = new WebSocketServer({ port: (s as AddressInfo).port });
+        wss = new WebSocketServer({
+          port: (s as AddressInfo).port,
+          ...serverOptions,
+        });
         setupSocket();
       },
     });
@@ -22,6 +22,7 @@ type LocalQuery = {
   id: QueryId;
   canonicalizedUdfPath: string;
   args: Record<string, Value>;
+  // Zero while the query is kept alive after its last subscriber left.
   numSubscribers: number;
   journal?: QueryJournal;
 };
@@ -68,7 +69,7 @@ export class LocalSyncState {
   ): {
     queryToken: QueryToken;
     modification: QuerySetModification | null;
-    unsubscribe: () => QuerySetModification | null;
+    unsubscribe: (keepAlive?: boolean) => QuerySetModification | null;
   } {
     const canonicalizedUdfPath = canonicalizeUdfPath(udfPath);
     const queryToken = serializePathAndArgs(canonicalizedUdfPath, args);
@@ -80,7 +81,8 @@ export class LocalSyncState {
       return {
         queryToken,
         modification: null,
-        unsubscribe: () => this.removeSubscriber(queryToken),
+        unsubscribe: (keepAlive) =>
+          this.removeSubscriber(queryToken, keepAlive ?? false),
       };
     } else {
       const queryId = this.nextQueryId++;
@@ -113,7 +115,8 @@ export class LocalSyncState {
       return {
         queryToken,
         modification,
-        unsubscribe: () => this.removeSubscriber(queryToken),
+        unsubscribe: (keepAlive) =>
+          this.removeSubscriber(queryToken, keepAlive ?? false),
       };
     }
   }
@@ -235,6 +238,28 @@ export class LocalSyncState {
     return this.queryIdToToken.get(queryId) ?? null;
   }
 
+  hasQuery(queryToken: QueryToken): boolean {
+    return this.querySet.has(queryToken);
+  }
+
+  hasSubscribers(queryToken: QueryToken): boolean {
+    return (this.querySet.get(queryToken)?.numSubscribers ?? 0) > 0;
+  }
+
+  /**
+   * Remove a query that was kept alive after its last subscriber left.
+   *
+   * Returns `null` if the query isn't kept alive, e.g. because it has been
+   * subscribed to again.
+   */
+  removeKeptAliveQuery(queryToken: QueryToken): QuerySetModification | null {
+    const localQuery = this.querySet.get(queryToken);
+    if (localQuery === undefined || localQuery.numSubscribers > 0) {
+      return null;
+    }
+    return this.removeQuery(queryToken, localQuery);
+  }
+
   queryJournal(queryToken: QueryToken): QueryJournal | undefined {
     return this.querySet.get(queryToken)?.journal;
   }
@@ -282,28 +307,36 @@ export class LocalSyncState {
 
   private removeSubscriber(
     queryToken: QueryToken,
+    keepAlive: boolean,
   ): QuerySetModification | null {
     const localQuery = this.querySet.get(queryToken)!;
 
-    if (localQuery.numSubscribers > 1) {
+    if (localQuery.numSubscribers > 1 || keepAlive) {
       localQuery.numSubscribers -= 1;
       return null;
     } else {
-      this.querySet.delete(queryToken);
-      this.queryIdToToken.delete(localQuery.id);
-      this.outstandingQueriesOlderThanRestart.delete(localQuery.id);
-      const baseVersion = this.querySetVersion;
-      const newVersion = ++this.querySetVersion;
-      const remove: RemoveQuery = {
-        type: "Remove",
-        queryId: localQuery.id,
-      };
-      return {
-        type: "ModifyQuerySet",
-        baseVersion,
-        newVersion,
-        modifications: [remove],
-      };
+      return this.removeQuery(queryToken, localQuery);
     }
   }
+
+  private removeQuery(
+    queryToken: QueryToken,
+    localQuery: LocalQuery,
+  ): QuerySetModification {
+    this.querySet.delete(queryToken);
+    this.queryIdToToken.delete(localQuery.id);
+    this.outstandingQueriesOlderThanRestart.delete(localQuery.id);
+    const baseVersion = this.querySetVersion;
+    const newVersion = ++this.querySetVersion;
+    const remove: RemoveQuery = {
+      type: "Remove",
+      queryId: localQuery.id,
+    };
+    return {
+      type: "ModifyQuerySet",
+      baseVersion,
+      newVersion,
+      modifications: [remove],
+    };
+  }
 }
@@ -0,0 +1,231 @@
+import { test, expect, vi } from "vitest";
+import jwtEncode from "jwt-encode";
+import { Long } from "../long.js";
+
+import { BaseConvexClient } from "./client.js";
+import { MutationOutbox } from "./mutation_outbox.js";
+import { InMemoryPersistenceStorage } from "./persistence.js";
+import { MutationRequest } from "./protocol.js";
+import { anyApi } from "../../server/api.js";
+import {
+  nodeWebSocket,
+  withInMemoryWebSocket,
+} from "./client_node_test_helpers.js";
+
+test("MutationOutbox persists pending mutations in order", async () => {
+  const storage = new InMemoryPersistenceStorage();
+  const outbox = new MutationOutbox({ storage }, "http://127.0.0.1:8000");
+  for (let requestId = 0; requestId < 3; requestId++) {
+    outbox.add({
+      type: "Mutation",
+      requestId,
+      udfPath: "messages:send",
+      args: [{ body: `message ${requestId}` }],
+    });
+  }
+  outbox.remove(1);
+  await new Promise((resolve) => setTimeout(resolve, 0));
+
+  const restored = new MutationOutbox({ storage }, "http://127.0.0.1:8000");
+  expect(await restored.load()).toEqual([
+    { udfPath: "messages:send", args: { body: "message 0" } },
+    { udfPath: "messages:send", args: { body: "message 2" } },
+  ]);
+});
+
+test("Persisted mutations are replayed before new mutations", async () => {
+  await withInMemoryWebSocket(async ({ address, receive, send }) => {
+    const storage = new InMemoryPersistenceStorage();
+    const previousSession = new MutationOutbox({ storage }, address);
+    previousSession.add({
+      type: "Mutation",
+      requestId: 7,
+      udfPath: "messages:send",
+      args: [{ body: "sent while offline" }],
+    });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    const client = new BaseConvexClient(address, () => null, {
+      webSocketConstructor: nodeWebSocket,
+      unsavedChangesWarning: false,
+      mutationOutbox: {
+        storage,
+        optimisticUpdates: {
+          "messages:send": (localStore, args) => {
+            localStore.setQuery(anyApi.messages.list, {}, [args.body]);
+          },
+        },
+      },
+    });
+    const newMutation = client.mutation("messages:send", { body: "new" });
+
+    expect((await receive()).type).toEqual("Connect");
+    expect((await receive()).type).toEqual("ModifyQuerySet");
+    const replayed = (await receive()) as MutationRequest;
+    expect(replayed.type).toEqual("Mutation");
+    expect(replayed.args).toEqual([{ body: "sent while offline" }]);
+    const second = (await receive()) as MutationRequest;
+    expect(second.args).toEqual([{ body: "new" }]);
+
+    // Optimistic updates are re-applied to replayed mutations.
+    expect(client.localQueryResult("messages:list", {})).toEqual([
+      "sent while offline",
+    ]);
+
+    for (const { requestId } of [replayed, second]) {
+      send({
+        type: "MutationResponse",
+        requestId,
+        success: true,
+        result: null,
+        ts: Long.fromNumber(1),
+        logLines: [],
+      });
+    }
+    send({
+      type: "Transition",
+      startVersion: { querySet: 0, ts: Long.fromNumber(0), identity: 0 },
+      endVersion: { querySet: 1, ts: Long.fromNumber(1), identity: 0 },
+      modifications: [],
+    });
+    await newMutation;
+
+    // Completed mutations are removed from storage.
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(await previousSession.load()).toEqual([]);
+
+    await client.close();
+  });
+});
+
+test("Persisted mutations can wait for auth", async () => {
+  await withInMemoryWebSocket(async ({ address, receive, send }) => {
+    const storage = new InMemoryPersistenceStorage();
+    const previousSession = new MutationOutbox({ storage }, address);
+    previousSession.add({
+      type: "Mutation",
+      requestId: 7,
+      udfPath: "messages:send",
+      args: [{ body: "sent while offline" }],
+    });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    const onReplayFailure = vi.fn();
+    const client = new BaseConvexClient(address, () => null, {
+      webSocketConstructor: nodeWebSocket,
+      unsavedChangesWarning: false,
+      mutationOutbox: { storage, waitForAuth: true, onReplayFailure },
+    });
+    expect((await receive()).type).toEqual("Connect");
+    expect((await receive()).type).toEqual("ModifyQuerySet");
+
+    // New mutations don't wait, and don't drop the restored ones.
+    const newMutation = client.mutation("messages:send", { body: "new" });
+    const first = (await receive()) as MutationRequest;
+    expect(first.args).toEqual([{ body: "new" }]);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(await previousSession.load()).toEqual([
+      { udfPath: "messages:send", args: { body: "sent while offline" } },
+      { udfPath: "messages:send", args: { body: "new" } },
+    ]);
+
+    const onAuthChange = vi.fn();
+    const tokenFor = (sub: string) => async () =>
+      jwtEncode({ sub, iat: 1234500, exp: 1244500 }, "secret");
+    client.setAuth(tokenFor("alice"), onAuthChange);
+    expect((await receive()).type).toEqual("Authenticate");
+    send({
+      type: "Transition",
+      startVersion: { querySet: 0, ts: Long.fromNumber(0), identity: 0 },
+      endVersion: { querySet: 0, ts: Long.fromNumber(0), identity: 1 },
+      modifications: [],
+    });
+    const replayed = (await receive()) as MutationRequest;
+    expect(replayed.args).toEqual([{ body: "sent while offline" }]);
+    expect(onAuthChange).toHaveBeenCalledWith(true);
+
+    // A replayed mutation that fails is reported and dropped.
+    const originalError = console.error;
+    console.error = () => {};
+    try {
+      send({
+        type: "MutationResponse",
+        requestId: replayed.requestId,
+        success: false,
+        result: "Not authorized",
+        logLines: [],
+      });
+      send({
+        type: "MutationResponse",
+        requestId: first.requestId,
+        success: true,
+        result: null,
+        ts: Long.fromNumber(1),
+        logLines: [],
+      });
+      send({
+        type: "Transition",
+        startVersion: { querySet: 0, ts: Long.fromNumber(0), identity: 1 },
+        endVersion: { querySet: 0, ts: Long.fromNumber(1), identity: 1 },
+        modifications: [],
+      });
+      await newMutation;
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    } finally {
+      console.error = originalError;
+    }
+    expect(await previousSession.load()).toEqual([]);
+    expect(onReplayFailure).toHaveBeenCalledWith(
+      { udfPath: "messages:send", args: { body: "sent while offline" } },
+      "Not authorized",
+    );
+    await client.close();
+  });
+});
+
+test("Persisted mutations are kept while the same user authenticates again", async () => {
+  await withInMemoryWebSocket(async ({ address, receive }) => {
+    const storage = new InMemoryPersistenceStorage();
+    const previousSession = new MutationOutbox({ storage }, address);
+    previousSession.add({
+      type: "Mutation",
+      requestId: 7,
+      udfPath: "messages:send",
+      args: [{ body: "sent while offline" }],
+    });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    const client = new BaseConvexClient(address, () => null, {
+      webSocketConstructor: nodeWebSocket,
+      unsavedChangesWarning: false,
+      mutationOutbox: { storage, waitForAuth: true },
+    });
+    expect((await receive()).type).toEqual("Connect");
+    expect((await receive()).type).toEqual("ModifyQuerySet");
+    const tokenFor = (sub: string) => async () =>
+      jwtEncode({ sub, iat: 1234500, exp: 1244500 }, "secret");
+    const onAuthChange = vi.fn();
+    client.setAuth(tokenFor("alice"), onAuthChange);
+    expect((await receive()).type).toEqual("Authenticate");
+
+    // Setting auth again for the same user keeps them.
+    client.clearAuth();
+    expect((await receive()).type).toEqual("Authenticate");
+    client.setAuth(tokenFor("alice"), onAuthChange);
+    expect((await receive()).type).toEqual("Authenticate");
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(await previousSession.load()).toEqual([
+      { udfPath: "messages:send", args: { body: "sent while offline" } },
+    ]);
+
+    // Authenticating a different user forgets them.
+    client.clearAuth();
+    expect((await receive()).type).toEqual("Authenticate");
+    client.setAuth(tokenFor("bob"), onAuthChange);
+    expect((await receive()).type).toEqual("Authenticate");
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(await previousSession.load()).toEqual([]);
+
+    await client.close();
+  });
+});
@@ -0,0 +1,169 @@
+import { JSONValue } from "../../values/index.js";
+import { OptimisticUpdate } from "./optimistic_updates.js";
+import { PersistenceStorage, StorageKeyWriter } from "./persistence.js";
+import { MutationRequest, RequestId } from "./protocol.js";
+
+/**
+ * Options for persisting pending mutations. See
+ * {@link BaseConvexClientOptions.mutationOutbox}.
+ *
+ * @public
+ */
+export interface MutationOutboxOptions {
+  /**
+   * Where to store pending mutations.
+   */
+  storage: PersistenceStorage;
+  /**
+   * The key pending mutations are stored under.
+   *
+   * The default value is derived from the deployment URL, so clients
+   * connecting to different deployments don't share mutations.
+   */
+  key?: string;
+  /**
+   * Optimistic updates to re-apply to mutations restored from a previous
+   * session, keyed by mutation name (e.g. `"messages:send"`).
+   *
+   * Optimistic updates are functions so they can't be persisted along with
+   * the mutation. Restored mutations without an entry here are sent without
+   * an optimistic update.
+   */
+  optimisticUpdates?: Record<string, OptimisticUpdate<any>>;
+  /**
+   * Wait until the server confirms the client is authenticated with
+   * {@link BaseConvexClient.setAuth} before replaying mutations restored from
+   * a previous session, so they run as the user that requested them.
+   *
+   * Set this if your mutations require authentication. Until then, restored
+   * mutations stay in storage and new mutations are sent right away.
+   *
+   * The default value is `false`.
+   */
+  waitForAuth?: boolean;
+  /**
+   * Called when a mutation restored from a previous session fails on the
+   * server. The mutation isn't replayed again.
+   *
+   * Replayed mutations don't have a caller waiting on their result, so this
+   * is the only way to surface these failures besides the console.
+   */
+  onReplayFailure?: (mutation: PersistedMutation, errorMessage: string) => void;
+}
+
+/**
+ * A mutation that was requested but hadn't completed when it was persisted.
+ *
+ * @public
+ */
+export type PersistedMutation = {
+  udfPath: string;
+  // Arguments encoded with `convexToJson`.
+  args: JSONValue;
+};
+
+// Bump this whenever the serialized format changes so older data is ignored.
+const OUTBOX_FORMAT_VERSION = 1;
+
+/**
+ * A durable record of the mutations a {@link BaseConvexClient} has requested
+ * but not yet seen complete.
+ *
+ * Restored mutations are replayed in the order they were originally
+ * requested. Mutations that were committed right before the previous session
+ * ended but whose response was never received will run again.
+ */
+export class MutationOutbox {
+  private readonly writer: StorageKeyWriter;
+  private readonly pending: Map<RequestId, PersistedMutation>;
+  // Mutations from a previous session that haven't been replayed yet.
+  private restored: PersistedMutation[] = [];
+  // Incremented by `clear`, so that mutations read before it are dropped.
+  private generation = 0;
+
+  constructor(options: MutationOutboxOptions, address: string) {
+    this.writer = new StorageKeyWriter(
+      options.storage,
+      options.key ?? `convex:mutationOutbox:${address}`,
+      "pending mutations",
+    );
+    this.pending = new Map();
+  }
+
+  async load(): Promise<PersistedMutation[]> {
+    const serialized = await this.writer.read();
+    if (serialized === null) {
+      return [];
+    }
+    try {
+      const parsed = JSON.parse(serialized);
+      if (parsed.version !== OUTBOX_FORMAT_VERSION) {
+        return [];
+      }
+      return parsed.mutations.map((mutation: any) => ({
+        udfPath: mutation.udfPath,
+        args: mutation.args,
+      }));
+    } catch (error) {
+      console.warn("Ignoring malformed persisted mutations:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Load the mutations of a previous session, to be replayed with
+   * `takeRestored`.
+   */
+  async restore(): Promise<void> {
+    const generation = this.generation;
+    const mutations = await this.load();
+    if (generation === this.generation) {
+      this.restored = mutations;
+    }
+  }
+
+  /**
+   * The restored mutations that haven't been replayed yet. They're expected
+   * to be added again as they're requested.
+   */
+  takeRestored(): PersistedMutation[] {
+    const restored = this.restored;
+    this.restored = [];
+    return restored;
+  }
+
+  add(message: MutationRequest) {
+    this.pending.set(message.requestId, {
+      udfPath: message.udfPath,
+      args: message.args[0],
+    });
+    this.save();
+  }
+
+  remove(requestId: RequestId) {
+    if (this.pending.delete(requestId)) {
+      this.save();
+    }
+  }
+
+  /**
+   * Forget every mutation, e.g. because a different user than the one that
+   * requested them logged in.
+   */
+  clear(): Promise<void> {
+    this.generation++;
+    this.restored = [];
+    this.pending.clear();
+    return this.writer.remove();
+  }
+
+  private save() {
+    this.writer.write(() =>
+      JSON.stringify({
+        version: OUTBOX_FORMAT_VERSION,
+        // Maps iterate in insertion order, which is the order of request ids.
+        mutations: [...this.restored, ...this.pending.values()],
+      }),
+    );
+  }
+}
@@ -0,0 +1,292 @@
+import { test, expect } from "vitest";
+import { Long } from "../long.js";
+
+import { BaseConvexClient } from "./client.js";
+import {
+  InMemoryPersistenceStorage,
+  PersistedQuery,
+  QueryResultPersistence,
+} from "./persistence.js";
+import { QuerySetModification } from "./protocol.js";
+import { serializePathAndArgs } from "./udf_path_utils.js";
+import {
+  nodeWebSocket,
+  withInMemoryWebSocket,
+} from "./client_node_test_helpers.js";
+
+function persistedQuery(value: any, journal?: string): PersistedQuery {
+  return {
+    udfPath: "messages:list",
+    args: { channel: "general" },
+    result: { success: true, value, logLines: [] },
+    journal,
+  };
+}
+
+test("QueryResultPersistence round trips query results", async () => {
+  const storage = new InMemoryPersistenceStorage();
+  const persistence = new QueryResultPersistence(
+    { storage },
+    "http://127.0.0.1:8000",
+    false,
+  );
+  const queryToken = serializePathAndArgs("messages:list", {
+    channel: "general",
+  });
+  persistence.save(
+    new Map([
+      [queryToken, persistedQuery([{ body: "hi", n: BigInt(3) }], "journal")],
+    ]),
+  );
+  await new Promise((resolve) => setTimeout(resolve, 0));
+
+  const loaded = await persistence.load();
+  expect(loaded).toEqual(
+    new Map([
+      [queryToken, persistedQuery([{ body: "hi", n: BigInt(3) }], "journal")],
+    ]),
+  );
+
+  await persistence.clear();
+  expect(await persistence.load()).toEqual(new Map());
+});
+
+test("QueryResultPersistence ignores malformed data", async () => {
+  const storage = new InMemoryPersistenceStorage();
+  await storage.setItem("key", "not json");
+  const persistence = new QueryResultPersistence(
+    { storage, key: "key" },
+    "http://127.0.0.1:8000",
+    false,
+  );
+  const originalWarn = console.warn;
+  console.warn = () => {};
+  try {
+    expect(await persistence.load()).toEqual(new Map());
+  } finally {
+    console.warn = originalWarn;
+  }
+});
+
+test("Restored query results are stale until the server confirms them", async () => {
+  await withInMemoryWebSocket(async ({ address, receive, send }) => {
+    const storage = new InMemoryPersistenceStorage();
+    const queryToken = serializePathAndArgs("messages:list", {
+      channel: "general",
+    });
+    const seed = new QueryResultPersistence({ storage }, address, false);
+    seed.save(new Map([[queryToken, persistedQuery(["cached"], "journal")]]));
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    const transitions: string[][] = [];
+    const client = new BaseConvexClient(
+      address,
+      (queryTokens) => transitions.push(queryTokens),
+      {
+        webSocketConstructor: nodeWebSocket,
+        unsavedChangesWarning: false,
+        persistence: { storage },
+      },
+    );
+    // Wait for the persisted results to load.
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    client.subscribe("messages:list", { channel: "general" });
+    expect(
+      client.localQueryResult("messages:list", { channel: "general" }),
+    ).toEqual(["cached"]);
+    expect(
+      client.localQueryResultIsStale("messages:list", { channel: "general" }),
+    ).toBe(true);
+    expect(transitions).toContainEqual([queryToken]);
+
+    expect((await receive()).type).toEqual("Connect");
+    const modifyQuerySet = (await receive()) as QuerySetModification;
+    expect(modifyQuerySet.modifications).toEqual([
+      {
+        type: "Add",
+        queryId: 0,
+        udfPath: "messages:list",
+        args: [{ channel: "general" }],
+        journal: "journal",
+      },
+    ]);
+
+    send({
+      type: "Transition",
+      startVersion: { querySet: 0, ts: Long.fromNumber(0), identity: 0 },
+      endVersion: { querySet: 1, ts: Long.fromNumber(1), identity: 0 },
+      modifications: [
+        {
+          type: "QueryUpdated",
+          queryId: 0,
+          value: ["fresh"],
+          logLines: [],
+          journal: "new journal",
+        },
+      ],
+    });
+    for (let i = 0; i < 10; i++) {
+      if (
+        !client.localQueryResultIsStale("messages:list", { channel: "general" })
+      ) {
+        break;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+    expect(
+      client.localQueryResult("messages:list", { channel: "general" }),
+    ).toEqual(["fresh"]);
+    expect(
+      client.localQueryResultIsStale("messages:list", { channel: "general" }),
+    ).toBe(false);
+
+    // The fresh result is persisted for the next session.
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    const loaded = await seed.load();
+    expect(loaded.get(queryToken)).toEqual(
+      persistedQuery(["fresh"], "new journal"),
+    );
+
+    await client.close();
+  });
+});
+
+test("QueryResultPersistence keeps the first maxQueryResults results", async () => {
+  const storage = new InMemoryPersistenceStorage();
+  const persistence = new QueryResultPersistence(
+    { storage, maxQueryResults: 2 },
+    "http://127.0.0.1:8000",
+    false,
+  );
+  persistence.save(
+    new Map([
+      ["a", persistedQuery("a")],
+      ["b", persistedQuery("b")],
+      ["c", persistedQuery("c")],
+    ]),
+  );
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  expect([...(await persistence.load()).keys()]).toEqual(["a", "b"]);
+});
+
+test("QueryResultPersistence drops results cleared while loading", async () => {
+  const storage = new InMemoryPersistenceStorage();
+  const persistence = new QueryResultPersistence(
+    { storage },
+    "http://127.0.0.1:8000",
+    false,
+  );
+  persistence.save(new Map([["a", persistedQuery("a")]]));
+  await new Promise((resolve) => setTimeout(resolve, 0));
+
+  const loaded = persistence.load();
+  void persistence.clear();
+  expect(await loaded).toEqual(new Map());
+});
+
+test("Results of the previous user aren't persisted after clearAuth", async () => {
+  await withInMemoryWebSocket(async ({ address, receive, send }) => {
+    const storage = new InMemoryPersistenceStorage();
+    const queryToken = serializePathAndArgs("messages:list", {
+      channel: "general",
+    });
+    const client = new BaseConvexClient(address, () => {}, {
+      webSocketConstructor: nodeWebSocket,
+      unsavedChangesWarning: false,
+      persistence: { storage },
+    });
+    client.subscribe("messages:list", { channel: "general" });
+    expect((await receive()).type).toEqual("Connect");
+    expect((await receive()).type).toEqual("ModifyQuerySet");
+
+    client.clearAuth();
+    expect((await receive()).type).toEqual("Authenticate");
+    const persisted = async () => {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      const seed = new QueryResultPersistence({ storage }, address, false);
+      return (await seed.load()).get(queryToken)?.result.value;
+    };
+
+    // The server hasn't processed the new identity yet.
+    send({
+      type: "Transition",
+      startVersion: { querySet: 0, ts: Long.fromNumber(0), identity: 0 },
+      endVersion: { querySet: 1, ts: Long.fromNumber(1), identity: 0 },
+      modifications: [
+        {
+          type: "QueryUpdated",
+          queryId: 0,
+          value: ["private"],
+          logLines: [],
+          journal: null,
+        },
+      ],
+    });
+    expect(await persisted()).toBeUndefined();
+
+    send({
+      type: "Transition",
+      startVersion: { querySet: 1, ts: Long.fromNumber(1), identity: 0 },
+      endVersion: { querySet: 1, ts: Long.fromNumber(2), identity: 1 },
+      modifications: [
+        {
+          type: "QueryUpdated",
+          queryId: 0,
+          value: ["public"],
+          logLines: [],
+          journal: null,
+        },
+      ],
+    });
+    expect(await persisted()).toEqual(["public"]);
+
+    await client.close();
+  });
+});
+
+test("Restored query results are found for non-canonical query names", async () => {
+  await withInMemoryWebSocket(async ({ address, receive }) => {
+    const storage = new InMemoryPersistenceStorage();
+    const queryToken = serializePathAndArgs("messages:list", {
+      channel: "general",
+    });
+    const seed = new QueryResultPersistence({ storage }, address, false);
+    seed.save(new Map([[queryToken, persistedQuery(["cached"], "journal")]]));
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    const transitions: string[][] = [];
+    const client = new BaseConvexClient(
+      address,
+      (queryTokens) => transitions.push(queryTokens),
+      {
+        webSocketConstructor: nodeWebSocket,
+        unsavedChangesWarning: false,
+        persistence: { storage },
+      },
+    );
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    // The returned token is the one transitions are reported with.
+    const { queryToken: subscribedToken } = client.subscribe(
+      "messages.js:list",
+      { channel: "general" },
+    );
+    expect(subscribedToken).toEqual(queryToken);
+    expect(transitions).toContainEqual([queryToken]);
+    expect(client.localQueryResultByToken(subscribedToken)).toEqual(["cached"]);
+    expect(
+      client.localQueryResultIsStale("messages.js:list", {
+        channel: "general",
+      }),
+    ).toBe(true);
+
+    expect((await receive()).type).toEqual("Connect");
+    const modifyQuerySet = (await receive()) as QuerySetModification;
+    expect(modifyQuerySet.modifications).toEqual([
+      expect.objectContaining({ journal: "journal" }),
+    ]);
+
+    await client.close();
+  });
+});
@@ -0,0 +1,321 @@
+import { convexToJson, jsonToConvex, Value } from "../../values/index.js";
+import { FunctionResult } from "./function_result.js";
+import { QueryJournal } from "./protocol.js";
+import { QueryToken } from "./udf_path_utils.js";
+
+/**
+ * An asynchronous key-value store used by {@link BaseConvexClient} to persist
+ * query results between page loads.
+ *
+ * Implement this interface to store query results somewhere other than the
+ * built-in {@link IndexedDBPersistenceStorage} or
+ * {@link InMemoryPersistenceStorage}, e.g. a file when running in Node.js.
+ *
+ * @public
+ */
+export interface PersistenceStorage {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+/**
+ * Options for persisting query results. See
+ * {@link BaseConvexClientOptions.persistence}.
+ *
+ * @public
+ */
+export interface PersistenceOptions {
+  /**
+   * Where to store query results.
+   */
+  storage: PersistenceStorage;
+  /**
+   * The key query results are stored under.
+   *
+   * The default value is derived from the deployment URL, so clients
+   * connecting to different deployments don't share results.
+   */
+  key?: string;
+  /**
+   * The maximum number of query results to store. Results of queries that
+   * were subscribed to most recently are kept.
+   *
+   * The default value is 100.
+   */
+  maxQueryResults?: number;
+}
+
+/**
+ * A {@link PersistenceStorage} that only lives as long as the JavaScript
+ * process. Mostly useful for tests and for sharing results between clients
+ * in the same process.
+ *
+ * @public
+ */
+export class InMemoryPersistenceStorage implements PersistenceStorage {
+  private readonly items: Map<string, string> = new Map();
+
+  async getItem(key: string): Promise<string | null> {
+    return this.items.get(key) ?? null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.items.set(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.items.delete(key);
+  }
+}
+
+const INDEXED_DB_STORE_NAME = "keyval";
+
+/**
+ * A {@link PersistenceStorage} backed by the browser's
+ * [IndexedDB](https://developer.mozilla.org/en-US/docs/Web/API/IndexedDB_API).
+ *
+ * @public
+ */
+export class IndexedDBPersistenceStorage implements PersistenceStorage {
+  private readonly databaseName: string;
+  private database: Promise<IDBDatabase> | undefined;
+
+  /**
+   * @param databaseName - The name of the IndexedDB database to use. The
+   * default value is `"convex"`.
+   */
+  constructor(databaseName = "convex") {
+    if (typeof indexedDB === "undefined") {
+      throw new Error(
+        "No indexedDB global variable defined! Use a different PersistenceStorage in this environment.",
+      );
+    }
+    this.databaseName = databaseName;
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    const result = await this.withStore("readonly", (store) => store.get(key));
+    return typeof result === "string" ? result : null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    await this.withStore("readwrite", (store) => store.put(value, key));
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await this.withStore("readwrite", (store) => store.delete(key));
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (this.database === undefined) {
+      this.database = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.databaseName, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(INDEXED_DB_STORE_NAME);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.database;
+  }
+
+  private async withStore(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest,
+  ): Promise<unknown> {
+    const database = await this.openDatabase();
+    return new Promise((resolve, reject) => {
+      const transaction = database.transaction(INDEXED_DB_STORE_NAME, mode);
+      const request = operation(transaction.objectStore(INDEXED_DB_STORE_NAME));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+}
+
+/**
+ * A query result that was stored by a previous client.
+ */
+export type PersistedQuery = {
+  udfPath: string;
+  args: Record<string, Value>;
+  // Only successful results are persisted.
+  result: FunctionResult & { success: true };
+  journal: QueryJournal | undefined;
+};
+
+/**
+ * Reads and writes a single key of a {@link PersistenceStorage}.
+ *
+ * Storage operations run one at a time in the order they were requested.
+ * Writes are coalesced: if a write is requested while another one is
+ * pending, only the most recent value is written.
+ */
+export class StorageKeyWriter {
+  private readonly storage: PersistenceStorage;
+  private readonly key: string;
+  // Used in warnings, e.g. "query results".
+  private readonly description: string;
+  private pendingWrite: (() => string) | null = null;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(storage: PersistenceStorage, key: string, description: string) {
+    this.storage = storage;
+    this.key = key;
+    this.description = description;
+  }
+
+  async read(): Promise<string | null> {
+    try {
+      return await this.storage.getItem(this.key);
+    } catch (error) {
+      console.warn(`Failed to load persisted ${this.description}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Schedule a write of the value returned by `serialize`. The value is
+   * computed right before it is written.
+   */
+  write(serialize: () => string) {
+    const alreadyScheduled = this.pendingWrite !== null;
+    this.pendingWrite = serialize;
+    if (!alreadyScheduled) {
+      void this.enqueue(async () => {
+        const serialize = this.pendingWrite;
+        this.pendingWrite = null;
+        if (serialize !== null) {
+          await this.storage.setItem(this.key, serialize());
+        }
+      }, "persist");
+    }
+  }
+
+  remove(): Promise<void> {
+    this.pendingWrite = null;
+    return this.enqueue(() => this.storage.removeItem(this.key), "clear");
+  }
+
+  private enqueue(
+    operation: () => Promise<void>,
+    verb: "persist" | "clear",
+  ): Promise<void> {
+    this.queue = this.queue.then(operation).catch((error) => {
+      console.warn(`Failed to ${verb} ${this.description}:`, error);
+    });
+    return this.queue;
+  }
+}
+
+// Bump this whenever the serialized format changes so older data is ignored.
+const PERSISTENCE_FORMAT_VERSION = 1;
+
+const DEFAULT_MAX_QUERY_RESULTS = 100;
+
+/**
+ * Reads and writes the query results of a {@link BaseConvexClient} to a
+ * {@link PersistenceStorage}.
+ */
+export class QueryResultPersistence {
+  private readonly writer: StorageKeyWriter;
+  private readonly maxQueryResults: number;
+  private readonly verbose: boolean;
+  // Incremented by `clear`, so that results read before it are dropped.
+  private generation = 0;
+
+  constructor(options: PersistenceOptions, address: string, verbose: boolean) {
+    this.writer = new StorageKeyWriter(
+      options.storage,
+      options.key ?? `convex:queryResults:${address}`,
+      "query results",
+    );
+    this.maxQueryResults = options.maxQueryResults ?? DEFAULT_MAX_QUERY_RESULTS;
+    this.verbose = verbose;
+  }
+
+  async load(): Promise<Map<QueryToken, PersistedQuery>> {
+    const queries = new Map<QueryToken, PersistedQuery>();
+    const generation = this.generation;
+    const serialized = await this.writer.read();
+    if (serialized === null) {
+      return queries;
+    }
+    if (generation !== this.generation) {
+      this._logVerbose(
+        "ignoring persisted query results cleared while loading",
+      );
+      return queries;
+    }
+    try {
+      const parsed = JSON.parse(serialized);
+      if (parsed.version !== PERSISTENCE_FORMAT_VERSION) {
+        this._logVerbose(
+          `ignoring persisted query results with version ${parsed.version}`,
+        );
+        return queries;
+      }
+      for (const [queryToken, query] of Object.entries<any>(parsed.queries)) {
+        queries.set(queryToken, {
+          udfPath: query.udfPath,
+          args: jsonToConvex(query.args) as Record<string, Value>,
+          result: {
+            success: true,
+            value: jsonToConvex(query.value),
+            // Logs were already printed when the result was first received.
+            logLines: [],
+          },
+          journal: query.journal,
+        });
+      }
+    } catch (error) {
+      console.warn("Ignoring malformed persisted query results:", error);
+      queries.clear();
+    }
+    this._logVerbose(`loaded ${queries.size} persisted query results`);
+    return queries;
+  }
+
+  /**
+   * Schedule a write of the query results, in order of priority: only the
+   * first `maxQueryResults` of them are stored.
+   */
+  save(queries: Map<QueryToken, PersistedQuery>) {
+    this.writer.write(() => {
+      const serializedQueries: Record<string, unknown> = {};
+      for (const [queryToken, query] of [...queries].slice(
+        0,
+        this.maxQueryResults,
+      )) {
+        serializedQueries[queryToken] = {
+          udfPath: query.udfPath,
+          args: convexToJson(query.args),
+          value: convexToJson(query.result.value),
+          journal: query.journal,
+        };
+      }
+      return JSON.stringify({
+        version: PERSISTENCE_FORMAT_VERSION,
+        queries: serializedQueries,
+      });
+    });
+  }
+
+  /**
+   * Remove the stored results. Writes that haven't started yet are canceled
+   * and writes in progress finish before the results are removed.
+   */
+  clear(): Promise<void> {
+    this.generation++;
+    return this.writer.remove();
+  }
+
+  private _logVerbose(message: string) {
+    if (this.verbose) {
+      console.debug(`${new Date().toISOString()} ${message}`);
+    }
+  }
+}
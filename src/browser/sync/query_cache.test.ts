@@ -0,0 +1,91 @@
+import { test, expect, vi } from "vitest";
+
+import { BaseConvexClient } from "./client.js";
+import { QuerySetModification } from "./protocol.js";
+import { QueryCache } from "./query_cache.js";
+import {
+  nodeWebSocket,
+  withInMemoryWebSocket,
+} from "./client_node_test_helpers.js";
+
+test("QueryCache releases queries after their keep-alive period", () => {
+  vi.useFakeTimers();
+  try {
+    const released: string[] = [];
+    const cache = new QueryCache({ keepAliveMs: 1000 }, (queryToken) =>
+      released.push(queryToken),
+    );
+    cache.keepAlive("a", 1000);
+    cache.keepAlive("b", 2000);
+    vi.advanceTimersByTime(1000);
+    expect(released).toEqual(["a"]);
+
+    // Retained queries aren't released.
+    cache.retain("b");
+    vi.advanceTimersByTime(2000);
+    expect(released).toEqual(["a"]);
+  } finally {
+    vi.useRealTimers();
+  }
+});
+
+test("QueryCache releases the oldest queries beyond its max size", () => {
+  vi.useFakeTimers();
+  try {
+    const released: string[] = [];
+    const cache = new QueryCache({ maxSize: 2 }, (queryToken) =>
+      released.push(queryToken),
+    );
+    cache.keepAlive("a", 1000);
+    cache.keepAlive("b", 1000);
+    cache.keepAlive("c", 1000);
+    expect(released).toEqual(["a"]);
+
+    // Keeping a query alive again makes it the newest.
+    cache.keepAlive("b", 1000);
+    cache.keepAlive("d", 1000);
+    expect(released).toEqual(["a", "c"]);
+
+    cache.clear();
+    vi.advanceTimersByTime(1000);
+    expect(released).toEqual(["a", "c"]);
+  } finally {
+    vi.useRealTimers();
+  }
+});
+
+test("Queries stay subscribed during their keep-alive period", async () => {
+  await withInMemoryWebSocket(async ({ address, receive }) => {
+    const client = new BaseConvexClient(address, () => null, {
+      webSocketConstructor: nodeWebSocket,
+      unsavedChangesWarning: false,
+      queryCache: { keepAliveMs: 100 },
+    });
+    expect((await receive()).type).toEqual("Connect");
+    expect((await receive()).type).toEqual("ModifyQuerySet");
+
+    const first = client.subscribe("messages:list", {});
+    const add = (await receive()) as QuerySetModification;
+    expect(add.modifications).toEqual([
+      expect.objectContaining({ type: "Add", queryId: 0 }),
+    ]);
+    first.unsubscribe();
+
+    // Subscribing again during the keep-alive period reuses the query.
+    const second = client.subscribe("messages:list", {});
+    second.unsubscribe();
+    // The subscription can also opt out of the keep-alive period.
+    client.subscribe("messages:count", {}, { keepAliveMs: 0 }).unsubscribe();
+
+    const countAdd = (await receive()) as QuerySetModification;
+    expect(countAdd.modifications).toEqual([
+      expect.objectContaining({ type: "Add", queryId: 1 }),
+    ]);
+    const countRemove = (await receive()) as QuerySetModification;
+    expect(countRemove.modifications).toEqual([{ type: "Remove", queryId: 1 }]);
+    const remove = (await receive()) as QuerySetModification;
+    expect(remove.modifications).toEqual([{ type: "Remove", queryId: 0 }]);
+
+    await client.close();
+  });
+});
@@ -0,0 +1,94 @@
+import { QueryToken } from "./udf_path_utils.js";
+
+/**
+ * Options for keeping queries subscribed after their last subscriber
+ * unsubscribes. See {@link BaseConvexClientOptions.queryCache}.
+ *
+ * @public
+ */
+export interface QueryCacheOptions {
+  /**
+   * How long, in milliseconds, to keep a query subscribed after its last
+   * subscriber unsubscribes.
+   *
+   * While a query is kept alive its result stays up to date, so subscribing
+   * to it again, e.g. when navigating back to a page, returns the result
+   * right away instead of loading it from scratch. Individual subscriptions
+   * can override this with {@link SubscribeOptions.keepAliveMs}.
+   *
+   * The default value is `0`, which unsubscribes right away.
+   */
+  keepAliveMs?: number;
+  /**
+   * The maximum number of queries to keep alive. When there are more, the
+   * query whose last subscriber left the longest time ago is unsubscribed.
+   *
+   * The default value is `100`.
+   */
+  maxSize?: number;
+}
+
+const DEFAULT_MAX_SIZE = 100;
+
+/**
+ * Tracks the queries a {@link BaseConvexClient} keeps subscribed without any
+ * subscribers, and releases them once their keep-alive period is over or
+ * there are too many of them.
+ */
+export class QueryCache {
+  readonly defaultKeepAliveMs: number;
+  private readonly maxSize: number;
+  private readonly release: (queryToken: QueryToken) => void;
+  // In the order the queries started being kept alive, oldest first.
+  private readonly timers: Map<QueryToken, ReturnType<typeof setTimeout>>;
+
+  constructor(
+    options: QueryCacheOptions,
+    release: (queryToken: QueryToken) => void,
+  ) {
+    this.defaultKeepAliveMs = options.keepAliveMs ?? 0;
+    this.maxSize = options.maxSize ?? DEFAULT_MAX_SIZE;
+    this.release = release;
+    this.timers = new Map();
+  }
+
+  /**
+   * Start keeping a query without subscribers alive for `keepAliveMs`.
+   */
+  keepAlive(queryToken: QueryToken, keepAliveMs: number) {
+    this.retain(queryToken);
+    this.timers.set(
+      queryToken,
+      setTimeout(() => {
+        this.timers.delete(queryToken);
+        this.release(queryToken);
+      }, keepAliveMs),
+    );
+    for (const oldest of this.timers.keys()) {
+      if (this.timers.size <= this.maxSize) {
+        break;
+      }
+      clearTimeout(this.timers.get(oldest));
+      this.timers.delete(oldest);
+      this.release(oldest);
+    }
+  }
+
+  /**
+   * Stop keeping a query alive because it has a subscriber again.
+   */
+  retain(queryToken: QueryToken) {
+    const timer = this.timers.get(queryToken);
+    if (timer !== undefined) {
+      clearTimeout(timer);
+      this.timers.delete(queryToken);
+    }
+  }
+
+  clear() {
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+  }
+}
@@ -1,7 +1,12 @@
 import { jsonToConvex } from "../../values/index.js";
 import { Long } from "../long.js";
 import { logToConsole } from "../logging.js";
-import { QueryId, StateVersion, Transition } from "./protocol.js";
+import {
+  IdentityVersion,
+  QueryId,
+  StateVersion,
+  Transition,
+} from "./protocol.js";
 import { FunctionResult } from "./function_result.js";
 
 /**
@@ -85,4 +90,8 @@ export class RemoteQuerySet {
   timestamp(): Long {
     return this.version.ts;
   }
+
+  identity(): IdentityVersion {
+    return this.version.identity;
+  }
 }
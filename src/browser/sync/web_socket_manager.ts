@@ -1,3 +1,5 @@
+import { JSONValue } from "../../values/index.js";
+import { decodeCbor, encodeCbor } from "./cbor.js";
 import {
   ClientMessage,
   encodeClientMessage,
@@ -15,6 +17,9 @@ const CLOSE_NO_STATUS = 1005;
  */
 const CLOSE_NOT_FOUND = 4040;
 
+/** The WebSocket subprotocol a server selects to accept CBOR messages. */
+export const CBOR_SUBPROTOCOL = "convex-cbor";
+
 /**
  * The various states our WebSocket can be in:
  *
@@ -23,6 +28,8 @@ const CLOSE_NOT_FOUND = 4040;
  *   `onOpen` callback.
  * - "ready": We have an open WebSocket.
  * - "paused": The WebSocket was stopped and a new one can be created via `.resume()`.
+ * - "gaveUp": We ran out of reconnect attempts. A new WebSocket is only created
+ *   via `.reconnectNow()`.
  * - "stopped": We have stopped the WebSocket and will never create a new one.
  *
  *
@@ -36,11 +43,16 @@ const CLOSE_NOT_FOUND = 4040;
  *   connecting:
  *     onopen -> ready
  *     close() -> disconnected
+ *     close() -> gaveUp
  *     stop() -> stopped
  *   ready:
  *     close() -> disconnected
+ *     close() -> gaveUp
  *     pause() -> paused
  *     stop() -> stopped
+ *   gaveUp:
+ *     reconnectNow() -> connecting
+ *     stop() -> stopped
  *   paused:
  *     resume() -> connecting
  *     stop() -> stopped
@@ -74,20 +86,107 @@ const CLOSE_NOT_FOUND = 4040;
  *    │                                            │
  *    │                                            │
  *    └────────────────────────────────────────────┘
+ *
+ * The "gaveUp" state is left out of the diagram: it replaces "disconnected"
+ * when there are no reconnect attempts left.
  */
 
 type Socket =
   | { state: "disconnected" }
   | { state: "connecting"; ws: WebSocket }
-  | { state: "ready"; ws: WebSocket }
+  | { state: "ready"; ws: WebSocket; encoding: MessageEncoding }
   | { state: "paused" }
+  | { state: "gaveUp" }
   | { state: "stopped" };
 
+/**
+ * How the client encodes the messages it exchanges with the server over the
+ * WebSocket:
+ *
+ * - `"json"`: JSON text frames.
+ * - `"cbor"`: [CBOR](https://cbor.io) binary frames, which represent bytes
+ *   and 64-bit integers natively instead of as Base64 strings. This makes
+ *   query results with `v.bytes()` or `v.int64()` fields much smaller.
+ *
+ * @public
+ */
+export type MessageEncoding = "json" | "cbor";
+
+/**
+ * Decides how long to wait before trying to reconnect the WebSocket, given
+ * the number of consecutive attempts so far and why the WebSocket last
+ * closed.
+ *
+ * Return `null` to give up reconnecting, until
+ * {@link BaseConvexClient.reconnectNow} is called.
+ *
+ * @public
+ */
+export type RetryPolicy = (attempt: {
+  retries: number;
+  lastCloseReason: string | null;
+}) => number | null;
+
+/**
+ * Options for how the client keeps its WebSocket connected. See
+ * {@link BaseConvexClientOptions.reconnect}.
+ *
+ * @public
+ */
+export interface ReconnectOptions {
+  /**
+   * The backoff before the first attempt to reconnect, in milliseconds.
+   * Backoffs double with every consecutive attempt and are jittered by up to
+   * 50% in either direction.
+   *
+   * The default value is `100`.
+   */
+  initialBackoff?: number;
+  /**
+   * The maximum backoff between attempts to reconnect, in milliseconds.
+   *
+   * The default value is `16000`.
+   */
+  maxBackoff?: number;
+  /**
+   * How long, in milliseconds, to wait for a message from the server before
+   * assuming the connection is broken and reconnecting.
+   *
+   * The default value is `30000`.
+   */
+  serverInactivityThreshold?: number;
+  /**
+   * The maximum number of consecutive attempts to reconnect. Once they're
+   * used up the client gives up until {@link BaseConvexClient.reconnectNow}
+   * is called.
+   *
+   * By default the client never gives up.
+   */
+  maxAttempts?: number;
+  /**
+   * Replace the exponential backoff described by `initialBackoff` and
+   * `maxBackoff` with a custom {@link RetryPolicy}.
+   */
+  retryPolicy?: RetryPolicy;
+}
+
 export type ReconnectMetadata = {
   connectionCount: number;
   lastCloseReason: string | null;
 };
 
+/**
+ * How the WebSocket has fared so far, see
+ * {@link WebSocketManager.reconnectState}.
+ */
+export type ReconnectState = {
+  connectionCount: number;
+  retries: number;
+  lastCloseReason: string | null;
+  /** The delay of the scheduled reconnect in ms, if there is one. */
+  reconnectBackoff: number | null;
+};
+
 export type OnMessageResponse = {
   hasSyncedPastLastReconnect: boolean;
 };
@@ -108,9 +207,19 @@ export class WebSocketManager {
   /** We backoff exponentially, but we need to cap that--this is the jittered max. */
   private readonly maxBackoff: number;
 
+  /** How many consecutive attempts to reconnect before giving up. */
+  private readonly maxAttempts: number;
+
+  private readonly retryPolicy: RetryPolicy;
+
   /** How many times have we failed consecutively? */
   private retries: number;
 
+  private reconnectTimeout: ReturnType<typeof setTimeout> | null;
+
+  /** The backoff of the scheduled reconnect, if we're waiting to reconnect. */
+  private reconnectBackoff: number | null;
+
   /** How long before lack of server response causes us to initiate a reconnect,
    * in ms */
   private readonly serverInactivityThreshold: number;
@@ -122,32 +231,55 @@ export class WebSocketManager {
   private readonly uri: string;
   private readonly onOpen: (reconnectMetadata: ReconnectMetadata) => void;
   private readonly onMessage: (message: ServerMessage) => OnMessageResponse;
+  private readonly onStateChange: () => void;
   private readonly webSocketConstructor: typeof WebSocket;
   private readonly verbose: boolean;
+  private readonly messageEncoding: MessageEncoding;
+
+  /** Whether to offer CBOR when connecting, see `onclose` below. */
+  private offerCbor: boolean;
+  /**
+   * Whether this connection is the retry without CBOR after a handshake that
+   * offered it failed.
+   */
+  private fallingBackToJson: boolean;
 
   constructor(
     uri: string,
     onOpen: (reconnectMetadata: ReconnectMetadata) => void,
     onMessage: (message: ServerMessage) => OnMessageResponse,
+    onStateChange: () => void,
     webSocketConstructor: typeof WebSocket,
     verbose: boolean,
+    options: ReconnectOptions = {},
+    messageEncoding: MessageEncoding = "json",
   ) {
     this.webSocketConstructor = webSocketConstructor;
     this.socket = { state: "disconnected" };
     this.connectionCount = 0;
     this.lastCloseReason = "InitialConnect";
 
-    this.initialBackoff = 100;
-    this.maxBackoff = 16000;
+    this.initialBackoff = options.initialBackoff ?? 100;
+    this.maxBackoff = options.maxBackoff ?? 16000;
+    this.maxAttempts = options.maxAttempts ?? Infinity;
+    this.retryPolicy =
+      options.retryPolicy ??
+      (({ retries }) => this.exponentialBackoff(retries));
     this.retries = 0;
+    this.reconnectTimeout = null;
+    this.reconnectBackoff = null;
 
-    this.serverInactivityThreshold = 30000;
+    this.serverInactivityThreshold = options.serverInactivityThreshold ?? 30000;
     this.reconnectDueToServerInactivityTimeout = null;
 
     this.uri = uri;
     this.onOpen = onOpen;
     this.onMessage = onMessage;
+    this.onStateChange = onStateChange;
     this.verbose = verbose;
+    this.messageEncoding = messageEncoding;
+    this.offerCbor = messageEncoding === "cbor";
+    this.fallingBackToJson = false;
 
     // Kick off connection but don't wait for it.
     void this.connect();
@@ -159,19 +291,28 @@ export class WebSocketManager {
     }
     if (
       this.socket.state !== "disconnected" &&
-      this.socket.state !== "paused"
+      this.socket.state !== "paused" &&
+      this.socket.state !== "gaveUp"
     ) {
       throw new Error(
         "Didn't start connection from disconnected state: " + this.socket.state,
       );
     }
 
-    const ws = new this.webSocketConstructor(this.uri);
+    // Offer CBOR as a subprotocol. Servers that don't support it don't select
+    // it, and then we fall back to JSON.
+    const offeredCbor = this.offerCbor;
+    const ws = offeredCbor
+      ? new this.webSocketConstructor(this.uri, [CBOR_SUBPROTOCOL])
+      : new this.webSocketConstructor(this.uri);
+    ws.binaryType = "arraybuffer";
     this._logVerbose("constructed WebSocket");
     this.socket = {
       state: "connecting",
       ws,
     };
+    this.reconnectBackoff = null;
+    this.onStateChange();
 
     // Kick off server inactivity timer before WebSocket connection is established
     // so we can detect cases where handshake fails.
@@ -184,7 +325,11 @@ export class WebSocketManager {
       if (this.socket.state !== "connecting") {
         throw new Error("onopen called with socket not in connecting state");
       }
-      this.socket = { state: "ready", ws };
+      const encoding = ws.protocol === CBOR_SUBPROTOCOL ? "cbor" : "json";
+      this._logVerbose(`negotiated ${encoding} message encoding`);
+      // The server declined CBOR, so don't offer it again.
+      this.fallingBackToJson = false;
+      this.socket = { state: "ready", ws, encoding };
       this.resetServerInactivityTimeout();
       this.onOpen({
         connectionCount: this.connectionCount,
@@ -197,6 +342,7 @@ export class WebSocketManager {
 
       this.connectionCount += 1;
       this.lastCloseReason = null;
+      this.onStateChange();
     };
     // NB: The WebSocket API calls `onclose` even if connection fails, so we can route all error paths through `onclose`.
     ws.onerror = (error) => {
@@ -205,7 +351,11 @@ export class WebSocketManager {
     };
     ws.onmessage = (message) => {
       this.resetServerInactivityTimeout();
-      const serverMessage = parseServerMessage(JSON.parse(message.data));
+      const serverMessage = parseServerMessage(
+        typeof message.data === "string"
+          ? JSON.parse(message.data)
+          : decodeCbor(message.data),
+      );
       this._logVerbose(`received ws message with type ${serverMessage.type}`);
       const response = this.onMessage(serverMessage);
       if (response.hasSyncedPastLastReconnect) {
@@ -215,6 +365,24 @@ export class WebSocketManager {
     };
     ws.onclose = (event) => {
       this._logVerbose("begin ws.onclose");
+      if (this.socket.state === "connecting" && offeredCbor) {
+        // Some WebSocket implementations, like the `ws` package, fail the
+        // handshake if the server doesn't select any of the offered
+        // subprotocols. So if the handshake failed, try again right away
+        // without offering CBOR. This doesn't count as a reconnect attempt.
+        this._logVerbose("handshake failed, retrying without CBOR");
+        this.offerCbor = false;
+        this.fallingBackToJson = true;
+        this.socket = { state: "disconnected" };
+        this.connect();
+        return;
+      }
+      if (this.fallingBackToJson) {
+        // The handshake failed without CBOR too, so the server was
+        // unreachable rather than declining CBOR.
+        this.offerCbor = true;
+        this.fallingBackToJson = false;
+      }
       if (this.lastCloseReason === null) {
         this.lastCloseReason = event.reason ?? "OnCloseInvoked";
       }
@@ -242,6 +410,18 @@ export class WebSocketManager {
     return this.socket.state;
   }
 
+  /**
+   * @returns The {@link ReconnectState} of the WebSocket.
+   */
+  reconnectState(): ReconnectState {
+    return {
+      connectionCount: this.connectionCount,
+      retries: this.retries,
+      lastCloseReason: this.lastCloseReason,
+      reconnectBackoff: this.reconnectBackoff,
+    };
+  }
+
   /**
    * @param message - A ClientMessage to send.
    * @returns Whether the message (might have been) sent.
@@ -251,7 +431,10 @@ export class WebSocketManager {
 
     if (this.socket.state === "ready") {
       const encodedMessage = encodeClientMessage(message);
-      const request = JSON.stringify(encodedMessage);
+      const request =
+        this.socket.encoding === "cbor"
+          ? encodeCbor(encodedMessage as JSONValue)
+          : JSON.stringify(encodedMessage);
       try {
         this.socket.ws.send(request);
       } catch (error: any) {
@@ -281,10 +464,60 @@ export class WebSocketManager {
   }
 
   private scheduleReconnect() {
-    this.socket = { state: "disconnected" };
     const backoff = this.nextBackoff();
+    if (backoff === null) {
+      console.log(`Giving up reconnecting after ${this.retries} attempts`);
+      this.socket = { state: "gaveUp" };
+      if (this.reconnectDueToServerInactivityTimeout !== null) {
+        clearTimeout(this.reconnectDueToServerInactivityTimeout);
+        this.reconnectDueToServerInactivityTimeout = null;
+      }
+      this.onStateChange();
+      return;
+    }
+    this.socket = { state: "disconnected" };
     console.log(`Attempting reconnect in ${backoff}ms`);
-    setTimeout(() => this.connect(), backoff);
+    this.reconnectBackoff = backoff;
+    this.onStateChange();
+    this.reconnectTimeout = setTimeout(() => {
+      this.reconnectTimeout = null;
+      this.connect();
+    }, backoff);
+  }
+
+  /**
+   * Reconnect right away if we're waiting to reconnect or gave up
+   * reconnecting. Giving up resets the number of reconnect attempts.
+   */
+  reconnectNow() {
+    switch (this.socket.state) {
+      case "disconnected":
+        this.cancelScheduledReconnect();
+        break;
+      case "gaveUp":
+        this.retries = 0;
+        break;
+      case "connecting":
+      case "ready":
+      case "paused":
+      case "stopped":
+        // Nothing to do if we're connected or aren't meant to be.
+        return;
+      default: {
+        // Enforce that the switch-case is exhaustive.
+        // eslint-disable-next-line  @typescript-eslint/no-unused-vars
+        const _: never = this.socket;
+      }
+    }
+    this.connect();
+  }
+
+  private cancelScheduledReconnect() {
+    if (this.reconnectTimeout !== null) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+    this.reconnectBackoff = null;
   }
 
   /**
@@ -298,6 +531,7 @@ export class WebSocketManager {
       case "disconnected":
       case "stopped":
       case "paused":
+      case "gaveUp":
         // Nothing to do if we don't have a WebSocket.
         return;
       case "connecting":
@@ -328,6 +562,7 @@ export class WebSocketManager {
       case "disconnected":
       case "stopped":
       case "paused":
+      case "gaveUp":
         // Nothing to do if we don't have a WebSocket.
         return Promise.resolve();
       case "connecting": {
@@ -375,10 +610,13 @@ export class WebSocketManager {
       case "stopped":
       case "paused":
       case "disconnected":
+      case "gaveUp":
       case "connecting":
       case "ready": {
         const result = this.close();
         this.socket = { state: "stopped" };
+        this.cancelScheduledReconnect();
+        this.onStateChange();
         return result;
       }
       default: {
@@ -394,7 +632,8 @@ export class WebSocketManager {
   pause(): Promise<void> {
     switch (this.socket.state) {
       case "stopped":
-        // If we're stopping we ignore pause
+      case "gaveUp":
+        // If we're stopping or gave up we ignore pause
         return Promise.resolve();
       case "connecting":
       case "paused":
@@ -402,6 +641,7 @@ export class WebSocketManager {
       case "ready": {
         const result = this.close();
         this.socket = { state: "paused" };
+        this.onStateChange();
         return result;
       }
       default: {
@@ -421,7 +661,8 @@ export class WebSocketManager {
       case "paused":
         break;
       case "stopped":
-        // If we're stopping we ignore resume
+      case "gaveUp":
+        // If we're stopping or gave up we ignore resume
         return;
       case "connecting":
       case "ready":
@@ -429,6 +670,7 @@ export class WebSocketManager {
         throw new Error("`resume()` is only valid after `pause()`");
       default: {
         // Enforce that the switch-case is exhaustive.
+        // eslint-disable-next-line  @typescript-eslint/no-unused-vars
         const _: never = this.socket;
       }
     }
@@ -441,9 +683,22 @@ export class WebSocketManager {
     }
   }
 
-  private nextBackoff(): number {
-    const baseBackoff = this.initialBackoff * Math.pow(2, this.retries);
-    this.retries += 1;
+  private nextBackoff(): number | null {
+    if (this.retries >= this.maxAttempts) {
+      return null;
+    }
+    const backoff = this.retryPolicy({
+      retries: this.retries,
+      lastCloseReason: this.lastCloseReason,
+    });
+    if (backoff !== null) {
+      this.retries += 1;
+    }
+    return backoff;
+  }
+
+  private exponentialBackoff(retries: number): number {
+    const baseBackoff = this.initialBackoff * Math.pow(2, retries);
     const actualBackoff = Math.min(baseBackoff, this.maxBackoff);
     const jitter = actualBackoff * (Math.random() - 0.5);
     return actualBackoff + jitter;
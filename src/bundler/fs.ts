@@ -70,12 +70,14 @@ export interface Filesystem {
   access(path: string): void;
 
   writeUtf8File(path: string, contents: string, mode?: Mode): void;
+  appendUtf8File(path: string, contents: string): void;
   mkdir(
     dirPath: string,
     options?: { allowExisting?: boolean; recursive?: boolean },
   ): void;
   rmdir(path: string): void;
   unlink(path: string): void;
+  rename(fromPath: string, toPath: string): void;
   swapTmpFile(fromPath: TempPath, toPath: string): void;
 
   registerPath(path: string, st: Stats | null): void;
@@ -164,6 +166,9 @@ class NodeFs implements Filesystem {
       stdFs.closeSync(fd);
     }
   }
+  appendUtf8File(path: string, contents: string) {
+    stdFs.appendFileSync(path, contents, { encoding: "utf-8" });
+  }
   mkdir(
     dirPath: string,
     options?: { allowExisting?: boolean; recursive?: boolean },
@@ -183,6 +188,9 @@ class NodeFs implements Filesystem {
   unlink(path: string) {
     return stdFs.unlinkSync(path);
   }
+  rename(fromPath: string, toPath: string) {
+    stdFs.renameSync(fromPath, toPath);
+  }
   swapTmpFile(fromPath: TempPath, toPath: string) {
     try {
       return stdFs.renameSync(fromPath, toPath);
@@ -332,6 +340,12 @@ export class RecordingFs implements Filesystem {
     this.updateOnWrite(absPath);
   }
 
+  appendUtf8File(filePath: string, contents: string) {
+    const absPath = path.resolve(filePath);
+    nodeFs.appendUtf8File(absPath, contents);
+    this.updateOnWrite(absPath);
+  }
+
   mkdir(
     dirPath: string,
     options?: { allowExisting?: boolean; recursive?: boolean },
@@ -360,6 +374,13 @@ export class RecordingFs implements Filesystem {
     stdFs.unlinkSync(absPath);
     this.updateOnDelete(absPath);
   }
+  rename(fromPath: string, toPath: string) {
+    const absFromPath = path.resolve(fromPath);
+    const absToPath = path.resolve(toPath);
+    nodeFs.rename(absFromPath, absToPath);
+    this.updateOnDelete(absFromPath);
+    this.updateOnWrite(absToPath);
+  }
   swapTmpFile(fromPath: TempPath, toPath: string) {
     const absToPath = path.resolve(toPath);
     nodeFs.swapTmpFile(fromPath, absToPath);
@@ -5,6 +5,7 @@ import {
   waitUntilCalled,
   deploymentFetch,
   logAndHandleFetchError,
+  parseBigInt,
 } from "./lib/utils.js";
 import { version } from "./version.js";
 import {
@@ -27,16 +28,18 @@ import path from "path";
 import { deploymentDashboardUrlPage } from "./dashboard.js";
 import { actionDescription } from "./lib/command.js";
 import { Readable } from "stream";
+import { exportTables } from "./lib/exportTables.js";
 
 export const convexExport = new Command("export")
   .summary("Export data from your deployment to a ZIP file")
   .description(
     "Export data, and optionally file storage, from your Convex deployment to a ZIP file.\n" +
+      "Alternatively, export tables to a JSONL, CSV or Parquet file each, optionally only with the documents changed since a previous export.\n" +
       "By default, this exports from your dev deployment.",
   )
   .requiredOption(
     "--path <zipFilePath>",
-    "Exports data into a ZIP file at this path, which may be a directory or unoccupied .zip path",
+    "Exports data into a ZIP file at this path, which may be a directory or unoccupied .zip path. With `--format`, exports a file per table into this directory.",
   )
   .addOption(
     new Option(
@@ -44,6 +47,24 @@ export const convexExport = new Command("export")
       "Includes stored files (https://dashboard.convex.dev/deployment/files) in a _storage folder within the ZIP file",
     ),
   )
+  .addOption(
+    new Option(
+      "--format <format>",
+      "Export a file per table in this format instead of a ZIP file. CSV and Parquet columns are derived from the table's document validator if it has one.",
+    )
+      .choices(["zip", "jsonl", "csv", "parquet"] as const)
+      .default("zip" as const),
+  )
+  .option(
+    "--table <tables>",
+    "Only export these comma-separated tables, e.g. `--table messages,users`. Requires `--format`.",
+    (value) => value.split(",").map((table) => table.trim()),
+  )
+  .option(
+    "--since <cursor>",
+    "Only export the documents created, changed or deleted since the cursor printed by a previous export. Requires `--format`.",
+    parseBigInt,
+  )
   .addDeploymentSelectionOptions(actionDescription("Export data from"))
   .showHelpAfterError()
   .action(async (options) => {
@@ -62,6 +83,32 @@ export const convexExport = new Command("export")
 
     await ensureHasConvexDependency(ctx, "export");
 
+    if (options.format !== "zip") {
+      if (includeStorage) {
+        logFailure(
+          ctx,
+          "Error: `--include-file-storage` is only supported by ZIP exports.",
+        );
+        return await ctx.crash(1, "fatal");
+      }
+      await exportTables(ctx, {
+        deploymentUrl,
+        adminKey,
+        dirPath: inputPath,
+        format: options.format,
+        tables: options.table,
+        since: options.since,
+      });
+      return;
+    }
+    if (options.table !== undefined || options.since !== undefined) {
+      logFailure(
+        ctx,
+        "Error: `--table` and `--since` require `--format jsonl`, `csv` or `parquet`.",
+      );
+      return await ctx.crash(1, "fatal");
+    }
+
     const deploymentNotice = options.prod
       ? ` in your ${chalk.bold("prod")} deployment`
       : "";
@@ -25,12 +25,27 @@ import {
   deploymentSelectionFromOptions,
 } from "./lib/api.js";
 import path from "path";
-import { subscribe } from "./lib/run.js";
+import { runQuery, subscribe } from "./lib/run.js";
 import { Command, Option } from "@commander-js/extra-typings";
 import { actionDescription } from "./lib/command.js";
 import { ConvexHttpClient } from "../browser/http_client.js";
 import { makeFunctionReference } from "../server/index.js";
 import { deploymentDashboardUrlPage } from "./dashboard.js";
+import { tablesOf } from "./lib/schemaDiff.js";
+import {
+  csvImportRowStream,
+  ImportDocument,
+  ImportRow,
+  importRowValidator,
+  ImportRowFormat,
+  loadImportTransform,
+  parseImportRows,
+  reportImportRowErrors,
+  transformImportRows,
+  validateImportRows,
+} from "./lib/importRows.js";
+import { convexToJson } from "../values/value.js";
+import { ValidatorJSON } from "../values/validators.js";
 
 // Backend has minimum chunk size of 5MiB except for the last chunk,
 // so we use 5MiB as highWaterMark which makes fs.ReadStream[asyncIterator]
@@ -71,12 +86,21 @@ export const convexImport = new Command("import")
     new Option(
       "--format <format>",
       "Input file format. This flag is only required if the filename is missing an extension.\n" +
-        "- CSV files must have a header, and each row's entries are interpreted either as a (floating point) number or a string.\n" +
+        "- CSV files must have a header. Each row's entries are typed by the table's schema, with nested JSON for arrays and objects, and are interpreted either as a (floating point) number or a string if the table has no schema.\n" +
         "- JSON files must be an array of JSON objects.\n" +
         "- JSONLines files must have a JSON object per line.\n" +
         "- ZIP files must have one directory per table, containing <table>/documents.jsonl. Snapshot exports from the Convex dashboard have this format.",
     ).choices(["csv", "jsonLines", "jsonArray", "zip"]),
   )
+  .option(
+    "--schema-check",
+    "Check every row against the table's schema and report the rows that don't match, without importing anything",
+  )
+  .option(
+    "--transform <path>",
+    "Path to a JavaScript module exporting a `transform(row, index)` function, as its default export or named `transform`, " +
+      "which returns the document to import for each row, or `null` to skip it",
+  )
   .addDeploymentSelectionOptions(actionDescription("Import data into"))
   .argument("<path>", "Path to the input file")
   .showHelpAfterError()
@@ -123,8 +147,36 @@ export const convexImport = new Command("import")
         return await ctx.crash(1, "fatal");
       }
     }
+    if (format === "zip" && (options.schemaCheck || options.transform)) {
+      logFailure(
+        ctx,
+        `Error: The \`--schema-check\` and \`--transform\` options are not supported for format ${format}`,
+      );
+      return await ctx.crash(1, "fatal");
+    }
 
     await ensureHasConvexDependency(ctx, "import");
+
+    // Check the rows locally instead of failing halfway through the import.
+    let documents:
+      | Iterable<ImportDocument>
+      | AsyncIterable<ImportDocument>
+      | null = null;
+    if (tableName !== null) {
+      documents = await prepareDocuments(ctx, {
+        deploymentUrl,
+        adminKey,
+        filePath,
+        format: format as ImportRowFormat,
+        tableName,
+        schemaCheck: !!options.schemaCheck,
+        transformPath: options.transform ?? null,
+      });
+      if (options.schemaCheck) {
+        return;
+      }
+    }
+
     const convexClient = new ConvexHttpClient(deploymentUrl);
     convexClient.setAdminAuth(adminKey);
     const existingImports = await convexClient.query(
@@ -145,12 +197,15 @@ export const convexImport = new Command("import")
     }
     const fetch = deploymentFetch(deploymentUrl);
 
-    const data = ctx.fs.createReadStream(filePath, {
-      highWaterMark: CHUNK_SIZE,
-    });
-    const fileStats = ctx.fs.stat(filePath);
+    const data: AsyncIterable<Buffer> =
+      documents === null
+        ? ctx.fs.createReadStream(filePath, {
+            highWaterMark: CHUNK_SIZE,
+          })
+        : jsonLinesChunks(documents);
+    const size = ctx.fs.stat(filePath).size;
 
-    showSpinner(ctx, `Importing ${filePath} (${formatSize(fileStats.size)})`);
+    showSpinner(ctx, `Importing ${filePath} (${formatSize(size)})`);
 
     let mode = "requireEmpty";
     if (options.append) {
@@ -161,7 +216,8 @@ export const convexImport = new Command("import")
     const importArgs = {
       tableName: tableName === null ? undefined : tableName,
       mode,
-      format,
+      // Documents prepared locally are uploaded as JSON lines.
+      format: documents === null ? format : "jsonLines",
     };
     const headers = {
       Authorization: `Convex ${adminKey}`,
@@ -181,6 +237,7 @@ export const convexImport = new Command("import")
 
       const partTokens = [];
       let partNumber = 1;
+      let bytesUploaded = 0;
 
       for await (const chunk of data) {
         const partUrl = `/api/import/upload_part?uploadToken=${encodeURIComponent(
@@ -193,11 +250,15 @@ export const convexImport = new Command("import")
         });
         partTokens.push(await partResp.text());
         partNumber += 1;
+        bytesUploaded += chunk.length;
         changeSpinner(
           ctx,
-          `Uploading ${filePath} (${formatSize(data.bytesRead)}/${formatSize(
-            fileStats.size,
-          )})`,
+          // Documents prepared locally don't have the size of the file.
+          documents === null
+            ? `Uploading ${filePath} (${formatSize(bytesUploaded)}/${formatSize(
+                size,
+              )})`
+            : `Uploading ${filePath} (${formatSize(bytesUploaded)})`,
         );
       }
 
@@ -301,6 +362,131 @@ export const convexImport = new Command("import")
     }
   });
 
+/**
+ * Parse, transform and validate the rows of a single table import, returning
+ * the documents to upload or `null` to upload the file as it is.
+ *
+ * Checking and transforming the rows reads the whole file first. Typing the
+ * cells of a CSV file is done row by row as the documents are uploaded.
+ */
+async function prepareDocuments(
+  ctx: Context,
+  options: {
+    deploymentUrl: string;
+    adminKey: string;
+    filePath: string;
+    format: ImportRowFormat;
+    tableName: string;
+    schemaCheck: boolean;
+    transformPath: string | null;
+  },
+): Promise<Iterable<ImportDocument> | AsyncIterable<ImportDocument> | null> {
+  const { filePath, format, tableName, schemaCheck, transformPath } = options;
+  // Only CSV files need the schema to be parsed.
+  if (!schemaCheck && transformPath === null && format !== "csv") {
+    return null;
+  }
+  const { active } = (await runQuery(
+    ctx,
+    options.deploymentUrl,
+    options.adminKey,
+    "_system/frontend/getSchemas",
+    {},
+  )) as { active?: string };
+  // Tables without a document validator have the `any` type.
+  const tableType = tablesOf(active ?? null).get(tableName);
+  const documentType = tableType?.type === "any" ? undefined : tableType;
+  if (!schemaCheck && transformPath === null) {
+    return documentType === undefined
+      ? null
+      : csvDocumentStream(ctx, filePath, documentType, tableName);
+  }
+  if (schemaCheck && documentType === undefined) {
+    logWarning(
+      ctx,
+      chalk.yellow(
+        `Table "${tableName}" has no schema, so only the format of the rows is checked.`,
+      ),
+    );
+  }
+
+  let rows = parseImportRows(
+    ctx.fs.readUtf8File(filePath),
+    format,
+    documentType,
+  );
+  if (transformPath !== null) {
+    const transform = await loadImportTransform(ctx, transformPath);
+    rows = await transformImportRows(rows, transform);
+  }
+  if (documentType !== undefined) {
+    rows = validateImportRows(rows, documentType);
+  }
+  if (reportImportRowErrors(ctx, rows, tableName)) {
+    return await ctx.crash(1, "invalid filesystem data");
+  }
+  if (schemaCheck) {
+    logFinishedStep(
+      ctx,
+      `All ${rows.length} row${
+        rows.length === 1 ? "" : "s"
+      } can be imported to table "${chalk.bold(tableName)}".`,
+    );
+  }
+  return rows.flatMap((row) => ("document" in row ? [row.document] : []));
+}
+
+async function* csvDocumentStream(
+  ctx: Context,
+  filePath: string,
+  documentType: ValidatorJSON,
+  tableName: string,
+): AsyncGenerator<ImportDocument> {
+  const validate = importRowValidator(documentType);
+  const invalid: ImportRow[] = [];
+  let rowCount = 0;
+  const rows = csvImportRowStream(
+    ctx.fs.createReadStream(filePath, { highWaterMark: CHUNK_SIZE }),
+    documentType,
+  );
+  for await (const row of rows) {
+    rowCount += 1;
+    const validated = validate(row);
+    if ("document" in validated) {
+      yield validated.document;
+    } else {
+      invalid.push(validated);
+    }
+  }
+  // The import only starts once the upload finishes, so this stops it before
+  // any documents are written.
+  if (reportImportRowErrors(ctx, invalid, tableName, rowCount)) {
+    return await ctx.crash(1, "invalid filesystem data");
+  }
+}
+
+// Encode documents as JSON lines, in chunks of at least `CHUNK_SIZE` except
+// for the last one.
+async function* jsonLinesChunks(
+  documents: Iterable<ImportDocument> | AsyncIterable<ImportDocument>,
+): AsyncGenerator<Buffer> {
+  let lines: string[] = [];
+  let size = 0;
+  for await (const document of documents) {
+    const line = JSON.stringify(convexToJson(document)) + "\n";
+    lines.push(line);
+    size += Buffer.byteLength(line);
+    if (size >= CHUNK_SIZE) {
+      yield Buffer.from(lines.join(""));
+      lines = [];
+      size = 0;
+    }
+  }
+  if (lines.length > 0) {
+    yield Buffer.from(lines.join(""));
+  }
+}
+
 async function askToConfirmImport(
   ctx: Context,
   messageToConfirm: string | undefined,
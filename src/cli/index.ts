@@ -27,6 +27,8 @@ import { networkTest } from "./network_test.js";
 import { convexExport } from "./convexExport.js";
 import { env } from "./env.js";
 import { data } from "./data.js";
+import { openApi } from "./openApi.js";
+import { migrate } from "./migrate.js";
 import inquirer from "inquirer";
 import inquirerSearchList from "inquirer-search-list";
 
@@ -111,6 +113,8 @@ async function main() {
     .addCommand(convexExport)
     .addCommand(env)
     .addCommand(data)
+    .addCommand(openApi)
+    .addCommand(migrate)
     .addCommand(codegen)
     .addCommand(update)
     .addCommand(logout)
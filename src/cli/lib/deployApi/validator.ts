@@ -15,7 +15,7 @@ export type ConvexValidator =
   | z.infer<typeof baseConvexValidator>
   | { type: "array"; value: ConvexValidator }
   | { type: "record"; keys: ConvexValidator; values: ConvexValidator }
-  | { type: "union"; value: ConvexValidator[] }
+  | { type: "union"; value: ConvexValidator[]; discriminator?: string }
   | {
       type: "object";
       value: Record<string, { fieldType: ConvexValidator; optional: boolean }>;
@@ -29,7 +29,11 @@ export const convexValidator: z.ZodType<ConvexValidator> = z.lazy(() =>
       keys: convexValidator,
       values: convexValidator,
     }),
-    z.object({ type: z.literal("union"), value: z.array(convexValidator) }),
+    z.object({
+      type: z.literal("union"),
+      value: z.array(convexValidator),
+      discriminator: z.optional(z.string()),
+    }),
     z.object({
       type: z.literal("object"),
       value: z.record(
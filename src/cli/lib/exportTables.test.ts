@@ -0,0 +1,317 @@
+import { test, expect, vi, beforeEach, afterEach, describe } from "vitest";
+import { parquetMetadata, parquetReadObjects } from "hyparquet";
+import { oneoffContext } from "../../bundler/context.js";
+// eslint-disable-next-line no-restricted-imports
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  columnsFromValidator,
+  csvRow,
+  exportTables,
+  inferColumns,
+  parseExportResponse,
+} from "./exportTables.js";
+import { runQuery } from "./run.js";
+import { deploymentFetch } from "./utils.js";
+
+vi.mock("./run.js", () => ({ runQuery: vi.fn(), runPaginatedQuery: vi.fn() }));
+vi.mock("./utils.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./utils.js")>()),
+  deploymentFetch: vi.fn(),
+}));
+
+test("columns from document validators", () => {
+  expect(
+    columnsFromValidator(
+      {
+        type: "object",
+        value: {
+          author: {
+            fieldType: { type: "id", tableName: "users" },
+            optional: false,
+          },
+          body: { fieldType: { type: "string" }, optional: false },
+          likes: {
+            fieldType: {
+              type: "union",
+              value: [{ type: "number" }, { type: "null" }],
+            },
+            optional: true,
+          },
+          tags: {
+            fieldType: { type: "array", value: { type: "string" } },
+            optional: false,
+          },
+        },
+      },
+      true,
+    ),
+  ).toEqual([
+    { name: "_id", type: "string" },
+    { name: "_creationTime", type: "number" },
+    { name: "author", type: "string" },
+    { name: "body", type: "string" },
+    { name: "likes", type: "number" },
+    { name: "tags", type: "json" },
+    { name: "_ts", type: "bigint" },
+    { name: "_deleted", type: "boolean" },
+  ]);
+  expect(columnsFromValidator({ type: "any" }, false)).toBeNull();
+  expect(columnsFromValidator(undefined, false)).toBeNull();
+});
+
+test("columns inferred from documents", () => {
+  expect(
+    inferColumns(
+      [
+        { body: "hi", _id: "a", _creationTime: 1, likes: 1 },
+        { _id: "b", _creationTime: 2, likes: "many", pinned: true },
+      ],
+      false,
+    ),
+  ).toEqual([
+    { name: "_id", type: "string" },
+    { name: "_creationTime", type: "number" },
+    { name: "body", type: "string" },
+    { name: "likes", type: "json" },
+    { name: "pinned", type: "boolean" },
+  ]);
+});
+
+test("export responses keep the precision of timestamps", () => {
+  expect(
+    parseExportResponse(
+      '{"values": [{"_id": "a", "_ts": 1729000000123456789, "n": 1.5e300,' +
+        ' "cursor": 1729000000123456789, "o": {"_ts": 2}, "s": "{\\"_ts\\": 3"}],' +
+        ' "hasMore": false, "cursor": 1729000000123456789}',
+    ),
+  ).toEqual({
+    values: [
+      {
+        _id: "a",
+        _ts: "1729000000123456789",
+        n: 1.5e300,
+        // Fields of documents aren't timestamps.
+        cursor: 1729000000123456800,
+        o: { _ts: 2 },
+        s: '{"_ts": 3',
+      },
+    ],
+    hasMore: false,
+    cursor: "1729000000123456789",
+  });
+});
+
+test("CSV rows", () => {
+  const columns = columnsFromValidator(
+    {
+      type: "object",
+      value: {
+        body: { fieldType: { type: "string" }, optional: false },
+        tags: { fieldType: { type: "any" }, optional: true },
+      },
+    },
+    false,
+  )!;
+  expect(
+    csvRow(columns, {
+      _id: "a",
+      _creationTime: 1.5,
+      body: 'say "hi", then\nleave',
+      tags: ["x"],
+    }),
+  ).toEqual('a,1.5,"say ""hi"", then\nleave","[""x""]"\n');
+  expect(csvRow(columns, { _id: "b", _creationTime: 2, body: "" })).toEqual(
+    "b,2,,\n",
+  );
+});
+
+describe("exportTables", () => {
+  let tmpDir: string;
+  let requests: string[];
+  const ctx = oneoffContext;
+
+  // Answer requests with these responses in order, as JSON unless they're
+  // already text.
+  const respondWith = (
+    schema: object | null,
+    responses: (object | string)[],
+  ) => {
+    vi.mocked(runQuery).mockResolvedValue({
+      active: schema === null ? undefined : JSON.stringify(schema),
+    });
+    vi.mocked(deploymentFetch).mockReturnValue((async (url: string) => {
+      requests.push(url);
+      const response = responses.shift();
+      return {
+        text: async () =>
+          typeof response === "string" ? response : JSON.stringify(response),
+      };
+    }) as any);
+  };
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(`${os.tmpdir()}${path.sep}`);
+    requests = [];
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(tmpDir, { recursive: true });
+  });
+
+  const exportOptions = {
+    deploymentUrl: "https://example.convex.cloud",
+    adminKey: "key",
+  };
+
+  test("exports a snapshot of every page of each table", async () => {
+    respondWith(
+      {
+        tables: [
+          {
+            tableName: "messages",
+            documentType: {
+              type: "object",
+              value: {
+                body: { fieldType: { type: "string" }, optional: false },
+                count: { fieldType: { type: "bigint" }, optional: true },
+              },
+            },
+          },
+        ],
+      },
+      [
+        {
+          values: [
+            { _id: "a", _creationTime: 1, _table: "messages", body: "hi" },
+          ],
+          hasMore: true,
+          snapshot: 100,
+          cursor: "c1",
+        },
+        {
+          values: [
+            { _id: "b", _creationTime: 2, _table: "messages", count: 3 },
+            {
+              _id: "c",
+              _creationTime: 3,
+              _table: "messages",
+              body: "bye",
+              count: "-9007199254740993",
+            },
+            { _id: "d", _creationTime: 4, _table: "messages", count: 1.5 },
+          ],
+          hasMore: false,
+          snapshot: 100,
+          cursor: "c2",
+        },
+      ],
+    );
+    const dirPath = path.join(tmpDir, "export");
+    await exportTables(ctx, {
+      ...exportOptions,
+      dirPath,
+      format: "parquet",
+      tables: ["messages"],
+    });
+    // Later pages are read from the snapshot of the first one.
+    expect(requests).toEqual([
+      "/api/list_snapshot?tableName=messages&format=json",
+      "/api/list_snapshot?tableName=messages&format=json&snapshot=100&cursor=c1",
+    ]);
+    const bytes = fs.readFileSync(path.join(dirPath, "messages.parquet"));
+    const file = bytes.buffer.slice(
+      bytes.byteOffset,
+      bytes.byteOffset + bytes.byteLength,
+    );
+    expect(
+      parquetMetadata(file)
+        .schema.slice(1)
+        .map(({ name, type }) => [name, type]),
+    ).toEqual([
+      ["_id", "BYTE_ARRAY"],
+      ["_creationTime", "DOUBLE"],
+      ["body", "BYTE_ARRAY"],
+      ["count", "INT64"],
+    ]);
+    // Values that aren't integers can't be stored in an INT64 column.
+    expect(await parquetReadObjects({ file })).toEqual([
+      { _id: "a", _creationTime: 1, body: "hi", count: null },
+      { _id: "b", _creationTime: 2, body: null, count: 3n },
+      { _id: "c", _creationTime: 3, body: "bye", count: -9007199254740993n },
+      { _id: "d", _creationTime: 4, body: null, count: null },
+    ]);
+    expect(console.log).toHaveBeenCalledWith("100");
+  });
+
+  test("exports the changes since a cursor", async () => {
+    respondWith(null, [
+      {
+        values: [
+          { _id: "a", _creationTime: 1, _table: "messages", _ts: 5, a: 1 },
+          { _id: "u", _creationTime: 1, _table: "users", _ts: 6 },
+        ],
+        hasMore: true,
+        cursor: 6,
+      },
+      {
+        values: [
+          {
+            _id: "a",
+            _creationTime: 1,
+            _table: "messages",
+            _ts: 7,
+            _deleted: true,
+          },
+        ],
+        hasMore: false,
+        cursor: 7,
+      },
+    ]);
+    const dirPath = path.join(tmpDir, "export");
+    await exportTables(ctx, {
+      ...exportOptions,
+      dirPath,
+      format: "csv",
+      tables: ["messages"],
+      since: 4n,
+    });
+    expect(requests).toEqual([
+      "/api/document_deltas?cursor=4&format=json",
+      "/api/document_deltas?cursor=6&format=json",
+    ]);
+    // Without a document validator, the columns come from every document.
+    expect(fs.readdirSync(dirPath)).toEqual(["messages.csv"]);
+    expect(
+      fs.readFileSync(path.join(dirPath, "messages.csv"), "utf-8"),
+    ).toEqual("_id,_creationTime,a,_ts,_deleted\na,1,1,5,\na,1,,7,true\n");
+    expect(console.log).toHaveBeenCalledWith("7");
+  });
+
+  test("exports changes since a realistic timestamp without losing precision", async () => {
+    respondWith(null, [
+      '{"values": [{"_id": "a", "_creationTime": 1, "_table": "messages",' +
+        ' "_ts": 1729000000123456789}],' +
+        ' "hasMore": false, "cursor": 1729000000123456789}',
+    ]);
+    const dirPath = path.join(tmpDir, "export");
+    await exportTables(ctx, {
+      ...exportOptions,
+      dirPath,
+      format: "csv",
+      tables: ["messages"],
+      since: 1729000000123456001n,
+    });
+    expect(requests).toEqual([
+      "/api/document_deltas?cursor=1729000000123456001&format=json",
+    ]);
+    expect(
+      fs.readFileSync(path.join(dirPath, "messages.csv"), "utf-8"),
+    ).toEqual("_id,_creationTime,_ts,_deleted\na,1,1729000000123456789,\n");
+    expect(console.log).toHaveBeenCalledWith("1729000000123456789");
+  });
+});
@@ -0,0 +1,623 @@
+import chalk from "chalk";
+import {
+  ByteWriter,
+  ParquetWriter,
+  schemaFromColumnData,
+} from "hyparquet-writer";
+import { once } from "events";
+import path from "path";
+import * as readline from "readline";
+import { PassThrough } from "stream";
+import {
+  changeSpinner,
+  Context,
+  logFailure,
+  logFinishedStep,
+  logOutput,
+  showSpinner,
+  stopSpinner,
+} from "../../bundler/context.js";
+import { nodeFs } from "../../bundler/fs.js";
+import { JSONValue } from "../../values/value.js";
+import { ValidatorJSON } from "../../values/validators.js";
+import { version } from "../version.js";
+import { runPaginatedQuery, runQuery } from "./run.js";
+import { tablesOf } from "./schemaDiff.js";
+import { deploymentFetch, logAndHandleFetchError } from "./utils.js";
+
+export type TableExportFormat = "jsonl" | "csv" | "parquet";
+
+type ExportedDocument = Record<string, JSONValue>;
+
+/**
+ * A column of a CSV or Parquet export.
+ */
+export type ExportColumn = {
+  name: string;
+  // Values of "json" columns are JSON-encoded.
+  type: "string" | "number" | "bigint" | "boolean" | "json";
+};
+
+// Documents exported incrementally also have the timestamp of the change and
+// whether it deleted the document. Timestamps are nanoseconds, which don't fit
+// in a JS number, so they're exported as decimal strings.
+const DELTA_COLUMNS: ExportColumn[] = [
+  { name: "_ts", type: "bigint" },
+  { name: "_deleted", type: "boolean" },
+];
+
+type ListSnapshotResponse = {
+  values: ExportedDocument[];
+  hasMore: boolean;
+  // A timestamp, see `parseExportResponse`.
+  snapshot: string;
+  cursor: string;
+};
+
+// Write Parquet files in row groups of this many documents, so only one row
+// group is in memory at a time.
+const PARQUET_ROW_GROUP_SIZE = 10000;
+
+// Read spilled documents back in batches of this many, see `spillingWriter`.
+const SPILL_BATCH_SIZE = 1000;
+
+type DocumentDeltasResponse = {
+  values: ExportedDocument[];
+  hasMore: boolean;
+  // A timestamp, see `parseExportResponse`.
+  cursor: string;
+};
+
+/**
+ * Export tables to a file per table in a directory.
+ *
+ * Without `since`, this exports every document in a consistent snapshot.
+ * With it, this only exports the documents changed after the `since` cursor,
+ * including the deleted ones. Either way, it prints the cursor to pass as
+ * `since` next time to export what changed in between.
+ */
+export async function exportTables(
+  ctx: Context,
+  options: {
+    deploymentUrl: string;
+    adminKey: string;
+    dirPath: string;
+    format: TableExportFormat;
+    // All the tables by default.
+    tables?: string[];
+    since?: bigint;
+  },
+) {
+  const { deploymentUrl, adminKey, dirPath, format, since } = options;
+  const incremental = since !== undefined;
+  const tables =
+    options.tables ?? (await listTables(ctx, deploymentUrl, adminKey));
+  if (tables.length === 0) {
+    logFailure(ctx, "There are no tables to export.");
+    return await ctx.crash(1, "fatal");
+  }
+  const { active } = (await runQuery(
+    ctx,
+    deploymentUrl,
+    adminKey,
+    "_system/frontend/getSchemas",
+    {},
+  )) as { active?: string };
+  const documentTypes = tablesOf(active ?? null);
+
+  ctx.fs.mkdir(dirPath, { allowExisting: true, recursive: true });
+  const writers = new Map<string, TableWriter>();
+  for (const table of tables) {
+    const filePath = path.join(dirPath, `${table}.${format}`);
+    if (ctx.fs.exists(filePath)) {
+      logFailure(ctx, `Error: Path ${chalk.bold(filePath)} already exists.`);
+      return await ctx.crash(1, "invalid filesystem data");
+    }
+    const columns = columnsFromValidator(documentTypes.get(table), incremental);
+    writers.set(
+      table,
+      tableWriter(ctx, filePath, format, columns, incremental),
+    );
+  }
+
+  const fetch = deploymentFetch(deploymentUrl);
+  const getJson = async (url: string) => {
+    try {
+      const response = await fetch(url, {
+        headers: {
+          Authorization: `Convex ${adminKey}`,
+          "Convex-Client": `npm-cli-${version}`,
+        },
+      });
+      return parseExportResponse(await response.text());
+    } catch (e) {
+      return await logAndHandleFetchError(ctx, e);
+    }
+  };
+
+  let cursor: bigint;
+  let count = 0;
+  if (!incremental) {
+    showSpinner(ctx, "Exporting a snapshot");
+    let snapshot: bigint | undefined;
+    for (const [table, writer] of writers) {
+      changeSpinner(ctx, `Exporting ${chalk.bold(table)}`);
+      let tableCursor: string | undefined;
+      for (;;) {
+        const params = new URLSearchParams({
+          tableName: table,
+          format: "json",
+        });
+        if (snapshot !== undefined) {
+          params.set("snapshot", `${snapshot}`);
+        }
+        if (tableCursor !== undefined) {
+          params.set("cursor", tableCursor);
+        }
+        const page: ListSnapshotResponse = await getJson(
+          `/api/list_snapshot?${params.toString()}`,
+        );
+        snapshot = BigInt(page.snapshot);
+        await writer.write(
+          page.values.map((value) => exportedFields(value, false)),
+        );
+        count += page.values.length;
+        if (!page.hasMore) {
+          break;
+        }
+        tableCursor = page.cursor;
+      }
+    }
+    cursor = snapshot!;
+  } else {
+    showSpinner(ctx, `Exporting changes since ${since}`);
+    cursor = since;
+    for (;;) {
+      const params = new URLSearchParams({
+        cursor: `${cursor}`,
+        format: "json",
+      });
+      const page: DocumentDeltasResponse = await getJson(
+        `/api/document_deltas?${params.toString()}`,
+      );
+      const changed = new Map<string, ExportedDocument[]>();
+      for (const value of page.values) {
+        const table = value._table as string;
+        if (!writers.has(table)) {
+          continue;
+        }
+        if (!changed.has(table)) {
+          changed.set(table, []);
+        }
+        changed.get(table)!.push(exportedFields(value, true));
+      }
+      for (const [table, documents] of changed) {
+        await writers.get(table)!.write(documents);
+        count += documents.length;
+      }
+      cursor = BigInt(page.cursor);
+      if (!page.hasMore) {
+        break;
+      }
+    }
+  }
+  for (const writer of writers.values()) {
+    await writer.finish();
+  }
+  stopSpinner(ctx);
+  logFinishedStep(
+    ctx,
+    `Exported ${count} ${incremental ? "changed " : ""}document${
+      count === 1 ? "" : "s"
+    } from ${tables.length} table${
+      tables.length === 1 ? "" : "s"
+    } to ${chalk.bold(dirPath)}`,
+  );
+  logFinishedStep(
+    ctx,
+    `To export the documents that change from now on, pass \`--since ${cursor}\``,
+  );
+  logOutput(ctx, `${cursor}`);
+}
+
+/**
+ * Parse the JSON of a `list_snapshot` or `document_deltas` response, reading
+ * the timestamps in it as decimal strings so they keep their precision.
+ */
+export function parseExportResponse(text: string): any {
+  // Timestamps are the top-level `snapshot` and `cursor` and the `_ts` of
+  // every value. Track the nesting and the key of each value to find them.
+  const token =
+    /"(?:[^"\\]|\\.)*"(\s*:)?|[{[]|[}\]]|-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/g;
+  let depth = 0;
+  let key: string | null = null;
+  const exact = text.replace(token, (match: string, colon?: string) => {
+    if (match.startsWith('"')) {
+      key =
+        colon === undefined ? null : JSON.parse(match.slice(0, -colon.length));
+      return match;
+    }
+    if (match === "{" || match === "[") {
+      depth++;
+      key = null;
+      return match;
+    }
+    if (match === "}" || match === "]") {
+      depth--;
+      key = null;
+      return match;
+    }
+    const isTimestamp =
+      (depth === 1 && (key === "snapshot" || key === "cursor")) ||
+      (depth === 3 && key === "_ts");
+    key = null;
+    return isTimestamp && /^-?\d+$/.test(match) ? `"${match}"` : match;
+  });
+  return JSON.parse(exact);
+}
+
+async function listTables(
+  ctx: Context,
+  deploymentUrl: string,
+  adminKey: string,
+): Promise<string[]> {
+  const tables = (await runPaginatedQuery(
+    ctx,
+    deploymentUrl,
+    adminKey,
+    "_system/cli/tables",
+    {},
+  )) as { name: string }[];
+  return tables.map((table) => table.name).sort();
+}
+
+// The table is implied by the file, and the timestamp only matters for
+// changes.
+function exportedFields(
+  value: ExportedDocument,
+  incremental: boolean,
+): ExportedDocument {
+  const { _table, _ts, ...fields } = value;
+  return incremental ? { ...fields, _ts } : fields;
+}
+
+/**
+ * The columns for the documents of a table with this document validator,
+ * or `null` if the validator doesn't define them.
+ */
+export function columnsFromValidator(
+  documentType: ValidatorJSON | undefined,
+  incremental: boolean,
+): ExportColumn[] | null {
+  if (documentType?.type !== "object") {
+    return null;
+  }
+  return [
+    { name: "_id", type: "string" },
+    { name: "_creationTime", type: "number" },
+    ...Object.entries(documentType.value).map(([name, { fieldType }]) => ({
+      name,
+      type: columnType(fieldType),
+    })),
+    ...(incremental ? DELTA_COLUMNS : []),
+  ];
+}
+
+function columnType(validator: ValidatorJSON): ExportColumn["type"] {
+  switch (validator.type) {
+    case "string":
+    case "id":
+    case "bytes":
+      return "string";
+    case "number":
+    case "bigint":
+    case "boolean":
+      return validator.type;
+    case "literal":
+      return typeof validator.value === "string" ||
+        typeof validator.value === "number" ||
+        typeof validator.value === "boolean"
+        ? (typeof validator.value as ExportColumn["type"])
+        : "json";
+    case "union": {
+      // Optional values are often unions with `null`, which is an empty cell.
+      const types = new Set(
+        validator.value
+          .filter((member) => member.type !== "null")
+          .map(columnType),
+      );
+      return types.size === 1 ? [...types][0] : "json";
+    }
+    default:
+      return "json";
+  }
+}
+
+/**
+ * The columns for documents of a table without a document validator: system
+ * fields first and then every other field in the order they appear.
+ */
+export function inferColumns(
+  documents: ExportedDocument[],
+  incremental: boolean,
+): ExportColumn[] {
+  const types = inferredTypes();
+  for (const document of documents) {
+    addInferredTypes(types, document);
+  }
+  return inferredColumns(types, incremental);
+}
+
+// The types of the values seen in each column so far.
+type InferredTypes = Map<string, Set<ExportColumn["type"]>>;
+
+function inferredTypes(): InferredTypes {
+  return new Map([
+    ["_id", new Set()],
+    ["_creationTime", new Set()],
+  ]);
+}
+
+function addInferredTypes(types: InferredTypes, document: ExportedDocument) {
+  for (const [name, value] of Object.entries(document)) {
+    if (DELTA_COLUMNS.some((column) => column.name === name)) {
+      continue;
+    }
+    if (!types.has(name)) {
+      types.set(name, new Set());
+    }
+    if (value !== null) {
+      types
+        .get(name)!
+        .add(
+          typeof value === "string" ||
+            typeof value === "number" ||
+            typeof value === "boolean"
+            ? (typeof value as ExportColumn["type"])
+            : "json",
+        );
+    }
+  }
+}
+
+function inferredColumns(
+  types: InferredTypes,
+  incremental: boolean,
+): ExportColumn[] {
+  return [
+    ...[...types].map(([name, valueTypes]) => ({
+      name,
+      type: valueTypes.size === 1 ? [...valueTypes][0] : ("json" as const),
+    })),
+    ...(incremental ? DELTA_COLUMNS : []),
+  ];
+}
+
+/**
+ * A CSV line for a document, ending in a newline.
+ */
+export function csvRow(
+  columns: ExportColumn[],
+  document: ExportedDocument,
+): string {
+  return csvLine(
+    columns.map(({ name, type }) => {
+      const value = document[name];
+      if (value === undefined || value === null) {
+        return "";
+      }
+      return type === "json" ? JSON.stringify(value) : `${value as any}`;
+    }),
+  );
+}
+
+function csvLine(cells: string[]): string {
+  return (
+    cells
+      .map((cell) =>
+        /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell,
+      )
+      .join(",") + "\n"
+  );
+}
+
+const PARQUET_TYPES = {
+  string: "STRING",
+  number: "DOUBLE",
+  bigint: "INT64",
+  boolean: "BOOLEAN",
+  json: "JSON",
+} as const;
+
+function parquetColumnData(
+  columns: ExportColumn[],
+  documents: ExportedDocument[],
+) {
+  return columns.map(({ name, type }) => ({
+    name,
+    type: PARQUET_TYPES[type],
+    nullable: true,
+    data: documents.map((document) => {
+      const value = document[name];
+      if (value === undefined || value === null) {
+        return null;
+      }
+      return type === "bigint" ? parquetInt64(value) : value;
+    }),
+  }));
+}
+
+// Integers are numbers or, when they don't fit in one, decimal strings.
+// `BigInt` throws on anything else, so leave those cells empty.
+function parquetInt64(value: JSONValue): bigint | null {
+  if (
+    (typeof value === "number" && Number.isInteger(value)) ||
+    (typeof value === "string" && /^-?\d+$/.test(value))
+  ) {
+    return BigInt(value);
+  }
+  return null;
+}
+
+interface TableWriter {
+  write(documents: ExportedDocument[]): void | Promise<void>;
+  finish(): Promise<void>;
+}
+
+function tableWriter(
+  ctx: Context,
+  filePath: string,
+  format: TableExportFormat,
+  columns: ExportColumn[] | null,
+  incremental: boolean,
+): TableWriter {
+  switch (format) {
+    case "jsonl":
+      ctx.fs.writeUtf8File(filePath, "");
+      return {
+        write(documents) {
+          ctx.fs.appendUtf8File(
+            filePath,
+            documents
+              .map((document) => JSON.stringify(document) + "\n")
+              .join(""),
+          );
+        },
+        async finish() {},
+      };
+    case "csv":
+      return columns !== null
+        ? csvWriter(ctx, filePath, columns)
+        : spillingWriter(ctx, filePath, incremental, (inferred) =>
+            csvWriter(ctx, filePath, inferred),
+          );
+    case "parquet":
+      return columns !== null
+        ? parquetWriter(filePath, columns)
+        : spillingWriter(ctx, filePath, incremental, (inferred) =>
+            parquetWriter(filePath, inferred),
+          );
+  }
+}
+
+function csvWriter(
+  ctx: Context,
+  filePath: string,
+  columns: ExportColumn[],
+): TableWriter {
+  ctx.fs.writeUtf8File(filePath, csvLine(columns.map((column) => column.name)));
+  return {
+    write(documents) {
+      ctx.fs.appendUtf8File(
+        filePath,
+        documents.map((document) => csvRow(columns, document)).join(""),
+      );
+    },
+    async finish() {},
+  };
+}
+
+/**
+ * Write documents to a Parquet file, a row group at a time.
+ */
+function parquetWriter(filePath: string, columns: ExportColumn[]): TableWriter {
+  const writer = new ParquetWriter({
+    writer: new ParquetFileOutput(filePath),
+    schema: schemaFromColumnData({
+      columnData: parquetColumnData(columns, []),
+    }),
+  });
+  let rowGroup: ExportedDocument[] = [];
+  const writeRowGroup = async () => {
+    if (rowGroup.length > 0) {
+      await writer.write({
+        columnData: parquetColumnData(columns, rowGroup),
+        rowGroupSize: rowGroup.length,
+      });
+      rowGroup = [];
+    }
+  };
+  return {
+    async write(documents) {
+      for (const document of documents) {
+        rowGroup.push(document);
+        if (rowGroup.length >= PARQUET_ROW_GROUP_SIZE) {
+          await writeRowGroup();
+        }
+      }
+    },
+    async finish() {
+      await writeRowGroup();
+      await writer.finish();
+    },
+  };
+}
+
+// Streams the bytes of a Parquet file to disk after every row group, instead
+// of keeping the whole file in memory.
+class ParquetFileOutput extends ByteWriter {
+  private output = new PassThrough();
+  private written: Promise<void>;
+
+  constructor(filePath: string) {
+    super();
+    this.written = nodeFs.writeFileStream(filePath, this.output);
+  }
+
+  async flush() {
+    const bytes = Buffer.from(this.getBuffer());
+    this.index = 0;
+    if (!this.output.write(bytes)) {
+      await once(this.output, "drain");
+    }
+  }
+
+  async finish() {
+    await this.flush();
+    this.output.end();
+    await this.written;
+  }
+}
+
+// Without a document validator, the columns depend on every document. So
+// spill the documents to a file next to the export until they're all known,
+// and then write them with the writer for those columns.
+function spillingWriter(
+  ctx: Context,
+  filePath: string,
+  incremental: boolean,
+  columnsWriter: (columns: ExportColumn[]) => TableWriter,
+): TableWriter {
+  const spillPath = `${filePath}.partial`;
+  ctx.fs.writeUtf8File(spillPath, "");
+  const types = inferredTypes();
+  return {
+    write(documents) {
+      for (const document of documents) {
+        addInferredTypes(types, document);
+      }
+      ctx.fs.appendUtf8File(
+        spillPath,
+        documents.map((document) => JSON.stringify(document) + "\n").join(""),
+      );
+    },
+    async finish() {
+      const writer = columnsWriter(inferredColumns(types, incremental));
+      const lines = readline.createInterface({
+        input: ctx.fs.createReadStream(spillPath, {}),
+        crlfDelay: Infinity,
+      });
+      let batch: ExportedDocument[] = [];
+      for await (const line of lines) {
+        batch.push(JSON.parse(line));
+        if (batch.length >= SPILL_BATCH_SIZE) {
+          await writer.write(batch);
+          batch = [];
+        }
+      }
+      await writer.write(batch);
+      await writer.finish();
+      ctx.fs.unlink(spillPath);
+    },
+  };
+}
@@ -0,0 +1,152 @@
+import { test, expect } from "vitest";
+import { v } from "../../values/validator.js";
+import {
+  coerceCsvCell,
+  csvImportRowStream,
+  ImportRow,
+  parseCsv,
+  parseImportRows,
+  transformImportRows,
+  validateImportRows,
+} from "./importRows.js";
+
+const documentType = v.object({
+  name: v.string(),
+  age: v.int64(),
+  active: v.boolean(),
+  score: v.optional(v.union(v.float64(), v.null())),
+  tags: v.array(v.object({ label: v.string(), count: v.int64() })),
+}).json;
+
+test("parse CSV", () => {
+  expect(parseCsv('a,b\r\n"x, ""y""",\n"multi\nline",2')).toEqual([
+    ["a", "b"],
+    ['x, "y"', ""],
+    ["multi\nline", "2"],
+  ]);
+  expect(parseCsv("﻿a\n1\n")).toEqual([["a"], ["1"]]);
+});
+
+test("coerce CSV cells", () => {
+  expect(coerceCsvCell("12", undefined)).toEqual(12);
+  expect(coerceCsvCell("abc", undefined)).toEqual("abc");
+  expect(coerceCsvCell("12", { type: "string" })).toEqual("12");
+  expect(coerceCsvCell("12", { type: "bigint" })).toEqual(12n);
+  expect(coerceCsvCell("TRUE", { type: "boolean" })).toEqual(true);
+  expect(coerceCsvCell("yes", { type: "boolean" })).toEqual("yes");
+  expect(coerceCsvCell("", v.union(v.float64(), v.null()).json)).toEqual(null);
+  expect(coerceCsvCell("1.5", v.union(v.float64(), v.null()).json)).toEqual(
+    1.5,
+  );
+  expect(
+    coerceCsvCell('{"count": 3}', v.object({ count: v.int64() }).json),
+  ).toEqual({ count: 3n });
+  expect(coerceCsvCell("AQI=", { type: "bytes" })).toEqual(
+    new Uint8Array([1, 2]).buffer,
+  );
+});
+
+test("typed CSV rows", () => {
+  const rows = parseImportRows(
+    "name,age,active,score,tags\n" +
+      'Ada,36,true,,"[{""label"": ""x"", ""count"": 1}]"\n' +
+      "Bob,old,false,2.5,[]\n" +
+      "Eve,1\n",
+    "csv",
+    documentType,
+  );
+  expect(rows).toEqual([
+    {
+      row: 1,
+      document: {
+        name: "Ada",
+        age: 36n,
+        active: true,
+        tags: [{ label: "x", count: 1n }],
+      },
+    },
+    {
+      row: 2,
+      document: {
+        name: "Bob",
+        age: "old",
+        active: false,
+        score: 2.5,
+        tags: [],
+      },
+    },
+    { row: 3, errors: ["Expected 5 cells like the header, received 2"] },
+  ]);
+  expect(validateImportRows(rows, documentType)).toEqual([
+    rows[0],
+    {
+      row: 2,
+      errors: ["at .age: Expected bigint, received string"],
+    },
+    rows[2],
+  ]);
+});
+
+test("streamed CSV rows", async () => {
+  const text =
+    "﻿name,age,active,score,tags\r\n" +
+    '"Ada ""the first""",36,true,,"[{""label"": ""x"", ""count"": 1}]"\r\n' +
+    "Bob,old,false,2.5,[]\r\n" +
+    "Eve,1";
+  const expected = parseImportRows(text, "csv", documentType);
+  expect(expected).toHaveLength(3);
+  const bytes = Buffer.from(text);
+  async function* chunks(size: number) {
+    for (let start = 0; start < bytes.length; start += size) {
+      yield bytes.subarray(start, start + size);
+    }
+  }
+  // Split the file at every position, even in the middle of characters.
+  for (const size of [1, 2, 3, 5, 8]) {
+    const rows = [];
+    for await (const row of csvImportRowStream(chunks(size), documentType)) {
+      rows.push(row);
+    }
+    expect(rows).toEqual(expected);
+  }
+});
+
+test("JSON rows", () => {
+  expect(
+    parseImportRows('{"a": 1}\n\n[1]\n{"a":', "jsonLines", undefined),
+  ).toEqual([
+    { row: 1, document: { a: 1 } },
+    { row: 2, errors: ["Expected a JSON object"] },
+    { row: 3, errors: [expect.stringMatching(/^Invalid JSON: /)] },
+  ]);
+  expect(
+    parseImportRows(
+      '[{"a": 1, "b": {"$integer": "AQAAAAAAAAA="}}]',
+      "jsonArray",
+      undefined,
+    ),
+  ).toEqual([{ row: 1, document: { a: 1, b: 1n } }]);
+});
+
+test("transform rows", async () => {
+  const rows: ImportRow[] = [
+    { row: 1, document: { name: "ada" } },
+    { row: 2, document: { name: "" } },
+    { row: 3, errors: ["Expected a JSON object"] },
+    { row: 4, document: { name: "throw" } },
+  ];
+  const transformed = await transformImportRows(rows, (row, index) => {
+    if (row.name === "throw") {
+      // eslint-disable-next-line no-restricted-syntax
+      throw new Error("oops");
+    }
+    return row.name === ""
+      ? null
+      : { name: (row.name as string).toUpperCase(), index };
+  });
+  expect(transformed).toEqual([
+    { row: 1, document: { name: "ADA", index: 0 } },
+    rows[2],
+    { row: 4, errors: ["Transform failed: oops"] },
+  ]);
+});
@@ -0,0 +1,522 @@
+import chalk from "chalk";
+import path from "path";
+import { pathToFileURL } from "url";
+import { Context, logError, logFailure } from "../../bundler/context.js";
+import { validatorFromJson } from "../../values/validator_from_json.js";
+import * as Base64 from "../../values/base64.js";
+import { formatIssue, validateValue } from "../../values/validate.js";
+import { ValidatorJSON } from "../../values/validators.js";
+import { jsonToConvex, JSONValue, Value } from "../../values/value.js";
+
+export type ImportRowFormat = "csv" | "jsonLines" | "jsonArray";
+
+export type ImportDocument = Record<string, Value>;
+
+/**
+ * A row of an import file, numbered from 1 (not counting the CSV header), and
+ * either its document or why it can't be imported.
+ */
+export type ImportRow =
+  | { row: number; document: ImportDocument }
+  | { row: number; errors: string[] };
+
+/**
+ * What a `--transform` module exports, as its default export or as
+ * `transform`. It's called with every row and returns the document to import
+ * instead, or `null` to skip the row.
+ */
+export type ImportTransform = (
+  row: ImportDocument,
+  index: number,
+) =>
+  | ImportDocument
+  | null
+  | undefined
+  | Promise<ImportDocument | null | undefined>;
+
+// Don't flood the terminal when every row of a large file is wrong.
+const MAX_REPORTED_ROWS = 20;
+
+/**
+ * Parse the rows of an import file.
+ *
+ * CSV cells are typed by the table's document validator: numbers, int64s,
+ * booleans, nulls, bytes (in base64) and nested JSON for arrays and objects.
+ * Without a validator, cells are a number if they look like one and a string
+ * otherwise, just like when the deployment parses the file.
+ */
+export function parseImportRows(
+  text: string,
+  format: ImportRowFormat,
+  documentType: ValidatorJSON | undefined,
+): ImportRow[] {
+  switch (format) {
+    case "csv":
+      return csvImportRows(text, documentType);
+    case "jsonLines":
+      return text
+        .split(/\r?\n/)
+        .filter((line) => line.trim() !== "")
+        .map((line, i) => jsonImportRow(i + 1, () => JSON.parse(line)));
+    case "jsonArray": {
+      let values: unknown;
+      try {
+        values = JSON.parse(text);
+      } catch (e: any) {
+        return [{ row: 1, errors: [`Invalid JSON: ${e.message}`] }];
+      }
+      if (!Array.isArray(values)) {
+        return [{ row: 1, errors: ["Expected a JSON array of objects"] }];
+      }
+      return values.map((value, i) => jsonImportRow(i + 1, () => value));
+    }
+    default: {
+      const _: never = format;
+      return [];
+    }
+  }
+}
+
+function jsonImportRow(row: number, parse: () => unknown): ImportRow {
+  let value: unknown;
+  try {
+    value = parse();
+  } catch (e: any) {
+    return { row, errors: [`Invalid JSON: ${e.message}`] };
+  }
+  if (!isPlainObject(value)) {
+    return { row, errors: ["Expected a JSON object"] };
+  }
+  // Exported documents encode int64s and bytes as `$integer` and `$bytes`.
+  try {
+    return { row, document: jsonToConvex(value) as ImportDocument };
+  } catch (e: any) {
+    return { row, errors: [e.message] };
+  }
+}
+
+function csvImportRows(
+  text: string,
+  documentType: ValidatorJSON | undefined,
+): ImportRow[] {
+  const [header, ...lines] = parseCsv(text);
+  if (header === undefined) {
+    return [];
+  }
+  return lines.map((cells, i) =>
+    csvImportRow(i + 1, header, cells, documentType),
+  );
+}
+
+/**
+ * Parse the rows of a CSV file as it's read, like `parseImportRows`, so the
+ * whole file doesn't have to be in memory.
+ */
+export async function* csvImportRowStream(
+  chunks: AsyncIterable<Buffer>,
+  documentType: ValidatorJSON | undefined,
+): AsyncGenerator<ImportRow> {
+  const decoder = new TextDecoder();
+  const parser = csvParser();
+  let header: string[] | undefined;
+  let row = 0;
+  function* rowsOf(lines: string[][]): Generator<ImportRow> {
+    for (const cells of lines) {
+      if (header === undefined) {
+        header = cells;
+      } else {
+        row += 1;
+        yield csvImportRow(row, header, cells, documentType);
+      }
+    }
+  }
+  for await (const chunk of chunks) {
+    yield* rowsOf(parser.push(decoder.decode(chunk, { stream: true })));
+  }
+  yield* rowsOf(parser.push(decoder.decode()));
+  yield* rowsOf(parser.end());
+}
+
+function csvImportRow(
+  row: number,
+  header: string[],
+  cells: string[],
+  documentType: ValidatorJSON | undefined,
+): ImportRow {
+  if (cells.length !== header.length) {
+    return {
+      row,
+      errors: [
+        `Expected ${header.length} cells like the header, received ${cells.length}`,
+      ],
+    };
+  }
+  const fields = documentType?.type === "object" ? documentType.value : {};
+  const document: ImportDocument = {};
+  header.forEach((name, column) => {
+    const cell = cells[column];
+    const field = fields[name];
+    if (cell === "" && field?.optional) {
+      return;
+    }
+    document[name] = coerceCsvCell(cell, field?.fieldType);
+  });
+  return { row, document };
+}
+
+/**
+ * Split CSV text into the cells of each line, as specified by RFC 4180.
+ */
+export function parseCsv(text: string): string[][] {
+  const parser = csvParser();
+  return [...parser.push(text), ...parser.end()];
+}
+
+// Parses CSV text pushed in pieces, returning the lines completed by each
+// piece.
+function csvParser() {
+  let cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let started = false;
+  // A quote or carriage return at the end of a piece depends on what comes
+  // next, so it's held back until then.
+  let held = "";
+  const parse = (text: string, isLast: boolean): string[][] => {
+    const lines: string[][] = [];
+    // Skip a byte order mark.
+    let i = !started && text.startsWith("\uFEFF") ? 1 : 0;
+    started = started || text.length > 0;
+    for (; i < text.length; i++) {
+      const char = text[i];
+      if (!isLast && i === text.length - 1 && (char === '"' || char === "\r")) {
+        held = char;
+        break;
+      }
+      if (quoted) {
+        if (char === '"' && text[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          cell += char;
+        }
+      } else if (char === '"') {
+        quoted = true;
+      } else if (char === ",") {
+        cells.push(cell);
+        cell = "";
+      } else if (char === "\n" || char === "\r") {
+        if (char === "\r" && text[i + 1] === "\n") {
+          i++;
+        }
+        cells.push(cell);
+        lines.push(cells);
+        cells = [];
+        cell = "";
+      } else {
+        cell += char;
+      }
+    }
+    return lines;
+  };
+  return {
+    push(text: string): string[][] {
+      const piece = held + text;
+      held = "";
+      return parse(piece, false);
+    },
+    end(): string[][] {
+      const lines = parse(held, true);
+      held = "";
+      // The last line doesn't need to end in a newline.
+      if (cell !== "" || cells.length > 0) {
+        cells.push(cell);
+        lines.push(cells);
+      }
+      return lines;
+    },
+  };
+}
+
+/**
+ * The value of a CSV cell for a field with this validator. Cells that don't
+ * match the validator are left as strings, for validation to report.
+ */
+export function coerceCsvCell(
+  cell: string,
+  validator: ValidatorJSON | undefined,
+): Value {
+  if (validator === undefined) {
+    return untypedCell(cell);
+  }
+  switch (validator.type) {
+    case "string":
+    case "id":
+      return cell;
+    case "number": {
+      const number = Number(cell);
+      return cell.trim() === "" || Number.isNaN(number) ? cell : number;
+    }
+    case "bigint":
+      return /^-?\d+$/.test(cell.trim()) ? BigInt(cell.trim()) : cell;
+    case "boolean": {
+      const lowerCase = cell.trim().toLowerCase();
+      return lowerCase === "true" ? true : lowerCase === "false" ? false : cell;
+    }
+    case "null":
+      return cell === "" || cell === "null" ? null : cell;
+    case "bytes":
+      return base64Bytes(cell) ?? cell;
+    case "any":
+      return untypedCell(cell);
+    case "literal": {
+      const value = jsonToConvex(validator.value);
+      switch (typeof value) {
+        case "number":
+          return coerceCsvCell(cell, { type: "number" });
+        case "bigint":
+          return coerceCsvCell(cell, { type: "bigint" });
+        case "boolean":
+          return coerceCsvCell(cell, { type: "boolean" });
+        default:
+          return cell;
+      }
+    }
+    case "array":
+    case "object":
+    case "record": {
+      let value: JSONValue;
+      try {
+        value = JSON.parse(cell);
+      } catch {
+        return cell;
+      }
+      return coerceJsonValue(value, validator);
+    }
+    case "union":
+      return firstMatchingMember(
+        validator.value,
+        (member) => coerceCsvCell(cell, member),
+        cell,
+      );
+    default: {
+      const _: never = validator;
+      return cell;
+    }
+  }
+}
+
+function untypedCell(cell: string): Value {
+  const number = Number(cell);
+  return cell.trim() === "" || Number.isNaN(number) ? cell : number;
+}
+
+// JSON can't express int64s and bytes, so nested JSON has them as numbers or
+// strings, and base64 strings.
+function coerceJsonValue(value: JSONValue, validator: ValidatorJSON): Value {
+  switch (validator.type) {
+    case "bigint":
+      if (typeof value === "number" && Number.isInteger(value)) {
+        return BigInt(value);
+      }
+      if (typeof value === "string" && /^-?\d+$/.test(value)) {
+        return BigInt(value);
+      }
+      return value;
+    case "bytes":
+      return typeof value === "string" ? base64Bytes(value) ?? value : value;
+    case "array":
+      return Array.isArray(value)
+        ? value.map((element) => coerceJsonValue(element, validator.value))
+        : value;
+    case "object":
+      if (!isPlainObject(value)) {
+        return value;
+      }
+      return Object.fromEntries(
+        Object.entries(value).map(([name, fieldValue]) => {
+          const field = validator.value[name];
+          return [
+            name,
+            field === undefined
+              ? fieldValue
+              : coerceJsonValue(fieldValue, field.fieldType),
+          ];
+        }),
+      );
+    case "record":
+      if (!isPlainObject(value)) {
+        return value;
+      }
+      return Object.fromEntries(
+        Object.entries(value).map(([key, fieldValue]) => [
+          key,
+          coerceJsonValue(fieldValue, validator.values.fieldType),
+        ]),
+      );
+    case "union":
+      return firstMatchingMember(
+        validator.value,
+        (member) => coerceJsonValue(value, member),
+        value,
+      );
+    default:
+      return value;
+  }
+}
+
+function firstMatchingMember(
+  members: ValidatorJSON[],
+  coerce: (member: ValidatorJSON) => Value,
+  fallback: Value,
+): Value {
+  for (const member of members) {
+    const value = coerce(member);
+    if (validateValue(validatorFromJson(member), value).success) {
+      return value;
+    }
+  }
+  return fallback;
+}
+
+function base64Bytes(value: string): ArrayBuffer | undefined {
+  if (value.length % 4 !== 0 || !/^[A-Za-z0-9+/]*={0,2}$/.test(value)) {
+    return undefined;
+  }
+  return Base64.toByteArray(value).buffer as ArrayBuffer;
+}
+
+function isPlainObject(value: unknown): value is Record<string, JSONValue> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export async function loadImportTransform(
+  ctx: Context,
+  modulePath: string,
+): Promise<ImportTransform> {
+  let transformModule: { default?: unknown; transform?: unknown };
+  try {
+    transformModule = await import(
+      pathToFileURL(path.resolve(modulePath)).href
+    );
+  } catch (e: any) {
+    logFailure(ctx, `Failed to load the transform ${modulePath}`);
+    return await ctx.crash(1, "invalid filesystem data", e);
+  }
+  const transform = transformModule.transform ?? transformModule.default;
+  if (typeof transform !== "function") {
+    logFailure(
+      ctx,
+      `The transform ${modulePath} must export a \`transform(row, index)\` function, as its default export or named \`transform\``,
+    );
+    return await ctx.crash(1, "invalid filesystem data");
+  }
+  return transform as ImportTransform;
+}
+
+/**
+ * Run the transform over every row that parsed, dropping the rows it skips.
+ */
+export async function transformImportRows(
+  rows: ImportRow[],
+  transform: ImportTransform,
+): Promise<ImportRow[]> {
+  const transformed: ImportRow[] = [];
+  for (const row of rows) {
+    if (!("document" in row)) {
+      transformed.push(row);
+      continue;
+    }
+    let document: ImportDocument | null | undefined;
+    try {
+      document = await transform(row.document, row.row - 1);
+    } catch (e: any) {
+      transformed.push({
+        row: row.row,
+        errors: [`Transform failed: ${e?.message ?? e}`],
+      });
+      continue;
+    }
+    if (document === null || document === undefined) {
+      continue;
+    }
+    if (!isPlainObject(document)) {
+      transformed.push({
+        row: row.row,
+        errors: ["Transform must return an object, `null` or `undefined`"],
+      });
+      continue;
+    }
+    transformed.push({ row: row.row, document });
+  }
+  return transformed;
+}
+
+/**
+ * Check the documents against the table's document validator, adding the
+ * reasons they don't match to their rows.
+ */
+export function validateImportRows(
+  rows: ImportRow[],
+  documentType: ValidatorJSON,
+): ImportRow[] {
+  return rows.map(importRowValidator(documentType));
+}
+
+/**
+ * Check a row at a time, like `validateImportRows`.
+ */
+export function importRowValidator(
+  documentType: ValidatorJSON,
+): (row: ImportRow) => ImportRow {
+  const validator = validatorFromJson(documentType);
+  return (row) => {
+    if (!("document" in row)) {
+      return row;
+    }
+    // Imports can keep the system fields of exported documents.
+    const { _id, _creationTime, ...fields } = row.document;
+    const result = validateValue(validator, fields);
+    return result.success
+      ? row
+      : { row: row.row, errors: result.issues.map(formatIssue) };
+  };
+}
+
+/**
+ * Log the rows that can't be imported, returning whether there were any.
+ * `rowCount` is the number of rows in the file, if `rows` aren't all of them.
+ */
+export function reportImportRowErrors(
+  ctx: Context,
+  rows: ImportRow[],
+  tableName: string,
+  rowCount: number = rows.length,
+): boolean {
+  const invalid = rows.filter(
+    (row): row is Extract<ImportRow, { errors: string[] }> => "errors" in row,
+  );
+  if (invalid.length === 0) {
+    return false;
+  }
+  logFailure(
+    ctx,
+    `${invalid.length} of ${rowCount} row${
+      rowCount === 1 ? "" : "s"
+    } can't be imported to table "${chalk.bold(tableName)}":`,
+  );
+  for (const { row, errors } of invalid.slice(0, MAX_REPORTED_ROWS)) {
+    for (const error of errors) {
+      logError(ctx, chalk.red(`  Row ${row}: ${error}`));
+    }
+  }
+  if (invalid.length > MAX_REPORTED_ROWS) {
+    logError(
+      ctx,
+      chalk.red(`  ...and ${invalid.length - MAX_REPORTED_ROWS} more rows`),
+    );
+  }
+  return true;
+}
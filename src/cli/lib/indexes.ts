@@ -9,6 +9,7 @@ import {
   logFinishedStep,
   logError,
 } from "../../bundler/context.js";
+import { logSchemaDiff } from "./schemaDiff.js";
 import {
   poll,
   logAndHandleFetchError,
@@ -59,6 +60,10 @@ export async function pushSchema(
     return {};
   }
   const bundles = await bundleSchema(ctx, schemaDir);
+  if (dryRun) {
+    changeSpinner(ctx, "Comparing table schemas...");
+    await logSchemaDiff(ctx, origin, adminKey, bundles[0]);
+  }
 
   changeSpinner(ctx, "Checking for index or schema changes...");
 
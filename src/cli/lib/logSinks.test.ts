@@ -0,0 +1,247 @@
+import { test, expect, describe, beforeEach, afterEach, vi } from "vitest";
+import { oneoffContext } from "../../bundler/context.js";
+// eslint-disable-next-line no-restricted-imports
+import fs from "fs";
+import http from "http";
+import { AddressInfo } from "net";
+import os from "os";
+import path from "path";
+import {
+  createLogSink,
+  deliverToLogSinks,
+  fileLogSink,
+  LogSinkDelivery,
+  otlpLogsRequest,
+  parseLogSinkSpec,
+  syslogMessage,
+} from "./logSinks.js";
+import { JsonLogEntry } from "./logs.js";
+
+const ENTRY: JsonLogEntry = {
+  timestamp: 1700000000500,
+  udfPath: "messages:send",
+  udfType: "Mutation",
+  requestId: "abc123",
+  traceId: "root",
+  parentRequestId: "root",
+  level: "WARN",
+  message: "'slow'",
+  executionTime: 12.5,
+};
+
+test("parse sink specs", async () => {
+  const ctx = oneoffContext;
+  expect(await parseLogSinkSpec(ctx, "file:logs/convex.log")).toEqual({
+    kind: "file",
+    path: "logs/convex.log",
+  });
+  expect(await parseLogSinkSpec(ctx, "otlp")).toEqual({
+    kind: "otlp",
+    url: "http://localhost:4318/v1/logs",
+  });
+  expect(
+    await parseLogSinkSpec(ctx, "otlp:https://collector:4318/v1/logs"),
+  ).toEqual({
+    kind: "otlp",
+    url: "https://collector:4318/v1/logs",
+  });
+  expect(await parseLogSinkSpec(ctx, "syslog")).toEqual({
+    kind: "syslog",
+    host: "localhost",
+    port: 514,
+  });
+  expect(await parseLogSinkSpec(ctx, "syslog:logs.internal:1514")).toEqual({
+    kind: "syslog",
+    host: "logs.internal",
+    port: 1514,
+  });
+  expect(await parseLogSinkSpec(ctx, "./mySink.js")).toEqual({
+    kind: "module",
+    path: "./mySink.js",
+  });
+  expect(await parseLogSinkSpec(ctx, "syslog:[::1]:1514")).toEqual({
+    kind: "syslog",
+    host: "::1",
+    port: 1514,
+  });
+  expect(await parseLogSinkSpec(ctx, "syslog:fe80::1")).toEqual({
+    kind: "syslog",
+    host: "fe80::1",
+    port: 514,
+  });
+});
+
+test("reject sink specs with invalid ports", async () => {
+  // Make a context that throws on crashes so we can detect them.
+  const ctx = {
+    ...oneoffContext,
+    crash: () => {
+      // eslint-disable-next-line no-restricted-syntax
+      throw new Error();
+    },
+  };
+  const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+  try {
+    for (const spec of [
+      "syslog:host:abc",
+      "syslog:host:",
+      "syslog:host:1.5",
+      "syslog:host:70000",
+      "syslog:[::1]:x",
+    ]) {
+      await expect(parseLogSinkSpec(ctx, spec)).rejects.toThrow();
+    }
+    expect(consoleSpy).toHaveBeenCalledTimes(5);
+  } finally {
+    consoleSpy.mockRestore();
+  }
+});
+
+describe("fileLogSink", () => {
+  let tmpDir: string;
+  const ctx = oneoffContext;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(`${os.tmpdir()}${path.sep}`);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true });
+  });
+
+  test("rotates files", () => {
+    const logFile = path.join(tmpDir, "logs", "convex.log");
+    const line = JSON.stringify(ENTRY) + "\n";
+    // Fit two lines per file and keep two rotated files.
+    const sink = fileLogSink(ctx, logFile, {
+      maxBytes: line.length * 2,
+      maxFiles: 2,
+    });
+    for (let i = 0; i < 7; i++) {
+      void sink.onLog({ ...ENTRY, message: `${i}` });
+    }
+    const messages = (file: string) =>
+      fs
+        .readFileSync(file, "utf-8")
+        .trim()
+        .split("\n")
+        .map((l) => JSON.parse(l).message);
+    expect(messages(logFile)).toEqual(["6"]);
+    expect(messages(`${logFile}.1`)).toEqual(["4", "5"]);
+    expect(messages(`${logFile}.2`)).toEqual(["2", "3"]);
+    expect(fs.existsSync(`${logFile}.3`)).toBe(false);
+  });
+});
+
+test("OTLP log records", () => {
+  const [record] = otlpLogsRequest([ENTRY]).resourceLogs[0].scopeLogs[0]
+    .logRecords;
+  expect(record).toEqual({
+    timeUnixNano: "1700000000500000000",
+    severityNumber: 13,
+    severityText: "WARN",
+    body: { stringValue: "'slow'" },
+    attributes: [
+      { key: "convex.udf_path", value: { stringValue: "messages:send" } },
+      { key: "convex.udf_type", value: { stringValue: "Mutation" } },
+      { key: "convex.request_id", value: { stringValue: "abc123" } },
+      { key: "convex.trace_id", value: { stringValue: "root" } },
+      { key: "convex.execution_time_ms", value: { doubleValue: 12.5 } },
+    ],
+  });
+});
+
+test("syslog messages", () => {
+  expect(syslogMessage(ENTRY, "laptop")).toEqual(
+    "<12>1 2023-11-14T22:13:20.500Z laptop convex - abc123 - [messages:send] 'slow'",
+  );
+  expect(
+    syslogMessage({ ...ENTRY, level: "ERROR", requestId: null }, "laptop"),
+  ).toEqual(
+    "<11>1 2023-11-14T22:13:20.500Z laptop convex - - - [messages:send] 'slow'",
+  );
+});
+
+test("OTLP sink posts JSON", async () => {
+  const requests: { headers: http.IncomingHttpHeaders; body: string }[] = [];
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      requests.push({ headers: req.headers, body });
+      res.end("{}");
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  try {
+    const { port } = server.address() as AddressInfo;
+    const sink = await createLogSink(oneoffContext, {
+      kind: "otlp",
+      url: `http://127.0.0.1:${port}/v1/logs`,
+    });
+    await sink.onLog(ENTRY);
+    await sink.flush!();
+    expect(requests).toHaveLength(1);
+    expect(requests[0].headers["content-type"]).toEqual("application/json");
+    expect(JSON.parse(requests[0].body)).toEqual(otlpLogsRequest([ENTRY]));
+  } finally {
+    server.close();
+  }
+});
+
+test("failed sinks get the lines they missed with the next batch", async () => {
+  const received: string[] = [];
+  let failing = true;
+  const deliveries: LogSinkDelivery[] = [
+    {
+      sink: {
+        name: "flaky",
+        onLog(entry) {
+          if (failing) {
+            // eslint-disable-next-line no-restricted-syntax
+            throw new Error("down");
+          }
+          received.push(entry.message);
+        },
+      },
+      pending: [],
+    },
+    {
+      sink: {
+        name: "working",
+        onLog(entry) {
+          received.push(`working ${entry.message}`);
+        },
+      },
+      pending: [],
+    },
+  ];
+  const batch = (...messages: string[]) =>
+    messages.map((message) => ({ ...ENTRY, message }));
+  const ctx = oneoffContext;
+  const originalError = console.error;
+  console.error = () => {};
+  try {
+    expect(await deliverToLogSinks(ctx, deliveries, batch("1", "2"), 3)).toBe(
+      false,
+    );
+    expect(await deliverToLogSinks(ctx, deliveries, batch("3", "4"), 3)).toBe(
+      false,
+    );
+    failing = false;
+    expect(await deliverToLogSinks(ctx, deliveries, batch("5"), 3)).toBe(true);
+  } finally {
+    console.error = originalError;
+  }
+  expect(received).toEqual([
+    "working 1",
+    "working 2",
+    "working 3",
+    "working 4",
+    // The oldest lines are dropped past `maxPending`.
+    "3",
+    "4",
+    "5",
+    "working 5",
+  ]);
+});
@@ -0,0 +1,390 @@
+import chalk from "chalk";
+import dgram from "dgram";
+import net from "net";
+import os from "os";
+import path from "path";
+import { pathToFileURL } from "url";
+import { Context, logFailure, logWarning } from "../../bundler/context.js";
+import { JsonLogEntry, LogLevel } from "./logs.js";
+import { parseInteger, throwingFetch } from "./utils.js";
+
+/**
+ * Somewhere `npx convex logs --sink <sink>` sends log lines to.
+ *
+ * `onLog` is called for every log line of a batch fetched from the
+ * deployment and `flush` once the batch is done. If either of them throws,
+ * the lines the sink hasn't received yet are delivered again with the next
+ * batch, so sinks receive every log line at least once. Other sinks and the
+ * terminal carry on in the meantime.
+ */
+export interface LogSink {
+  name: string;
+  onLog(entry: JsonLogEntry): void | Promise<void>;
+  flush?(): void | Promise<void>;
+}
+
+/**
+ * What a user-supplied sink module exports.
+ */
+export type LogSinkModule = Pick<LogSink, "onLog" | "flush">;
+
+export type LogSinkSpec =
+  | { kind: "file"; path: string }
+  | { kind: "otlp"; url: string }
+  | { kind: "syslog"; host: string; port: number }
+  | { kind: "module"; path: string };
+
+// Rotate log files once they reach 10MB, keeping the 5 most recent ones.
+const FILE_SINK_MAX_BYTES = 10 * 1024 * 1024;
+const FILE_SINK_MAX_FILES = 5;
+
+// Don't let a sink that keeps failing hold on to every log line.
+const MAX_PENDING_LOG_LINES = 10000;
+
+const DEFAULT_OTLP_URL = "http://localhost:4318/v1/logs";
+const DEFAULT_SYSLOG_PORT = 514;
+
+/**
+ * Parse a `--sink` argument:
+ * - `file:<path>` appends JSON lines to a file, rotating it as it grows.
+ * - `otlp[:<url>]` posts to an OTLP/HTTP logs endpoint, by default
+ *   `http://localhost:4318/v1/logs`.
+ * - `syslog[:<host>[:<port>]]` sends RFC 5424 messages over UDP, by default
+ *   to `localhost:514`. IPv6 hosts with a port go in brackets, like
+ *   `syslog:[::1]:514`.
+ * - Anything else is the path to a JavaScript module exporting `onLog` and
+ *   optionally `flush`.
+ */
+export async function parseLogSinkSpec(
+  ctx: Context,
+  spec: string,
+): Promise<LogSinkSpec> {
+  if (spec.startsWith("file:")) {
+    return { kind: "file", path: spec.slice("file:".length) };
+  }
+  if (spec === "otlp") {
+    return { kind: "otlp", url: DEFAULT_OTLP_URL };
+  }
+  if (spec.startsWith("otlp:")) {
+    return { kind: "otlp", url: spec.slice("otlp:".length) };
+  }
+  if (spec === "syslog") {
+    return { kind: "syslog", host: "localhost", port: DEFAULT_SYSLOG_PORT };
+  }
+  if (spec.startsWith("syslog:")) {
+    const address = spec.slice("syslog:".length);
+    let host: string;
+    let port: string | undefined;
+    const bracketed = /^\[([^\]]*)\](?::(.*))?$/.exec(address);
+    if (bracketed !== null) {
+      [, host, port] = bracketed;
+    } else if (net.isIPv6(address)) {
+      host = address;
+    } else {
+      const colon = address.indexOf(":");
+      host = colon === -1 ? address : address.slice(0, colon);
+      port = colon === -1 ? undefined : address.slice(colon + 1);
+    }
+    return {
+      kind: "syslog",
+      host: host || "localhost",
+      port:
+        port === undefined
+          ? DEFAULT_SYSLOG_PORT
+          : await parseSyslogPort(ctx, spec, port),
+    };
+  }
+  return { kind: "module", path: spec };
+}
+
+async function parseSyslogPort(
+  ctx: Context,
+  spec: string,
+  port: string,
+): Promise<number> {
+  let parsed: number | undefined;
+  try {
+    parsed = parseInteger(port);
+  } catch (e) {
+    parsed = undefined;
+  }
+  if (
+    port.trim() === "" ||
+    parsed === undefined ||
+    !Number.isInteger(parsed) ||
+    parsed <= 0 ||
+    parsed > 65535
+  ) {
+    logFailure(ctx, `Invalid port ${chalk.bold(port)} in log sink ${spec}`);
+    return await ctx.crash(1, "fatal");
+  }
+  return parsed;
+}
+
+export async function createLogSink(
+  ctx: Context,
+  spec: LogSinkSpec,
+): Promise<LogSink> {
+  switch (spec.kind) {
+    case "file":
+      return fileLogSink(ctx, spec.path, {
+        maxBytes: FILE_SINK_MAX_BYTES,
+        maxFiles: FILE_SINK_MAX_FILES,
+      });
+    case "otlp":
+      return otlpLogSink(spec.url);
+    case "syslog":
+      return syslogLogSink(spec.host, spec.port);
+    case "module":
+      return await moduleLogSink(ctx, spec.path);
+    default: {
+      const _: never = spec;
+      return await ctx.crash(1, "fatal");
+    }
+  }
+}
+
+/**
+ * A sink and the log lines it hasn't received yet.
+ */
+export type LogSinkDelivery = { sink: LogSink; pending: JsonLogEntry[] };
+
+/**
+ * Deliver new log lines to each of the sinks, along with the lines they
+ * failed to receive before, returning whether every sink has all of them.
+ *
+ * A sink that keeps failing holds on to at most `maxPending` lines, dropping
+ * the oldest ones.
+ */
+export async function deliverToLogSinks(
+  ctx: Context,
+  deliveries: LogSinkDelivery[],
+  entries: JsonLogEntry[],
+  maxPending: number = MAX_PENDING_LOG_LINES,
+): Promise<boolean> {
+  let delivered = true;
+  for (const delivery of deliveries) {
+    const { sink } = delivery;
+    delivery.pending.push(...entries);
+    const dropped = delivery.pending.length - maxPending;
+    if (dropped > 0) {
+      delivery.pending = delivery.pending.slice(dropped);
+      logWarning(
+        ctx,
+        chalk.yellow(
+          `Convex [WARN] Dropped ${dropped} log lines for log sink ${sink.name}`,
+        ),
+      );
+    }
+    try {
+      // Lines are only removed once the whole batch is through, since a
+      // sink like OTLP only sends them on `flush`.
+      for (const entry of delivery.pending) {
+        await sink.onLog(entry);
+      }
+      await sink.flush?.();
+      delivery.pending = [];
+    } catch (e: any) {
+      logWarning(
+        ctx,
+        chalk.yellow(
+          `Convex [WARN] Log sink ${sink.name} failed: ${e?.message ?? e}`,
+        ),
+      );
+      delivered = false;
+    }
+  }
+  return delivered;
+}
+
+export function fileLogSink(
+  ctx: Context,
+  filePath: string,
+  options: { maxBytes: number; maxFiles: number },
+): LogSink {
+  ctx.fs.mkdir(path.dirname(path.resolve(filePath)), {
+    allowExisting: true,
+    recursive: true,
+  });
+  let size = ctx.fs.exists(filePath) ? ctx.fs.stat(filePath).size : 0;
+  return {
+    name: `file:${filePath}`,
+    onLog(entry) {
+      const line = JSON.stringify(entry) + "\n";
+      const lineBytes = Buffer.byteLength(line);
+      if (size > 0 && size + lineBytes > options.maxBytes) {
+        rotateLogFiles(ctx, filePath, options.maxFiles);
+        size = 0;
+      }
+      ctx.fs.appendUtf8File(filePath, line);
+      size += lineBytes;
+    },
+  };
+}
+
+// Shift `log.1` to `log.2` and so on, dropping the oldest file, and move the
+// current file to `log.1`.
+function rotateLogFiles(ctx: Context, filePath: string, maxFiles: number) {
+  const oldest = `${filePath}.${maxFiles}`;
+  if (ctx.fs.exists(oldest)) {
+    ctx.fs.unlink(oldest);
+  }
+  for (let i = maxFiles - 1; i >= 1; i--) {
+    if (ctx.fs.exists(`${filePath}.${i}`)) {
+      ctx.fs.rename(`${filePath}.${i}`, `${filePath}.${i + 1}`);
+    }
+  }
+  ctx.fs.rename(filePath, `${filePath}.1`);
+}
+
+function otlpLogSink(url: string): LogSink {
+  let batch: JsonLogEntry[] = [];
+  return {
+    name: `otlp:${url}`,
+    onLog(entry) {
+      batch.push(entry);
+    },
+    async flush() {
+      if (batch.length === 0) {
+        return;
+      }
+      const entries = batch;
+      // A failed batch is delivered again from scratch.
+      batch = [];
+      await throwingFetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(otlpLogsRequest(entries)),
+      });
+    },
+  };
+}
+
+// https://opentelemetry.io/docs/specs/otel/logs/data-model/#field-severitynumber
+const OTLP_SEVERITY_NUMBERS: Record<LogLevel, number> = {
+  DEBUG: 5,
+  LOG: 9,
+  INFO: 9,
+  WARN: 13,
+  ERROR: 17,
+};
+
+/**
+ * The body of an OTLP/HTTP request exporting log lines, in its JSON encoding.
+ */
+export function otlpLogsRequest(entries: JsonLogEntry[]) {
+  return {
+    resourceLogs: [
+      {
+        resource: {
+          attributes: [
+            { key: "service.name", value: { stringValue: "convex" } },
+          ],
+        },
+        scopeLogs: [
+          {
+            scope: { name: "convex-cli" },
+            logRecords: entries.map((entry) => ({
+              // Nanoseconds overflow a safe integer, so append the zeros as a string.
+              timeUnixNano: `${Math.round(entry.timestamp)}000000`,
+              severityNumber: OTLP_SEVERITY_NUMBERS[entry.level],
+              severityText: entry.level,
+              body: { stringValue: entry.message },
+              attributes: [
+                {
+                  key: "convex.udf_path",
+                  value: { stringValue: entry.udfPath },
+                },
+                {
+                  key: "convex.udf_type",
+                  value: { stringValue: entry.udfType },
+                },
+                ...(entry.requestId !== null
+                  ? [
+                      {
+                        key: "convex.request_id",
+                        value: { stringValue: entry.requestId },
+                      },
+                    ]
+                  : []),
+                ...(entry.traceId !== null
+                  ? [
+                      {
+                        key: "convex.trace_id",
+                        value: { stringValue: entry.traceId },
+                      },
+                    ]
+                  : []),
+                {
+                  key: "convex.execution_time_ms",
+                  value: { doubleValue: entry.executionTime },
+                },
+              ],
+            })),
+          },
+        ],
+      },
+    ],
+  };
+}
+
+function syslogLogSink(host: string, port: number): LogSink {
+  const socket = dgram.createSocket(net.isIPv6(host) ? "udp6" : "udp4");
+  // Don't keep the process alive just for the socket.
+  socket.unref();
+  const hostname = os.hostname();
+  return {
+    name: `syslog:${net.isIPv6(host) ? `[${host}]` : host}:${port}`,
+    onLog(entry) {
+      const message = syslogMessage(entry, hostname);
+      return new Promise<void>((resolve, reject) => {
+        socket.send(message, port, host, (error) =>
+          error ? reject(error) : resolve(),
+        );
+      });
+    },
+  };
+}
+
+// https://www.rfc-editor.org/rfc/rfc5424#section-6.2.1
+const SYSLOG_SEVERITIES: Record<LogLevel, number> = {
+  ERROR: 3,
+  WARN: 4,
+  LOG: 6,
+  INFO: 6,
+  DEBUG: 7,
+};
+const SYSLOG_FACILITY_USER = 1;
+
+/**
+ * Format a log line as an RFC 5424 syslog message.
+ */
+export function syslogMessage(entry: JsonLogEntry, hostname: string): string {
+  const priority = SYSLOG_FACILITY_USER * 8 + SYSLOG_SEVERITIES[entry.level];
+  const timestamp = new Date(entry.timestamp).toISOString();
+  const requestId = entry.requestId ?? "-";
+  return `<${priority}>1 ${timestamp} ${hostname} convex - ${requestId} - [${entry.udfPath}] ${entry.message}`;
+}
+
+async function moduleLogSink(ctx: Context, modulePath: string) {
+  let sinkModule: Partial<LogSinkModule>;
+  try {
+    sinkModule = await import(pathToFileURL(path.resolve(modulePath)).href);
+  } catch (e: any) {
+    logFailure(ctx, `Failed to load the log sink ${modulePath}`);
+    return await ctx.crash(1, "invalid filesystem data", e);
+  }
+  const { onLog, flush } = sinkModule;
+  if (typeof onLog !== "function") {
+    logFailure(
+      ctx,
+      `The log sink ${modulePath} must export an \`onLog(entry)\` function`,
+    );
+    return await ctx.crash(1, "invalid filesystem data");
+  }
+  return {
+    name: modulePath,
+    onLog,
+    flush: typeof flush === "function" ? flush : undefined,
+  };
+}
@@ -0,0 +1,164 @@
+import { test, expect } from "vitest";
+import {
+  executionMatchesFilters,
+  functionPathMatches,
+  jsonLogEntries,
+  UdfExecutionResponse,
+} from "./logs.js";
+
+const EXECUTION: UdfExecutionResponse = {
+  identifier: "messages.js:list",
+  udfType: "Query",
+  requestId: "abc123",
+  logLines: [
+    "[LOG] 'legacy line'",
+    {
+      messages: ["'structured'", "1"],
+      level: "WARN",
+      timestamp: 1700000000500,
+      isTruncated: false,
+    },
+  ],
+  timestamp: 1700000001,
+  executionTime: 0.0125,
+  error: null,
+  kind: "Completion",
+};
+
+test("function path globs", () => {
+  expect(functionPathMatches("messages:list", "messages.js:list")).toBe(true);
+  expect(functionPathMatches("messages:*", "messages:send")).toBe(true);
+  expect(functionPathMatches("messages", "messages:send")).toBe(true);
+  expect(functionPathMatches("messages:l?st", "messages:list")).toBe(true);
+  expect(functionPathMatches("messages:*", "users:list")).toBe(false);
+  expect(functionPathMatches("admin/*", "admin/users:list")).toBe(true);
+  expect(functionPathMatches("admin/*", "admin/teams/users:list")).toBe(false);
+  expect(functionPathMatches("admin/**", "admin/teams/users:list")).toBe(true);
+  expect(functionPathMatches("*:send", "messages:send")).toBe(true);
+});
+
+test("execution filters", () => {
+  expect(executionMatchesFilters(EXECUTION, {})).toBe(true);
+  expect(executionMatchesFilters(EXECUTION, { failuresOnly: true })).toBe(
+    false,
+  );
+  expect(
+    executionMatchesFilters(
+      { ...EXECUTION, error: "Uncaught Error: oops" },
+      { failuresOnly: true },
+    ),
+  ).toBe(true);
+  expect(executionMatchesFilters(EXECUTION, { udfTypes: ["Mutation"] })).toBe(
+    false,
+  );
+  expect(
+    executionMatchesFilters(EXECUTION, {
+      udfTypes: ["Query", "Mutation"],
+      functionPath: "messages:*",
+    }),
+  ).toBe(true);
+  // Executions without a trace ID start their own trace.
+  expect(executionMatchesFilters(EXECUTION, { traceId: "abc123" })).toBe(true);
+  expect(
+    executionMatchesFilters(
+      { ...EXECUTION, traceId: "root", parentRequestId: "root" },
+      { traceId: "root" },
+    ),
+  ).toBe(true);
+  expect(
+    executionMatchesFilters(
+      { ...EXECUTION, traceId: "other" },
+      { traceId: "abc123" },
+    ),
+  ).toBe(false);
+});
+
+test("JSON log entries", () => {
+  const execution = {
+    udfPath: "messages.js:list",
+    udfType: "Query",
+    requestId: "abc123",
+    traceId: "abc123",
+    parentRequestId: null,
+    executionTime: 12.5,
+  };
+  expect(jsonLogEntries(EXECUTION, {}, true)).toEqual([
+    {
+      ...execution,
+      timestamp: 1700000001000,
+      level: "LOG",
+      message: "'legacy line'",
+    },
+    {
+      ...execution,
+      timestamp: 1700000000500,
+      level: "WARN",
+      message: "'structured' 1",
+    },
+    {
+      ...execution,
+      timestamp: 1700000001000,
+      level: "INFO",
+      message: "Function executed in 13 ms",
+    },
+  ]);
+
+  expect(
+    jsonLogEntries(
+      { ...EXECUTION, requestId: undefined, error: "Uncaught Error: oops" },
+      { levels: ["ERROR", "WARN"] },
+      true,
+    ),
+  ).toEqual([
+    {
+      ...execution,
+      requestId: null,
+      traceId: null,
+      timestamp: 1700000000500,
+      level: "WARN",
+      message: "'structured' 1",
+    },
+    {
+      ...execution,
+      requestId: null,
+      traceId: null,
+      timestamp: 1700000001000,
+      level: "ERROR",
+      message: "Uncaught Error: oops",
+    },
+  ]);
+});
+
+test("JSON log entries in a trace", () => {
+  const [entry] = jsonLogEntries(
+    { ...EXECUTION, traceId: "root", parentRequestId: "root" },
+    { levels: ["LOG"] },
+    false,
+  );
+  expect(entry).toMatchObject({
+    requestId: "abc123",
+    traceId: "root",
+    parentRequestId: "root",
+  });
+});
+
+test("JSON log entries only print the trace they're filtered by", () => {
+  const filters = { traceId: "root" };
+  // Lines are only filtered by the trace ID of their execution.
+  const execution: UdfExecutionResponse = {
+    ...EXECUTION,
+    traceId: "root",
+    logLines: [
+      {
+        messages: ["'from another trace'"],
+        level: "LOG",
+        timestamp: 1700000000500,
+        isTruncated: false,
+        traceId: "other",
+      } as any,
+    ],
+  };
+  expect(executionMatchesFilters(execution, filters)).toBe(true);
+  const entries = jsonLogEntries(execution, filters, true);
+  expect(entries.map((entry) => entry.traceId)).toEqual(["root", "root"]);
+});
@@ -8,11 +8,23 @@ import { version } from "../version.js";
 import { nextBackoff } from "../dev.js";
 import chalk from "chalk";
 import { deploymentFetch } from "./utils.js";
+import { deliverToLogSinks, LogSink, LogSinkDelivery } from "./logSinks.js";
 
 const MAX_UDF_STREAM_FAILURE_COUNT = 5;
 
 type LogDestination = "stdout" | "stderr";
 
+export type LogFilters = {
+  // Glob matched against the function path, see `functionPathMatches`.
+  functionPath?: string;
+  udfTypes?: UdfType[];
+  levels?: LogLevel[];
+  // Only show the logs of function executions that failed.
+  failuresOnly?: boolean;
+  // Only show the logs of function executions in this trace.
+  traceId?: string;
+};
+
 export async function watchLogs(
   ctx: Context,
   url: string,
@@ -21,12 +33,33 @@ export async function watchLogs(
   options?: {
     success: boolean;
     history?: number | boolean;
+    filters?: LogFilters;
+    // Print one JSON object per log line instead of colored text.
+    json?: boolean;
+    // Also send log lines to these sinks, see `LogSink`.
+    sinks?: LogSink[];
+    // Record the cursor in this file once every sink has a batch of logs and
+    // resume from it on restart, instead of from the current head.
+    cursorFile?: string;
   },
 ) {
+  const processOptions = {
+    shouldShowSuccessLogs: options?.success === true,
+    filters: options?.filters ?? {},
+    json: options?.json === true,
+  };
+  const deliveries: LogSinkDelivery[] = (options?.sinks ?? []).map((sink) => ({
+    sink,
+    pending: [],
+  }));
   const authHeader = createAuthHeader(adminKey);
+  const savedCursor =
+    options?.cursorFile !== undefined
+      ? readLogCursor(ctx, options.cursorFile, url)
+      : null;
   let numFailures = 0;
-  let isFirst = true;
-  let cursorMs = 0;
+  let isFirst = savedCursor === null;
+  let cursorMs = savedCursor ?? 0;
 
   for (;;) {
     try {
@@ -35,24 +68,39 @@ export async function watchLogs(
         url,
         authHeader,
       );
-      cursorMs = newCursor;
-      numFailures = 0;
+      let logs = entries;
       // The first execution, we just want to fetch the current head cursor so we don't send stale
       // logs to the client.
       if (isFirst) {
-        isFirst = false;
         if (
           options?.history === true ||
           (typeof options?.history === "number" && options?.history > 0)
         ) {
-          const entriesSlice =
+          logs =
             options?.history === true
               ? entries
               : entries.slice(entries.length - options?.history);
-          processLogs(ctx, entriesSlice, dest, options?.success);
+        } else {
+          logs = [];
         }
-      } else {
-        processLogs(ctx, entries, dest, options?.success === true);
+      }
+      processLogs(ctx, logs, dest, processOptions);
+      isFirst = false;
+      cursorMs = newCursor;
+      numFailures = 0;
+      // Sinks that fail get the logs they missed with the next batch, so
+      // only record the cursor once every sink has caught up.
+      const delivered = await deliverToLogSinks(
+        ctx,
+        deliveries,
+        logEntries(
+          logs,
+          processOptions.filters,
+          processOptions.shouldShowSuccessLogs,
+        ),
+      );
+      if (delivered && options?.cursorFile !== undefined) {
+        writeLogCursor(ctx, options.cursorFile, url, cursorMs);
       }
     } catch (e) {
       numFailures += 1;
@@ -75,23 +123,82 @@ export async function watchLogs(
   }
 }
 
+type LogCursorFile = {
+  deploymentUrl: string;
+  cursor: number;
+};
+
+function readLogCursor(
+  ctx: Context,
+  cursorFile: string,
+  url: string,
+): number | null {
+  if (!ctx.fs.exists(cursorFile)) {
+    return null;
+  }
+  let saved: LogCursorFile | null = null;
+  try {
+    saved = JSON.parse(ctx.fs.readUtf8File(cursorFile));
+  } catch {
+    // Handled below.
+  }
+  if (typeof saved?.cursor !== "number") {
+    logWarning(
+      ctx,
+      chalk.yellow(`Ignoring ${cursorFile}, it isn't a valid cursor file.`),
+    );
+    return null;
+  }
+  if (saved.deploymentUrl !== url) {
+    logWarning(
+      ctx,
+      chalk.yellow(
+        `Ignoring ${cursorFile}, it was saved for a different deployment.`,
+      ),
+    );
+    return null;
+  }
+  logMessage(ctx, chalk.gray(`Resuming logs from ${cursorFile}`));
+  return saved.cursor;
+}
+
+function writeLogCursor(
+  ctx: Context,
+  cursorFile: string,
+  url: string,
+  cursor: number,
+) {
+  const saved: LogCursorFile = { deploymentUrl: url, cursor };
+  ctx.fs.writeUtf8File(cursorFile, JSON.stringify(saved) + "\n");
+}
+
 function createAuthHeader(adminKey: string): string {
   return `Convex ${adminKey}`;
 }
 
-type UdfType = "Query" | "Mutation" | "Action" | "HttpAction";
+export type UdfType = "Query" | "Mutation" | "Action" | "HttpAction";
+
+export type LogLevel = "LOG" | "DEBUG" | "INFO" | "WARN" | "ERROR";
 
 type StructuredLogLine = {
   messages: string[];
-  level: "LOG" | "DEBUG" | "INFO" | "WARN" | "ERROR";
+  level: LogLevel;
   timestamp: number;
   isTruncated: boolean;
 };
 type LogLine = string | StructuredLogLine;
 
-type UdfExecutionResponse = {
+export type UdfExecutionResponse = {
   identifier: string;
   udfType: UdfType;
+  // Not sent by older backends.
+  requestId?: string;
+  // The trace of the function execution, shared by all the functions it
+  // calls or schedules and all the functions they call or schedule in turn.
+  // Not sent by older backends.
+  traceId?: string;
+  // The execution that called or scheduled this one, if any.
+  parentRequestId?: string;
   logLines: LogLine[];
   // Unix timestamp (in seconds)
   timestamp: number;
@@ -124,17 +231,37 @@ function processLogs(
   ctx: Context,
   rawLogs: UdfExecutionResponse[],
   dest: LogDestination,
-  shouldShowSuccessLogs: boolean,
+  options: {
+    shouldShowSuccessLogs: boolean;
+    filters: LogFilters;
+    json: boolean;
+  },
 ) {
+  const { shouldShowSuccessLogs, filters, json } = options;
   for (let i = 0; i < rawLogs.length; i++) {
     const log = rawLogs[i];
-    if (log.logLines) {
+    if (log.logLines && executionMatchesFilters(log, filters)) {
+      if (json) {
+        for (const entry of jsonLogEntries(
+          log,
+          filters,
+          shouldShowSuccessLogs,
+        )) {
+          logToDestination(ctx, dest, JSON.stringify(entry));
+        }
+        continue;
+      }
       const id = log.identifier;
       const udfType = log.udfType;
       const timestampMs = log.timestamp * 1000;
       const executionTimeMs = log.executionTime * 1000;
 
       for (let j = 0; j < log.logLines.length; j++) {
+        if (
+          !levelMatchesFilters(parseLogLine(log.logLines[j]).level, filters)
+        ) {
+          continue;
+        }
         logToTerminal(
           ctx,
           "info",
@@ -147,8 +274,22 @@ function processLogs(
       }
 
       if (log.error) {
-        logToTerminal(ctx, "error", timestampMs, udfType, id, log.error!, dest);
-      } else if (log.kind === "Completion" && shouldShowSuccessLogs) {
+        if (levelMatchesFilters("ERROR", filters)) {
+          logToTerminal(
+            ctx,
+            "error",
+            timestampMs,
+            udfType,
+            id,
+            log.error!,
+            dest,
+          );
+        }
+      } else if (
+        log.kind === "Completion" &&
+        shouldShowSuccessLogs &&
+        levelMatchesFilters("INFO", filters)
+      ) {
         logFunctionExecution(
           ctx,
           timestampMs,
@@ -162,6 +303,177 @@ function processLogs(
   }
 }
 
+export function executionMatchesFilters(
+  log: UdfExecutionResponse,
+  filters: LogFilters,
+): boolean {
+  if (filters.failuresOnly && !log.error) {
+    return false;
+  }
+  if (filters.udfTypes && !filters.udfTypes.includes(log.udfType)) {
+    return false;
+  }
+  if (
+    filters.functionPath !== undefined &&
+    !functionPathMatches(filters.functionPath, log.identifier)
+  ) {
+    return false;
+  }
+  if (filters.traceId !== undefined && traceIdOf(log) !== filters.traceId) {
+    return false;
+  }
+  return true;
+}
+
+// Executions that aren't part of a larger trace start their own, identified
+// by their request ID.
+function traceIdOf(log: UdfExecutionResponse): string | null {
+  return log.traceId ?? log.requestId ?? null;
+}
+
+function levelMatchesFilters(level: LogLevel, filters: LogFilters): boolean {
+  return filters.levels === undefined || filters.levels.includes(level);
+}
+
+/**
+ * Match a function path like `messages:list` or `folder/messages.js:list`
+ * against a glob, where `*` matches anything but `/` and `**` matches
+ * anything.
+ *
+ * A glob without a `:` matches every function in the modules it matches, and
+ * globs match regardless of the `.js` extension of the module.
+ */
+export function functionPathMatches(glob: string, udfPath: string): boolean {
+  const [modulePath, functionName] = splitFunctionPath(udfPath);
+  const [moduleGlob, functionGlob] = splitFunctionPath(glob);
+  return (
+    globToRegExp(moduleGlob).test(modulePath) &&
+    (functionGlob === undefined ||
+      globToRegExp(functionGlob).test(functionName!))
+  );
+}
+
+function splitFunctionPath(path: string): [string, string | undefined] {
+  const colon = path.lastIndexOf(":");
+  const modulePath = colon === -1 ? path : path.slice(0, colon);
+  const functionName = colon === -1 ? undefined : path.slice(colon + 1);
+  return [modulePath.replace(/\.js$/, ""), functionName];
+}
+
+function globToRegExp(glob: string): RegExp {
+  let pattern = "";
+  for (let i = 0; i < glob.length; i++) {
+    if (glob[i] === "*" && glob[i + 1] === "*") {
+      pattern += ".*";
+      i++;
+    } else if (glob[i] === "*") {
+      pattern += "[^/]*";
+    } else if (glob[i] === "?") {
+      pattern += "[^/]";
+    } else {
+      pattern += glob[i].replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+}
+
+/**
+ * A log line as printed by `npx convex logs --json`.
+ */
+export type JsonLogEntry = {
+  // Milliseconds since the Unix epoch.
+  timestamp: number;
+  udfPath: string;
+  udfType: UdfType;
+  requestId: string | null;
+  traceId: string | null;
+  parentRequestId: string | null;
+  level: LogLevel;
+  message: string;
+  // How long the function execution took in milliseconds.
+  executionTime: number;
+};
+
+/**
+ * The log lines of the function executions that match the filters.
+ */
+export function logEntries(
+  logs: UdfExecutionResponse[],
+  filters: LogFilters,
+  shouldShowSuccessLogs: boolean,
+): JsonLogEntry[] {
+  return logs
+    .filter((log) => log.logLines && executionMatchesFilters(log, filters))
+    .flatMap((log) => jsonLogEntries(log, filters, shouldShowSuccessLogs));
+}
+
+export function jsonLogEntries(
+  log: UdfExecutionResponse,
+  filters: LogFilters,
+  shouldShowSuccessLogs: boolean,
+): JsonLogEntry[] {
+  const execution = {
+    udfPath: log.identifier,
+    udfType: log.udfType,
+    requestId: log.requestId ?? null,
+    traceId: traceIdOf(log),
+    parentRequestId: log.parentRequestId ?? null,
+    executionTime: log.executionTime * 1000,
+  };
+  const entries: JsonLogEntry[] = [];
+  for (const line of log.logLines) {
+    const { level, message, timestamp } = parseLogLine(line);
+    // Every line has the trace ID of its execution, which is what `--trace`
+    // filters by.
+    entries.push({
+      ...execution,
+      timestamp: timestamp ?? log.timestamp * 1000,
+      level,
+      message,
+    });
+  }
+  if (log.error) {
+    entries.push({
+      ...execution,
+      timestamp: log.timestamp * 1000,
+      level: "ERROR",
+      message: log.error,
+    });
+  } else if (log.kind === "Completion" && shouldShowSuccessLogs) {
+    entries.push({
+      ...execution,
+      timestamp: log.timestamp * 1000,
+      level: "INFO",
+      message: `Function executed in ${Math.ceil(execution.executionTime)} ms`,
+    });
+  }
+  return entries.filter((entry) => levelMatchesFilters(entry.level, filters));
+}
+
+// Older backends send log lines as strings like "[LOG] 'message'".
+function parseLogLine(line: LogLine): {
+  level: LogLevel;
+  message: string;
+  timestamp: number | null;
+} {
+  if (typeof line !== "string") {
+    return {
+      level: line.level,
+      message: `${line.messages.join(" ")}${line.isTruncated ? " (truncated due to length)" : ""}`,
+      timestamp: line.timestamp,
+    };
+  }
+  const match = line.match(/^\[(.*?)\] /);
+  if (match === null) {
+    return { level: "LOG", message: line, timestamp: null };
+  }
+  return {
+    level: match[1] as LogLevel,
+    message: line.slice(match[0].length),
+    timestamp: null,
+  };
+}
+
 function logFunctionExecution(
   ctx: Context,
   timestampMs: number,
@@ -223,8 +535,7 @@ function logToTerminal(
       );
     }
   } else {
-    const level = message.level;
-    const formattedMessage = `${message.messages.join(" ")}${message.isTruncated ? " (truncated due to length)" : ""}`;
+    const { level, message: formattedMessage } = parseLogLine(message);
     logToDestination(
       ctx,
       dest,
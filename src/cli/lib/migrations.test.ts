@@ -0,0 +1,37 @@
+import chalk from "chalk";
+import { expect, test } from "vitest";
+import { formatMigrationStatuses } from "./migrations.js";
+
+test("formatMigrationStatuses aligns columns and shows errors", () => {
+  chalk.level = 0;
+  expect(
+    formatMigrationStatuses([
+      {
+        version: 1,
+        name: "Default plan for users",
+        table: "users",
+        state: "done",
+        processed: 120,
+        startedAt: 1,
+        finishedAt: 2,
+        error: null,
+      },
+      {
+        version: 12,
+        name: "Trim messages",
+        table: "messages",
+        state: "failed",
+        processed: 1,
+        startedAt: 3,
+        finishedAt: null,
+        error: "Uncaught Error: Oops",
+      },
+    ]),
+  ).toEqual(
+    [
+      "   1  Default plan for users  users     done    120 documents",
+      "  12  Trim messages           messages  failed  1 document",
+      "      Uncaught Error: Oops",
+    ].join("\n"),
+  );
+});
@@ -0,0 +1,84 @@
+import chalk from "chalk";
+import { Context } from "../../bundler/context.js";
+import { MigrationStatus } from "../../server/migrations.js";
+import { runMutation, runQuery } from "./run.js";
+
+/**
+ * Start pending migrations through the `run` mutation created by
+ * `defineMigrations`, returning the status of every migration.
+ */
+export async function startMigrations(
+  ctx: Context,
+  deploymentUrl: string,
+  adminKey: string,
+  module: string,
+  to: number | undefined,
+): Promise<MigrationStatus[]> {
+  return (await runMutation(
+    ctx,
+    deploymentUrl,
+    adminKey,
+    `${module}:run`,
+    to === undefined ? {} : { to },
+  )) as MigrationStatus[];
+}
+
+export async function fetchMigrationStatuses(
+  ctx: Context,
+  deploymentUrl: string,
+  adminKey: string,
+  module: string,
+): Promise<MigrationStatus[]> {
+  return (await runQuery(
+    ctx,
+    deploymentUrl,
+    adminKey,
+    `${module}:status`,
+    {},
+  )) as MigrationStatus[];
+}
+
+/**
+ * Format migrations as a table with one line per migration, like
+ * `  2  Default plan for users  users  done  120 documents`.
+ */
+export function formatMigrationStatuses(statuses: MigrationStatus[]): string {
+  const columns = statuses.map((status) => [
+    String(status.version),
+    status.name,
+    status.table,
+    status.state,
+    `${status.processed} ${status.processed === 1 ? "document" : "documents"}`,
+  ]);
+  const widths = [0, 1, 2, 3].map((i) =>
+    Math.max(...columns.map((column) => column[i].length)),
+  );
+  return statuses
+    .map((status, row) => {
+      const [version, name, table, state, processed] = columns[row];
+      const line = [
+        version.padStart(widths[0]),
+        name.padEnd(widths[1]),
+        table.padEnd(widths[2]),
+        colorState(status.state, state.padEnd(widths[3])),
+        processed,
+      ].join("  ");
+      return status.error === null
+        ? `  ${line}`
+        : `  ${line}\n${" ".repeat(widths[0] + 4)}${chalk.red(status.error)}`;
+    })
+    .join("\n");
+}
+
+function colorState(state: MigrationStatus["state"], text: string) {
+  switch (state) {
+    case "done":
+      return chalk.green(text);
+    case "inProgress":
+      return chalk.yellow(text);
+    case "failed":
+      return chalk.red(text);
+    case "pending":
+      return chalk.gray(text);
+  }
+}
@@ -0,0 +1,69 @@
+import { test, expect } from "vitest";
+import { v } from "../../values/validator.js";
+import { generateOpenApiSpec } from "./openApi.js";
+
+test("generateOpenApiSpec", () => {
+  const document = generateOpenApiSpec(
+    {
+      "messages.js": {
+        functions: [
+          {
+            name: "list",
+            pos: null,
+            udfType: "Query",
+            visibility: { kind: "public" },
+            args: JSON.stringify(v.object({ channel: v.string() }).json),
+            returns: JSON.stringify(v.array(v.string()).json),
+          },
+          {
+            name: "cleanup",
+            pos: null,
+            udfType: "Mutation",
+            visibility: { kind: "internal" },
+            args: null,
+            returns: null,
+          },
+        ],
+        httpRoutes: null,
+        cronSpecs: null,
+        sourceMapped: null,
+      },
+    },
+    [
+      { method: "GET", path: "/health" },
+      { method: "POST", path: "/files/*" },
+    ],
+    {
+      title: "happy-otter-123",
+      deploymentUrl: "https://happy-otter-123.convex.cloud",
+    },
+  );
+  const paths = document.paths as any;
+  expect(Object.keys(paths)).toEqual([
+    "/api/run/messages/list",
+    "/health",
+    "/files/{pathSuffix}",
+  ]);
+
+  const list = paths["/api/run/messages/list"].post;
+  expect(list.operationId).toEqual("Query_messages_list");
+  expect(list.summary).toEqual("Query messages:list");
+  expect(
+    list.requestBody.content["application/json"].schema.properties.args,
+  ).toEqual({
+    type: "object",
+    properties: { channel: { type: "string" } },
+    required: ["channel"],
+    additionalProperties: false,
+  });
+  expect(
+    list.responses["200"].content["application/json"].schema.properties.value,
+  ).toEqual({ type: "array", items: { type: "string" } });
+
+  expect(paths["/health"].servers).toEqual([
+    { url: "https://happy-otter-123.convex.site" },
+  ]);
+  expect(paths["/files/{pathSuffix}"].post.parameters[0].name).toEqual(
+    "pathSuffix",
+  );
+});
@@ -0,0 +1,270 @@
+import { z } from "zod";
+import { Context, logFailure } from "../../bundler/context.js";
+import {
+  JsonSchema,
+  validatorJsonToJsonSchema,
+} from "../../values/json_schema.js";
+import { ValidatorJSON } from "../../values/validators.js";
+import {
+  AnalyzedFunction,
+  AnalyzedModule,
+  visibility,
+} from "./deployApi/modules.js";
+import { runQuery } from "./run.js";
+
+// The format of `_system/cli/modules:apiSpec`, which describes the functions
+// and HTTP routes currently deployed.
+const apiSpecFunction = z.union([
+  z.object({
+    functionType: z.union([
+      z.literal("Query"),
+      z.literal("Mutation"),
+      z.literal("Action"),
+    ]),
+    // Like "messages.js:list"
+    identifier: z.string(),
+    visibility: z.nullable(visibility),
+    // Validators serialized to JSON.
+    args: z.nullable(z.string()),
+    returns: z.nullable(z.string()),
+  }),
+  z.object({
+    functionType: z.literal("HttpAction"),
+    method: z.string(),
+    // Either an exact path or a path prefix followed by "*".
+    path: z.string(),
+  }),
+]);
+
+export type HttpRoute = { method: string; path: string };
+
+/**
+ * Fetch the functions and HTTP routes of a deployment, grouped by module
+ * like the analysis results of a push.
+ */
+export async function fetchDeployedApi(
+  ctx: Context,
+  deploymentUrl: string,
+  adminKey: string,
+): Promise<{
+  modules: Record<string, AnalyzedModule>;
+  httpRoutes: HttpRoute[];
+}> {
+  const result = await runQuery(
+    ctx,
+    deploymentUrl,
+    adminKey,
+    "_system/cli/modules:apiSpec",
+    {},
+  );
+  const parsed = z.array(apiSpecFunction).safeParse(result);
+  if (!parsed.success) {
+    logFailure(ctx, "Unexpected function spec returned by the deployment.");
+    return await ctx.crash(1, "transient");
+  }
+  const modules: Record<string, AnalyzedModule> = {};
+  const httpRoutes: HttpRoute[] = [];
+  for (const spec of parsed.data) {
+    if (spec.functionType === "HttpAction") {
+      httpRoutes.push({ method: spec.method, path: spec.path });
+      continue;
+    }
+    const [modulePath, name] = splitIdentifier(spec.identifier);
+    modules[modulePath] ??= {
+      functions: [],
+      httpRoutes: null,
+      cronSpecs: null,
+      sourceMapped: null,
+    };
+    modules[modulePath].functions.push({
+      name,
+      pos: null,
+      udfType: spec.functionType,
+      visibility: spec.visibility,
+      args: spec.args,
+      returns: spec.returns,
+    });
+  }
+  return { modules, httpRoutes };
+}
+
+function splitIdentifier(identifier: string): [string, string] {
+  const separator = identifier.lastIndexOf(":");
+  if (separator === -1) {
+    return [identifier, "default"];
+  }
+  return [identifier.slice(0, separator), identifier.slice(separator + 1)];
+}
+
+// Functions that fail respond with this status code, see `ConvexHttpClient`.
+const STATUS_CODE_UDF_FAILED = "560";
+
+/**
+ * Build an [OpenAPI 3.1](https://spec.openapis.org/oas/v3.1.0) document
+ * describing the public functions of a deployment, called through the
+ * `/api/run` HTTP API, and its HTTP actions.
+ *
+ * Values are described in the `convex_encoded_json` format, see
+ * {@link validatorJsonToJsonSchema}.
+ */
+export function generateOpenApiSpec(
+  modules: Record<string, AnalyzedModule>,
+  httpRoutes: HttpRoute[],
+  options: { title: string; deploymentUrl: string },
+): JsonSchema {
+  const paths: Record<string, JsonSchema> = {};
+  for (const modulePath of Object.keys(modules).sort()) {
+    for (const func of modules[modulePath].functions) {
+      if (func.visibility?.kind !== "public") {
+        // Internal functions can't be called over HTTP.
+        continue;
+      }
+      const functionPath = `${stripExtension(modulePath)}/${func.name}`;
+      paths[`/api/run/${functionPath}`] = {
+        post: functionOperation(functionPath, func),
+      };
+    }
+  }
+
+  const siteUrl = deploymentSiteUrl(options.deploymentUrl);
+  for (const route of httpRoutes) {
+    const isPrefix = route.path.endsWith("*");
+    const path = isPrefix
+      ? `${route.path.slice(0, -1)}{pathSuffix}`
+      : route.path;
+    const operation: JsonSchema = {
+      operationId: operationId(["http", route.method, route.path]),
+      summary: `HTTP action ${route.method} ${route.path}`,
+      tags: ["HttpAction"],
+      responses: { default: { description: "Response of the HTTP action" } },
+    };
+    if (isPrefix) {
+      operation.parameters = [
+        {
+          name: "pathSuffix",
+          in: "path",
+          required: true,
+          description: "The rest of the path after the prefix",
+          schema: { type: "string" },
+        },
+      ];
+    }
+    const pathItem: JsonSchema = (paths[path] as JsonSchema | undefined) ?? {};
+    pathItem[route.method.toLowerCase()] = operation;
+    if (siteUrl !== null) {
+      pathItem.servers = [{ url: siteUrl }];
+    }
+    paths[path] = pathItem;
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: options.title,
+      version: "1.0.0",
+    },
+    servers: [{ url: options.deploymentUrl }],
+    security: [{}, { bearerAuth: [] }],
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: {
+          type: "http",
+          scheme: "bearer",
+          bearerFormat: "JWT",
+          description: "An OpenID Connect ID token for the user.",
+        },
+      },
+    },
+  };
+}
+
+function functionOperation(
+  functionPath: string,
+  func: AnalyzedFunction,
+): JsonSchema {
+  const argsSchema: JsonSchema =
+    func.args === null
+      ? { type: "object" }
+      : validatorJsonToJsonSchema(JSON.parse(func.args) as ValidatorJSON);
+  const returnsSchema: JsonSchema =
+    func.returns === null
+      ? {}
+      : validatorJsonToJsonSchema(JSON.parse(func.returns) as ValidatorJSON);
+  const logLines = { type: "array", items: { type: "string" } };
+  return {
+    operationId: operationId([func.udfType, functionPath]),
+    summary: `${func.udfType} ${functionPath.replace(/\/([^/]*)$/, ":$1")}`,
+    tags: [func.udfType],
+    requestBody: {
+      required: true,
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              args: argsSchema,
+              format: { const: "convex_encoded_json" },
+            },
+            required: ["args", "format"],
+          },
+        },
+      },
+    },
+    responses: {
+      "200": {
+        description: "The function completed successfully",
+        content: {
+          "application/json": {
+            schema: {
+              type: "object",
+              properties: {
+                status: { const: "success" },
+                value: returnsSchema,
+                logLines,
+              },
+              required: ["status", "value"],
+            },
+          },
+        },
+      },
+      [STATUS_CODE_UDF_FAILED]: {
+        description: "The function threw an error",
+        content: {
+          "application/json": {
+            schema: {
+              type: "object",
+              properties: {
+                status: { const: "error" },
+                errorMessage: { type: "string" },
+                errorData: {},
+                logLines,
+              },
+              required: ["status", "errorMessage"],
+            },
+          },
+        },
+      },
+    },
+  };
+}
+
+function stripExtension(modulePath: string) {
+  return modulePath.replace(/\.js$/, "");
+}
+
+function operationId(parts: string[]) {
+  return parts
+    .join("_")
+    .replace(/[^A-Za-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+}
+
+// HTTP actions are served from the `.convex.site` domain.
+function deploymentSiteUrl(deploymentUrl: string): string | null {
+  const url = deploymentUrl.replace(/\/$/, "");
+  if (url.endsWith(".convex.cloud")) {
+    return url.replace(/\.convex\.cloud$/, ".convex.site");
+  }
+  return null;
+}
@@ -101,6 +101,29 @@ export async function runQuery(
   }
 }
 
+export async function runMutation(
+  ctx: Context,
+  deploymentUrl: string,
+  adminKey: string,
+  functionName: string,
+  args: Record<string, Value>,
+): Promise<Value> {
+  const client = new ConvexHttpClient(deploymentUrl);
+  client.setAdminAuth(adminKey);
+
+  try {
+    return await client.mutation(
+      makeFunctionReference<"mutation">(functionName),
+      args,
+    );
+  } catch (err) {
+    logFailure(ctx, `Failed to run mutation "${functionName}":`);
+    logError(ctx, chalk.red((err as Error).toString().trim()));
+    // Mutations fail because of their code or the documents they write.
+    return await ctx.crash(1, { "invalid filesystem or db data": null });
+  }
+}
+
 export function formatValue(value: Value) {
   const json = convexToJson(value);
   if (process.stdout.isTTY) {
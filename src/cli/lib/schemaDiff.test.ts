@@ -0,0 +1,203 @@
+import chalk from "chalk";
+import { afterEach, expect, test, vi } from "vitest";
+import { oneoffContext } from "../../bundler/context.js";
+import { Bundle } from "../../bundler/index.js";
+import { ConvexHttpClient } from "../../browser/http_client.js";
+import { defineSchema, defineTable } from "../../server/schema.js";
+import { v } from "../../values/validator.js";
+import {
+  diffSchemas,
+  evaluateSchema,
+  formatSchemaDiff,
+  isAssignable,
+  logSchemaDiff,
+} from "./schemaDiff.js";
+
+const deployed = defineSchema({
+  users: defineTable({
+    name: v.string(),
+    email: v.optional(v.string()),
+    plan: v.string(),
+    age: v.number(),
+    legacy: v.boolean(),
+  }),
+  sessions: defineTable({ userId: v.id("users") }),
+}).export();
+
+test("diffSchemas reports table and field changes", () => {
+  const local = defineSchema({
+    users: defineTable({
+      name: v.string(),
+      email: v.string(),
+      plan: v.union(v.literal("free"), v.literal("pro")),
+      age: v.union(v.number(), v.null()),
+      nickname: v.optional(v.string()),
+    }),
+    messages: defineTable({ body: v.string() }),
+  }).export();
+
+  expect(diffSchemas(deployed, local)).toEqual([
+    {
+      table: "sessions",
+      path: [],
+      kind: "removedTable",
+      risky: true,
+      oldType: '{ userId: Id<"users"> }',
+    },
+    {
+      table: "users",
+      path: ["legacy"],
+      kind: "removedField",
+      risky: true,
+      oldType: "boolean",
+    },
+    {
+      table: "users",
+      path: ["email"],
+      kind: "madeRequired",
+      risky: true,
+    },
+    {
+      table: "users",
+      path: ["plan"],
+      kind: "narrowed",
+      risky: true,
+      oldType: "string",
+      newType: '"free" | "pro"',
+    },
+    {
+      table: "users",
+      path: ["age"],
+      kind: "widened",
+      risky: false,
+      oldType: "number",
+      newType: "number | null",
+    },
+    {
+      table: "users",
+      path: ["nickname"],
+      kind: "addedField",
+      risky: false,
+      newType: "string",
+    },
+    {
+      table: "messages",
+      path: [],
+      kind: "addedTable",
+      risky: false,
+      newType: "{ body: string }",
+    },
+  ]);
+  expect(diffSchemas(deployed, deployed)).toEqual([]);
+});
+
+test("diffSchemas treats a missing deployed schema as empty", () => {
+  expect(diffSchemas(null, deployed).map((change) => change.kind)).toEqual([
+    "addedTable",
+    "addedTable",
+  ]);
+});
+
+test("isAssignable", () => {
+  expect(isAssignable(v.id("users").json, v.string().json)).toBe(true);
+  expect(isAssignable(v.string().json, v.id("users").json)).toBe(false);
+  expect(isAssignable(v.literal(1).json, v.number().json)).toBe(true);
+  expect(isAssignable(v.array(v.string()).json, v.any().json)).toBe(true);
+  expect(
+    isAssignable(
+      v.object({ a: v.string() }).json,
+      v.object({ a: v.string(), b: v.optional(v.number()) }).json,
+    ),
+  ).toBe(true);
+  expect(
+    isAssignable(
+      v.object({ a: v.optional(v.string()) }).json,
+      v.object({ a: v.string() }).json,
+    ),
+  ).toBe(false);
+});
+
+test("formatSchemaDiff marks risky changes", () => {
+  chalk.level = 0;
+  const local = defineSchema({
+    users: defineTable({
+      name: v.string(),
+      email: v.optional(v.string()),
+      plan: v.literal("free"),
+      age: v.number(),
+      legacy: v.boolean(),
+    }),
+    sessions: defineTable({ userId: v.id("users") }),
+  }).export();
+  expect(formatSchemaDiff(diffSchemas(deployed, local))).toEqual(
+    '  [~] users.plan: string -> "free" (narrowed) (potentially breaking)',
+  );
+});
+
+function schemaBundle(source: string): Bundle {
+  return { path: "schema.js", source, environment: "isolate" };
+}
+
+const localBundle = schemaBundle(
+  `export default { export: () => ${JSON.stringify(
+    defineSchema({ sessions: defineTable({ userId: v.string() }) }).export(),
+  )} };`,
+);
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+test("evaluateSchema exports the bundled schema", async () => {
+  expect(await evaluateSchema(localBundle)).toEqual(
+    defineSchema({ sessions: defineTable({ userId: v.string() }) }).export(),
+  );
+  expect(await evaluateSchema(schemaBundle("export const x = 1;"))).toBeNull();
+  // Node.js globals aren't available, like in the Convex runtime.
+  await expect(
+    evaluateSchema(schemaBundle("export default process.env.SCHEMA;")),
+  ).rejects.toThrow("process is not defined");
+});
+
+test("logSchemaDiff prints the diff", async () => {
+  vi.spyOn(ConvexHttpClient.prototype, "query").mockResolvedValue({
+    active: deployed,
+  });
+  const logged = vi.spyOn(console, "error").mockImplementation(() => {});
+  await logSchemaDiff(
+    oneoffContext,
+    "http://127.0.0.1:8000",
+    "adminKey",
+    localBundle,
+  );
+  const output = logged.mock.calls.map((args) => args.join(" ")).join("\n");
+  expect(output).toContain("Table schemas would change");
+  expect(output).toContain("[-] table users");
+});
+
+test("logSchemaDiff warns instead of failing", async () => {
+  const logged = vi.spyOn(console, "error").mockImplementation(() => {});
+  const query = vi
+    .spyOn(ConvexHttpClient.prototype, "query")
+    .mockRejectedValue(new Error("Network error"));
+  await logSchemaDiff(
+    oneoffContext,
+    "http://127.0.0.1:8000",
+    "adminKey",
+    localBundle,
+  );
+  expect(logged).toHaveBeenLastCalledWith(
+    chalk.yellow("Skipping the table schema diff: Network error"),
+  );
+
+  query.mockResolvedValue({ active: deployed });
+  await logSchemaDiff(
+    oneoffContext,
+    "http://127.0.0.1:8000",
+    "adminKey",
+    schemaBundle("export default process.env.SCHEMA;"),
+  );
+  expect(logged).toHaveBeenLastCalledWith(
+    chalk.yellow("Skipping the table schema diff: process is not defined"),
+  );
+});
@@ -0,0 +1,427 @@
+import chalk from "chalk";
+import esbuild from "esbuild";
+import vm from "vm";
+import { z } from "zod";
+import {
+  Context,
+  logFinishedStep,
+  logMessage,
+  logWarning,
+} from "../../bundler/context.js";
+import { Bundle } from "../../bundler/index.js";
+import { ConvexHttpClient } from "../../browser/http_client.js";
+import { makeFunctionReference } from "../../server/index.js";
+import { ValidatorJSON } from "../../values/validators.js";
+
+// The parts of `SchemaDefinition.export()` that describe documents.
+const exportedSchema = z.object({
+  tables: z.array(
+    z.object({
+      tableName: z.string(),
+      // Missing for tables defined without a document validator.
+      documentType: z.nullable(z.any()).optional(),
+    }),
+  ),
+});
+
+/**
+ * A change to the document validators of a schema.
+ *
+ * Risky changes may make existing documents fail schema validation, or break
+ * code that reads documents expecting the old types.
+ */
+export type SchemaChange = {
+  table: string;
+  // The path to the changed field, empty for changes to the whole document.
+  path: string[];
+  kind:
+    | "addedTable"
+    | "removedTable"
+    | "addedField"
+    | "removedField"
+    | "madeRequired"
+    | "madeOptional"
+    | "narrowed"
+    | "widened"
+    | "changed";
+  risky: boolean;
+  oldType?: string;
+  newType?: string;
+};
+
+/**
+ * Compare the document validators of two exported schemas, as returned by
+ * `SchemaDefinition.export()`.
+ */
+export function diffSchemas(
+  oldSchema: string | null,
+  newSchema: string | null,
+): SchemaChange[] {
+  const oldTables = tablesOf(oldSchema);
+  const newTables = tablesOf(newSchema);
+  const changes: SchemaChange[] = [];
+  for (const [table, oldType] of oldTables) {
+    if (!newTables.has(table)) {
+      changes.push({
+        table,
+        path: [],
+        kind: "removedTable",
+        risky: true,
+        oldType: formatValidator(oldType),
+      });
+    }
+  }
+  for (const [table, newType] of newTables) {
+    const oldType = oldTables.get(table);
+    if (oldType === undefined) {
+      changes.push({
+        table,
+        path: [],
+        kind: "addedTable",
+        risky: false,
+        newType: formatValidator(newType),
+      });
+      continue;
+    }
+    diffValidators(table, [], oldType, newType, changes);
+  }
+  return changes;
+}
+
+/**
+ * The document validator of each table in an exported schema, `any` for
+ * tables defined without one.
+ */
+export function tablesOf(schema: string | null): Map<string, ValidatorJSON> {
+  if (schema === null) {
+    return new Map();
+  }
+  const parsed = exportedSchema.parse(JSON.parse(schema));
+  return new Map(
+    parsed.tables.map(({ tableName, documentType }) => [
+      tableName,
+      documentType ?? { type: "any" },
+    ]),
+  );
+}
+
+function diffValidators(
+  table: string,
+  path: string[],
+  oldType: ValidatorJSON,
+  newType: ValidatorJSON,
+  changes: SchemaChange[],
+) {
+  if (oldType.type === "object" && newType.type === "object") {
+    diffObjects(table, path, oldType.value, newType.value, changes);
+    return;
+  }
+  const widens = isAssignable(oldType, newType);
+  const narrows = isAssignable(newType, oldType);
+  if (widens && narrows) {
+    return;
+  }
+  changes.push({
+    table,
+    path,
+    kind: widens ? "widened" : narrows ? "narrowed" : "changed",
+    risky: !widens,
+    oldType: formatValidator(oldType),
+    newType: formatValidator(newType),
+  });
+}
+
+type Fields = Extract<ValidatorJSON, { type: "object" }>["value"];
+
+function diffObjects(
+  table: string,
+  path: string[],
+  oldFields: Fields,
+  newFields: Fields,
+  changes: SchemaChange[],
+) {
+  for (const [name, oldField] of Object.entries(oldFields)) {
+    if (!(name in newFields)) {
+      changes.push({
+        table,
+        path: [...path, name],
+        kind: "removedField",
+        // Documents that still have the field fail validation.
+        risky: true,
+        oldType: formatValidator(oldField.fieldType),
+      });
+    }
+  }
+  for (const [name, newField] of Object.entries(newFields)) {
+    const fieldPath = [...path, name];
+    const oldField = oldFields[name];
+    if (oldField === undefined) {
+      changes.push({
+        table,
+        path: fieldPath,
+        kind: "addedField",
+        risky: !newField.optional,
+        newType: formatValidator(newField.fieldType),
+      });
+      continue;
+    }
+    if (oldField.optional !== newField.optional) {
+      changes.push({
+        table,
+        path: fieldPath,
+        kind: newField.optional ? "madeOptional" : "madeRequired",
+        risky: !newField.optional,
+      });
+    }
+    diffValidators(
+      table,
+      fieldPath,
+      oldField.fieldType,
+      newField.fieldType,
+      changes,
+    );
+  }
+}
+
+/**
+ * Whether every value matching `from` also matches `to`.
+ *
+ * Unions are compared member by member, so this can report `false` for some
+ * equivalent validators, which are then reported as changed.
+ */
+export function isAssignable(from: ValidatorJSON, to: ValidatorJSON): boolean {
+  if (to.type === "any") {
+    return true;
+  }
+  if (from.type === "union") {
+    return from.value.every((member) => isAssignable(member, to));
+  }
+  if (to.type === "union") {
+    return to.value.some((member) => isAssignable(from, member));
+  }
+  switch (from.type) {
+    case "null":
+    case "number":
+    case "bigint":
+    case "boolean":
+    case "string":
+    case "bytes":
+      return to.type === from.type;
+    case "any":
+      return false;
+    case "literal":
+      if (to.type === "literal") {
+        return JSON.stringify(to.value) === JSON.stringify(from.value);
+      }
+      return literalType(from.value) === to.type;
+    case "id":
+      return (
+        to.type === "string" ||
+        (to.type === "id" && to.tableName === from.tableName)
+      );
+    case "array":
+      return to.type === "array" && isAssignable(from.value, to.value);
+    case "record":
+      return (
+        to.type === "record" &&
+        isAssignable(from.keys, to.keys) &&
+        isAssignable(from.values.fieldType, to.values.fieldType)
+      );
+    case "object": {
+      if (to.type !== "object") {
+        return false;
+      }
+      for (const [name, fromField] of Object.entries(from.value)) {
+        const toField = to.value[name];
+        if (
+          toField === undefined ||
+          (fromField.optional && !toField.optional) ||
+          !isAssignable(fromField.fieldType, toField.fieldType)
+        ) {
+          return false;
+        }
+      }
+      return Object.entries(to.value).every(
+        ([name, toField]) => toField.optional || name in from.value,
+      );
+    }
+    default: {
+      const _typeCheck: never = from;
+      return false;
+    }
+  }
+}
+
+function literalType(value: unknown): ValidatorJSON["type"] | null {
+  switch (typeof value) {
+    case "string":
+      return "string";
+    case "number":
+      return "number";
+    case "boolean":
+      return "boolean";
+    default:
+      // int64 literals are encoded as objects.
+      return value !== null && typeof value === "object" ? "bigint" : null;
+  }
+}
+
+/**
+ * Format a validator like the TypeScript type of the values it accepts.
+ */
+export function formatValidator(validator: ValidatorJSON): string {
+  switch (validator.type) {
+    case "null":
+    case "number":
+    case "bigint":
+    case "boolean":
+    case "string":
+    case "any":
+      return validator.type;
+    case "bytes":
+      return "ArrayBuffer";
+    case "literal":
+      return JSON.stringify(validator.value);
+    case "id":
+      return `Id<"${validator.tableName}">`;
+    case "array":
+      return `Array<${formatValidator(validator.value)}>`;
+    case "record":
+      return `Record<${formatValidator(validator.keys)}, ${formatValidator(
+        validator.values.fieldType,
+      )}>`;
+    case "object": {
+      const fields = Object.entries(validator.value).map(
+        ([name, field]) =>
+          `${name}${field.optional ? "?" : ""}: ${formatValidator(
+            field.fieldType,
+          )}`,
+      );
+      return fields.length === 0 ? "{}" : `{ ${fields.join("; ")} }`;
+    }
+    case "union":
+      return validator.value.map(formatValidator).join(" | ");
+    default: {
+      const _typeCheck: never = validator;
+      return "unknown";
+    }
+  }
+}
+
+/**
+ * Format schema changes as one line each, like
+ * `  [~] users.plan: string -> "free" | "pro" (narrowed)`.
+ */
+export function formatSchemaDiff(changes: SchemaChange[]): string {
+  return changes
+    .map((change) => {
+      const name = [change.table, ...change.path].join(".");
+      const line = `  ${describeChange(name, change)}`;
+      return change.risky
+        ? chalk.yellow(`${line} (potentially breaking)`)
+        : line;
+    })
+    .join("\n");
+}
+
+function describeChange(name: string, change: SchemaChange): string {
+  switch (change.kind) {
+    case "addedTable":
+      return `[+] table ${name}`;
+    case "removedTable":
+      return `[-] table ${name}`;
+    case "addedField":
+      return `[+] ${name}: ${change.newType}`;
+    case "removedField":
+      return `[-] ${name}: ${change.oldType}`;
+    case "madeRequired":
+      return `[~] ${name}: optional -> required`;
+    case "madeOptional":
+      return `[~] ${name}: required -> optional`;
+    case "narrowed":
+    case "widened":
+    case "changed":
+      return `[~] ${name}: ${change.oldType} -> ${change.newType} (${change.kind})`;
+  }
+}
+
+/**
+ * Print how the document validators of the bundled schema differ from the
+ * schema currently deployed.
+ *
+ * The diff is only informational, so if it can't be computed this warns
+ * instead of failing the dry run.
+ */
+export async function logSchemaDiff(
+  ctx: Context,
+  origin: string,
+  adminKey: string,
+  schemaBundle: Bundle,
+) {
+  let deployed: { active?: string };
+  let local: string | null;
+  try {
+    const client = new ConvexHttpClient(origin);
+    client.setAdminAuth(adminKey);
+    deployed = await client.query(
+      makeFunctionReference<
+        "query",
+        Record<string, never>,
+        { active?: string }
+      >("_system/frontend/getSchemas"),
+      {},
+    );
+    local = await evaluateSchema(schemaBundle);
+  } catch (err: any) {
+    logWarning(
+      ctx,
+      chalk.yellow(
+        `Skipping the table schema diff: ${`${err?.message ?? err}`.trim()}`,
+      ),
+    );
+    return;
+  }
+  const changes = diffSchemas(deployed.active ?? null, local);
+  if (changes.length === 0) {
+    logMessage(ctx, chalk.gray("No changes to table schemas."));
+    return;
+  }
+  logFinishedStep(
+    ctx,
+    `Table schemas would change:\n${formatSchemaDiff(changes)}`,
+  );
+  const risky = changes.filter((change) => change.risky).length;
+  if (risky > 0) {
+    logWarning(
+      ctx,
+      chalk.yellow(
+        `${risky} schema ${
+          risky === 1 ? "change is" : "changes are"
+        } potentially breaking: existing documents may fail schema validation. ` +
+          "Consider migrating them first with `npx convex migrate`.",
+      ),
+    );
+  }
+}
+
+/**
+ * Evaluate the bundled `schema.ts` locally to get the same JSON the deployment
+ * gets from `SchemaDefinition.export()`. Like in the Convex runtime, the
+ * bundle runs without Node.js globals, so this rejects if the schema uses
+ * them, e.g. `process.env`.
+ */
+export async function evaluateSchema(
+  schemaBundle: Bundle,
+): Promise<string | null> {
+  const { code } = await esbuild.transform(schemaBundle.source, {
+    format: "cjs",
+    target: "esnext",
+  });
+  const schemaModule = { exports: {} as any };
+  vm.runInNewContext(code, {
+    module: schemaModule,
+    exports: schemaModule.exports,
+    console,
+  });
+  return schemaModule.exports.default?.export() ?? null;
+}
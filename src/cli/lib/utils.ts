@@ -54,6 +54,14 @@ export function parseInteger(value: string) {
   return parsedValue;
 }
 
+export function parseBigInt(value: string) {
+  if (!/^-?\d+$/.test(value)) {
+    // eslint-disable-next-line no-restricted-syntax
+    throw new InvalidArgumentError("Not an integer.");
+  }
+  return BigInt(value);
+}
+
 /** Prompt for keyboard input with the given `query` string and return a promise
  * that resolves to the input. */
 export function prompt(query: string) {
@@ -1,4 +1,4 @@
-import { Command } from "@commander-js/extra-typings";
+import { Command, Option } from "@commander-js/extra-typings";
 import chalk from "chalk";
 import { logMessage, oneoffContext } from "../bundler/context.js";
 import {
@@ -6,7 +6,8 @@ import {
   fetchDeploymentCredentialsProvisionProd,
 } from "./lib/api.js";
 import { actionDescription } from "./lib/command.js";
-import { watchLogs } from "./lib/logs.js";
+import { LogLevel, UdfType, watchLogs } from "./lib/logs.js";
+import { createLogSink, parseLogSinkSpec } from "./lib/logSinks.js";
 import { parseInteger } from "./lib/utils.js";
 
 export const logs = new Command("logs")
@@ -24,6 +25,40 @@ export const logs = new Command("logs")
     "Print a log line for every successful function execution",
     false,
   )
+  .option(
+    "--function <glob>",
+    "Only show logs from functions whose path matches the glob, e.g. `messages:*` or `admin/**`.",
+  )
+  .addOption(
+    new Option(
+      "--udf-type <type...>",
+      "Only show logs from these types of functions.",
+    ).choices(["query", "mutation", "action", "httpAction"] as const),
+  )
+  .addOption(
+    new Option(
+      "--level <level...>",
+      "Only show log lines of these levels.",
+    ).choices(["log", "debug", "info", "warn", "error"] as const),
+  )
+  .option("--failures", "Only show logs from failed function executions", false)
+  .option(
+    "--trace <id>",
+    "Only show logs from the function executions in a trace: a function execution, and every function it calls or schedules directly or indirectly. Combine with `--json` to see how they call each other.",
+  )
+  .option(
+    "--json",
+    "Print one JSON object per log line with its `timestamp`, `udfPath`, `udfType`, `requestId`, `traceId`, `parentRequestId`, `level`, `message` and `executionTime`",
+    false,
+  )
+  .option(
+    "--sink <sink...>",
+    "Also send log lines to `file:<path>` (rotated as it grows), `otlp[:<url>]` (an OTLP/HTTP logs endpoint), `syslog[:<host>[:<port>]]` (over UDP) or a JavaScript module exporting `onLog(entry)`",
+  )
+  .option(
+    "--cursor-file <path>",
+    "Record how far logs have been streamed in this file and resume from there when restarted",
+  )
   .addDeploymentSelectionOptions(actionDescription("Watch logs from"))
   .showHelpAfterError()
   .action(async (cmdOptions) => {
@@ -53,8 +88,27 @@ export const logs = new Command("logs")
         ),
       );
     }
+    const sinks = [];
+    for (const sink of cmdOptions.sink ?? []) {
+      sinks.push(await createLogSink(ctx, await parseLogSinkSpec(ctx, sink)));
+    }
     await watchLogs(ctx, credentials.url, credentials.adminKey, "stdout", {
       history: cmdOptions.history,
       success: cmdOptions.success,
+      filters: {
+        functionPath: cmdOptions.function,
+        udfTypes: cmdOptions.udfType?.map(
+          (udfType) =>
+            (udfType.charAt(0).toUpperCase() + udfType.slice(1)) as UdfType,
+        ),
+        levels: cmdOptions.level?.map(
+          (level) => level.toUpperCase() as LogLevel,
+        ),
+        failuresOnly: cmdOptions.failures,
+        traceId: cmdOptions.trace,
+      },
+      json: cmdOptions.json,
+      sinks,
+      cursorFile: cmdOptions.cursorFile,
     });
   });
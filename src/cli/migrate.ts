@@ -0,0 +1,116 @@
+import { Command, Option } from "@commander-js/extra-typings";
+import {
+  logFinishedStep,
+  logMessage,
+  logOutput,
+  oneoffContext,
+} from "../bundler/context.js";
+import {
+  deploymentSelectionFromOptions,
+  fetchDeploymentCredentialsProvisionProd,
+} from "./lib/api.js";
+import { actionDescription } from "./lib/command.js";
+import {
+  fetchMigrationStatuses,
+  formatMigrationStatuses,
+  startMigrations,
+} from "./lib/migrations.js";
+import {
+  ensureHasConvexDependency,
+  parsePositiveInteger,
+} from "./lib/utils.js";
+
+const moduleOption = () =>
+  new Option(
+    "--module <name>",
+    "The module exporting the migration functions",
+  ).default("migrations");
+
+const migrateRun = new Command("run")
+  .summary("Start pending migrations")
+  .description(
+    "Start the pending migrations defined with `defineMigrations`, in order of version: `npx convex migrate`\n" +
+      "Migrations that failed resume from their last completed batch.",
+  )
+  .addOption(
+    new Option(
+      "--to <version>",
+      "Only run migrations up to this version",
+    ).argParser(parsePositiveInteger),
+  )
+  .addOption(moduleOption())
+  .configureHelp({ showGlobalOptions: true })
+  .allowExcessArguments(false)
+  .action(async (options, cmd) => {
+    const ctx = oneoffContext;
+    await ensureHasConvexDependency(ctx, "migrate");
+    const deploymentSelection = deploymentSelectionFromOptions(
+      cmd.optsWithGlobals(),
+    );
+    const { adminKey, url } = await fetchDeploymentCredentialsProvisionProd(
+      ctx,
+      deploymentSelection,
+    );
+
+    const statuses = await startMigrations(
+      ctx,
+      url,
+      adminKey,
+      options.module,
+      options.to,
+    );
+    if (statuses.every((status) => status.state === "done")) {
+      logFinishedStep(ctx, "All migrations have completed.");
+      return;
+    }
+    logOutput(ctx, formatMigrationStatuses(statuses));
+    if (statuses.some((status) => status.state === "inProgress")) {
+      logFinishedStep(
+        ctx,
+        "Migrations are running in the background. Check on them with `npx convex migrate status`.",
+      );
+    }
+  });
+
+const migrateStatus = new Command("status")
+  .summary("Print the progress of migrations")
+  .description("Print the progress of migrations: `npx convex migrate status`")
+  .addOption(moduleOption())
+  .configureHelp({ showGlobalOptions: true })
+  .allowExcessArguments(false)
+  .action(async (options, cmd) => {
+    const ctx = oneoffContext;
+    await ensureHasConvexDependency(ctx, "migrate status");
+    const deploymentSelection = deploymentSelectionFromOptions(
+      cmd.optsWithGlobals(),
+    );
+    const { adminKey, url } = await fetchDeploymentCredentialsProvisionProd(
+      ctx,
+      deploymentSelection,
+    );
+
+    const statuses = await fetchMigrationStatuses(
+      ctx,
+      url,
+      adminKey,
+      options.module,
+    );
+    if (statuses.length === 0) {
+      logMessage(ctx, "No migrations defined.");
+      return;
+    }
+    logOutput(ctx, formatMigrationStatuses(statuses));
+  });
+
+export const migrate = new Command("migrate")
+  .summary("Run schema migrations")
+  .description(
+    "Run the migrations defined with `defineMigrations` on your deployment\n\n" +
+      "  Start pending migrations: `npx convex migrate`\n" +
+      "  Print their progress: `npx convex migrate status`\n\n" +
+      "By default, this runs migrations on your dev deployment.",
+  )
+  .addCommand(migrateRun, { isDefault: true })
+  .addCommand(migrateStatus)
+  .addHelpCommand(false)
+  .addDeploymentSelectionOptions(actionDescription("Run migrations on"));
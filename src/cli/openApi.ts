@@ -0,0 +1,64 @@
+import { Command } from "@commander-js/extra-typings";
+import chalk from "chalk";
+import {
+  logFinishedStep,
+  logOutput,
+  oneoffContext,
+  showSpinner,
+  stopSpinner,
+} from "../bundler/context.js";
+import {
+  deploymentSelectionFromOptions,
+  fetchDeploymentCredentialsProvisionProd,
+} from "./lib/api.js";
+import { actionDescription } from "./lib/command.js";
+import { fetchDeployedApi, generateOpenApiSpec } from "./lib/openApi.js";
+
+export const openApi = new Command("openapi")
+  .summary("Generate an OpenAPI document for your deployment's functions")
+  .description(
+    "Generate an OpenAPI 3.1 document describing the public queries, mutations and actions " +
+      "of your Convex deployment, as called over HTTP, and its HTTP actions.\n\n" +
+      "Argument and return value validators are converted to JSON Schema.\n" +
+      "By default, this describes your dev deployment.",
+  )
+  .option(
+    "--output <path>",
+    "Write the document to this file instead of printing it",
+  )
+  .addDeploymentSelectionOptions(
+    actionDescription("Generate the OpenAPI document for"),
+  )
+  .showHelpAfterError()
+  .action(async (options) => {
+    const ctx = oneoffContext;
+    const deploymentSelection = deploymentSelectionFromOptions(options);
+    const {
+      adminKey,
+      url: deploymentUrl,
+      deploymentName,
+    } = await fetchDeploymentCredentialsProvisionProd(ctx, deploymentSelection);
+
+    showSpinner(ctx, "Fetching function specs");
+    const { modules, httpRoutes } = await fetchDeployedApi(
+      ctx,
+      deploymentUrl,
+      adminKey,
+    );
+    stopSpinner(ctx);
+
+    const document = generateOpenApiSpec(modules, httpRoutes, {
+      title: deploymentName ?? deploymentUrl,
+      deploymentUrl,
+    });
+    const serialized = JSON.stringify(document, null, 2);
+    if (options.output !== undefined) {
+      ctx.fs.writeUtf8File(options.output, serialized + "\n");
+      logFinishedStep(
+        ctx,
+        `Wrote OpenAPI document to ${chalk.bold(options.output)}`,
+      );
+    } else {
+      logOutput(ctx, serialized);
+    }
+  });
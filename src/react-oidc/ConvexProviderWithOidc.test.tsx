@@ -0,0 +1,80 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { expect, test, vi } from "vitest";
+import React from "react";
+import { render } from "@testing-library/react";
+import { ConvexProviderWithOidc } from "./ConvexProviderWithOidc.js";
+import { ConvexReactClient } from "../react/index.js";
+import { AuthTokenFetcher } from "../browser/sync/client.js";
+
+const oidc = vi.hoisted(() => ({
+  user: { id_token: "cached", expired: false } as {
+    id_token: string;
+    expired: boolean;
+  } | null,
+  signinSilent: vi.fn(async () => ({ id_token: "renewed", expired: false })),
+  removeUser: vi.fn(async () => {}),
+  signedOutCallbacks: [] as (() => void)[],
+}));
+
+vi.mock("react-oidc-context", () => ({
+  useAuth: () => ({
+    isLoading: false,
+    isAuthenticated: oidc.user !== null,
+    user: oidc.user,
+    signinSilent: oidc.signinSilent,
+    removeUser: oidc.removeUser,
+    events: {
+      addUserSignedOut: (callback: () => void) => {
+        oidc.signedOutCallbacks.push(callback);
+        return () => {};
+      },
+    },
+  }),
+}));
+
+test("Helpers are valid children", () => {
+  const convex = new ConvexReactClient("https://localhost:3001");
+
+  const _ = (
+    <ConvexProviderWithOidc client={convex}>Hello world</ConvexProviderWithOidc>
+  );
+});
+
+test("Fetches ID tokens and renews them silently", async () => {
+  let fetchToken: AuthTokenFetcher | null = null;
+  const client = {
+    setAuth: (fetcher: AuthTokenFetcher) => {
+      fetchToken = fetcher;
+    },
+    clearAuth: vi.fn(),
+  };
+  render(
+    <ConvexProviderWithOidc client={client}>
+      Hello world
+    </ConvexProviderWithOidc>,
+  );
+
+  expect(await fetchToken!({ forceRefreshToken: false })).toEqual("cached");
+  expect(oidc.signinSilent).not.toHaveBeenCalled();
+  expect(await fetchToken!({ forceRefreshToken: true })).toEqual("renewed");
+  expect(oidc.signinSilent).toHaveBeenCalledTimes(1);
+
+  // Signing in again is required, so there's no token.
+  oidc.signinSilent.mockRejectedValueOnce(
+    Object.assign(new Error("Login required"), { error: "login_required" }),
+  );
+  expect(await fetchToken!({ forceRefreshToken: true })).toBeNull();
+
+  // Other errors are retried by the client.
+  const networkError = new Error("Failed to fetch");
+  oidc.signinSilent.mockRejectedValueOnce(networkError);
+  await expect(fetchToken!({ forceRefreshToken: true })).rejects.toBe(
+    networkError,
+  );
+
+  // Ending the session at the provider removes the user.
+  oidc.signedOutCallbacks.forEach((callback) => callback());
+  expect(oidc.removeUser).toHaveBeenCalledTimes(1);
+});
@@ -0,0 +1,105 @@
+import { useAuth } from "react-oidc-context";
+import React from "react";
+
+import { ReactNode, useCallback, useEffect, useMemo, useRef } from "react";
+import { AuthTokenFetcher } from "../browser/sync/client.js";
+import { ConvexProviderWithAuth } from "../react/ConvexAuthState.js";
+
+// Until we can import from our own entry points (requires TypeScript 4.7),
+// just describe the interface enough to help users pass the right type.
+type IConvexReactClient = {
+  setAuth(fetchToken: AuthTokenFetcher): void;
+  clearAuth(): void;
+};
+
+/**
+ * A wrapper React component which provides a {@link react.ConvexReactClient}
+ * authenticated with an OpenID Connect provider, like Okta, Keycloak,
+ * Amazon Cognito or Microsoft Entra ID.
+ *
+ * It must be wrapped by a configured `AuthProvider` from
+ * `react-oidc-context`, which signs users in with the authorization code flow
+ * and PKCE. Convex is authenticated with the provider's ID token, so the
+ * provider's issuer and the `client_id` must be configured in your
+ * `auth.config.ts`.
+ *
+ * When Convex needs a fresh ID token it's renewed silently, with a refresh
+ * token or a hidden iframe depending on the `AuthProvider` configuration.
+ * Renewals that fail for reasons other than the user having to sign in again,
+ * like network errors, are retried as configured by the client's `auth`
+ * options.
+ * Signing out of the provider, including elsewhere when `monitorSession` is
+ * enabled, signs out of Convex too.
+ *
+ * @public
+ */
+export function ConvexProviderWithOidc({
+  children,
+  client,
+}: {
+  children: ReactNode;
+  client: IConvexReactClient;
+}) {
+  return (
+    <ConvexProviderWithAuth client={client} useAuth={useAuthFromOidc}>
+      {children}
+    </ConvexProviderWithAuth>
+  );
+}
+
+// Errors of silent renewal that can only be resolved by signing in
+// interactively, see the OpenID Connect and OAuth 2.0 specifications.
+const SIGN_IN_REQUIRED_ERRORS = new Set<unknown>([
+  "login_required",
+  "interaction_required",
+  "consent_required",
+  "account_selection_required",
+  "invalid_grant",
+]);
+
+function useAuthFromOidc() {
+  const { isLoading, isAuthenticated, user, signinSilent, removeUser, events } =
+    useAuth();
+
+  // The user changes whenever its tokens are renewed. Read it through a ref so
+  // that renewing doesn't change `fetchAccessToken`, which would make
+  // `ConvexProviderWithAuth` authenticate from scratch.
+  const userRef = useRef(user);
+  userRef.current = user;
+
+  const fetchAccessToken = useCallback(
+    async ({ forceRefreshToken }: { forceRefreshToken: boolean }) => {
+      try {
+        const currentUser = userRef.current;
+        if (!forceRefreshToken && currentUser && !currentUser.expired) {
+          return currentUser.id_token ?? null;
+        }
+        const renewedUser = await signinSilent();
+        return renewedUser?.id_token ?? null;
+      } catch (error) {
+        // The provider needs the user to sign in again. Other errors, like
+        // network failures, are thrown so that Convex retries them.
+        if (SIGN_IN_REQUIRED_ERRORS.has((error as { error?: unknown }).error)) {
+          return null;
+        }
+        throw error;
+      }
+    },
+    [signinSilent],
+  );
+
+  // `react-oidc-context` keeps the user when the session at the provider
+  // ends, so remove it to sign out of Convex.
+  useEffect(
+    () =>
+      events.addUserSignedOut(() => {
+        void removeUser();
+      }),
+    [events, removeUser],
+  );
+
+  return useMemo(
+    () => ({ isLoading, isAuthenticated, fetchAccessToken }),
+    [isLoading, isAuthenticated, fetchAccessToken],
+  );
+}
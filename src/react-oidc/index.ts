@@ -0,0 +1,7 @@
+/**
+ * React login component for use with any OpenID Connect provider, like Okta,
+ * Keycloak, Amazon Cognito or Microsoft Entra ID.
+ *
+ * @module
+ */
+export { ConvexProviderWithOidc } from "./ConvexProviderWithOidc.js";
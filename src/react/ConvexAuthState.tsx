@@ -47,8 +47,8 @@ export function useConvexAuth(): {
   const authContext = useContext(ConvexAuthContext);
   if (authContext === undefined) {
     throw new Error(
-      "Could not find `ConvexProviderWithAuth` (or `ConvexProviderWithClerk` " +
-        "or `ConvexProviderWithAuth0`) " +
+      "Could not find `ConvexProviderWithAuth` (or `ConvexProviderWithClerk`, " +
+        "`ConvexProviderWithAuth0` or `ConvexProviderWithOidc`) " +
         "as an ancestor component. This component may be missing, or you " +
         "might have two instances of the `convex/react` module loaded in your " +
         "project.",
@@ -261,6 +261,125 @@ test("Fail when tokens cannot be fetched", async () => {
   });
 });
 
+test("Refetch tokens with an explicit expiry before they expire", async () => {
+  await withInMemoryWebSocket(async ({ address, receive, send }) => {
+    const client = new ConvexReactClient(address, {
+      webSocketConstructor: nodeWebSocket,
+      unsavedChangesWarning: false,
+      auth: { refreshLeeway: 1 },
+    });
+    let fetches = 0;
+    // Opaque tokens that expire 100ms after the leeway.
+    const tokenFetcher = vi.fn(async () => ({
+      token: `opaque-${++fetches}`,
+      expiresIn: 1.1,
+    }));
+    client.setAuth(tokenFetcher);
+
+    expect((await receive()).type).toEqual("Connect");
+    expect(await receive()).toMatchObject({
+      type: "Authenticate",
+      value: "opaque-1",
+    });
+    expect((await receive()).type).toEqual("ModifyQuerySet");
+
+    const querySetVersion = client.sync["remoteQuerySet"]["version"];
+    // Server accepts the cached token, the client fetches a fresh one.
+    send({
+      type: "Transition",
+      startVersion: querySetVersion,
+      endVersion: { ...querySetVersion, identity: 1 },
+      modifications: [],
+    });
+    expect(await receive()).toMatchObject({
+      type: "Authenticate",
+      value: "opaque-2",
+    });
+
+    // Server accepts the fresh token, the client refetches it before it
+    // expires.
+    send({
+      type: "Transition",
+      startVersion: { ...querySetVersion, identity: 1 },
+      endVersion: { ...querySetVersion, identity: 2 },
+      modifications: [],
+    });
+    expect(await receive()).toMatchObject({
+      type: "Authenticate",
+      value: "opaque-3",
+    });
+    await client.close();
+
+    expect(tokenFetcher).toHaveBeenCalledTimes(3);
+  });
+});
+
+test("Retry failed token fetches", async () => {
+  await withInMemoryWebSocket(async ({ address, receive }) => {
+    const client = new ConvexReactClient(address, {
+      webSocketConstructor: nodeWebSocket,
+      unsavedChangesWarning: false,
+      auth: { fetchRetries: 2, fetchRetryBackoff: 10 },
+    });
+    let fetches = 0;
+    const tokenFetcher = vi.fn(async () => {
+      if (++fetches < 3) {
+        throw new Error("IdP is unavailable");
+      }
+      return jwtEncode({ iat: 1234500, exp: 1244500 }, "secret");
+    });
+    client.setAuth(tokenFetcher);
+
+    expect((await receive()).type).toEqual("Connect");
+    expect((await receive()).type).toEqual("ModifyQuerySet");
+    expect((await receive()).type).toEqual("Authenticate");
+    await client.close();
+
+    expect(tokenFetcher).toHaveBeenCalledTimes(3);
+    expect(tokenFetcher).toHaveBeenCalledWith({ forceRefreshToken: false });
+  });
+});
+
+test("Report auth failures when tokens can't be fetched", async () => {
+  await withInMemoryWebSocket(async ({ address, receive }) => {
+    const onAuthFailure = vi.fn();
+    const client = new ConvexReactClient(address, {
+      webSocketConstructor: nodeWebSocket,
+      unsavedChangesWarning: false,
+      auth: { fetchRetries: 1, fetchRetryBackoff: 10, onAuthFailure },
+    });
+    const error = new Error("IdP is unavailable");
+    const tokenFetcher = vi.fn(async () => {
+      throw error;
+    });
+    const onAuthChange = vi.fn();
+    const originalError = console.error;
+    console.error = () => {};
+    try {
+      client.setAuth(tokenFetcher, onAuthChange);
+
+      expect((await receive()).type).toEqual("Connect");
+      expect((await receive()).type).toEqual("ModifyQuerySet");
+      await waitForExpect(() => {
+        expect(onAuthFailure).toHaveBeenCalledTimes(1);
+      });
+    } finally {
+      console.error = originalError;
+    }
+    await client.close();
+
+    // The fetch is retried once, and isn't retried again with a fresh token.
+    expect(tokenFetcher).toHaveBeenCalledTimes(2);
+    expect(tokenFetcher).not.toHaveBeenCalledWith({ forceRefreshToken: true });
+    expect(onAuthChange).toHaveBeenCalledTimes(1);
+    expect(onAuthChange).toHaveBeenCalledWith(false);
+    expect(onAuthFailure).toHaveBeenCalledWith({
+      reason: "fetchFailed",
+      error,
+    });
+  });
+});
+
 test("Client is protected against token rejection race", async () => {
   await withInMemoryWebSocket(async ({ address, receive, send, close }) => {
     const client = testReactClient(address);
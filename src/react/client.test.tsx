@@ -3,10 +3,15 @@
  */
 import { test, expect, describe } from "vitest";
 
-import { ConvexReactClient, createMutation, useQuery } from "./client.js";
+import {
+  ConvexReactClient,
+  createMutation,
+  useConvexConnectionState,
+  useQuery,
+} from "./client.js";
 import { ConvexProvider } from "./index.js";
 import React from "react";
-import { renderHook } from "@testing-library/react";
+import { act, renderHook } from "@testing-library/react";
 import { anyApi, makeFunctionReference } from "../server/api.js";
 
 const address = "https://127.0.0.1:3001";
@@ -170,3 +175,24 @@ describe("async query fetch", () => {
     expect(await queryResult).toStrictEqual("queryResult");
   });
 });
+
+describe("useConvexConnectionState", () => {
+  test("rerenders when a request starts", async () => {
+    const client = new ConvexReactClient(address);
+    const wrapper = ({ children }: any) => (
+      <ConvexProvider client={client}>{children}</ConvexProvider>
+    );
+    const { result } = renderHook(() => useConvexConnectionState(), {
+      wrapper,
+    });
+    expect(result.current.hasInflightRequests).toBe(false);
+    expect(result.current.isWebSocketConnected).toBe(false);
+
+    act(() => {
+      void client.mutation(anyApi.myMutation.default, {});
+    });
+    expect(result.current.hasInflightRequests).toBe(true);
+    expect(result.current).toBe(client.connectionState());
+    await client.close();
+  });
+});
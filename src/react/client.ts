@@ -12,6 +12,8 @@ import {
 import type { UserIdentityAttributes } from "../browser/sync/protocol.js";
 import { RequestForQueries, useQueries } from "./use_queries.js";
 import { parseArgs } from "../common/index.js";
+import { loadQuery } from "./suspense.js";
+import { useSubscription } from "./use_subscription.js";
 import {
   ArgsAndOptions,
   FunctionArgs,
@@ -186,6 +188,15 @@ export interface WatchQueryOptions {
    * name and arguments, this journal will have no effect.
    */
   journal?: QueryJournal;
+  /**
+   * How long, in milliseconds, to keep the query subscribed after the last
+   * watch on it stops, so that watching it again returns its result right
+   * away.
+   *
+   * The default value is {@link browser.QueryCacheOptions.keepAliveMs} of
+   * the client's `queryCache` option.
+   */
+  keepAliveMs?: number;
 }
 
 /**
@@ -475,6 +486,34 @@ export class ConvexReactClient {
     return this.sync.connectionState();
   }
 
+  /**
+   * Subscribe to changes of the {@link ConnectionState} between the client
+   * and the Convex backend.
+   *
+   * Most React code should use the {@link useConvexConnectionState} hook
+   * instead.
+   *
+   * @param listener - Called with the new {@link ConnectionState} whenever it
+   * changes.
+   * @returns A function that unsubscribes the listener.
+   */
+  subscribeToConnectionState(
+    listener: (state: ConnectionState) => void,
+  ): () => void {
+    return this.sync.subscribeToConnectionState(listener);
+  }
+
+  /**
+   * Try to reconnect to the Convex backend right away instead of waiting for
+   * the backoff to elapse, e.g. when the user asks to retry.
+   *
+   * This also restarts reconnecting after the client gave up, see
+   * {@link browser.ReconnectOptions.maxAttempts}.
+   */
+  reconnectNow() {
+    this.sync.reconnectNow();
+  }
+
   /**
    * Close any network handles associated with this client and stop all subscriptions.
    *
@@ -525,6 +564,47 @@ export function useConvex(): ConvexReactClient {
   return useContext(ConvexContext);
 }
 
+/**
+ * Get the current {@link browser.ConnectionState} between the
+ * {@link ConvexReactClient} and the Convex backend.
+ *
+ * This React hook rerenders the component whenever the connection state
+ * changes, e.g. to show a banner while the client is reconnecting:
+ *
+ * ```typescript
+ * const { isWebSocketConnected, connectionCount, reconnectBackoff } =
+ *   useConvexConnectionState();
+ * if (!isWebSocketConnected && connectionCount > 0) {
+ *   // Show "Reconnecting…"
+ * }
+ * ```
+ *
+ * Throws an error if not used under {@link ConvexProvider}.
+ *
+ * @returns The current {@link browser.ConnectionState}.
+ *
+ * @public
+ */
+export function useConvexConnectionState(): ConnectionState {
+  const convex = useConvex();
+  if (convex === undefined) {
+    throw new Error(
+      "Could not find Convex client! `useConvexConnectionState` must be used " +
+        "in the React component tree under `ConvexProvider`. Did you forget it? " +
+        "See https://docs.convex.dev/quick-start#set-up-convex-in-your-react-app",
+    );
+  }
+  const subscription = useMemo(
+    () => ({
+      getCurrentValue: () => convex.connectionState(),
+      subscribe: (callback: () => void) =>
+        convex.subscribeToConnectionState(callback),
+    }),
+    [convex],
+  );
+  return useSubscription(subscription);
+}
+
 /**
  * Provides an active Convex {@link ConvexReactClient} to descendants of this component.
  *
@@ -600,6 +680,49 @@ export function useQuery<Query extends FunctionReference<"query">>(
   return result;
 }
 
+/**
+ * Load a reactive query within a React component, suspending it until the
+ * query's first result arrives.
+ *
+ * This is like {@link useQuery}, but instead of returning `undefined` while
+ * the query is loading it suspends the component, so the nearest
+ * `<Suspense>` boundary renders its fallback. Once loaded, the component
+ * rerenders whenever the query result changes, like with {@link useQuery}.
+ *
+ * ```typescript
+ * function Messages() {
+ *   const messages = useSuspenseQuery(api.messages.list);
+ *   return messages.map((message) => <Message message={message} />);
+ * }
+ *
+ * <Suspense fallback={<Spinner />}>
+ *   <Messages />
+ * </Suspense>
+ * ```
+ *
+ * Errors thrown by the query are thrown to the nearest error boundary.
+ *
+ * Throws an error if not used under {@link ConvexProvider}.
+ *
+ * @param query - a {@link server.FunctionReference} for the public query to run
+ * like `api.dir1.dir2.filename.func`.
+ * @param args - The arguments to the query function.
+ * @returns the result of the query.
+ *
+ * @public
+ */
+export function useSuspenseQuery<Query extends FunctionReference<"query">>(
+  query: Query,
+  ...args: OptionalRestArgs<Query>
+): Query["_returnType"] {
+  const convex = useConvex();
+  const result = useQuery(query, ...(args as OptionalRestArgsOrSkip<Query>));
+  if (result === undefined) {
+    throw loadQuery(convex, query, parseArgs(args[0]));
+  }
+  return result;
+}
+
 /**
  * Construct a new {@link ReactMutation}.
  *
@@ -62,7 +62,10 @@
  */
 export * from "./use_paginated_query.js";
 export { useQueries, type RequestForQueries } from "./use_queries.js";
-export type { AuthTokenFetcher } from "../browser/sync/client.js";
+export type {
+  AuthTokenFetcher,
+  AuthTokenWithExpiry,
+} from "../browser/sync/client.js";
 export * from "./auth_helpers.js";
 export * from "./ConvexAuthState.js";
 export * from "./hydration.js";
@@ -80,6 +83,8 @@ export {
   useConvex,
   ConvexProvider,
   useQuery,
+  useSuspenseQuery,
+  useConvexConnectionState,
   useMutation,
   useAction,
 } from "./client.js";
@@ -0,0 +1,108 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { act, renderHook } from "@testing-library/react";
+import React, { Suspense } from "react";
+
+import { anyApi, makeFunctionReference } from "../server/api.js";
+import { assert, Equals } from "../test/type_testing.js";
+import { Value } from "../values/index.js";
+import {
+  ConvexProvider,
+  ConvexReactClient,
+  useSuspenseQuery,
+} from "./client.js";
+import { useQueries } from "./use_queries.js";
+
+const address = "https://127.0.0.1:3001";
+
+describe("suspense", () => {
+  let client: ConvexReactClient;
+  let wrapper: React.FC<{ children: React.ReactNode }>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    client = new ConvexReactClient(address);
+    wrapper = ({ children }) => (
+      <ConvexProvider client={client}>
+        <Suspense fallback="loading">{children}</Suspense>
+      </ConvexProvider>
+    );
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // Set a query result with an optimistic update.
+  // The mutation doesn't go through because the client's websocket isn't
+  // connected, so the optimistic update persists.
+  async function setQuery(
+    query: any,
+    args: Record<string, Value>,
+    value: Value | undefined,
+  ) {
+    await act(async () => {
+      void client.mutation(
+        anyApi.myMutation.default,
+        {},
+        {
+          optimisticUpdate: (localStore) => {
+            localStore.setQuery(query, args, value);
+          },
+        },
+      );
+    });
+  }
+
+  test("useSuspenseQuery suspends until the first result", async () => {
+    const query = makeFunctionReference<"query", { n: number }, string>(
+      "myQuery:default",
+    );
+    const { result } = renderHook(() => useSuspenseQuery(query, { n: 1 }), {
+      wrapper,
+    });
+    expect(result.current).toBeNull();
+
+    await setQuery(query, { n: 1 }, "first");
+    expect(result.current).toEqual("first");
+
+    // The component stays subscribed after the keep-alive subscription of
+    // the suspended render ends.
+    await act(async () => {
+      vi.advanceTimersByTime(10000);
+    });
+    await setQuery(query, { n: 1 }, "second");
+    expect(result.current).toEqual("second");
+    await client.close();
+  });
+
+  test("useQueries suspends until every query has loaded", async () => {
+    const queries = {
+      a: { query: anyApi.myQuery.a, args: {} },
+      b: { query: anyApi.myQuery.b, args: {} },
+    };
+    const { result } = renderHook(
+      () => useQueries(queries, { suspense: true }),
+      { wrapper },
+    );
+    expect(result.current).toBeNull();
+    await setQuery(anyApi.myQuery.a, {}, "a");
+    expect(result.current).toBeNull();
+    await setQuery(anyApi.myQuery.b, {}, "b");
+    expect(result.current).toEqual({ a: "a", b: "b" });
+    await client.close();
+  });
+
+  test("useSuspenseQuery types", () => {
+    const query = makeFunctionReference<"query", { n: number }, string>(
+      "myQuery:default",
+    );
+    // Only checking types.
+    () => {
+      const result = useSuspenseQuery(query, { n: 1 });
+      assert<Equals<typeof result, string>>();
+    };
+  });
+});
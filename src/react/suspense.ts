@@ -0,0 +1,96 @@
+import { convexToJson, Value } from "../values/index.js";
+import type { ConvexReactClient, Watch } from "./client.js";
+import { FunctionReference, getFunctionName } from "../server/api.js";
+
+/**
+ * How long the query subscriptions made while suspended are kept alive after
+ * the first result arrives.
+ *
+ * A suspended component's state is thrown away, so when React retries
+ * rendering it subscribes to its queries from scratch. Holding the
+ * subscription until then means the retry finds the result in the client
+ * instead of suspending again.
+ */
+const SUSPENSE_KEEP_ALIVE_MS = 5000;
+
+const pendingQueries = new WeakMap<
+  ConvexReactClient,
+  Map<string, Promise<void>>
+>();
+
+/**
+ * Get a promise that resolves once the client has a result for the query,
+ * for a hook to throw to suspend the component rendering it.
+ *
+ * The promise also resolves if the query throws so that React retries the
+ * render and the hook can throw the error to an error boundary.
+ *
+ * Components suspended on the same query and arguments share a promise.
+ */
+export function loadQuery(
+  convex: ConvexReactClient,
+  query: FunctionReference<"query">,
+  args: Record<string, Value>,
+): Promise<void> {
+  let pending = pendingQueries.get(convex);
+  if (pending === undefined) {
+    pending = new Map();
+    pendingQueries.set(convex, pending);
+  }
+  const key = JSON.stringify({
+    query: getFunctionName(query),
+    args: convexToJson(args),
+  });
+  const existing = pending.get(key);
+  if (existing !== undefined) {
+    return existing;
+  }
+  const watch = convex.watchQuery(query, args, {
+    keepAliveMs: SUSPENSE_KEEP_ALIVE_MS,
+  });
+  const promise = new Promise<void>((resolve) => {
+    let loaded = false;
+    const unsubscribe = watch.onUpdate(() => {
+      if (loaded || !hasLocalResult(watch)) {
+        return;
+      }
+      loaded = true;
+      pending!.delete(key);
+      resolve();
+      unsubscribe();
+    });
+  });
+  pending.set(key, promise);
+  return promise;
+}
+
+/**
+ * Throw a promise to suspend the rendering component if any of the
+ * `queries` are still loading, i.e. their entry in `results` is `undefined`.
+ */
+export function suspendWhileLoading(
+  convex: ConvexReactClient,
+  queries: Record<
+    string,
+    { query: FunctionReference<"query">; args: Record<string, Value> }
+  >,
+  results: Record<string, unknown>,
+) {
+  const loading = Object.keys(queries)
+    .filter((identifier) => results[identifier] === undefined)
+    .map((identifier) =>
+      loadQuery(convex, queries[identifier].query, queries[identifier].args),
+    );
+  if (loading.length > 0) {
+    throw Promise.all(loading);
+  }
+}
+
+function hasLocalResult(watch: Watch<Value>): boolean {
+  try {
+    return watch.localQueryResult() !== undefined;
+  } catch {
+    // An error is a result too.
+    return true;
+  }
+}
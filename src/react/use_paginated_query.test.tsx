@@ -305,6 +305,126 @@ describe("usePaginatedQuery pages", () => {
     expect(result.current.results).toStrictEqual(["item1", "item2"]);
   });
 
+  test("suspends until the first page loads", async () => {
+    const { result } = renderHook(
+      () =>
+        usePaginatedQuery(query, {}, { initialNumItems: 1, suspense: true }),
+      {
+        wrapper: ({ children }) => (
+          <ConvexProvider client={client}>
+            <React.Suspense fallback="loading">{children}</React.Suspense>
+          </ConvexProvider>
+        ),
+      },
+    );
+    expect(result.current).toBeNull();
+    mockPage(
+      { numItems: 1, cursor: null },
+      { page: ["item1"], continueCursor: "abc", isDone: false },
+    );
+    // Let React retry rendering the suspended component.
+    await act(async () => {});
+    expect(result.current.status).toStrictEqual("CanLoadMore");
+    expect(result.current.results).toStrictEqual(["item1"]);
+
+    // Loading more pages doesn't suspend.
+    act(() => {
+      result.current.loadMore(1);
+    });
+    expect(result.current.status).toStrictEqual("LoadingMore");
+    expect(result.current.results).toStrictEqual(["item1"]);
+  });
+
+  test("loadPrevious and loadNext from an initial cursor", () => {
+    const { result } = renderHook(
+      () =>
+        usePaginatedQuery(
+          query,
+          {},
+          { initialNumItems: 1, initialCursor: "anchor" },
+        ),
+      { wrapper },
+    );
+    expect(result.current.previousStatus).toStrictEqual("LoadingFirstPage");
+    mockPage(
+      { numItems: 1, cursor: "anchor" },
+      { page: ["item3"], continueCursor: "def", isDone: false },
+    );
+    mockPage(
+      { numItems: 2, cursor: "anchor", direction: "backward" },
+      { page: ["item1", "item2"], continueCursor: "abc", isDone: false },
+    );
+    mockPage(
+      { numItems: 1, cursor: "def" },
+      { page: ["item4"], continueCursor: "ghi", isDone: true },
+    );
+    expect(result.current.previousStatus).toStrictEqual("CanLoadMore");
+    expect(result.current.status).toStrictEqual("CanLoadMore");
+    expect(result.current.results).toStrictEqual(["item3"]);
+    act(() => {
+      result.current.loadPrevious(2);
+    });
+    expect(result.current.previousStatus).toStrictEqual("CanLoadMore");
+    expect(result.current.results).toStrictEqual(["item1", "item2", "item3"]);
+    // The backward page is replaced by a forward page between its cursors.
+    mockPage(
+      { numItems: 2, cursor: "abc", endCursor: "anchor" },
+      { page: ["item1", "item2b"], continueCursor: "anchor", isDone: false },
+    );
+    expect(result.current.results).toStrictEqual(["item1", "item2b", "item3"]);
+    mockPage(
+      { numItems: 1, cursor: "abc", direction: "backward" },
+      { page: ["item0"], continueCursor: "abc", isDone: true },
+    );
+    mockPage(
+      { numItems: 1, cursor: null, endCursor: "abc" },
+      { page: ["item0"], continueCursor: "abc", isDone: false },
+    );
+    act(() => {
+      result.current.loadPrevious(1);
+    });
+    expect(result.current.previousStatus).toStrictEqual("Exhausted");
+    expect(result.current.results).toStrictEqual([
+      "item0",
+      "item1",
+      "item2b",
+      "item3",
+    ]);
+    act(() => {
+      result.current.loadNext(1);
+    });
+    expect(result.current.status).toStrictEqual("Exhausted");
+    expect(result.current.results).toStrictEqual([
+      "item0",
+      "item1",
+      "item2b",
+      "item3",
+      "item4",
+    ]);
+  });
+
+  test("keeps results while loading a previous page", () => {
+    const { result } = renderHook(
+      () =>
+        usePaginatedQuery(
+          query,
+          {},
+          { initialNumItems: 1, initialCursor: "anchor" },
+        ),
+      { wrapper },
+    );
+    mockPage(
+      { numItems: 1, cursor: "anchor" },
+      { page: ["item2"], continueCursor: "def", isDone: true },
+    );
+    act(() => {
+      result.current.loadPrevious(1);
+    });
+    expect(result.current.previousStatus).toStrictEqual("LoadingMore");
+    expect(result.current.status).toStrictEqual("Exhausted");
+    expect(result.current.results).toStrictEqual(["item2"]);
+  });
+
   test("single page updating", () => {
     const { result } = renderHook(
       () => usePaginatedQuery(query, {}, { initialNumItems: 1 }),
@@ -2,6 +2,7 @@ import { useMemo, useState } from "react";
 
 import { OptimisticLocalStore } from "../browser/index.js";
 import {
+  Cursor,
   FunctionReturnType,
   PaginationOptions,
   paginationOptsValidator,
@@ -9,6 +10,8 @@ import {
 } from "../server/index.js";
 import { convexToJson, Infer, Value } from "../values/index.js";
 import { useQueries } from "./use_queries.js";
+import { ConvexReactClient, useConvex } from "./client.js";
+import { loadQuery } from "./suspense.js";
 import {
   FunctionArgs,
   FunctionReference,
@@ -51,8 +54,9 @@ type UsePaginatedQueryState = {
       args: { paginationOpts: Infer<typeof paginationOptsValidator> };
     }
   >;
-  ongoingSplits: Record<QueryPageKey, [QueryPageKey, QueryPageKey]>;
+  ongoingSplits: Record<QueryPageKey, QueryPageKey[]>;
   skip: boolean;
+  initialCursor: Cursor | null;
 };
 
 const splitQuery =
@@ -120,6 +124,43 @@ const completeSplitQuery =
     };
   };
 
+// Once a backward page has loaded, replace it with a forward page between the
+// same cursors. Cursors returned by a backward page are forward cursors, so
+// this keeps the page working like the rest, e.g. when it needs splitting.
+const pinBackwardPage =
+  (key: QueryPageKey, startCursor: Cursor | null) =>
+  (prevState: UsePaginatedQueryState) => {
+    if (prevState.ongoingSplits[key] !== undefined) {
+      return prevState;
+    }
+    const { numItems, cursor, id } = prevState.queries[key].args.paginationOpts;
+    const queries = { ...prevState.queries };
+    const pinnedKey = prevState.nextPageKey;
+    queries[pinnedKey] = {
+      query: prevState.query,
+      args: {
+        ...prevState.args,
+        paginationOpts: {
+          numItems,
+          cursor: startCursor,
+          endCursor: cursor,
+          id,
+        },
+      },
+    };
+    const ongoingSplits = { ...prevState.ongoingSplits };
+    ongoingSplits[key] = [pinnedKey];
+    return {
+      ...prevState,
+      nextPageKey: prevState.nextPageKey + 1,
+      queries,
+      ongoingSplits,
+    };
+  };
+
+const isBackward = (state: UsePaginatedQueryState, key: QueryPageKey) =>
+  state.queries[key]?.args.paginationOpts.direction === "backward";
+
 /**
  * Load data reactively from a paginated query to a create a growing list.
  *
@@ -140,8 +181,25 @@ const completeSplitQuery =
  * );
  * ```
  *
- * If the query reference or arguments change, the pagination state will be reset
- * to the first page. Similarly, if any of the pages result in an InvalidCursor
+ * To open the list in the middle, e.g. at the first unread message, pass an
+ * `initialCursor` from an earlier {@link server.PaginationResult}. The first
+ * page is loaded from that cursor and the list can then grow in both
+ * directions with `loadPrevious` and `loadNext`:
+ * ```typescript
+ * const { results, previousStatus, status, loadPrevious, loadNext } =
+ *   usePaginatedQuery(
+ *     api.messages.list,
+ *     { channel: "#general" },
+ *     { initialNumItems: 20, initialCursor: firstUnreadCursor }
+ *   );
+ * ```
+ *
+ * Pass `suspense: true` in the options to suspend the component until the
+ * first page has loaded, like {@link useSuspenseQuery}, instead of returning
+ * the "LoadingFirstPage" status.
+ *
+ * If the query reference, arguments or initial cursor change, the pagination
+ * state will be reset to the first page. Similarly, if any of the pages result in an InvalidCursor
  * error or an error associated with too much data, the pagination state will also
  * reset to the first page.
  *
@@ -151,16 +209,22 @@ const completeSplitQuery =
  * @param args - The arguments object for the query function, excluding
  * the `paginationOpts` property. That property is injected by this hook.
  * @param options - An object specifying the `initialNumItems` to be loaded in
- * the first page.
+ * the first page and optionally the `initialCursor` to load it from and
+ * whether to `suspense` while loading it.
  * @returns A {@link UsePaginatedQueryResult} that includes the currently loaded
- * items, the status of the pagination, and a `loadMore` function.
+ * items, the status of the pagination at each end, and functions to load more
+ * items at each end.
  *
  * @public
  */
 export function usePaginatedQuery<Query extends PaginatedQueryReference>(
   query: Query,
   args: PaginatedQueryArgs<Query> | "skip",
-  options: { initialNumItems: number },
+  options: {
+    initialNumItems: number;
+    initialCursor?: Cursor | null;
+    suspense?: boolean;
+  },
 ): UsePaginatedQueryReturnType<Query> {
   if (
     typeof options?.initialNumItems !== "number" ||
@@ -173,9 +237,23 @@ export function usePaginatedQuery<Query extends PaginatedQueryReference>(
   const skip = args === "skip";
   const argsObject = skip ? {} : args;
   const queryName = getFunctionName(query);
+  const initialCursor = options.initialCursor ?? null;
+  const suspense = options.suspense ?? false;
+  const convex = useConvex();
+  const sessionKey = JSON.stringify({
+    query: queryName,
+    args: convexToJson(argsObject as Value),
+    initialNumItems: options.initialNumItems,
+    initialCursor,
+  });
   const createInitialState = useMemo(() => {
     return () => {
-      const id = nextPaginationId();
+      // Reuse the ID of a session that suspended while loading its first
+      // page, because the suspended state was thrown away.
+      const id =
+        (suspense
+          ? suspendedPaginationIds.get(convex)?.get(sessionKey)
+          : undefined) ?? nextPaginationId();
       return {
         query,
         args: argsObject as Record<string, Value>,
@@ -191,7 +269,7 @@ export function usePaginatedQuery<Query extends PaginatedQueryReference>(
                   ...argsObject,
                   paginationOpts: {
                     numItems: options.initialNumItems,
-                    cursor: null,
+                    cursor: initialCursor,
                     id,
                   },
                 },
@@ -199,6 +277,7 @@ export function usePaginatedQuery<Query extends PaginatedQueryReference>(
             },
         ongoingSplits: {},
         skip,
+        initialCursor,
       };
     };
     // ESLint doesn't like that we're stringifying the args. We do this because
@@ -211,6 +290,9 @@ export function usePaginatedQuery<Query extends PaginatedQueryReference>(
     queryName,
     options.initialNumItems,
     skip,
+    initialCursor,
+    suspense,
+    convex,
   ]);
 
   const [state, setState] =
@@ -222,7 +304,8 @@ export function usePaginatedQuery<Query extends PaginatedQueryReference>(
     getFunctionName(query) !== getFunctionName(state.query) ||
     JSON.stringify(convexToJson(argsObject as Value)) !==
       JSON.stringify(convexToJson(state.args)) ||
-    skip !== state.skip
+    skip !== state.skip ||
+    initialCursor !== state.initialCursor
   ) {
     currState = createInitialState();
     setState(currState);
@@ -238,10 +321,17 @@ export function usePaginatedQuery<Query extends PaginatedQueryReference>(
 
     const allItems = [];
     for (const pageKey of currState.pageKeys) {
-      currResult = resultsObject[pageKey];
-      if (currResult === undefined) {
+      const pageResult = resultsObject[pageKey];
+      if (pageResult === undefined) {
+        // Only the first page can be a loading backward page, so skip it
+        // and show the pages after it.
+        if (isBackward(currState, pageKey)) {
+          continue;
+        }
+        currResult = undefined;
         break;
       }
+      currResult = pageResult;
 
       if (currResult instanceof Error) {
         if (currResult.message.includes("InvalidCursor")) {
@@ -265,12 +355,20 @@ export function usePaginatedQuery<Query extends PaginatedQueryReference>(
       const ongoingSplit = currState.ongoingSplits[pageKey];
       if (ongoingSplit !== undefined) {
         if (
-          resultsObject[ongoingSplit[0]] !== undefined &&
-          resultsObject[ongoingSplit[1]] !== undefined
+          ongoingSplit.every(
+            (splitKey) => resultsObject[splitKey] !== undefined,
+          )
         ) {
-          // Both pages of the split have results now. Swap them in.
+          // Every page of the split has results now. Swap them in.
           setState(completeSplitQuery(pageKey));
         }
+      } else if (isBackward(currState, pageKey)) {
+        setState(
+          pinBackwardPage(
+            pageKey,
+            currResult.isDone ? null : currResult.continueCursor,
+          ),
+        );
       } else if (
         currResult.splitCursor &&
         (currResult.pageStatus === "SplitRecommended" ||
@@ -296,13 +394,7 @@ export function usePaginatedQuery<Query extends PaginatedQueryReference>(
       allItems.push(...currResult.page);
     }
     return [allItems, currResult];
-  }, [
-    resultsObject,
-    currState.pageKeys,
-    currState.ongoingSplits,
-    options.initialNumItems,
-    createInitialState,
-  ]);
+  }, [resultsObject, currState, options.initialNumItems, createInitialState]);
 
   const statusObject = useMemo(() => {
     if (maybeLastResult === undefined) {
@@ -367,13 +459,116 @@ export function usePaginatedQuery<Query extends PaginatedQueryReference>(
     } as const;
   }, [maybeLastResult, currState.nextPageKey]);
 
+  const previousStatusObject = useMemo(() => {
+    const firstPageKey = currState.pageKeys[0];
+    const firstResult =
+      firstPageKey === undefined ? undefined : resultsObject[firstPageKey];
+    const firstPageIsBackward =
+      firstPageKey !== undefined && isBackward(currState, firstPageKey);
+    if (
+      firstResult === undefined ||
+      firstResult instanceof Error ||
+      firstResult.pageStatus === "SplitRequired"
+    ) {
+      return {
+        previousStatus: firstPageIsBackward
+          ? "LoadingMore"
+          : "LoadingFirstPage",
+        loadPrevious: (_numItems: number) => {
+          // Intentional noop.
+        },
+      } as const;
+    }
+    // The results before a forward page start at its cursor, and the results
+    // before a backward page continue from its continue cursor.
+    const previousCursor = firstPageIsBackward
+      ? firstResult.isDone
+        ? null
+        : firstResult.continueCursor
+      : currState.queries[firstPageKey].args.paginationOpts.cursor;
+    if (previousCursor === null) {
+      return {
+        previousStatus: "Exhausted",
+        loadPrevious: (_numItems: number) => {
+          // Intentional noop.
+        },
+      } as const;
+    }
+    let alreadyLoadingPrevious = false;
+    return {
+      previousStatus: "CanLoadMore",
+      loadPrevious: (numItems: number) => {
+        if (!alreadyLoadingPrevious) {
+          alreadyLoadingPrevious = true;
+          setState((prevState) => {
+            const pageKeys = [prevState.nextPageKey, ...prevState.pageKeys];
+            const queries = { ...prevState.queries };
+            queries[prevState.nextPageKey] = {
+              query: prevState.query,
+              args: {
+                ...prevState.args,
+                paginationOpts: {
+                  numItems,
+                  cursor: previousCursor,
+                  direction: "backward",
+                  id: prevState.id,
+                },
+              },
+            };
+            return {
+              ...prevState,
+              nextPageKey: prevState.nextPageKey + 1,
+              pageKeys,
+              queries,
+            };
+          });
+        }
+      },
+    } as const;
+  }, [resultsObject, currState]);
+
+  if (suspense && currState.queries[0] !== undefined) {
+    if (resultsObject[0] === undefined) {
+      suspendedPaginationIdsFor(convex).set(sessionKey, currState.id);
+      throw loadQuery(
+        convex,
+        currState.queries[0].query,
+        currState.queries[0].args,
+      );
+    }
+    const suspendedIds = suspendedPaginationIdsFor(convex);
+    if (suspendedIds.get(sessionKey) === currState.id) {
+      suspendedIds.delete(sessionKey);
+    }
+  }
+
   return {
     results,
+    ...previousStatusObject,
     ...statusObject,
+    loadNext: statusObject.loadMore,
   };
 }
 
 let paginationId = 0;
+// The pagination IDs of sessions suspended while loading their first page.
+// Sessions that unmount before their first page loads never remove theirs, so
+// keep them per client to drop them along with it.
+const suspendedPaginationIds = new WeakMap<
+  ConvexReactClient,
+  Map<string, number>
+>();
+
+function suspendedPaginationIdsFor(
+  convex: ConvexReactClient,
+): Map<string, number> {
+  let ids = suspendedPaginationIds.get(convex);
+  if (ids === undefined) {
+    ids = new Map();
+    suspendedPaginationIds.set(convex, ids);
+  }
+  return ids;
+}
 /**
  * Generate a new, unique ID for a pagination session.
  *
@@ -424,12 +619,29 @@ export function resetPaginationId() {
  *   - "Exhausted": We've paginated to the end of the list.
  * - `loadMore(n)` A callback to fetch more results. This will only fetch more
  * results if the status is "CanLoadMore".
+ * - `loadNext(n)` - The same as `loadMore`.
+ * - `previousStatus` - The status of the pagination before the first loaded
+ * result. It has the same possible values as `status`. It is "Exhausted" if
+ * the first page was loaded from the start of the results and
+ * "CanLoadMore" once a first page loaded from an `initialCursor` arrives.
+ * - `loadPrevious(n)` - A callback to fetch results before the first loaded
+ * result. This will only fetch more results if `previousStatus` is
+ * "CanLoadMore". Each previous page reads every result from the start of the
+ * query up to the first loaded result, so it gets slower the further the
+ * results are from the start.
  *
  * @public
  */
 export type UsePaginatedQueryResult<Item> = {
   results: Item[];
   loadMore: (numItems: number) => void;
+  loadNext: (numItems: number) => void;
+  previousStatus:
+    | "LoadingFirstPage"
+    | "CanLoadMore"
+    | "LoadingMore"
+    | "Exhausted";
+  loadPrevious: (numItems: number) => void;
 } & (
   | {
       status: "LoadingFirstPage";
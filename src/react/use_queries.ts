@@ -3,6 +3,7 @@ import { useEffect, useMemo, useState } from "react";
 import { useConvex } from "./client.js";
 import { CreateWatch, QueriesObserver } from "./queries_observer.js";
 import { useSubscription } from "./use_subscription.js";
+import { suspendWhileLoading } from "./suspense.js";
 import { QueryJournal } from "../browser/index.js";
 import { FunctionReference } from "../server/api.js";
 
@@ -48,9 +49,15 @@ import { FunctionReference } from "../server/api.js";
  *
  * Throws an error if not used under {@link ConvexProvider}.
  *
+ * Pass `{ suspense: true }` as the options to suspend the component until
+ * every query has loaded instead, like {@link useSuspenseQuery}. Errors are
+ * still returned rather than thrown.
+ *
  * @param queries - An object mapping identifiers to objects of
  * `{query: string, args: Record<string, Value> }` describing which query
  * functions to fetch.
+ * @param options - An optional object with `suspense: true` to suspend while
+ * any of the queries are loading.
  * @returns An object with the same keys as the input. The values are the result
  * of the query function, `undefined` if it's still loading, or an `Error` if
  * it threw an exception.
@@ -59,6 +66,7 @@ import { FunctionReference } from "../server/api.js";
  */
 export function useQueries(
   queries: RequestForQueries,
+  options?: { suspense?: boolean },
 ): Record<string, any | undefined | Error> {
   const convex = useConvex();
   if (convex === undefined) {
@@ -79,7 +87,11 @@ export function useQueries(
       return convex.watchQuery(query, args, { journal });
     };
   }, [convex]);
-  return useQueriesHelper(queries, createWatch);
+  const results = useQueriesHelper(queries, createWatch);
+  if (options?.suspense) {
+    suspendWhileLoading(convex, queries, results);
+  }
+  return results;
 }
 
 /**
@@ -0,0 +1,132 @@
+import { describe, expect, test } from "vitest";
+import { assert, Equals } from "../test/type_testing.js";
+import { v } from "../values/validator.js";
+import { convexTest } from "../testing/convex_test.js";
+import { anyApi, ApiFromModules } from "./api.js";
+import {
+  DataModelFromSchemaDefinition,
+  defineSchema,
+  defineTable,
+} from "./schema.js";
+import {
+  actionGeneric,
+  mutationGeneric,
+  queryGeneric,
+} from "./impl/registration_impl.js";
+import { GenericQueryCtx } from "./registration.js";
+import {
+  customAction,
+  customCtx,
+  customMutation,
+  customQuery,
+} from "./custom_functions.js";
+
+const schema = defineSchema({
+  notes: defineTable({ tenant: v.string(), body: v.string() }),
+});
+
+type DataModel = DataModelFromSchemaDefinition<typeof schema>;
+
+async function currentUser(ctx: GenericQueryCtx<DataModel>) {
+  const identity = await ctx.auth.getUserIdentity();
+  if (identity === null) {
+    throw new Error("Not authenticated");
+  }
+  return { name: identity.name ?? "anonymous" };
+}
+
+const userQuery = customQuery(
+  queryGeneric,
+  customCtx(async (ctx: GenericQueryCtx<DataModel>) => ({
+    user: await currentUser(ctx),
+  })),
+);
+
+const tenantMutation = customMutation(mutationGeneric, {
+  args: { tenant: v.string() },
+  input: async (_ctx, { tenant }) => ({
+    ctx: { tenant },
+    args: { prefix: `[${tenant}] ` },
+  }),
+});
+
+const loggingAction = customAction(actionGeneric, {
+  args: {},
+  input: () => ({
+    ctx: { log: (line: string) => `logged: ${line}` },
+    args: {},
+  }),
+});
+
+const notes = {
+  whoami: userQuery(async (ctx) => ctx.user.name),
+  create: tenantMutation({
+    args: { body: v.string() },
+    handler: async (ctx, args) => {
+      assert<Equals<typeof ctx.tenant, string>>();
+      assert<Equals<typeof args, { body: string; prefix: string }>>();
+      return await ctx.db.insert("notes", {
+        tenant: ctx.tenant,
+        body: args.prefix + args.body,
+      });
+    },
+  }),
+  log: loggingAction({
+    args: { line: v.string() },
+    handler: async (ctx, { line }) => ctx.log(line),
+  }),
+};
+
+const api: any = anyApi;
+
+describe("custom functions", () => {
+  test("adds fields to the context", async () => {
+    const t = convexTest(schema, { notes });
+    expect(
+      await t.withIdentity({ name: "Sarah" }).query(api.notes.whoami),
+    ).toEqual("Sarah");
+    await expect(t.query(api.notes.whoami)).rejects.toThrow(
+      "Not authenticated",
+    );
+    expect(await t.action(api.notes.log, { line: "hi" })).toEqual("logged: hi");
+  });
+
+  test("consumes custom arguments and adds new ones", async () => {
+    const t = convexTest(schema, { notes });
+    const id = await t.mutation(api.notes.create, {
+      tenant: "acme",
+      body: "hi",
+    });
+    expect(await t.run((ctx) => ctx.db.get(id))).toMatchObject({
+      tenant: "acme",
+      body: "[acme] hi",
+    });
+    await expect(t.mutation(api.notes.create, { body: "hi" })).rejects.toThrow(
+      /ArgumentValidationError/,
+    );
+  });
+
+  test("requires args when the customization takes args", () => {
+    expect(() => tenantMutation(async () => {})).toThrow(
+      "must declare their own `args` too",
+    );
+  });
+
+  test("rejects args that the customization already takes", () => {
+    expect(() =>
+      tenantMutation({
+        args: { tenant: v.string(), body: v.string() },
+        handler: async () => {},
+      }),
+    ).toThrow("can't declare `args` the builder already takes: tenant");
+  });
+
+  test("infers the arguments clients pass", () => {
+    type API = ApiFromModules<{ notes: typeof notes }>;
+    assert<
+      Equals<API["notes"]["create"]["_args"], { body: string; tenant: string }>
+    >();
+    assert<Equals<API["notes"]["log"]["_args"], { line: string }>>();
+    assert<Equals<API["notes"]["whoami"]["_returnType"], string>>();
+  });
+});
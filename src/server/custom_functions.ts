@@ -0,0 +1,349 @@
+import { Expand, BetterOmit } from "../type_utils.js";
+import {
+  isValidator,
+  ObjectType,
+  PropertyValidators,
+} from "../values/validator.js";
+import { Validator } from "../values/validators.js";
+import { GenericDataModel } from "./data_model.js";
+import {
+  ActionBuilder,
+  ArgsArray,
+  ArgsArrayForOptionalValidator,
+  ArgsArrayToObject,
+  DefaultArgsForOptionalValidator,
+  FunctionVisibility,
+  GenericActionCtx,
+  GenericMutationCtx,
+  GenericQueryCtx,
+  MutationBuilder,
+  QueryBuilder,
+  RegisteredAction,
+  RegisteredMutation,
+  RegisteredQuery,
+  ReturnValueForOptionalValidator,
+} from "./registration.js";
+
+/**
+ * How a custom function builder changes the functions it defines, passed to
+ * {@link customQuery}, {@link customMutation} or {@link customAction}.
+ *
+ * - `args` are extra arguments that every function defined with the builder
+ *   accepts. They are validated along with the function's own arguments and
+ *   passed to `input` instead of the handler. Functions can't declare
+ *   arguments with the same names.
+ * - `input` runs before every handler. The fields of the `ctx` it returns are
+ *   added to the handler's context, replacing existing fields with the same
+ *   name, and the fields of the `args` it returns are added to the handler's
+ *   arguments.
+ *
+ * @public
+ */
+export type Customization<
+  Ctx extends Record<string, any>,
+  CustomArgsValidator extends PropertyValidators,
+  CustomCtx extends Record<string, any>,
+  CustomMadeArgs extends Record<string, any>,
+> = {
+  args: CustomArgsValidator;
+  input: (
+    ctx: Ctx,
+    args: ObjectType<CustomArgsValidator>,
+  ) =>
+    | Promise<{ ctx: CustomCtx; args: CustomMadeArgs }>
+    | { ctx: CustomCtx; args: CustomMadeArgs };
+};
+
+/**
+ * A {@link Customization} that only adds fields to the context.
+ *
+ * ```ts
+ * const userQuery = customQuery(
+ *   query,
+ *   customCtx(async (ctx) => ({ user: await getCurrentUser(ctx) })),
+ * );
+ * ```
+ *
+ * @param modifyCtx - Computes the fields to add to the context.
+ * @returns A {@link Customization} for {@link customQuery},
+ * {@link customMutation} or {@link customAction}.
+ *
+ * @public
+ */
+export function customCtx<
+  InCtx extends Record<string, any>,
+  OutCtx extends Record<string, any>,
+>(
+  modifyCtx: (original: InCtx) => Promise<OutCtx> | OutCtx,
+): Customization<InCtx, EmptyValidators, OutCtx, EmptyArgs> {
+  return {
+    args: {},
+    input: async (ctx) => ({ ctx: await modifyCtx(ctx), args: {} }),
+  };
+}
+
+/**
+ * Define a query builder that customizes the context and arguments of the
+ * queries it defines.
+ *
+ * ```ts
+ * const tenantQuery = customQuery(query, {
+ *   args: { tenantId: v.id("tenants") },
+ *   input: async (ctx, { tenantId }) => {
+ *     const tenant = await ctx.db.get(tenantId);
+ *     if (tenant === null) {
+ *       throw new Error("Unknown tenant");
+ *     }
+ *     return { ctx: { tenant }, args: {} };
+ *   },
+ * });
+ *
+ * export const listProjects = tenantQuery({
+ *   args: {},
+ *   handler: async (ctx) => {
+ *     return await ctx.db
+ *       .query("projects")
+ *       .withIndex("by_tenant", (q) => q.eq("tenantId", ctx.tenant._id))
+ *       .collect();
+ *   },
+ * });
+ * ```
+ *
+ * Clients call `listProjects` with a `tenantId` argument.
+ *
+ * @param query - The query builder to customize, like `query` or
+ * `internalQuery` from `convex/_generated/server`.
+ * @param customization - The {@link Customization} to apply.
+ * @returns A builder with the same interface as `query`.
+ *
+ * @public
+ */
+export function customQuery<
+  CustomArgsValidator extends PropertyValidators,
+  CustomCtx extends Record<string, any>,
+  CustomMadeArgs extends Record<string, any>,
+  Visibility extends FunctionVisibility,
+  DataModel extends GenericDataModel,
+>(
+  query: QueryBuilder<DataModel, Visibility>,
+  customization: Customization<
+    GenericQueryCtx<DataModel>,
+    CustomArgsValidator,
+    CustomCtx,
+    CustomMadeArgs
+  >,
+): CustomBuilder<
+  "query",
+  CustomArgsValidator,
+  CustomCtx,
+  CustomMadeArgs,
+  GenericQueryCtx<DataModel>,
+  Visibility
+> {
+  return customFunctionBuilder(query, customization) as any;
+}
+
+/**
+ * Define a mutation builder that customizes the context and arguments of the
+ * mutations it defines.
+ *
+ * See {@link customQuery} for an example.
+ *
+ * @param mutation - The mutation builder to customize, like `mutation` or
+ * `internalMutation` from `convex/_generated/server`.
+ * @param customization - The {@link Customization} to apply.
+ * @returns A builder with the same interface as `mutation`.
+ *
+ * @public
+ */
+export function customMutation<
+  CustomArgsValidator extends PropertyValidators,
+  CustomCtx extends Record<string, any>,
+  CustomMadeArgs extends Record<string, any>,
+  Visibility extends FunctionVisibility,
+  DataModel extends GenericDataModel,
+>(
+  mutation: MutationBuilder<DataModel, Visibility>,
+  customization: Customization<
+    GenericMutationCtx<DataModel>,
+    CustomArgsValidator,
+    CustomCtx,
+    CustomMadeArgs
+  >,
+): CustomBuilder<
+  "mutation",
+  CustomArgsValidator,
+  CustomCtx,
+  CustomMadeArgs,
+  GenericMutationCtx<DataModel>,
+  Visibility
+> {
+  return customFunctionBuilder(mutation, customization) as any;
+}
+
+/**
+ * Define an action builder that customizes the context and arguments of the
+ * actions it defines.
+ *
+ * See {@link customQuery} for an example.
+ *
+ * @param action - The action builder to customize, like `action` or
+ * `internalAction` from `convex/_generated/server`.
+ * @param customization - The {@link Customization} to apply.
+ * @returns A builder with the same interface as `action`.
+ *
+ * @public
+ */
+export function customAction<
+  CustomArgsValidator extends PropertyValidators,
+  CustomCtx extends Record<string, any>,
+  CustomMadeArgs extends Record<string, any>,
+  Visibility extends FunctionVisibility,
+  DataModel extends GenericDataModel,
+>(
+  action: ActionBuilder<DataModel, Visibility>,
+  customization: Customization<
+    GenericActionCtx<DataModel>,
+    CustomArgsValidator,
+    CustomCtx,
+    CustomMadeArgs
+  >,
+): CustomBuilder<
+  "action",
+  CustomArgsValidator,
+  CustomCtx,
+  CustomMadeArgs,
+  GenericActionCtx<DataModel>,
+  Visibility
+> {
+  return customFunctionBuilder(action, customization) as any;
+}
+
+function customFunctionBuilder(
+  builder: (definition: any) => any,
+  customization: Customization<any, any, any, any>,
+) {
+  const customArgs: PropertyValidators = customization.args;
+  return (definition: any) => {
+    const handler =
+      typeof definition === "function" ? definition : definition.handler;
+    const args = typeof definition === "function" ? undefined : definition.args;
+    if (args === undefined) {
+      if (Object.keys(customArgs).length > 0) {
+        throw new Error(
+          "Functions defined with a custom builder that takes `args` must declare their own `args` too.",
+        );
+      }
+      return builder({
+        returns: definition.returns,
+        handler: async (ctx: any, allArgs: any) => {
+          const added = await customization.input(ctx, {});
+          return await handler(
+            { ...ctx, ...added.ctx },
+            { ...allArgs, ...added.args },
+          );
+        },
+      });
+    }
+    const functionArgs: PropertyValidators = isValidator(args)
+      ? (args as any).fields
+      : args;
+    const collisions = Object.keys(functionArgs).filter(
+      (name) => name in customArgs,
+    );
+    if (collisions.length > 0) {
+      throw new Error(
+        `Functions defined with a custom builder can't declare \`args\` the builder already takes: ${collisions.join(", ")}`,
+      );
+    }
+    return builder({
+      args: { ...functionArgs, ...customArgs },
+      returns: definition.returns,
+      handler: async (ctx: any, allArgs: any) => {
+        const ownArgs: Record<string, unknown> = {};
+        const inputArgs: Record<string, unknown> = {};
+        for (const [name, value] of Object.entries(allArgs)) {
+          if (name in customArgs) {
+            inputArgs[name] = value;
+          } else {
+            ownArgs[name] = value;
+          }
+        }
+        const added = await customization.input(ctx, inputArgs);
+        return await handler(
+          { ...ctx, ...added.ctx },
+          { ...ownArgs, ...added.args },
+        );
+      },
+    });
+  };
+}
+
+type EmptyValidators = Record<string, never>;
+
+type EmptyArgs = Record<string, never>;
+
+// Replace the fields of `T` that are also in `U`.
+type Overwrite<T, U> = Expand<BetterOmit<T, keyof U & keyof T> & U>;
+
+type HandlerArgs<
+  OneOrZeroArgs extends ArgsArray,
+  CustomMadeArgs extends Record<string, any>,
+> = [Expand<ArgsArrayToObject<OneOrZeroArgs> & CustomMadeArgs>];
+
+type Registration<
+  FuncType extends "query" | "mutation" | "action",
+  Visibility extends FunctionVisibility,
+  Args extends Record<string, unknown>,
+  Output,
+> = {
+  query: RegisteredQuery<Visibility, Args, Output>;
+  mutation: RegisteredMutation<Visibility, Args, Output>;
+  action: RegisteredAction<Visibility, Args, Output>;
+}[FuncType];
+
+/**
+ * A builder returned by {@link customQuery}, {@link customMutation} or
+ * {@link customAction}. It takes the same function definitions as the
+ * builder it customizes, with the customized context and arguments passed
+ * to the handler.
+ *
+ * @public
+ */
+export type CustomBuilder<
+  FuncType extends "query" | "mutation" | "action",
+  CustomArgsValidator extends PropertyValidators,
+  CustomCtx extends Record<string, any>,
+  CustomMadeArgs extends Record<string, any>,
+  InputCtx,
+  Visibility extends FunctionVisibility,
+> = {
+  <
+    ArgsValidator extends PropertyValidators | void,
+    ReturnsValidator extends Validator<any, any, any> | void,
+    ReturnValue extends ReturnValueForOptionalValidator<ReturnsValidator> = any,
+    OneOrZeroArgs extends
+      ArgsArrayForOptionalValidator<ArgsValidator> = DefaultArgsForOptionalValidator<ArgsValidator>,
+  >(
+    func:
+      | {
+          args?: ArgsValidator;
+          returns?: ReturnsValidator;
+          handler: (
+            ctx: Overwrite<InputCtx, CustomCtx>,
+            ...args: HandlerArgs<OneOrZeroArgs, CustomMadeArgs>
+          ) => ReturnValue;
+        }
+      | {
+          (
+            ctx: Overwrite<InputCtx, CustomCtx>,
+            ...args: HandlerArgs<OneOrZeroArgs, CustomMadeArgs>
+          ): ReturnValue;
+        },
+  ): Registration<
+    FuncType,
+    Visibility,
+    Expand<ArgsArrayToObject<OneOrZeroArgs> & ObjectType<CustomArgsValidator>>,
+    ReturnValue
+  >;
+};
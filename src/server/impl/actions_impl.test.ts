@@ -0,0 +1,51 @@
+import { test, expect, beforeEach } from "vitest";
+import { actionGeneric, mutationGeneric } from "./registration_impl.js";
+import { makeFunctionReference } from "../api.js";
+
+let syscalls: { op: string; args: Record<string, any> }[] = [];
+
+beforeEach(() => {
+  syscalls = [];
+  (globalThis as any).Convex = {
+    asyncSyscall: async (op: string, jsonArgs: string) => {
+      syscalls.push({ op, args: JSON.parse(jsonArgs) });
+      return "null";
+    },
+  };
+});
+
+const send = makeFunctionReference<"mutation">("messages:send");
+
+test("actions propagate their trace ID", async () => {
+  const action = actionGeneric(async (ctx) => {
+    await ctx.runMutation(send, {});
+    await ctx.scheduler.runAfter(0, send, {});
+  });
+
+  await action.invokeAction("request1", "[{}]", "trace1");
+  expect(syscalls.map(({ op, args }) => [op, args.traceId])).toEqual([
+    ["1.0/actions/mutation", "trace1"],
+    ["1.0/actions/schedule", "trace1"],
+  ]);
+
+  // Without a trace ID, the action starts a trace of its own.
+  syscalls = [];
+  await action.invokeAction("request2", "[{}]");
+  expect(syscalls.map(({ args }) => args.traceId)).toEqual([
+    "request2",
+    "request2",
+  ]);
+});
+
+test("mutations propagate their trace ID", async () => {
+  const mutation = mutationGeneric(async (ctx) => {
+    await ctx.runMutation(send, {});
+    await ctx.scheduler.runAfter(0, send, {});
+  });
+
+  await mutation.invokeMutation("[{}]", "trace1");
+  expect(syscalls.map(({ op, args }) => [op, args.traceId])).toEqual([
+    ["1.0/runUdf", "trace1"],
+    ["1.0/schedule", "trace1"],
+  ]);
+});
@@ -7,6 +7,7 @@ import { extractReferencePath } from "../components/index.js";
 
 function syscallArgs(
   requestId: string,
+  traceId: string | undefined,
   functionReference: any,
   args?: Record<string, Value>,
 ) {
@@ -37,10 +38,11 @@ function syscallArgs(
     args: convexToJson(parseArgs(args)),
     version,
     requestId,
+    traceId,
   };
 }
 
-export function setupActionCalls(requestId: string) {
+export function setupActionCalls(requestId: string, traceId?: string) {
   return {
     runQuery: async (
       query: FunctionReference<"query", "public" | "internal">,
@@ -48,7 +50,7 @@ export function setupActionCalls(requestId: string) {
     ): Promise<any> => {
       const result = await performAsyncSyscall(
         "1.0/actions/query",
-        syscallArgs(requestId, query, args),
+        syscallArgs(requestId, traceId, query, args),
       );
       return jsonToConvex(result);
     },
@@ -58,7 +60,7 @@ export function setupActionCalls(requestId: string) {
     ): Promise<any> => {
       const result = await performAsyncSyscall(
         "1.0/actions/mutation",
-        syscallArgs(requestId, mutation, args),
+        syscallArgs(requestId, traceId, mutation, args),
       );
       return jsonToConvex(result);
     },
@@ -68,7 +70,7 @@ export function setupActionCalls(requestId: string) {
     ): Promise<any> => {
       const result = await performAsyncSyscall(
         "1.0/actions/action",
-        syscallArgs(requestId, action, args),
+        syscallArgs(requestId, traceId, action, args),
       );
       return jsonToConvex(result);
     },
@@ -19,8 +19,8 @@ import {
 import { validateArg, validateArgIsNonNegativeInteger } from "./validate.js";
 import { version } from "../../index.js";
 
-type QueryOperator = { filter: JSONValue } | { limit: number };
-type Source =
+export type QueryOperator = { filter: JSONValue } | { limit: number };
+export type Source =
   | { type: "FullTableScan"; tableName: string; order: "asc" | "desc" | null }
   | {
       type: "IndexRange";
@@ -34,7 +34,7 @@ type Source =
       filters: ReadonlyArray<SerializedSearchFilter>;
     };
 
-type SerializedQuery = {
+export type SerializedQuery = {
   source: Source;
   operators: Array<QueryOperator>;
 };
@@ -278,6 +278,9 @@ export class QueryImpl implements Query<GenericTableInfo> {
       );
     }
     const query = this.takeQuery();
+    if (paginationOpts.direction === "backward") {
+      return await paginateBackward(query, paginationOpts);
+    }
     const pageSize = paginationOpts.numItems;
     const cursor = paginationOpts.cursor;
     const endCursor = paginationOpts?.endCursor ?? null;
@@ -331,3 +334,63 @@ export class QueryImpl implements Query<GenericTableInfo> {
     return first_two_array[0];
   }
 }
+
+/**
+ * Read the `numItems` results before `cursor`.
+ *
+ * Cursors only work with queries in the order that created them, so instead
+ * of reading in the opposite order, this reads every result up to `cursor`
+ * and then finds the cursor where the page starts. That's two `queryPage`
+ * syscalls that read O(n) documents for the n results before `cursor`.
+ */
+async function paginateBackward(
+  query: SerializedQuery,
+  paginationOpts: PaginationOptions,
+): Promise<PaginationResult<any>> {
+  if (query.source.type === "Search") {
+    throw new Error("Search queries can only be paginated forward.");
+  }
+  if (paginationOpts.cursor === null) {
+    throw new Error(
+      "`options.cursor` is required when paginating backward, to mark the end of the page.",
+    );
+  }
+  if ((paginationOpts.endCursor ?? null) !== null) {
+    throw new Error(
+      "`options.endCursor` can't be used when paginating backward.",
+    );
+  }
+  const cursor = paginationOpts.cursor;
+  const maximumRowsRead = paginationOpts.maximumRowsRead ?? null;
+  const { page } = await performAsyncSyscall("1.0/queryPage", {
+    query,
+    cursor: null,
+    endCursor: cursor,
+    pageSize: paginationOpts.numItems,
+    maximumRowsRead,
+    maximumBytesRead: paginationOpts.maximumBytesRead,
+    version,
+  });
+  const skipped = page.length - paginationOpts.numItems;
+  if (skipped <= 0) {
+    return {
+      page: page.map((json: string) => jsonToConvex(json)),
+      isDone: true,
+      continueCursor: cursor,
+    };
+  }
+  const { continueCursor } = await performAsyncSyscall("1.0/queryPage", {
+    query,
+    cursor: null,
+    endCursor: null,
+    pageSize: skipped,
+    maximumRowsRead,
+    maximumBytesRead: paginationOpts.maximumBytesRead,
+    version,
+  });
+  return {
+    page: page.slice(skipped).map((json: string) => jsonToConvex(json)),
+    isDone: false,
+    continueCursor,
+  };
+}
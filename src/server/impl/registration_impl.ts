@@ -43,20 +43,22 @@ import { asObjectValidator } from "../../values/validator.js";
 
 async function invokeMutation<
   F extends (ctx: GenericMutationCtx<GenericDataModel>, ...args: any) => any,
->(func: F, argsStr: string) {
+>(func: F, argsStr: string, traceId?: string) {
   // TODO(presley): Change the function signature and propagate the requestId from Rust.
   // Ok, to mock it out for now, since queries are only running in V8.
   const requestId = "";
+  // No trace is started without a trace ID, see `invokeAction`.
   const args = jsonToConvex(JSON.parse(argsStr));
   const mutationCtx = {
     db: setupWriter(),
     auth: setupAuth(requestId),
     storage: setupStorageWriter(requestId),
-    scheduler: setupMutationScheduler(),
+    scheduler: setupMutationScheduler(traceId),
 
-    runQuery: (reference: any, args?: any) => runUdf("query", reference, args),
+    runQuery: (reference: any, args?: any) =>
+      runUdf("query", reference, args, traceId),
     runMutation: (reference: any, args?: any) =>
-      runUdf("mutation", reference, args),
+      runUdf("mutation", reference, args, traceId),
   };
   const result = await invokeFunction(func, mutationCtx, args as any);
   validateReturnValue(result);
@@ -189,7 +191,8 @@ export const mutationGeneric: MutationBuilder<any, "public"> = ((
   func.isRegistered = true;
   func.isMutation = true;
   func.isPublic = true;
-  func.invokeMutation = (argsStr) => invokeMutation(func, argsStr);
+  func.invokeMutation = (argsStr, traceId) =>
+    invokeMutation(func, argsStr, traceId);
   func.exportArgs = exportArgs(functionDefinition);
   func.exportReturns = exportReturns(functionDefinition);
   return func;
@@ -225,7 +228,8 @@ export const internalMutationGeneric: MutationBuilder<any, "internal"> = ((
   func.isRegistered = true;
   func.isMutation = true;
   func.isInternal = true;
-  func.invokeMutation = (argsStr) => invokeMutation(func, argsStr);
+  func.invokeMutation = (argsStr, traceId) =>
+    invokeMutation(func, argsStr, traceId);
   func.exportArgs = exportArgs(functionDefinition);
   func.exportReturns = exportReturns(functionDefinition);
   return func;
@@ -233,16 +237,18 @@ export const internalMutationGeneric: MutationBuilder<any, "internal"> = ((
 
 async function invokeQuery<
   F extends (ctx: GenericQueryCtx<GenericDataModel>, ...args: any) => any,
->(func: F, argsStr: string) {
+>(func: F, argsStr: string, traceId?: string) {
   // TODO(presley): Change the function signature and propagate the requestId from Rust.
   // Ok, to mock it out for now, since queries are only running in V8.
   const requestId = "";
+  // No trace is started without a trace ID, see `invokeAction`.
   const args = jsonToConvex(JSON.parse(argsStr));
   const queryCtx = {
     db: setupReader(),
     auth: setupAuth(requestId),
     storage: setupStorageReader(requestId),
-    runQuery: (reference: any, args?: any) => runUdf("query", reference, args),
+    runQuery: (reference: any, args?: any) =>
+      runUdf("query", reference, args, traceId),
   };
   const result = await invokeFunction(func, queryCtx, args as any);
   validateReturnValue(result);
@@ -279,7 +285,7 @@ export const queryGeneric: QueryBuilder<any, "public"> = ((
   func.isRegistered = true;
   func.isQuery = true;
   func.isPublic = true;
-  func.invokeQuery = (argsStr) => invokeQuery(func, argsStr);
+  func.invokeQuery = (argsStr, traceId) => invokeQuery(func, argsStr, traceId);
   func.exportArgs = exportArgs(functionDefinition);
   func.exportReturns = exportReturns(functionDefinition);
   return func;
@@ -315,7 +321,8 @@ export const internalQueryGeneric: QueryBuilder<any, "internal"> = ((
   func.isRegistered = true;
   func.isQuery = true;
   func.isInternal = true;
-  func.invokeQuery = (argsStr) => invokeQuery(func as any, argsStr);
+  func.invokeQuery = (argsStr, traceId) =>
+    invokeQuery(func as any, argsStr, traceId);
   func.exportArgs = exportArgs(functionDefinition);
   func.exportReturns = exportReturns(functionDefinition);
   return func;
@@ -323,13 +330,18 @@ export const internalQueryGeneric: QueryBuilder<any, "internal"> = ((
 
 async function invokeAction<
   F extends (ctx: GenericActionCtx<GenericDataModel>, ...args: any) => any,
->(func: F, requestId: string, argsStr: string) {
+>(func: F, requestId: string, argsStr: string, traceId?: string) {
+  // An action called without a trace ID starts a new trace, identified by the
+  // action's request ID. Mutations, queries and HTTP actions don't have a real
+  // request ID to start one with, so the functions they call and schedule
+  // don't get a trace ID either.
+  const trace = traceId ?? requestId;
   const args = jsonToConvex(JSON.parse(argsStr));
-  const calls = setupActionCalls(requestId);
+  const calls = setupActionCalls(requestId, trace);
   const ctx = {
     ...calls,
     auth: setupAuth(requestId),
-    scheduler: setupActionScheduler(requestId),
+    scheduler: setupActionScheduler(requestId, trace),
     storage: setupStorageActionWriter(requestId),
     vectorSearch: setupActionVectorSearch(requestId) as any,
   };
@@ -365,8 +377,8 @@ export const actionGeneric: ActionBuilder<any, "public"> = ((
   func.isRegistered = true;
   func.isAction = true;
   func.isPublic = true;
-  func.invokeAction = (requestId, argsStr) =>
-    invokeAction(func, requestId, argsStr);
+  func.invokeAction = (requestId, argsStr, traceId) =>
+    invokeAction(func, requestId, argsStr, traceId);
   func.exportArgs = exportArgs(functionDefinition);
   func.exportReturns = exportReturns(functionDefinition);
   return func;
@@ -400,8 +412,8 @@ export const internalActionGeneric: ActionBuilder<any, "internal"> = ((
   func.isRegistered = true;
   func.isAction = true;
   func.isInternal = true;
-  func.invokeAction = (requestId, argsStr) =>
-    invokeAction(func, requestId, argsStr);
+  func.invokeAction = (requestId, argsStr, traceId) =>
+    invokeAction(func, requestId, argsStr, traceId);
   func.exportArgs = exportArgs(functionDefinition);
   func.exportReturns = exportReturns(functionDefinition);
   return func;
@@ -409,16 +421,17 @@ export const internalActionGeneric: ActionBuilder<any, "internal"> = ((
 
 async function invokeHttpAction<
   F extends (ctx: GenericActionCtx<GenericDataModel>, request: Request) => any,
->(func: F, request: Request) {
+>(func: F, request: Request, traceId?: string) {
   // TODO(presley): Change the function signature and propagate the requestId from Rust.
   // Ok, to mock it out for now, since http endpoints are only running in V8.
   const requestId = "";
-  const calls = setupActionCalls(requestId);
+  // No trace is started without a trace ID, see `invokeAction`.
+  const calls = setupActionCalls(requestId, traceId);
   const ctx = {
     ...calls,
     auth: setupAuth(requestId),
     storage: setupStorageActionWriter(requestId),
-    scheduler: setupActionScheduler(requestId),
+    scheduler: setupActionScheduler(requestId, traceId),
     vectorSearch: setupActionVectorSearch(requestId) as any,
   };
   return await invokeFunction(func, ctx, [request]);
@@ -447,7 +460,8 @@ export const httpActionGeneric = (
   assertNotBrowser();
   q.isRegistered = true;
   q.isHttp = true;
-  q.invokeHttpAction = (request) => invokeHttpAction(func as any, request);
+  q.invokeHttpAction = (request, traceId) =>
+    invokeHttpAction(func as any, request, traceId);
   return q;
 };
 
@@ -471,6 +485,7 @@ async function runUdf(
   udfType: "query" | "mutation",
   reference: any,
   args?: Record<string, Value>,
+  traceId?: string,
 ): Promise<any> {
   const name = componentGetFunctionName(reference);
   const queryArgs = parseArgs(args);
@@ -478,6 +493,7 @@ async function runUdf(
     udfType,
     reference: name,
     args: convexToJson(queryArgs),
+    traceId,
   };
   const result = await performAsyncSyscall("1.0/runUdf", syscallArgs);
   return jsonToConvex(result);
@@ -7,14 +7,17 @@ import { getFunctionName } from "../../server/api.js";
 import { Id } from "../../values/value.js";
 import { validateArg } from "./validate.js";
 
-export function setupMutationScheduler(): Scheduler {
+export function setupMutationScheduler(traceId?: string): Scheduler {
   return {
     runAfter: async (
       delayMs: number,
       functionReference: SchedulableFunctionReference,
       args?: Record<string, Value>,
     ) => {
-      const syscallArgs = runAfterSyscallArgs(delayMs, functionReference, args);
+      const syscallArgs = {
+        traceId,
+        ...runAfterSyscallArgs(delayMs, functionReference, args),
+      };
       return await performAsyncSyscall("1.0/schedule", syscallArgs);
     },
     runAt: async (
@@ -22,11 +25,10 @@ export function setupMutationScheduler(): Scheduler {
       functionReference: SchedulableFunctionReference,
       args?: Record<string, Value>,
     ) => {
-      const syscallArgs = runAtSyscallArgs(
-        ms_since_epoch_or_date,
-        functionReference,
-        args,
-      );
+      const syscallArgs = {
+        traceId,
+        ...runAtSyscallArgs(ms_since_epoch_or_date, functionReference, args),
+      };
       return await performAsyncSyscall("1.0/schedule", syscallArgs);
     },
     cancel: async (id: Id<"_scheduled_functions">) => {
@@ -37,7 +39,10 @@ export function setupMutationScheduler(): Scheduler {
   };
 }
 
-export function setupActionScheduler(requestId: string): Scheduler {
+export function setupActionScheduler(
+  requestId: string,
+  traceId?: string,
+): Scheduler {
   return {
     runAfter: async (
       delayMs: number,
@@ -46,6 +51,7 @@ export function setupActionScheduler(requestId: string): Scheduler {
     ) => {
       const syscallArgs = {
         requestId,
+        traceId,
         ...runAfterSyscallArgs(delayMs, functionReference, args),
       };
       return await performAsyncSyscall("1.0/actions/schedule", syscallArgs);
@@ -57,6 +63,7 @@ export function setupActionScheduler(requestId: string): Scheduler {
     ) => {
       const syscallArgs = {
         requestId,
+        traceId,
         ...runAtSyscallArgs(ms_since_epoch_or_date, functionReference, args),
       };
       return await performAsyncSyscall("1.0/actions/schedule", syscallArgs);
@@ -195,6 +195,30 @@ export type {
   SystemTableNames,
 } from "./schema.js";
 export { defineTable, defineSchema } from "./schema.js";
+export { defineMigrations, migrationsTable, Migrations } from "./migrations.js";
+export type {
+  Migration,
+  MigrationStatus,
+  DefineMigrationsOptions,
+} from "./migrations.js";
+
+export {
+  wrapDatabaseReader,
+  wrapDatabaseWriter,
+} from "./row_level_security.js";
+export type {
+  Rule,
+  Rules,
+  RowLevelSecurityOptions,
+} from "./row_level_security.js";
+
+export {
+  customCtx,
+  customQuery,
+  customMutation,
+  customAction,
+} from "./custom_functions.js";
+export type { Customization, CustomBuilder } from "./custom_functions.js";
 
 export type {
   VectorSearch,
@@ -0,0 +1,219 @@
+import { describe, expect, test } from "vitest";
+import { v } from "../values/validator.js";
+import { getFunctionName } from "./api.js";
+import { defineMigrations, migrationsTable } from "./migrations.js";
+import { defineSchema, defineTable } from "./schema.js";
+
+const schema = defineSchema({
+  migrations: migrationsTable,
+  users: defineTable({
+    name: v.string(),
+    plan: v.optional(v.string()),
+  }),
+  messages: defineTable({ body: v.string() }),
+});
+
+type Job = { name: string; args: any; state: { kind: string; error?: string } };
+
+// Just enough of a mutation context to run migrations in memory.
+function fakeContext(tables: Record<string, any[]>) {
+  let nextId = 0;
+  const jobs = new Map<string, Job>();
+  const find = (id: string) => {
+    for (const docs of Object.values(tables)) {
+      const doc = docs.find((doc) => doc._id === id);
+      if (doc !== undefined) {
+        return doc;
+      }
+    }
+    return null;
+  };
+  const ctx: any = {
+    db: {
+      query: (table: string) => ({
+        collect: async () => [...(tables[table] ?? [])],
+        paginate: async ({ cursor, numItems }: any) => {
+          const start = cursor === null ? 0 : Number(cursor);
+          const docs = tables[table] ?? [];
+          const end = Math.min(start + numItems, docs.length);
+          return {
+            page: docs.slice(start, end),
+            isDone: end === docs.length,
+            continueCursor: String(end),
+          };
+        },
+      }),
+      insert: async (table: string, value: any) => {
+        const _id = `${table}|${nextId++}`;
+        (tables[table] ??= []).push({ _id, ...value });
+        return _id;
+      },
+      patch: async (id: string, value: any) => {
+        const doc = find(id);
+        for (const [key, fieldValue] of Object.entries(value)) {
+          if (fieldValue === undefined) {
+            delete doc[key];
+          } else {
+            doc[key] = fieldValue;
+          }
+        }
+      },
+      system: { get: async (id: string) => jobs.get(id) ?? null },
+    },
+    scheduler: {
+      runAfter: async (_delayMs: number, functionReference: any, args: any) => {
+        const id = `_scheduled_functions|${nextId++}`;
+        jobs.set(id, {
+          name: getFunctionName(functionReference),
+          args,
+          state: { kind: "pending" },
+        });
+        return id;
+      },
+    },
+  };
+  return { ctx, jobs };
+}
+
+function usersWithoutPlans(count: number) {
+  return Array.from({ length: count }, (_, i) => ({
+    _id: `users|user${i}`,
+    name: `user ${i}`,
+  }));
+}
+
+// Run scheduled batches one at a time like the scheduler would.
+async function runScheduled(ctx: any, jobs: Map<string, Job>, runBatch: any) {
+  for (;;) {
+    const pending = [...jobs.values()].find(
+      (job) => job.state.kind === "pending",
+    );
+    if (pending === undefined) {
+      return;
+    }
+    expect(pending.name).toEqual("migrations:runBatch");
+    pending.state = { kind: "success" };
+    await runBatch(ctx, pending.args);
+  }
+}
+
+describe("defineMigrations", () => {
+  test("requires the progress table in the schema", () => {
+    expect(() =>
+      defineMigrations(defineSchema({ users: defineTable({}) })),
+    ).toThrowError('Table "migrations" for migration progress is missing');
+  });
+
+  test("rejects invalid migrations", () => {
+    const migrations = defineMigrations(schema);
+    const migrateOne = () => {};
+    migrations.add({ version: 1, name: "a", table: "users", migrateOne });
+    expect(() =>
+      migrations.add({ version: 1, name: "b", table: "users", migrateOne }),
+    ).toThrowError("Migration version registered twice: 1");
+    expect(() =>
+      migrations.add({ version: 1.5, name: "c", table: "users", migrateOne }),
+    ).toThrowError("Migration version must be a positive integer");
+    expect(() =>
+      migrations.add({
+        version: 2,
+        name: "d",
+        // @ts-expect-error Not a table in the schema
+        table: "nope",
+        migrateOne,
+      }),
+    ).toThrowError('transforms table "nope" which is not in the schema');
+  });
+
+  test("runs migrations in order and in batches", async () => {
+    const migrations = defineMigrations(schema);
+    migrations.add({
+      version: 2,
+      name: "Uppercase plans",
+      table: "users",
+      migrateOne: (_ctx, user) => ({ plan: user.plan!.toUpperCase() }),
+    });
+    migrations.add({
+      version: 1,
+      name: "Default plan for users",
+      table: "users",
+      batchSize: 2,
+      migrateOne: (_ctx, user) => {
+        if (user.plan === undefined) {
+          return { plan: "free" };
+        }
+      },
+    });
+    const { run, runBatch, status } = migrations.functions();
+    const tables = { users: usersWithoutPlans(5) };
+    const { ctx, jobs } = fakeContext(tables);
+
+    const started = await (run as any)(ctx, {});
+    expect(started.map((s: any) => [s.version, s.state])).toEqual([
+      [1, "inProgress"],
+      [2, "pending"],
+    ]);
+    // Running again doesn't start a second chain of batches.
+    await (run as any)(ctx, {});
+    expect(jobs.size).toEqual(1);
+
+    await runScheduled(ctx, jobs, runBatch);
+    expect(tables.users.map((user: any) => user.plan)).toEqual(
+      Array(5).fill("FREE"),
+    );
+    const statuses = await (status as any)(ctx, {});
+    expect(statuses).toMatchObject([
+      { version: 1, state: "done", processed: 5, error: null },
+      { version: 2, state: "done", processed: 5, error: null },
+    ]);
+    // Batches of 2 plus the batch for migration 2.
+    expect(jobs.size).toEqual(4);
+  });
+
+  test("stops at the target version and resumes failed migrations", async () => {
+    const migrations = defineMigrations(schema);
+    let fail = true;
+    migrations.add({
+      version: 1,
+      name: "Default plan for users",
+      table: "users",
+      batchSize: 1,
+      migrateOne: (_ctx, user) => {
+        if (user._id === "users|user1" && fail) {
+          throw new Error("Oops");
+        }
+        return { plan: "free" };
+      },
+    });
+    migrations.add({
+      version: 2,
+      name: "Clear messages",
+      table: "messages",
+      migrateOne: () => ({ body: "" }),
+    });
+    const { run, runBatch, status } = migrations.functions();
+    const tables = { users: usersWithoutPlans(3) };
+    const { ctx, jobs } = fakeContext(tables);
+
+    await (run as any)(ctx, { to: 1 });
+    try {
+      await runScheduled(ctx, jobs, runBatch);
+    } catch (error: any) {
+      // The scheduler records the failure without committing the batch.
+      const [job] = [...jobs.values()].slice(-1);
+      job.state = { kind: "failed", error: error.message };
+    }
+    expect(await (status as any)(ctx, {})).toMatchObject([
+      { version: 1, state: "failed", processed: 1, error: "Oops" },
+      { version: 2, state: "pending" },
+    ]);
+
+    fail = false;
+    await (run as any)(ctx, { to: 1 });
+    await runScheduled(ctx, jobs, runBatch);
+    expect(await (status as any)(ctx, {})).toMatchObject([
+      { version: 1, state: "done", processed: 3 },
+      { version: 2, state: "pending" },
+    ]);
+  });
+});
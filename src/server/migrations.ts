@@ -0,0 +1,472 @@
+import { makeFunctionReference } from "./api.js";
+import {
+  DocumentByName,
+  GenericDataModel,
+  TableNamesInDataModel,
+} from "./data_model.js";
+import {
+  internalMutationGeneric,
+  internalQueryGeneric,
+} from "./impl/registration_impl.js";
+import { GenericMutationCtx, GenericQueryCtx } from "./registration.js";
+import {
+  DataModelFromSchemaDefinition,
+  SchemaDefinition,
+  defineTable,
+} from "./schema.js";
+import { GenericId } from "../values/index.js";
+import { v } from "../values/validator.js";
+
+/**
+ * The table definition that records the progress of migrations.
+ *
+ * Add it to your schema under the name passed as `progressTable` to
+ * {@link defineMigrations}, by default `migrations`:
+ *
+ * ```ts
+ * export default defineSchema({
+ *   migrations: migrationsTable,
+ *   // ...
+ * });
+ * ```
+ *
+ * @public
+ */
+export const migrationsTable = defineTable({
+  version: v.float64(),
+  name: v.string(),
+  table: v.string(),
+  // The cursor to continue from, `null` before the first batch.
+  cursor: v.union(v.string(), v.null()),
+  isDone: v.boolean(),
+  processed: v.float64(),
+  startedAt: v.float64(),
+  finishedAt: v.optional(v.float64()),
+  // The most recently scheduled batch, used to detect failures.
+  batchJobId: v.optional(v.id("_scheduled_functions")),
+});
+
+/**
+ * A numbered migration that transforms every document of a table.
+ *
+ * @public
+ */
+export interface Migration<
+  DataModel extends GenericDataModel,
+  TableName extends TableNamesInDataModel<DataModel>,
+> {
+  /**
+   * The number of this migration. Migrations run in increasing order of
+   * version, each one starting once the previous one completed.
+   */
+  version: number;
+  /**
+   * A description of this migration, shown by `npx convex migrate status`.
+   */
+  name: string;
+  /**
+   * The table whose documents this migration transforms.
+   */
+  table: TableName;
+  /**
+   * Transform a single document.
+   *
+   * Return the fields to update, which are applied with `db.patch`, or
+   * nothing if the document is already up to date. The function can also
+   * use `ctx.db` directly, for example to delete the document.
+   *
+   * Migrations can run more than once on the same document if a batch
+   * failed and was retried, so this should be idempotent.
+   */
+  migrateOne: (
+    ctx: GenericMutationCtx<DataModel>,
+    doc: DocumentByName<DataModel, TableName>,
+  ) =>
+    | Promise<Partial<DocumentByName<DataModel, TableName>> | null | void>
+    | Partial<DocumentByName<DataModel, TableName>>
+    | null
+    | void;
+  /**
+   * The number of documents transformed in each mutation. Defaults to 100.
+   *
+   * Lower this if documents are large or `migrateOne` reads many other
+   * documents, so that batches stay within the limits of a single mutation.
+   */
+  batchSize?: number;
+}
+
+/**
+ * Options for {@link defineMigrations}.
+ *
+ * @public
+ */
+export interface DefineMigrationsOptions {
+  /**
+   * The name of the module the functions returned by
+   * {@link Migrations.functions} are exported from, like `"migrations"` for
+   * `convex/migrations.ts`. Used to schedule the next batch.
+   *
+   * Defaults to `"migrations"`.
+   */
+  module?: string;
+  /**
+   * The table defined with {@link migrationsTable} that records progress.
+   *
+   * Defaults to `"migrations"`.
+   */
+  progressTable?: string;
+}
+
+/**
+ * The state of a migration, returned by the `status` query.
+ *
+ * @public
+ */
+export type MigrationStatus = {
+  version: number;
+  name: string;
+  table: string;
+  state: "pending" | "inProgress" | "done" | "failed";
+  // Number of documents transformed so far.
+  processed: number;
+  startedAt: number | null;
+  finishedAt: number | null;
+  // Set when `state` is `"failed"`.
+  error: string | null;
+};
+
+type MigrationProgress = {
+  _id: GenericId<string>;
+  version: number;
+  name: string;
+  table: string;
+  cursor: string | null;
+  isDone: boolean;
+  processed: number;
+  startedAt: number;
+  finishedAt?: number;
+  batchJobId?: GenericId<"_scheduled_functions">;
+};
+
+const DEFAULT_BATCH_SIZE = 100;
+
+/**
+ * A set of numbered migrations for the tables of a schema.
+ *
+ * This should be produced by using {@link defineMigrations}.
+ *
+ * @public
+ */
+export class Migrations<DataModel extends GenericDataModel> {
+  private readonly schema: SchemaDefinition<any, boolean>;
+  private readonly module: string;
+  private readonly progressTable: string;
+  private readonly migrations: Map<number, Migration<DataModel, any>>;
+
+  /**
+   * @internal
+   */
+  constructor(
+    schema: SchemaDefinition<any, boolean>,
+    options?: DefineMigrationsOptions,
+  ) {
+    this.schema = schema;
+    this.module = options?.module ?? "migrations";
+    this.progressTable = options?.progressTable ?? "migrations";
+    this.migrations = new Map();
+    if (!(this.progressTable in schema.tables)) {
+      throw new Error(
+        `Table "${this.progressTable}" for migration progress is missing from the schema, add \`${this.progressTable}: migrationsTable\` to \`defineSchema\`.`,
+      );
+    }
+  }
+
+  /**
+   * Declare a migration.
+   *
+   * ```ts
+   * migrations.add({
+   *   version: 1,
+   *   name: "Default plan for users",
+   *   table: "users",
+   *   migrateOne: (ctx, user) => {
+   *     if (user.plan === undefined) {
+   *       return { plan: "free" };
+   *     }
+   *   },
+   * });
+   * ```
+   *
+   * @param migration - The {@link Migration} to add.
+   */
+  add<TableName extends TableNamesInDataModel<DataModel>>(
+    migration: Migration<DataModel, TableName>,
+  ) {
+    const { version, table } = migration;
+    if (!Number.isInteger(version) || version < 1) {
+      throw new Error(
+        `Migration version must be a positive integer, got ${version}`,
+      );
+    }
+    if (this.migrations.has(version)) {
+      throw new Error(`Migration version registered twice: ${version}`);
+    }
+    if (!(table in this.schema.tables)) {
+      throw new Error(
+        `Migration ${version} transforms table "${table}" which is not in the schema`,
+      );
+    }
+    const batchSize = migration.batchSize ?? DEFAULT_BATCH_SIZE;
+    if (!Number.isInteger(batchSize) || batchSize < 1) {
+      throw new Error(
+        `Migration batch size must be a positive integer, got ${batchSize}`,
+      );
+    }
+    this.migrations.set(version, migration);
+  }
+
+  /**
+   * Create the functions that run migrations. Export them from the module
+   * named by the `module` option:
+   *
+   * ```ts
+   * export const { run, runBatch, status } = migrations.functions();
+   * ```
+   *
+   * - `run` starts the first migration that hasn't completed, up to the
+   *   version passed as `to` (all migrations by default). It resumes from the
+   *   last completed batch if the migration was started before.
+   * - `runBatch` transforms one batch of documents and schedules the next
+   *   batch, or the next migration.
+   * - `status` returns the {@link MigrationStatus} of every migration.
+   *
+   * `npx convex migrate` and `npx convex migrate status` call `run` and
+   * `status`.
+   */
+  functions() {
+    const run = internalMutationGeneric({
+      args: { to: v.optional(v.float64()) },
+      handler: async (ctx, { to }): Promise<MigrationStatus[]> => {
+        const progress = await this.loadProgress(ctx);
+        const next = this.nextMigration(progress, to);
+        if (next !== null) {
+          const existing = progress.get(next.version);
+          const status = await this.statusOf(ctx, next, existing);
+          // Don't start a second chain of batches, but resume failed ones.
+          if (status.state !== "inProgress") {
+            await this.start(ctx, next, existing, to);
+          }
+        }
+        return await this.statuses(ctx);
+      },
+    });
+    const runBatch = internalMutationGeneric({
+      args: { version: v.float64(), to: v.optional(v.float64()) },
+      handler: async (ctx, { version, to }) => {
+        await this.runBatch(ctx, version, to);
+      },
+    });
+    const status = internalQueryGeneric({
+      args: {},
+      handler: async (ctx): Promise<MigrationStatus[]> => {
+        return await this.statuses(ctx);
+      },
+    });
+    return { run, runBatch, status };
+  }
+
+  private sorted(): Migration<DataModel, any>[] {
+    return [...this.migrations.values()].sort((a, b) => a.version - b.version);
+  }
+
+  private async loadProgress(
+    ctx: GenericQueryCtx<any>,
+  ): Promise<Map<number, MigrationProgress>> {
+    // There is one document per migration so this table stays small.
+    const docs: MigrationProgress[] = await ctx.db
+      .query(this.progressTable)
+      .collect();
+    return new Map(docs.map((doc) => [doc.version, doc]));
+  }
+
+  private nextMigration(
+    progress: Map<number, MigrationProgress>,
+    to: number | undefined,
+  ): Migration<DataModel, any> | null {
+    for (const migration of this.sorted()) {
+      if (to !== undefined && migration.version > to) {
+        return null;
+      }
+      if (progress.get(migration.version)?.isDone !== true) {
+        return migration;
+      }
+    }
+    return null;
+  }
+
+  private async start(
+    ctx: GenericMutationCtx<any>,
+    migration: Migration<DataModel, any>,
+    existing: MigrationProgress | undefined,
+    to: number | undefined,
+  ) {
+    const batchJobId = await ctx.scheduler.runAfter(
+      0,
+      makeFunctionReference<"mutation">(`${this.module}:runBatch`),
+      { version: migration.version, to },
+    );
+    if (existing === undefined) {
+      await ctx.db.insert(this.progressTable, {
+        version: migration.version,
+        name: migration.name,
+        table: migration.table,
+        cursor: null,
+        isDone: false,
+        processed: 0,
+        startedAt: Date.now(),
+        batchJobId,
+      });
+    } else {
+      await ctx.db.patch(existing._id, { batchJobId });
+    }
+  }
+
+  private async runBatch(
+    ctx: GenericMutationCtx<any>,
+    version: number,
+    to: number | undefined,
+  ) {
+    const migration = this.migrations.get(version);
+    if (migration === undefined) {
+      throw new Error(`Unknown migration version ${version}`);
+    }
+    const progress = (await this.loadProgress(ctx)).get(version);
+    if (progress === undefined || progress.isDone) {
+      return;
+    }
+    const { page, isDone, continueCursor } = await ctx.db
+      .query(migration.table)
+      .paginate({
+        cursor: progress.cursor,
+        numItems: migration.batchSize ?? DEFAULT_BATCH_SIZE,
+      });
+    for (const doc of page) {
+      const update = await migration.migrateOne(ctx, doc);
+      if (update !== undefined && update !== null) {
+        await ctx.db.patch(doc._id, update);
+      }
+    }
+    const processed = progress.processed + page.length;
+    if (!isDone) {
+      const batchJobId = await ctx.scheduler.runAfter(
+        0,
+        makeFunctionReference<"mutation">(`${this.module}:runBatch`),
+        { version, to },
+      );
+      await ctx.db.patch(progress._id, {
+        cursor: continueCursor,
+        processed,
+        batchJobId,
+      });
+      return;
+    }
+    await ctx.db.patch(progress._id, {
+      cursor: continueCursor,
+      processed,
+      isDone: true,
+      finishedAt: Date.now(),
+      batchJobId: undefined,
+    });
+    const next = this.nextMigration(await this.loadProgress(ctx), to);
+    if (next !== null) {
+      await this.start(ctx, next, undefined, to);
+    }
+  }
+
+  private async statuses(
+    ctx: GenericQueryCtx<any>,
+  ): Promise<MigrationStatus[]> {
+    const progress = await this.loadProgress(ctx);
+    const statuses = [];
+    for (const migration of this.sorted()) {
+      statuses.push(
+        await this.statusOf(ctx, migration, progress.get(migration.version)),
+      );
+    }
+    return statuses;
+  }
+
+  private async statusOf(
+    ctx: GenericQueryCtx<any>,
+    migration: Migration<DataModel, any>,
+    progress: MigrationProgress | undefined,
+  ): Promise<MigrationStatus> {
+    const status: MigrationStatus = {
+      version: migration.version,
+      name: migration.name,
+      table: migration.table,
+      state: "pending",
+      processed: progress?.processed ?? 0,
+      startedAt: progress?.startedAt ?? null,
+      finishedAt: progress?.finishedAt ?? null,
+      error: null,
+    };
+    if (progress === undefined) {
+      return status;
+    }
+    if (progress.isDone) {
+      return { ...status, state: "done" };
+    }
+    const job =
+      progress.batchJobId === undefined
+        ? null
+        : await ctx.db.system.get(progress.batchJobId);
+    if (job?.state.kind === "failed") {
+      return { ...status, state: "failed", error: job.state.error };
+    }
+    if (job === null || job.state.kind === "canceled") {
+      return { ...status, state: "failed", error: "The batch was canceled" };
+    }
+    return { ...status, state: "inProgress" };
+  }
+}
+
+/**
+ * Define numbered migrations for the tables of a schema.
+ *
+ * Each migration transforms the documents of one table in batches. Progress
+ * is recorded in a table defined with {@link migrationsTable}, so migrations
+ * that fail can be resumed from the last completed batch by running them
+ * again.
+ *
+ * ```ts
+ * // convex/migrations.ts
+ * import { defineMigrations } from "convex/server";
+ * import schema from "./schema";
+ *
+ * const migrations = defineMigrations(schema);
+ *
+ * migrations.add({
+ *   version: 1,
+ *   name: "Default plan for users",
+ *   table: "users",
+ *   migrateOne: (ctx, user) => ({ plan: user.plan ?? "free" }),
+ * });
+ *
+ * export const { run, runBatch, status } = migrations.functions();
+ * ```
+ *
+ * Then run `npx convex migrate` to apply pending migrations and
+ * `npx convex migrate status` to check on their progress.
+ *
+ * @param schema - The schema of the project, defined with {@link defineSchema}.
+ * @param options - See {@link DefineMigrationsOptions}.
+ * @returns A {@link Migrations} to add migrations to.
+ * @public
+ */
+export function defineMigrations<Schema extends SchemaDefinition<any, boolean>>(
+  schema: Schema,
+  options?: DefineMigrationsOptions,
+): Migrations<DataModelFromSchemaDefinition<Schema>> {
+  return new Migrations(schema, options);
+}
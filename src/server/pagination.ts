@@ -78,9 +78,29 @@ export interface PaginationOptions {
   /**
    * A {@link Cursor} representing the start of this page or `null` to start
    * at the beginning of the query results.
+   *
+   * When paginating `"backward"`, the cursor is required and marks the end of
+   * the page.
    */
   cursor: Cursor | null;
 
+  /**
+   * Which way to read the query results from `cursor`.
+   *
+   * - `"forward"`: Read the results that come after `cursor` in the query's
+   *   order. This is the default.
+   * - `"backward"`: Read the results that come before `cursor`. The page is
+   *   still in the query's order, but `continueCursor` marks the start of the
+   *   page, so passing it back in loads the page before this one.
+   *
+   * A cursor marks a position between two results, so paginating forward and
+   * backward from the same cursor loads adjacent pages. Reading backward
+   * reads every result before `cursor`, so it gets slower the further
+   * `cursor` is from the start of the results. Search queries can only be
+   * paginated forward.
+   */
+  direction?: "forward" | "backward";
+
   /**
    * A {@link Cursor} representing the end of this page or `null | undefined` to
    * use `numItems` instead.
@@ -132,6 +152,7 @@ export const paginationOptsValidator = v.object({
   numItems: v.number(),
   cursor: v.union(v.string(), v.null()),
   endCursor: v.optional(v.union(v.string(), v.null())),
+  direction: v.optional(v.union(v.literal("forward"), v.literal("backward"))),
   id: v.optional(v.number()),
   maximumRowsRead: v.optional(v.number()),
   maximumBytesRead: v.optional(v.number()),
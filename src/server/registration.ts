@@ -303,7 +303,7 @@ export type RegisteredMutation<
   isRegistered?: true;
 
   /** @internal */
-  invokeMutation(argsStr: string): Promise<string>;
+  invokeMutation(argsStr: string, traceId?: string): Promise<string>;
 
   /** @internal */
   exportArgs(): string;
@@ -332,7 +332,7 @@ export type RegisteredQuery<
   isRegistered?: true;
 
   /** @internal */
-  invokeQuery(argsStr: string): Promise<string>;
+  invokeQuery(argsStr: string, traceId?: string): Promise<string>;
 
   /** @internal */
   exportArgs(): string;
@@ -361,7 +361,11 @@ export type RegisteredAction<
   isRegistered?: true;
 
   /** @internal */
-  invokeAction(requestId: string, argsStr: string): Promise<string>;
+  invokeAction(
+    requestId: string,
+    argsStr: string,
+    traceId?: string,
+  ): Promise<string>;
 
   /** @internal */
   exportArgs(): string;
@@ -384,7 +388,7 @@ export type PublicHttpAction = {
   isRegistered?: true;
 
   /** @internal */
-  invokeHttpAction(request: Request): Promise<Response>;
+  invokeHttpAction(request: Request, traceId?: string): Promise<Response>;
 };
 
 /**
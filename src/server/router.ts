@@ -292,10 +292,11 @@ export class HttpRouter {
    * a 404 Response.
    *
    * @param argsStr - a JSON string representing a Request object.
+   * @param traceId - the trace the request belongs to, if any.
    *
    * @returns - a Response object.
    */
-  runRequest = async (argsStr: string): Promise<string> => {
+  runRequest = async (argsStr: string, traceId?: string): Promise<string> => {
     const request = performJsSyscall("requestFromConvexJson", {
       convexJson: JSON.parse(argsStr),
     });
@@ -313,7 +314,7 @@ export class HttpRouter {
       );
     }
     const [endpoint, _method, _path] = match;
-    const response = await endpoint.invokeHttpAction(request);
+    const response = await endpoint.invokeHttpAction(request, traceId);
     return JSON.stringify(
       performJsSyscall("convexJsonFromResponse", { response }),
     );
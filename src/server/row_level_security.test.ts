@@ -0,0 +1,154 @@
+import { describe, expect, test } from "vitest";
+import { v } from "../values/validator.js";
+import { convexTest } from "../testing/convex_test.js";
+import { anyApi } from "./api.js";
+import { Auth } from "./authentication.js";
+import {
+  DataModelFromSchemaDefinition,
+  defineSchema,
+  defineTable,
+} from "./schema.js";
+import { mutationGeneric, queryGeneric } from "./impl/registration_impl.js";
+import {
+  Rules,
+  wrapDatabaseReader,
+  wrapDatabaseWriter,
+} from "./row_level_security.js";
+
+const schema = defineSchema({
+  notes: defineTable({
+    owner: v.string(),
+    body: v.string(),
+    isPublic: v.boolean(),
+  }),
+  audit: defineTable({ event: v.string() }),
+});
+
+type DataModel = DataModelFromSchemaDefinition<typeof schema>;
+
+async function subject(auth: Auth) {
+  return (await auth.getUserIdentity())?.subject ?? null;
+}
+
+const rules: Rules<{ auth: Auth }, DataModel> = {
+  notes: {
+    read: async ({ auth }, note) =>
+      note.isPublic || (await subject(auth)) === note.owner,
+    insert: async ({ auth }, note) => (await subject(auth)) === note.owner,
+    modify: async ({ auth }, note) => (await subject(auth)) === note.owner,
+  },
+};
+
+const api: any = anyApi;
+
+const notes = {
+  list: queryGeneric(async (ctx) => {
+    const db = wrapDatabaseReader({ auth: ctx.auth }, ctx.db, rules);
+    return (await db.query("notes").collect()).map((note) => note.body);
+  }),
+  first: queryGeneric(async (ctx) => {
+    const db = wrapDatabaseReader({ auth: ctx.auth }, ctx.db, rules);
+    return (await db.query("notes").first())?.body ?? null;
+  }),
+  get: queryGeneric({
+    args: { id: v.id("notes") },
+    handler: async (ctx, { id }) => {
+      const db = wrapDatabaseReader({ auth: ctx.auth }, ctx.db, rules);
+      return await db.get(id);
+    },
+  }),
+  create: mutationGeneric({
+    args: { owner: v.string(), body: v.string(), isPublic: v.boolean() },
+    handler: async (ctx, args) => {
+      const db = wrapDatabaseWriter({ auth: ctx.auth }, ctx.db, rules);
+      return await db.insert("notes", args);
+    },
+  }),
+  edit: mutationGeneric({
+    args: { id: v.id("notes"), body: v.string() },
+    handler: async (ctx, { id, body }) => {
+      const db = wrapDatabaseWriter({ auth: ctx.auth }, ctx.db, rules);
+      await db.patch(id, { body });
+    },
+  }),
+  remove: mutationGeneric({
+    args: { id: v.id("notes") },
+    handler: async (ctx, { id }) => {
+      const db = wrapDatabaseWriter({ auth: ctx.auth }, ctx.db, rules);
+      await db.delete(id);
+    },
+  }),
+  log: mutationGeneric({
+    args: { event: v.string() },
+    handler: async (ctx, { event }) => {
+      const db = wrapDatabaseWriter({ auth: ctx.auth }, ctx.db, rules, {
+        defaultPolicy: "deny",
+      });
+      await db.insert("audit", { event });
+    },
+  }),
+};
+
+async function setup() {
+  const t = convexTest(schema, { notes });
+  const alice = t.withIdentity({ subject: "alice" });
+  const bob = t.withIdentity({ subject: "bob" });
+  const privateId = await alice.mutation(api.notes.create, {
+    owner: "alice",
+    body: "private",
+    isPublic: false,
+  });
+  await alice.mutation(api.notes.create, {
+    owner: "alice",
+    body: "public",
+    isPublic: true,
+  });
+  return { t, alice, bob, privateId };
+}
+
+describe("row-level security", () => {
+  test("filters reads", async () => {
+    const { alice, bob, privateId } = await setup();
+    expect(await alice.query(api.notes.list)).toEqual(["private", "public"]);
+    expect(await bob.query(api.notes.list)).toEqual(["public"]);
+    expect(await bob.query(api.notes.first)).toEqual("public");
+    expect(await bob.query(api.notes.get, { id: privateId })).toBeNull();
+    expect(await alice.query(api.notes.get, { id: privateId })).toMatchObject({
+      body: "private",
+    });
+  });
+
+  test("checks inserts", async () => {
+    const { bob } = await setup();
+    await expect(
+      bob.mutation(api.notes.create, {
+        owner: "alice",
+        body: "forged",
+        isPublic: true,
+      }),
+    ).rejects.toThrow('Insert access to table "notes" is not allowed.');
+  });
+
+  test("checks modifications", async () => {
+    const { t, alice, bob, privateId } = await setup();
+    const [, publicNote] = await t.run((ctx) =>
+      ctx.db.query("notes").collect(),
+    );
+    await expect(
+      bob.mutation(api.notes.edit, { id: privateId, body: "hacked" }),
+    ).rejects.toThrow("does not exist or read access to it is not allowed");
+    await expect(
+      bob.mutation(api.notes.remove, { id: publicNote._id }),
+    ).rejects.toThrow(`Modify access to document ${publicNote._id}`);
+    await alice.mutation(api.notes.edit, { id: privateId, body: "edited" });
+    await alice.mutation(api.notes.remove, { id: publicNote._id });
+    expect(await alice.query(api.notes.list)).toEqual(["edited"]);
+  });
+
+  test("applies the default policy to tables without rules", async () => {
+    const { alice } = await setup();
+    await expect(
+      alice.mutation(api.notes.log, { event: "login" }),
+    ).rejects.toThrow('Insert access to table "audit" is not allowed.');
+  });
+});
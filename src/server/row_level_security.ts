@@ -0,0 +1,368 @@
+import { GenericId } from "../values/index.js";
+import {
+  DocumentByName,
+  GenericDataModel,
+  GenericTableInfo,
+  TableNamesInDataModel,
+} from "./data_model.js";
+import { GenericDatabaseReader, GenericDatabaseWriter } from "./database.js";
+import { PaginationOptions, PaginationResult } from "./pagination.js";
+import { OrderedQuery, Query, QueryInitializer } from "./query.js";
+import { WithoutSystemFields } from "./system_fields.js";
+
+/**
+ * A check of whether a document may be accessed. It receives the context
+ * passed to {@link wrapDatabaseReader} or {@link wrapDatabaseWriter},
+ * usually holding `auth`, and the document.
+ *
+ * @public
+ */
+export type Rule<Ctx, Doc> = (ctx: Ctx, doc: Doc) => Promise<boolean> | boolean;
+
+/**
+ * The row-level security rules for each table of a data model.
+ *
+ * - `read` decides whether a document is visible. Documents that fail it are
+ *   skipped by queries and returned as `null` by `db.get`.
+ * - `insert` decides whether a new document may be inserted.
+ * - `modify` decides whether an existing document may be patched, replaced
+ *   or deleted. The document must also pass `read`.
+ *
+ * ```ts
+ * const rules: Rules<{ auth: Auth }, DataModel> = {
+ *   messages: {
+ *     read: async ({ auth }, message) =>
+ *       message.isPublic ||
+ *       (await auth.getUserIdentity())?.subject === message.author,
+ *     modify: async ({ auth }, message) =>
+ *       (await auth.getUserIdentity())?.subject === message.author,
+ *   },
+ * };
+ * ```
+ *
+ * @public
+ */
+export type Rules<Ctx, DataModel extends GenericDataModel> = {
+  [TableName in TableNamesInDataModel<DataModel>]?: {
+    read?: Rule<Ctx, DocumentByName<DataModel, TableName>>;
+    insert?: Rule<
+      Ctx,
+      WithoutSystemFields<DocumentByName<DataModel, TableName>>
+    >;
+    modify?: Rule<Ctx, DocumentByName<DataModel, TableName>>;
+  };
+};
+
+/**
+ * Options for {@link wrapDatabaseReader} and {@link wrapDatabaseWriter}.
+ *
+ * @public
+ */
+export interface RowLevelSecurityOptions {
+  /**
+   * Whether operations on tables without a rule for them are allowed or
+   * denied.
+   *
+   * Defaults to `"allow"`. Use `"deny"` to require a rule for every table
+   * and operation.
+   */
+  defaultPolicy?: "allow" | "deny";
+}
+
+/**
+ * Wrap a {@link GenericDatabaseReader} so that every document it returns is
+ * checked against the `read` rules.
+ *
+ * ```ts
+ * export const list = query(async (ctx) => {
+ *   const db = wrapDatabaseReader({ auth: ctx.auth }, ctx.db, rules);
+ *   return await db.query("messages").collect();
+ * });
+ * ```
+ *
+ * Documents that fail their rule are left out of query results, so pages
+ * from `paginate` may contain fewer than `numItems` documents.
+ *
+ * @param ctx - The context passed to each {@link Rule}.
+ * @param db - The database reader to wrap, usually `ctx.db`.
+ * @param rules - The {@link Rules} for each table.
+ * @param options - See {@link RowLevelSecurityOptions}.
+ * @returns A database reader that enforces the rules.
+ *
+ * @public
+ */
+export function wrapDatabaseReader<Ctx, DataModel extends GenericDataModel>(
+  ctx: Ctx,
+  db: GenericDatabaseReader<DataModel>,
+  rules: Rules<Ctx, DataModel>,
+  options?: RowLevelSecurityOptions,
+): GenericDatabaseReader<DataModel> {
+  return new RowLevelSecurity(ctx, db, rules, options).reader();
+}
+
+/**
+ * Wrap a {@link GenericDatabaseWriter} so that every document it reads is
+ * checked against the `read` rules and every write against the `insert` and
+ * `modify` rules.
+ *
+ * ```ts
+ * export const remove = mutation({
+ *   args: { id: v.id("messages") },
+ *   handler: async (ctx, { id }) => {
+ *     const db = wrapDatabaseWriter({ auth: ctx.auth }, ctx.db, rules);
+ *     await db.delete(id);
+ *   },
+ * });
+ * ```
+ *
+ * Writes that fail their rule throw an error.
+ *
+ * @param ctx - The context passed to each {@link Rule}.
+ * @param db - The database writer to wrap, usually `ctx.db`.
+ * @param rules - The {@link Rules} for each table.
+ * @param options - See {@link RowLevelSecurityOptions}.
+ * @returns A database writer that enforces the rules.
+ *
+ * @public
+ */
+export function wrapDatabaseWriter<Ctx, DataModel extends GenericDataModel>(
+  ctx: Ctx,
+  db: GenericDatabaseWriter<DataModel>,
+  rules: Rules<Ctx, DataModel>,
+  options?: RowLevelSecurityOptions,
+): GenericDatabaseWriter<DataModel> {
+  return new RowLevelSecurity(ctx, db, rules, options).writer(db);
+}
+
+type Operation = "read" | "insert" | "modify";
+
+class RowLevelSecurity<Ctx, DataModel extends GenericDataModel> {
+  private ctx: Ctx;
+  private db: GenericDatabaseReader<DataModel>;
+  private rules: Record<string, Partial<Record<Operation, Rule<Ctx, any>>>>;
+  private defaultPolicy: "allow" | "deny";
+
+  constructor(
+    ctx: Ctx,
+    db: GenericDatabaseReader<DataModel>,
+    rules: Rules<Ctx, DataModel>,
+    options?: RowLevelSecurityOptions,
+  ) {
+    this.ctx = ctx;
+    this.db = db;
+    this.rules = rules as any;
+    this.defaultPolicy = options?.defaultPolicy ?? "allow";
+  }
+
+  reader(): GenericDatabaseReader<DataModel> {
+    return {
+      get: async (id) => {
+        const tableName = this.tableNameFromId(id);
+        const doc = await this.db.get(id);
+        if (doc === null) {
+          return null;
+        }
+        return (await this.allowed(tableName, "read", doc)) ? doc : null;
+      },
+      query: (tableName) =>
+        new QueryInitializerWithRules(this.db.query(tableName) as any, (doc) =>
+          this.allowed(tableName, "read", doc),
+        ) as any,
+      normalizeId: (tableName, id) => this.db.normalizeId(tableName, id),
+      system: this.db.system,
+    };
+  }
+
+  writer(
+    db: GenericDatabaseWriter<DataModel>,
+  ): GenericDatabaseWriter<DataModel> {
+    const reader = this.reader();
+    const checkModify = async (id: GenericId<string>) => {
+      const doc = await reader.get(id as any);
+      if (doc === null) {
+        throw new Error(
+          `Document ${id} does not exist or read access to it is not allowed.`,
+        );
+      }
+      if (!(await this.allowed(this.tableNameFromId(id), "modify", doc))) {
+        throw new Error(`Modify access to document ${id} is not allowed.`);
+      }
+    };
+    return {
+      ...reader,
+      insert: async (tableName, value) => {
+        if (!(await this.allowed(tableName, "insert", value))) {
+          throw new Error(
+            `Insert access to table "${tableName}" is not allowed.`,
+          );
+        }
+        return await db.insert(tableName, value);
+      },
+      patch: async (id, value) => {
+        await checkModify(id);
+        return await db.patch(id, value);
+      },
+      replace: async (id, value) => {
+        await checkModify(id);
+        return await db.replace(id, value);
+      },
+      delete: async (id) => {
+        await checkModify(id);
+        return await db.delete(id);
+      },
+    };
+  }
+
+  private async allowed(
+    tableName: string | null,
+    operation: Operation,
+    doc: any,
+  ): Promise<boolean> {
+    const rule =
+      tableName === null ? undefined : this.rules[tableName]?.[operation];
+    if (rule === undefined) {
+      return this.defaultPolicy === "allow";
+    }
+    return await rule(this.ctx, doc);
+  }
+
+  // The table with rules that an ID belongs to, or `null` if it belongs to
+  // a table without rules, which follows the default policy.
+  private tableNameFromId(id: GenericId<string>): string | null {
+    for (const tableName of Object.keys(this.rules)) {
+      if (this.db.normalizeId(tableName as any, id) !== null) {
+        return tableName;
+      }
+    }
+    return null;
+  }
+}
+
+type Predicate = (doc: any) => Promise<boolean>;
+
+class QueryInitializerWithRules implements QueryInitializer<GenericTableInfo> {
+  private q: QueryInitializer<GenericTableInfo>;
+  private p: Predicate;
+
+  constructor(q: QueryInitializer<GenericTableInfo>, p: Predicate) {
+    this.q = q;
+    this.p = p;
+  }
+
+  fullTableScan() {
+    return new QueryWithRules(this.q.fullTableScan(), this.p);
+  }
+  withIndex(indexName: any, indexRange?: any) {
+    return new QueryWithRules(this.q.withIndex(indexName, indexRange), this.p);
+  }
+  withSearchIndex(indexName: any, searchFilter: any) {
+    return new QueryWithRules(
+      this.q.withSearchIndex(indexName, searchFilter),
+      this.p,
+    );
+  }
+  count(): Promise<number> {
+    throw new Error("`count` is not supported with row-level security.");
+  }
+  order(order: "asc" | "desc") {
+    return this.fullTableScan().order(order);
+  }
+  filter(predicate: any) {
+    return this.fullTableScan().filter(predicate);
+  }
+  limit(n: number) {
+    return this.fullTableScan().limit(n);
+  }
+  paginate(paginationOpts: PaginationOptions) {
+    return this.fullTableScan().paginate(paginationOpts);
+  }
+  collect() {
+    return this.fullTableScan().collect();
+  }
+  take(n: number) {
+    return this.fullTableScan().take(n);
+  }
+  first() {
+    return this.fullTableScan().first();
+  }
+  unique() {
+    return this.fullTableScan().unique();
+  }
+  [Symbol.asyncIterator]() {
+    return this.fullTableScan()[Symbol.asyncIterator]();
+  }
+}
+
+class QueryWithRules implements Query<GenericTableInfo> {
+  private q: OrderedQuery<GenericTableInfo>;
+  private p: Predicate;
+  private n: number;
+
+  constructor(q: OrderedQuery<GenericTableInfo>, p: Predicate, n = Infinity) {
+    this.q = q;
+    this.p = p;
+    this.n = n;
+  }
+
+  order(order: "asc" | "desc"): any {
+    return new QueryWithRules(
+      (this.q as Query<GenericTableInfo>).order(order),
+      this.p,
+      this.n,
+    );
+  }
+  filter(predicate: any): any {
+    return new QueryWithRules(this.q.filter(predicate), this.p, this.n);
+  }
+  // Documents that fail the rules don't count towards the limit.
+  limit(n: number): any {
+    return new QueryWithRules(this.q, this.p, Math.min(this.n, n));
+  }
+  async paginate(
+    paginationOpts: PaginationOptions,
+  ): Promise<PaginationResult<any>> {
+    const result = await this.q.paginate(paginationOpts);
+    const page = [];
+    for (const doc of result.page) {
+      if (await this.p(doc)) {
+        page.push(doc);
+      }
+    }
+    return { ...result, page };
+  }
+  async collect(): Promise<any[]> {
+    const results = [];
+    for await (const doc of this) {
+      results.push(doc);
+    }
+    return results;
+  }
+  async take(n: number): Promise<any[]> {
+    return await this.limit(n).collect();
+  }
+  async first(): Promise<any | null> {
+    const [first] = await this.take(1);
+    return first ?? null;
+  }
+  async unique(): Promise<any | null> {
+    const results = await this.take(2);
+    if (results.length === 2) {
+      throw new Error("unique() query returned more than one result");
+    }
+    return results[0] ?? null;
+  }
+  async *[Symbol.asyncIterator](): AsyncIterator<any> {
+    if (this.n <= 0) {
+      return;
+    }
+    let count = 0;
+    for await (const doc of this.q) {
+      if (await this.p(doc)) {
+        yield doc;
+        if (++count >= this.n) {
+          return;
+        }
+      }
+    }
+  }
+}
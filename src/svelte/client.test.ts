@@ -0,0 +1,184 @@
+import { beforeEach, describe, expect, test, vi } from "vitest";
+import { get, writable } from "svelte/store";
+import { ConvexClient } from "../browser/index.js";
+import { makeFunctionReference } from "../server/index.js";
+import {
+  setConvexAuth,
+  setConvexClient,
+  usePaginatedQuery,
+  useQuery,
+} from "./client.js";
+
+// Component context only exists while a component initializes, so stand in
+// for it with a single map.
+const context = new Map<unknown, unknown>();
+const destroyCallbacks: (() => void)[] = [];
+vi.mock("svelte", () => ({
+  getContext: (key: unknown) => context.get(key),
+  setContext: (key: unknown, value: unknown) => context.set(key, value),
+  onDestroy: (callback: () => void) => destroyCallbacks.push(callback),
+}));
+
+function fakeClient() {
+  const subscriptions: { args: any; callback: any; active: boolean }[] = [];
+  const paginated = {
+    callback: undefined as any,
+    onError: undefined as any,
+    loadMore: vi.fn(() => true),
+  };
+  const clearAuth = vi.fn();
+  let onAuthChange: ((isAuthenticated: boolean) => void) | undefined;
+  const client = {
+    disabled: false,
+    onUpdate: (_query: any, args: any, callback: any) => {
+      const subscription = { args, callback, active: true };
+      subscriptions.push(subscription);
+      return () => {
+        subscription.active = false;
+      };
+    },
+    onPaginatedUpdate: (
+      _query: any,
+      _args: any,
+      _options: any,
+      cb: any,
+      onError: any,
+    ) => {
+      paginated.callback = cb;
+      paginated.onError = onError;
+      return Object.assign(() => {}, {
+        loadMore: paginated.loadMore,
+        getCurrentValue: () => ({ results: ["a"], status: "LoadingMore" }),
+      });
+    },
+    setAuth: (_fetchToken: any, onChange: any) => {
+      onAuthChange = onChange;
+    },
+    client: { clearAuth },
+  } as unknown as ConvexClient;
+  return {
+    client,
+    subscriptions,
+    paginated,
+    clearAuth,
+    confirmAuth: (isAuthenticated: boolean) => onAuthChange!(isAuthenticated),
+  };
+}
+
+const query = makeFunctionReference<"query", { channel: string }, string[]>(
+  "messages:list",
+);
+
+beforeEach(() => {
+  context.clear();
+  destroyCallbacks.length = 0;
+});
+
+describe("convex/svelte", () => {
+  test("useQuery subscribes while the store has subscribers", () => {
+    const { client, subscriptions } = fakeClient();
+    setConvexClient(client);
+    const messages = useQuery(query, { channel: "general" });
+    expect(subscriptions).toHaveLength(0);
+
+    const values: any[] = [];
+    const unsubscribe = messages.subscribe((value) => values.push(value));
+    expect(subscriptions[0].args).toEqual({ channel: "general" });
+    subscriptions[0].callback(["hi"]);
+    unsubscribe();
+    expect(subscriptions[0].active).toBe(false);
+    expect(values).toEqual([
+      { data: undefined, error: undefined, isLoading: true },
+      { data: ["hi"], error: undefined, isLoading: false },
+    ]);
+  });
+
+  test("useQuery follows a store of arguments", () => {
+    const { client, subscriptions } = fakeClient();
+    setConvexClient(client);
+    const args = writable<{ channel: string } | "skip">({ channel: "a" });
+    const messages = useQuery(query, args);
+    const unsubscribe = messages.subscribe(() => {});
+    args.set({ channel: "b" });
+    expect(subscriptions.map((s) => [s.args, s.active])).toEqual([
+      [{ channel: "a" }, false],
+      [{ channel: "b" }, true],
+    ]);
+    args.set("skip");
+    expect(subscriptions[1].active).toBe(false);
+    expect(get(messages).isLoading).toBe(false);
+    unsubscribe();
+  });
+
+  test("usePaginatedQuery loads more pages", () => {
+    const { client, paginated } = fakeClient();
+    setConvexClient(client);
+    const paginatedQuery = makeFunctionReference<
+      "query",
+      { paginationOpts: any },
+      any
+    >("messages:paginate");
+    const messages = usePaginatedQuery(
+      paginatedQuery,
+      {},
+      { initialNumItems: 1 },
+    );
+    const unsubscribe = messages.subscribe(() => {});
+    paginated.callback({ results: ["a"], status: "CanLoadMore" });
+    expect(get(messages)).toEqual({
+      results: ["a"],
+      status: "CanLoadMore",
+      error: undefined,
+      isLoading: false,
+    });
+    messages.loadMore(1);
+    expect(paginated.loadMore).toHaveBeenCalledWith(1);
+    expect(get(messages).isLoading).toBe(true);
+    unsubscribe();
+  });
+
+  test("usePaginatedQuery exposes page errors", () => {
+    const { client, paginated } = fakeClient();
+    setConvexClient(client);
+    const paginatedQuery = makeFunctionReference<
+      "query",
+      { paginationOpts: any },
+      any
+    >("messages:paginate");
+    const messages = usePaginatedQuery(
+      paginatedQuery,
+      {},
+      { initialNumItems: 1 },
+    );
+    const unsubscribe = messages.subscribe(() => {});
+    paginated.callback({ results: ["a"], status: "LoadingMore" });
+    const error = new Error("page failed");
+    paginated.onError(error);
+    expect(get(messages)).toEqual({
+      results: ["a"],
+      status: "LoadingMore",
+      error,
+      isLoading: false,
+    });
+    unsubscribe();
+  });
+
+  test("setConvexAuth follows the auth provider", () => {
+    const { client, confirmAuth, clearAuth } = fakeClient();
+    setConvexClient(client);
+    const isLoading = writable(false);
+    const isAuthenticated = writable(true);
+    const auth = setConvexAuth({
+      isLoading,
+      isAuthenticated,
+      fetchAccessToken: async () => "token",
+    });
+    expect(get(auth)).toEqual({ isLoading: true, isAuthenticated: false });
+    confirmAuth(true);
+    expect(get(auth)).toEqual({ isLoading: false, isAuthenticated: true });
+    for (const callback of destroyCallbacks) {
+      callback();
+    }
+    expect(clearAuth).toHaveBeenCalled();
+  });
+});
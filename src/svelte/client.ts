@@ -0,0 +1,399 @@
+import { getContext, onDestroy, setContext } from "svelte";
+import { derived, readable, Readable, writable } from "svelte/store";
+import { ConvexClient } from "../browser/index.js";
+import {
+  ConvexAuthState,
+  ConvexAuthStateTracker,
+} from "../browser/auth_state.js";
+import { PaginatedQueryResult } from "../browser/paginated_query.js";
+import { AuthTokenFetcher } from "../browser/sync/authentication_manager.js";
+import {
+  FunctionArgs,
+  FunctionReference,
+  FunctionReturnType,
+  OptionalRestArgs,
+} from "../server/api.js";
+import { PaginationOptions, PaginationResult } from "../server/index.js";
+import { convexToJson, jsonToConvex, Value } from "../values/index.js";
+import { BetterOmit, Expand } from "../type_utils.js";
+
+const convexClientKey = Symbol("convexClient");
+const convexAuthKey = Symbol("convexAuth");
+
+/**
+ * Store a {@link browser.ConvexClient} in the component context, for the
+ * stores and functions in `convex/svelte` to use in this component and its
+ * children.
+ *
+ * Call it during the initialization of the root component:
+ * ```svelte
+ * <script>
+ *   import { ConvexClient } from "convex/browser";
+ *   import { setConvexClient } from "convex/svelte";
+ *
+ *   setConvexClient(new ConvexClient(import.meta.env.VITE_CONVEX_URL));
+ * </script>
+ * ```
+ *
+ * @param client - The client to use.
+ *
+ * @public
+ */
+export function setConvexClient(client: ConvexClient) {
+  setContext(convexClientKey, client);
+}
+
+/**
+ * Get the {@link browser.ConvexClient} stored with {@link setConvexClient}.
+ *
+ * Like Svelte's `getContext`, this must be called during component
+ * initialization.
+ *
+ * @public
+ */
+export function getConvexClient(): ConvexClient {
+  const client = getContext<ConvexClient | undefined>(convexClientKey);
+  if (client === undefined) {
+    throw new Error(
+      "Could not find a Convex client! `setConvexClient` must be called in " +
+        "this component or one of its ancestors.",
+    );
+  }
+  return client;
+}
+
+/**
+ * The authentication state of an auth provider, passed to
+ * {@link setConvexAuth} to authenticate the Convex client.
+ *
+ * @public
+ */
+export interface ConvexSvelteAuth {
+  /** Whether the auth provider is still loading the user's session. */
+  isLoading: Readable<boolean>;
+  /** Whether the user is logged in with the auth provider. */
+  isAuthenticated: Readable<boolean>;
+  /** Fetch a JWT access token for the logged in user. */
+  fetchAccessToken: AuthTokenFetcher;
+}
+
+/**
+ * Authenticate the {@link browser.ConvexClient} stored with
+ * {@link setConvexClient} with an auth provider, like
+ * {@link react.ConvexProviderWithAuth} does in React.
+ *
+ * Call it during the initialization of the component that calls
+ * {@link setConvexClient}. The client stays authenticated until the
+ * component is destroyed.
+ *
+ * @param auth - The auth provider's state, see {@link ConvexSvelteAuth}.
+ * @returns A store of the Convex authentication state, also available to
+ * child components with {@link useConvexAuth}.
+ *
+ * @public
+ */
+export function setConvexAuth(
+  auth: ConvexSvelteAuth,
+): Readable<ConvexAuthState> {
+  const client = getConvexClient();
+  const state = writable<ConvexAuthState>({
+    isLoading: true,
+    isAuthenticated: false,
+  });
+  const tracker = new ConvexAuthStateTracker(
+    client,
+    auth.fetchAccessToken,
+    state.set,
+  );
+  const unsubscribe = derived(
+    [auth.isLoading, auth.isAuthenticated],
+    (values) => values,
+  ).subscribe(([isLoading, isAuthenticated]) =>
+    tracker.update(isLoading, isAuthenticated),
+  );
+  onDestroy(() => {
+    unsubscribe();
+    tracker.close();
+  });
+  const authState = { subscribe: state.subscribe };
+  setContext(convexAuthKey, authState);
+  return authState;
+}
+
+/**
+ * Get a store of the Convex authentication state set up with
+ * {@link setConvexAuth}.
+ *
+ * `isLoading` is `true` until the auth provider has loaded and the Convex
+ * backend has validated the user's token, and `isAuthenticated` is then
+ * whether it was valid.
+ *
+ * @public
+ */
+export function useConvexAuth(): Readable<ConvexAuthState> {
+  const authState = getContext<Readable<ConvexAuthState> | undefined>(
+    convexAuthKey,
+  );
+  if (authState === undefined) {
+    throw new Error(
+      "Could not find the Convex auth state! `setConvexAuth` must be " +
+        "called in this component or one of its ancestors.",
+    );
+  }
+  return authState;
+}
+
+/**
+ * The value of the store returned by {@link useQuery}.
+ *
+ * @public
+ */
+export type QueryState<Result> = {
+  /** The query's result, or `undefined` while it's loading or skipped. */
+  data: Result | undefined;
+  /** The error the query threw, if any. */
+  error: Error | undefined;
+  /** Whether the query's first result is loading. */
+  isLoading: boolean;
+};
+
+/**
+ * Load a reactive query in a Svelte component.
+ *
+ * The returned store subscribes to the query while it has subscribers. To
+ * change the arguments, pass a store of them, which can also hold `"skip"`
+ * to skip the query.
+ *
+ * ```svelte
+ * <script>
+ *   import { useQuery } from "convex/svelte";
+ *   import { api } from "../convex/_generated/api";
+ *
+ *   const messages = useQuery(api.messages.list, {});
+ * </script>
+ *
+ * {#each $messages.data ?? [] as message}
+ *   <p>{message.body}</p>
+ * {/each}
+ * ```
+ *
+ * @param query - A {@link server.FunctionReference} for the public query to
+ * run.
+ * @param args - The arguments to the query function, the string `"skip"`,
+ * or a store of either.
+ * @returns A store of the query's {@link QueryState}.
+ *
+ * @public
+ */
+export function useQuery<Query extends FunctionReference<"query">>(
+  query: Query,
+  args: FunctionArgs<Query> | "skip" | Readable<FunctionArgs<Query> | "skip">,
+): Readable<QueryState<FunctionReturnType<Query>>> {
+  const client = getConvexClient();
+  return switchOnArgs(args, (argsValue) => {
+    if (argsValue === "skip") {
+      return readable({ data: undefined, error: undefined, isLoading: false });
+    }
+    return readable<QueryState<FunctionReturnType<Query>>>(
+      { data: undefined, error: undefined, isLoading: true },
+      (set) =>
+        client.onUpdate(
+          query,
+          argsValue,
+          (data) => set({ data, error: undefined, isLoading: false }),
+          (error) => set({ data: undefined, error, isLoading: false }),
+        ),
+    );
+  });
+}
+
+/**
+ * Construct a function to run a mutation in a Svelte component.
+ *
+ * @param mutation - A {@link server.FunctionReference} for the public
+ * mutation to run.
+ * @returns A function that runs the mutation and returns a promise of its
+ * result.
+ *
+ * @public
+ */
+export function useMutation<Mutation extends FunctionReference<"mutation">>(
+  mutation: Mutation,
+): (
+  ...args: OptionalRestArgs<Mutation>
+) => Promise<Awaited<FunctionReturnType<Mutation>>> {
+  const client = getConvexClient();
+  return (...args) => client.mutation(mutation, args[0] ?? {});
+}
+
+/**
+ * Construct a function to run an action in a Svelte component.
+ *
+ * @param action - A {@link server.FunctionReference} for the public action
+ * to run.
+ * @returns A function that runs the action and returns a promise of its
+ * result.
+ *
+ * @public
+ */
+export function useAction<Action extends FunctionReference<"action">>(
+  action: Action,
+): (
+  ...args: OptionalRestArgs<Action>
+) => Promise<Awaited<FunctionReturnType<Action>>> {
+  const client = getConvexClient();
+  return (...args) => client.action(action, args[0] ?? {});
+}
+
+/**
+ * The store returned by {@link usePaginatedQuery}.
+ *
+ * @public
+ */
+export type PaginatedQueryStore<Item> = Readable<
+  PaginatedQueryResult<Item> & {
+    /** The error a page of the query threw, if any. */
+    error: Error | undefined;
+    isLoading: boolean;
+  }
+> & {
+  /**
+   * Load another page of results. This only has an effect if the status is
+   * "CanLoadMore".
+   */
+  loadMore: (numItems: number) => void;
+};
+
+/**
+ * Load a paginated query reactively in a Svelte component, to create a
+ * growing list.
+ *
+ * This works like {@link react.usePaginatedQuery}: the query must take a
+ * `paginationOpts` argument and return a {@link server.PaginationResult},
+ * and pagination restarts from the first page when the arguments change.
+ *
+ * @param query - A {@link server.FunctionReference} for the public query to
+ * run.
+ * @param args - The arguments to the query function, excluding
+ * `paginationOpts`, the string `"skip"`, or a store of either.
+ * @param options - An object specifying the `initialNumItems` to load in
+ * the first page.
+ * @returns A {@link PaginatedQueryStore} of the loaded results and the
+ * pagination status.
+ *
+ * @public
+ */
+export function usePaginatedQuery<
+  Query extends FunctionReference<
+    "query",
+    "public",
+    { paginationOpts: PaginationOptions },
+    PaginationResult<any>
+  >,
+>(
+  query: Query,
+  args: PaginatedArgs<Query> | "skip" | Readable<PaginatedArgs<Query> | "skip">,
+  options: { initialNumItems: number },
+): PaginatedQueryStore<FunctionReturnType<Query>["page"][number]> {
+  const client = getConvexClient();
+  let loadMore: (numItems: number) => void = () => {};
+  const store = switchOnArgs(args, (argsValue) => {
+    if (argsValue === "skip") {
+      loadMore = () => {};
+      return readable({
+        results: [],
+        status: "LoadingFirstPage" as const,
+        error: undefined,
+        isLoading: true,
+      });
+    }
+    return readable<
+      PaginatedQueryResult<any> & {
+        error: Error | undefined;
+        isLoading: boolean;
+      }
+    >(
+      {
+        results: [],
+        status: "LoadingFirstPage",
+        error: undefined,
+        isLoading: true,
+      },
+      (set) => {
+        let current: PaginatedQueryResult<any> = {
+          results: [],
+          status: "LoadingFirstPage",
+        };
+        const update = (result: PaginatedQueryResult<any>) => {
+          current = result;
+          set({
+            ...result,
+            error: undefined,
+            isLoading:
+              result.status === "LoadingFirstPage" ||
+              result.status === "LoadingMore",
+          });
+        };
+        const subscription = client.onPaginatedUpdate(
+          query,
+          argsValue,
+          options,
+          update,
+          // Keep the pages loaded so far, but stop loading.
+          (error) => set({ ...current, error, isLoading: false }),
+        );
+        loadMore = (numItems) => {
+          if (subscription.loadMore(numItems)) {
+            update(subscription.getCurrentValue());
+          }
+        };
+        return () => {
+          loadMore = () => {};
+          subscription();
+        };
+      },
+    );
+  });
+  return {
+    subscribe: store.subscribe,
+    loadMore: (numItems) => loadMore(numItems),
+  };
+}
+
+type PaginatedArgs<Query extends FunctionReference<"query">> = Expand<
+  BetterOmit<FunctionArgs<Query>, "paginationOpts">
+>;
+
+// A store that follows the store `makeStore` returns for the current
+// arguments, switching stores only when the arguments change.
+function switchOnArgs<Args, T>(
+  args: Args | Readable<Args>,
+  makeStore: (args: Args) => Readable<T>,
+): Readable<T> {
+  if (!isStore(args)) {
+    return makeStore(args);
+  }
+  const argsKey = derived(args, (value) =>
+    value === "skip" ? "skip" : JSON.stringify(convexToJson(value as Value)),
+  );
+  return readable<T>(undefined, (set) => {
+    let unsubscribeInner = () => {};
+    const unsubscribeArgs = argsKey.subscribe((key) => {
+      unsubscribeInner();
+      const value = key === "skip" ? key : jsonToConvex(JSON.parse(key));
+      unsubscribeInner = makeStore(value as Args).subscribe(set);
+    });
+    return () => {
+      unsubscribeArgs();
+      unsubscribeInner();
+    };
+  });
+}
+
+function isStore<T>(value: T | Readable<T>): value is Readable<T> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as any).subscribe === "function"
+  );
+}
@@ -0,0 +1,42 @@
+/**
+ * Tools to integrate Convex into Svelte applications.
+ *
+ * This module contains:
+ * 1. {@link setConvexClient}, to store a {@link browser.ConvexClient} in the
+ *    component context.
+ * 2. {@link useQuery} and {@link usePaginatedQuery}, which return readable
+ *    stores of query results, and {@link useMutation} and {@link useAction}.
+ * 3. {@link setConvexAuth} and {@link useConvexAuth} to authenticate the
+ *    client with an auth provider.
+ *
+ * ## Usage
+ *
+ * ```svelte
+ * <script>
+ *   import { ConvexClient } from "convex/browser";
+ *   import { setConvexClient, useQuery } from "convex/svelte";
+ *   import { api } from "../convex/_generated/api";
+ *
+ *   setConvexClient(new ConvexClient("https://small-mouse-123.convex.cloud"));
+ *   const messages = useQuery(api.messages.list, {});
+ * </script>
+ * ```
+ *
+ * @module
+ */
+export {
+  setConvexClient,
+  getConvexClient,
+  setConvexAuth,
+  useConvexAuth,
+  useQuery,
+  useMutation,
+  useAction,
+  usePaginatedQuery,
+} from "./client.js";
+export type {
+  ConvexSvelteAuth,
+  QueryState,
+  PaginatedQueryStore,
+} from "./client.js";
+export type { ConvexAuthState } from "../browser/auth_state.js";
@@ -0,0 +1,597 @@
+import {
+  ConvexError,
+  convexToJson,
+  jsonToConvex,
+  Value,
+} from "../values/index.js";
+import * as Base64 from "../values/base64.js";
+import { formatIssue, validateValue } from "../values/validate.js";
+import { JSONValue } from "../values/value.js";
+import { UserIdentity } from "../server/authentication.js";
+import { FunctionType } from "../server/api.js";
+import { SchemaDefinition } from "../server/schema.js";
+import { SerializedQuery } from "../server/impl/query_impl.js";
+import { Document, InMemoryDatabase } from "./database.js";
+import { jsonToConvexOrUndefined } from "./filter.js";
+import { validatorFromJson } from "../values/validator_from_json.js";
+
+/**
+ * The modules that define Convex functions, keyed by their path relative to
+ * the `convex/` directory, e.g. `"messages"` or `"./messages.ts"`.
+ *
+ * Values can either be the imported module or a function that imports it,
+ * like the values of `import.meta.glob("./**\/*.*s")`.
+ *
+ * @public
+ */
+export type TestModules = Record<
+  string,
+  Record<string, any> | (() => Promise<Record<string, any>>)
+>;
+
+type Frame = { identity: UserIdentity | null };
+
+// The origin of the URLs returned by `storage.getUrl` and
+// `storage.generateUploadUrl`.
+const STORAGE_ORIGIN = "https://convex.test";
+
+/**
+ * Runs Convex functions against an {@link InMemoryDatabase} by implementing
+ * the syscalls that the `convex/server` runtime makes to a Convex backend.
+ *
+ * Queries and mutations run one at a time, like they would in a
+ * serializable transaction. Actions run concurrently and take turns with
+ * queries and mutations for each syscall.
+ */
+export class InMemoryBackend {
+  readonly db: InMemoryDatabase;
+  private modules: Map<string, TestModules[string]>;
+  private lock: Promise<void> = Promise.resolve();
+  // The queries and mutations currently running, innermost last.
+  private frames: Frame[] = [];
+  private actionIdentities: Map<string, UserIdentity | null> = new Map();
+  private queryStreams: Map<number, Document[]> = new Map();
+  private blobs: Map<string, Blob> = new Map();
+  private nextQueryId = 0;
+  private nextRequestId = 0;
+  private nextUploadToken = 0;
+
+  constructor(
+    schema: SchemaDefinition<any, boolean> | undefined,
+    modules: TestModules,
+  ) {
+    this.db = new InMemoryDatabase(schema);
+    this.modules = new Map(
+      Object.entries(modules).map(([path, module]) => [
+        normalizeModulePath(path),
+        module,
+      ]),
+    );
+  }
+
+  /**
+   * Route the `Convex` global's syscalls to this backend.
+   */
+  install() {
+    (globalThis as any).Convex = {
+      syscall: (op: string, jsonArgs: string) =>
+        JSON.stringify(this.syscall(op, JSON.parse(jsonArgs)) ?? null),
+      asyncSyscall: async (op: string, jsonArgs: string) => {
+        try {
+          const result = await this.asyncSyscall(op, JSON.parse(jsonArgs));
+          return JSON.stringify(result ?? null);
+        } catch (e: any) {
+          if (isConvexError(e)) {
+            // `performAsyncSyscall` expects the error data as JSON.
+            throw { message: e.message, data: convexToJson(e.data) };
+          }
+          throw e;
+        }
+      },
+      jsSyscall: (op: string, args: Record<string, any>) =>
+        this.jsSyscall(op, args),
+    };
+  }
+
+  /**
+   * Run a query, mutation or action by name, like it was called from a
+   * client.
+   */
+  async runFunction(
+    udfType: FunctionType,
+    name: string,
+    args: Record<string, Value>,
+    identity: UserIdentity | null,
+  ): Promise<Value> {
+    if (udfType === "action") {
+      return await this.invoke(udfType, name, args, identity);
+    }
+    return await this.withLock(() =>
+      this.invoke(udfType, name, args, identity),
+    );
+  }
+
+  /**
+   * Run `func` in a mutation transaction, rolling back its writes if it
+   * throws.
+   */
+  async runInTransaction<T>(
+    identity: UserIdentity | null,
+    func: () => Promise<T>,
+  ): Promise<T> {
+    return await this.withLock(() => this.inFrame(identity, true, func));
+  }
+
+  /**
+   * Run every pending scheduled function that is due, including the ones
+   * they schedule in turn, until none are left.
+   */
+  async finishScheduledFunctions() {
+    for (;;) {
+      const now = Date.now();
+      const due = this.db
+        .documents("_scheduled_functions")
+        .filter(
+          (job) =>
+            (job.state as { kind: string }).kind === "pending" &&
+            (job.scheduledTime as number) <= now,
+        )
+        .sort(
+          (a, b) => (a.scheduledTime as number) - (b.scheduledTime as number),
+        );
+      if (due.length === 0) {
+        return;
+      }
+      for (const job of due) {
+        await this.runScheduledFunction(job._id);
+      }
+    }
+  }
+
+  private async runScheduledFunction(jobId: string) {
+    const job = this.db.get(jobId);
+    if (job === null || (job.state as { kind: string }).kind !== "pending") {
+      return;
+    }
+    const name = job.name as string;
+    const [args] = job.args as [Record<string, Value>];
+    const { udfType } = await this.lookup(name);
+    const setState = (state: Record<string, Value>) =>
+      this.db.patch(jobId, {
+        state,
+        ...(state.kind === "inProgress" ? {} : { completedTime: Date.now() }),
+      });
+    if (udfType === "mutation") {
+      await this.withLock(async () => {
+        try {
+          await this.inFrame(null, true, async () => {
+            await this.invoke(udfType, name, args, null);
+            setState({ kind: "success" });
+          });
+        } catch (e: any) {
+          setState({ kind: "failed", error: e.message });
+        }
+      });
+      return;
+    }
+    await this.withLock(async () => setState({ kind: "inProgress" }));
+    try {
+      await this.invoke(udfType, name, args, null);
+      await this.withLock(async () => setState({ kind: "success" }));
+    } catch (e: any) {
+      await this.withLock(async () =>
+        setState({ kind: "failed", error: e.message }),
+      );
+    }
+  }
+
+  private async withLock<T>(func: () => Promise<T>): Promise<T> {
+    const result = this.lock.then(func);
+    this.lock = result.then(
+      () => {},
+      () => {},
+    );
+    return await result;
+  }
+
+  private async inFrame<T>(
+    identity: UserIdentity | null,
+    isTransaction: boolean,
+    func: () => Promise<T>,
+  ): Promise<T> {
+    const snapshot = isTransaction ? this.db.snapshot() : null;
+    this.frames.push({ identity });
+    try {
+      return await func();
+    } catch (e) {
+      if (snapshot !== null) {
+        this.db.restore(snapshot);
+      }
+      throw e;
+    } finally {
+      this.frames.pop();
+    }
+  }
+
+  // Run a syscall made by an action while holding the lock, so it doesn't
+  // observe the writes of a mutation that hasn't finished yet. Queries and
+  // mutations make syscalls with an empty request ID and already hold it.
+  private async inRequest<T>(
+    requestId: string,
+    func: () => T | Promise<T>,
+  ): Promise<T> {
+    if (requestId === "") {
+      return await func();
+    }
+    return await this.withLock(async () => await func());
+  }
+
+  private async invoke(
+    udfType: FunctionType,
+    name: string,
+    args: Record<string, Value>,
+    identity: UserIdentity | null,
+  ): Promise<Value> {
+    const { func } = await this.lookup(name, udfType);
+    const argsValidator = validatorFromJson(JSON.parse(func.exportArgs()));
+    const argsResult = validateValue(argsValidator, args);
+    if (!argsResult.success) {
+      throw new Error(
+        `ArgumentValidationError: Invalid arguments for ${name}:\n${argsResult.issues
+          .map((issue) => `  ${formatIssue(issue)}`)
+          .join("\n")}`,
+      );
+    }
+    const argsStr = JSON.stringify(convexToJson([args]));
+    let resultStr: string;
+    try {
+      switch (udfType) {
+        case "query":
+          resultStr = await this.inFrame(identity, false, () =>
+            func.invokeQuery(argsStr),
+          );
+          break;
+        case "mutation":
+          resultStr = await this.inFrame(identity, true, () =>
+            func.invokeMutation(argsStr),
+          );
+          break;
+        case "action": {
+          const requestId = `${++this.nextRequestId}`;
+          this.actionIdentities.set(requestId, identity);
+          try {
+            resultStr = await func.invokeAction(requestId, argsStr);
+          } finally {
+            this.actionIdentities.delete(requestId);
+          }
+          break;
+        }
+      }
+    } catch (e: any) {
+      throw deserializeConvexErrorData(e);
+    }
+    const result = jsonToConvex(JSON.parse(resultStr));
+    const returnsJson = JSON.parse(func.exportReturns());
+    if (returnsJson !== null) {
+      const returnsResult = validateValue(
+        validatorFromJson(returnsJson),
+        result,
+      );
+      if (!returnsResult.success) {
+        throw new Error(
+          `ReturnsValidationError: Invalid return value for ${name}:\n${returnsResult.issues
+            .map((issue) => `  ${formatIssue(issue)}`)
+            .join("\n")}`,
+        );
+      }
+    }
+    return result;
+  }
+
+  private async lookup(
+    name: string,
+    udfType?: FunctionType,
+  ): Promise<{ func: any; udfType: FunctionType }> {
+    const [modulePath, exportName = "default"] = name.split(":");
+    const moduleOrLoader = this.modules.get(normalizeModulePath(modulePath));
+    const module =
+      typeof moduleOrLoader === "function"
+        ? await moduleOrLoader()
+        : moduleOrLoader;
+    const func = module?.[exportName];
+    if (!func?.isRegistered) {
+      throw new Error(
+        `Could not find a registered Convex function "${name}". Did you pass its module to \`convexTest\`?`,
+      );
+    }
+    const actualType: FunctionType = func.isQuery
+      ? "query"
+      : func.isMutation
+        ? "mutation"
+        : "action";
+    if (udfType !== undefined && udfType !== actualType) {
+      throw new Error(
+        `Expected "${name}" to be a ${udfType}, but it is a ${actualType}.`,
+      );
+    }
+    return { func, udfType: actualType };
+  }
+
+  private identity(requestId: string): UserIdentity | null {
+    if (requestId !== "") {
+      return this.actionIdentities.get(requestId) ?? null;
+    }
+    return this.frames[this.frames.length - 1]?.identity ?? null;
+  }
+
+  private syscall(op: string, args: Record<string, any>): JSONValue | void {
+    switch (op) {
+      case "1.0/db/normalizeId":
+        return { id: this.db.normalizeId(args.table, args.idString) };
+      case "1.0/queryStream": {
+        const queryId = ++this.nextQueryId;
+        this.queryStreams.set(
+          queryId,
+          this.db.query(args.query as SerializedQuery),
+        );
+        return { queryId };
+      }
+      case "1.0/queryCleanup":
+        this.queryStreams.delete(args.queryId);
+        return;
+      default:
+        throw new Error(`Syscall ${op} is not supported in tests.`);
+    }
+  }
+
+  private async asyncSyscall(
+    op: string,
+    args: Record<string, any>,
+  ): Promise<JSONValue | void> {
+    switch (op) {
+      case "1.0/get": {
+        const id = jsonToConvex(args.id) as string;
+        this.checkTableAccess(id, args.isSystem);
+        const document = this.db.get(id);
+        return document === null ? null : convexToJson(document);
+      }
+      case "1.0/insert": {
+        const _id = this.db.insert(
+          args.table,
+          jsonToConvex(args.value) as Record<string, Value>,
+        );
+        return { _id };
+      }
+      case "1.0/shallowMerge": {
+        const id = this.writableId(args.id);
+        const fields = Object.fromEntries(
+          Object.entries(args.value as Record<string, JSONValue>).map(
+            ([fieldName, value]) => [fieldName, jsonToConvexOrUndefined(value)],
+          ),
+        );
+        this.db.patch(id, fields);
+        return;
+      }
+      case "1.0/replace":
+        this.db.replace(
+          this.writableId(args.id),
+          jsonToConvex(args.value) as Record<string, Value>,
+        );
+        return;
+      case "1.0/remove":
+        this.db.delete(this.writableId(args.id));
+        return;
+      case "1.0/count":
+        return this.db.count(args.table);
+      case "1.0/queryStreamNext": {
+        const results = this.queryStreams.get(args.queryId);
+        if (results === undefined) {
+          throw new Error(`Query ${args.queryId} is closed.`);
+        }
+        const document = results.shift();
+        return document === undefined
+          ? { value: null, done: true }
+          : { value: convexToJson(document), done: false };
+      }
+      case "1.0/queryPage": {
+        const { page, isDone, continueCursor } = this.db.queryPage(
+          args.query,
+          args.cursor,
+          args.endCursor,
+          args.pageSize,
+        );
+        return {
+          page: page.map((document) => convexToJson(document)),
+          isDone,
+          continueCursor,
+          splitCursor: null,
+          pageStatus: null,
+        };
+      }
+      case "1.0/getUserIdentity":
+        return this.identity(args.requestId) as JSONValue | null;
+      case "1.0/schedule":
+      case "1.0/actions/schedule":
+        return await this.inRequest(args.requestId ?? "", () =>
+          this.db.insert("_scheduled_functions", {
+            name: args.name,
+            args: [jsonToConvex(args.args)],
+            scheduledTime: args.ts * 1000,
+            state: { kind: "pending" },
+          }),
+        );
+      case "1.0/cancel_job":
+      case "1.0/actions/cancel_job":
+        await this.inRequest(args.requestId ?? "", () => {
+          const id = jsonToConvex(args.id) as string;
+          const job = this.db.get(id);
+          if (
+            (job?.state as { kind: string } | undefined)?.kind === "pending"
+          ) {
+            this.db.patch(id, {
+              state: { kind: "canceled" },
+              completedTime: Date.now(),
+            });
+          }
+        });
+        return;
+      case "1.0/runUdf":
+        return convexToJson(
+          await this.invoke(
+            args.udfType,
+            functionNameFromReference(args.reference),
+            jsonToConvex(args.args) as Record<string, Value>,
+            this.identity(""),
+          ),
+        );
+      case "1.0/actions/query":
+      case "1.0/actions/mutation":
+      case "1.0/actions/action": {
+        const udfType = op.slice("1.0/actions/".length) as FunctionType;
+        const name =
+          args.name ?? functionNameFromReference(args.reference as string);
+        return convexToJson(
+          await this.runFunction(
+            udfType,
+            name,
+            jsonToConvex(args.args) as Record<string, Value>,
+            this.identity(args.requestId),
+          ),
+        );
+      }
+      case "1.0/actions/vectorSearch":
+        return await this.inRequest(args.requestId, () => ({
+          results: this.db.vectorSearch(args.query),
+        }));
+      case "1.0/storageGenerateUploadUrl":
+        return `${STORAGE_ORIGIN}/api/storage/upload?token=${++this
+          .nextUploadToken}`;
+      case "1.0/storageGetUrl":
+        return await this.inRequest(args.requestId, () =>
+          this.storageDocument(args.storageId) === null
+            ? null
+            : `${STORAGE_ORIGIN}/api/storage/${encodeURIComponent(
+                args.storageId,
+              )}`,
+        );
+      case "1.0/storageGetMetadata":
+        return await this.inRequest(args.requestId, () => {
+          const document = this.storageDocument(args.storageId);
+          if (document === null) {
+            return null;
+          }
+          return {
+            storageId: document._id,
+            sha256: [...Base64.toByteArray(document.sha256 as string)]
+              .map((byte) => byte.toString(16).padStart(2, "0"))
+              .join(""),
+            size: document.size as number,
+            contentType: (document.contentType as string | undefined) ?? null,
+          };
+        });
+      case "1.0/storageDelete":
+        await this.inRequest(args.requestId, () => {
+          if (this.storageDocument(args.storageId) === null) {
+            throw new Error(`Storage ID "${args.storageId}" not found.`);
+          }
+          this.db.delete(args.storageId);
+        });
+        return;
+      default:
+        throw new Error(`Syscall ${op} is not supported in tests.`);
+    }
+  }
+
+  private async jsSyscall(op: string, args: Record<string, any>) {
+    switch (op) {
+      case "storage/storeBlob": {
+        const blob: Blob = args.blob;
+        const sha256 =
+          args.options?.sha256 ??
+          Base64.fromByteArray(
+            new Uint8Array(
+              await crypto.subtle.digest("SHA-256", await blob.arrayBuffer()),
+            ),
+          );
+        return await this.inRequest(args.requestId, () => {
+          const storageId = this.db.insert("_storage", {
+            sha256,
+            size: blob.size,
+            ...(blob.type !== "" ? { contentType: blob.type } : {}),
+          });
+          this.blobs.set(storageId, blob);
+          return storageId;
+        });
+      }
+      case "storage/getBlob":
+        return await this.inRequest(args.requestId, () =>
+          this.storageDocument(args.storageId) === null
+            ? null
+            : this.blobs.get(args.storageId) ?? null,
+        );
+      default:
+        throw new Error(`Syscall ${op} is not supported in tests.`);
+    }
+  }
+
+  private storageDocument(storageId: string): Document | null {
+    return this.db.normalizeId("_storage", storageId) === null
+      ? null
+      : this.db.get(storageId);
+  }
+
+  private checkTableAccess(id: string, isSystem: boolean) {
+    const tableName = this.db.tableNameFromId(id);
+    if (tableName !== null && tableName.startsWith("_") !== isSystem) {
+      throw new Error(
+        `${isSystem ? "User" : "System"} tables can only be accessed from db.${
+          isSystem ? "" : "system."
+        }get().`,
+      );
+    }
+  }
+
+  private writableId(idJson: JSONValue): string {
+    const id = jsonToConvex(idJson) as string;
+    if (this.db.tableNameFromId(id)?.startsWith("_")) {
+      throw new Error("System tables (prefixed with `_`) are read-only.");
+    }
+    return id;
+  }
+}
+
+function normalizeModulePath(path: string): string {
+  return path.replace(/^\.\//, "").replace(/\.[cm]?[jt]sx?$/, "");
+}
+
+function functionNameFromReference(reference: string): string {
+  const prefix = "_reference/function/";
+  if (!reference.startsWith(prefix)) {
+    throw new Error(
+      `Calling component function ${reference} is not supported in tests.`,
+    );
+  }
+  return reference.slice(prefix.length);
+}
+
+// `invokeFunction` serializes `ConvexError` data to send it to the backend,
+// so parse it again before handing the error back to the test.
+function deserializeConvexErrorData(thrown: unknown) {
+  if (
+    isConvexError(thrown) &&
+    (thrown as any).ConvexErrorSymbol !== undefined &&
+    typeof thrown.data === "string"
+  ) {
+    thrown.data = jsonToConvex(JSON.parse(thrown.data));
+    delete (thrown as any).ConvexErrorSymbol;
+  }
+  return thrown;
+}
+
+function isConvexError(thrown: unknown): thrown is ConvexError<Value> {
+  return (
+    typeof thrown === "object" &&
+    thrown !== null &&
+    Symbol.for("ConvexError") in thrown
+  );
+}
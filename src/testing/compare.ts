@@ -0,0 +1,95 @@
+import { Value } from "../values/index.js";
+
+// Values of different types sort in this order, like in Convex indexes.
+function typeRank(value: Value | undefined): number {
+  if (value === undefined) {
+    return 0;
+  }
+  if (value === null) {
+    return 1;
+  }
+  switch (typeof value) {
+    case "bigint":
+      return 2;
+    case "number":
+      return 3;
+    case "boolean":
+      return 4;
+    case "string":
+      return 5;
+  }
+  if (value instanceof ArrayBuffer) {
+    return 6;
+  }
+  if (Array.isArray(value)) {
+    return 7;
+  }
+  return 8;
+}
+
+/**
+ * Compare two Convex values in the order Convex uses for indexes, where a
+ * missing field (`undefined`) sorts first.
+ */
+export function compareValues(
+  a: Value | undefined,
+  b: Value | undefined,
+): number {
+  const rankA = typeRank(a);
+  const rankB = typeRank(b);
+  if (rankA !== rankB) {
+    return rankA - rankB;
+  }
+  if (a === undefined || a === null) {
+    return 0;
+  }
+  if (
+    typeof a === "bigint" ||
+    typeof a === "boolean" ||
+    typeof a === "string"
+  ) {
+    return a < (b as typeof a) ? -1 : a > (b as typeof a) ? 1 : 0;
+  }
+  if (typeof a === "number") {
+    return compareFloats(a, b as number);
+  }
+  if (a instanceof ArrayBuffer) {
+    return compareArrays(
+      [...new Uint8Array(a)],
+      [...new Uint8Array(b as ArrayBuffer)],
+    );
+  }
+  if (Array.isArray(a)) {
+    return compareArrays(a, b as Value[]);
+  }
+  const entriesA = Object.entries(a).filter(([, v]) => v !== undefined);
+  const entriesB = Object.entries(b as Record<string, Value>).filter(
+    ([, v]) => v !== undefined,
+  );
+  return compareArrays(entriesA.flat(), entriesB.flat());
+}
+
+function compareFloats(a: number, b: number): number {
+  // NaN sorts after every other number.
+  if (Number.isNaN(a) || Number.isNaN(b)) {
+    return Number(Number.isNaN(a)) - Number(Number.isNaN(b));
+  }
+  if (a === 0 && b === 0) {
+    // -0 sorts before 0.
+    return Number(Object.is(b, -0)) - Number(Object.is(a, -0));
+  }
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+export function compareArrays(
+  a: ReadonlyArray<Value | undefined>,
+  b: ReadonlyArray<Value | undefined>,
+): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    const result = compareValues(a[i], b[i]);
+    if (result !== 0) {
+      return result;
+    }
+  }
+  return a.length - b.length;
+}
@@ -0,0 +1,360 @@
+import { afterEach, describe, expect, test, vi } from "vitest";
+import { ConvexError } from "../values/errors.js";
+import { v } from "../values/validator.js";
+import { Id } from "../values/value.js";
+import { anyApi } from "../server/api.js";
+import { paginationOptsValidator } from "../server/pagination.js";
+import {
+  actionGeneric,
+  internalMutationGeneric,
+  mutationGeneric,
+  queryGeneric,
+} from "../server/impl/registration_impl.js";
+import { defineSchema, defineTable } from "../server/schema.js";
+import { convexTest } from "./convex_test.js";
+
+const schema = defineSchema({
+  messages: defineTable({
+    author: v.string(),
+    body: v.string(),
+    likes: v.optional(v.number()),
+  })
+    .index("by_author", ["author"])
+    .searchIndex("search_body", { searchField: "body" }),
+  embeddings: defineTable({
+    vector: v.array(v.number()),
+  }).vectorIndex("by_vector", { vectorField: "vector", dimensions: 2 }),
+});
+
+const api: any = anyApi;
+
+const messages = {
+  send: mutationGeneric({
+    args: { author: v.string(), body: v.string() },
+    handler: async (ctx, args) => {
+      return await ctx.db.insert("messages", args);
+    },
+  }),
+  sendThenFail: mutationGeneric({
+    args: { body: v.string() },
+    handler: async (ctx, { body }) => {
+      await ctx.db.insert("messages", { author: "bot", body });
+      throw new ConvexError({ code: "failed", body });
+    },
+  }),
+  like: internalMutationGeneric({
+    args: { id: v.id("messages") },
+    handler: async (ctx, { id }) => {
+      const message = await ctx.db.get(id);
+      await ctx.db.patch(id, { likes: (message!.likes ?? 0) + 1 });
+    },
+  }),
+  likeLater: mutationGeneric({
+    args: { id: v.id("messages"), delayMs: v.number() },
+    handler: async (ctx, { id, delayMs }) => {
+      await ctx.scheduler.runAfter(delayMs, api.messages.like, { id });
+    },
+  }),
+  byAuthor: queryGeneric({
+    args: { author: v.string() },
+    handler: async (ctx, { author }) => {
+      return await ctx.db
+        .query("messages")
+        .withIndex("by_author", (q) => q.eq("author", author))
+        .order("desc")
+        .collect();
+    },
+  }),
+  popular: queryGeneric({
+    args: { minLikes: v.number() },
+    handler: async (ctx, { minLikes }) => {
+      return await ctx.db
+        .query("messages")
+        .filter((q) => q.gte(q.field("likes"), minLikes))
+        .collect();
+    },
+  }),
+  search: queryGeneric({
+    args: { query: v.string() },
+    handler: async (ctx, { query }) => {
+      return await ctx.db
+        .query("messages")
+        .withSearchIndex("search_body", (q) => q.search("body", query))
+        .collect();
+    },
+  }),
+  list: queryGeneric({
+    args: { paginationOpts: paginationOptsValidator },
+    handler: async (ctx, { paginationOpts }) => {
+      return await ctx.db.query("messages").paginate(paginationOpts);
+    },
+  }),
+  listNewest: queryGeneric({
+    args: { paginationOpts: paginationOptsValidator },
+    handler: async (ctx, { paginationOpts }) => {
+      return await ctx.db
+        .query("messages")
+        .order("desc")
+        .paginate(paginationOpts);
+    },
+  }),
+  whoami: queryGeneric(async (ctx) => {
+    return await ctx.auth.getUserIdentity();
+  }),
+  sendAsAction: actionGeneric({
+    args: { body: v.string() },
+    handler: async (ctx, { body }): Promise<string> => {
+      const identity = await ctx.auth.getUserIdentity();
+      return await ctx.runMutation(api.messages.send, {
+        author: identity?.name ?? "anonymous",
+        body,
+      });
+    },
+  }),
+};
+
+const files = {
+  upload: actionGeneric({
+    args: { text: v.string() },
+    handler: async (ctx, { text }) => {
+      const storageId = await ctx.storage.store(
+        new Blob([text], { type: "text/plain" }),
+      );
+      return {
+        storageId,
+        url: await ctx.storage.getUrl(storageId),
+        metadata: await ctx.storage.getMetadata(storageId),
+        text: await (await ctx.storage.get(storageId))!.text(),
+      };
+    },
+  }),
+};
+
+const embeddings = {
+  nearest: actionGeneric({
+    args: { vector: v.array(v.number()) },
+    handler: async (ctx, { vector }) => {
+      return await ctx.vectorSearch("embeddings", "by_vector", {
+        vector,
+        limit: 1,
+      });
+    },
+  }),
+};
+
+const modules = { messages, "./files.ts": files, embeddings };
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("convexTest", () => {
+  test("runs mutations and queries with indexes", async () => {
+    const t = convexTest(schema, modules);
+    await t.mutation(api.messages.send, { author: "sarah", body: "hi" });
+    await t.mutation(api.messages.send, { author: "lee", body: "hello" });
+    await t.mutation(api.messages.send, { author: "sarah", body: "bye" });
+
+    const sarahs = await t.query(api.messages.byAuthor, { author: "sarah" });
+    expect(sarahs.map((m: any) => m.body)).toEqual(["bye", "hi"]);
+  });
+
+  test("evaluates filters", async () => {
+    const t = convexTest(schema, modules);
+    await t.run(async (ctx) => {
+      await ctx.db.insert("messages", { author: "a", body: "1", likes: 1 });
+      await ctx.db.insert("messages", { author: "a", body: "2", likes: 5 });
+      await ctx.db.insert("messages", { author: "a", body: "3" });
+    });
+    const popular = await t.query(api.messages.popular, { minLikes: 2 });
+    expect(popular.map((m: any) => m.body)).toEqual(["2"]);
+  });
+
+  test("paginates", async () => {
+    const t = convexTest(schema, modules);
+    for (let i = 0; i < 5; i++) {
+      await t.mutation(api.messages.send, { author: "a", body: `${i}` });
+    }
+    const bodies = [];
+    let cursor = null;
+    for (;;) {
+      const result: any = await t.query(api.messages.list, {
+        paginationOpts: { numItems: 2, cursor },
+      });
+      bodies.push(result.page.map((m: any) => m.body));
+      if (result.isDone) {
+        break;
+      }
+      cursor = result.continueCursor;
+    }
+    expect(bodies).toEqual([["0", "1"], ["2", "3"], ["4"]]);
+  });
+
+  test("paginates backward from a cursor", async () => {
+    const t = convexTest(schema, modules);
+    for (let i = 0; i < 5; i++) {
+      await t.mutation(api.messages.send, { author: "a", body: `${i}` });
+    }
+    const first = await t.query(api.messages.list, {
+      paginationOpts: { numItems: 3, cursor: null },
+    });
+    const next = await t.query(api.messages.list, {
+      paginationOpts: { numItems: 3, cursor: first.continueCursor },
+    });
+    const previous = await t.query(api.messages.list, {
+      paginationOpts: {
+        numItems: 2,
+        cursor: first.continueCursor,
+        direction: "backward",
+      },
+    });
+    expect(next.page.map((m: any) => m.body)).toEqual(["3", "4"]);
+    expect(previous.page.map((m: any) => m.body)).toEqual(["1", "2"]);
+    expect(previous.isDone).toBe(false);
+    const start = await t.query(api.messages.list, {
+      paginationOpts: {
+        numItems: 2,
+        cursor: previous.continueCursor,
+        direction: "backward",
+      },
+    });
+    expect(start.page.map((m: any) => m.body)).toEqual(["0"]);
+    expect(start.isDone).toBe(true);
+    // The continue cursor of a backward page is where the page starts.
+    const pinned = await t.query(api.messages.list, {
+      paginationOpts: {
+        numItems: 2,
+        cursor: previous.continueCursor,
+        endCursor: first.continueCursor,
+      },
+    });
+    expect(pinned.page.map((m: any) => m.body)).toEqual(["1", "2"]);
+  });
+
+  test("rejects cursors from a query in the other order", async () => {
+    const t = convexTest(schema, modules);
+    for (let i = 0; i < 3; i++) {
+      await t.mutation(api.messages.send, { author: "a", body: `${i}` });
+    }
+    const first = await t.query(api.messages.list, {
+      paginationOpts: { numItems: 1, cursor: null },
+    });
+    await expect(
+      t.query(api.messages.listNewest, {
+        paginationOpts: { numItems: 1, cursor: first.continueCursor },
+      }),
+    ).rejects.toThrow(/InvalidCursor/);
+    const newest = await t.query(api.messages.listNewest, {
+      paginationOpts: { numItems: 1, cursor: null },
+    });
+    const before = await t.query(api.messages.listNewest, {
+      paginationOpts: {
+        numItems: 1,
+        cursor: newest.continueCursor,
+        direction: "backward",
+      },
+    });
+    expect(before.page.map((m: any) => m.body)).toEqual(["2"]);
+    expect(before.isDone).toBe(true);
+  });
+
+  test("searches", async () => {
+    const t = convexTest(schema, modules);
+    await t.mutation(api.messages.send, { author: "a", body: "the cat" });
+    await t.mutation(api.messages.send, { author: "a", body: "a dog" });
+    const results = await t.query(api.messages.search, { query: "ca" });
+    expect(results.map((m: any) => m.body)).toEqual(["the cat"]);
+  });
+
+  test("rolls back failed mutations", async () => {
+    const t = convexTest(schema, modules);
+    const error = await t
+      .mutation(api.messages.sendThenFail, { body: "oops" })
+      .catch((e) => e);
+    expect(error).toBeInstanceOf(ConvexError);
+    expect(error.data).toEqual({ code: "failed", body: "oops" });
+    const all = await t.run((ctx) => ctx.db.query("messages").collect());
+    expect(all).toEqual([]);
+  });
+
+  test("validates arguments and documents", async () => {
+    const t = convexTest(schema, modules);
+    await expect(
+      t.mutation(api.messages.send, { author: "a", body: 1 }),
+    ).rejects.toThrow(/ArgumentValidationError/);
+    await expect(
+      t.run((ctx) => ctx.db.insert("messages", { author: "a" } as any)),
+    ).rejects.toThrow(/does not match the schema/);
+    await expect(
+      t.run((ctx) => (ctx.db as any).insert("unknown", {})),
+    ).rejects.toThrow(/not defined in the schema/);
+  });
+
+  test("runs scheduled functions once they're due", async () => {
+    vi.useFakeTimers();
+    const t = convexTest(schema, modules);
+    const id: Id<"messages"> = await t.mutation(api.messages.send, {
+      author: "a",
+      body: "",
+    });
+    await t.mutation(api.messages.likeLater, { id, delayMs: 1000 });
+
+    await t.finishScheduledFunctions();
+    expect((await t.run((ctx) => ctx.db.get(id)))!.likes).toBeUndefined();
+
+    vi.advanceTimersByTime(1000);
+    await t.finishScheduledFunctions();
+    expect((await t.run((ctx) => ctx.db.get(id)))!.likes).toEqual(1);
+    const jobs = await t.run((ctx) =>
+      ctx.db.system.query("_scheduled_functions").collect(),
+    );
+    expect(jobs.map((job) => job.state)).toEqual([{ kind: "success" }]);
+  });
+
+  test("authenticates as a user in queries and actions", async () => {
+    const t = convexTest(schema, modules);
+    expect(await t.query(api.messages.whoami)).toBeNull();
+    const asSarah = t.withIdentity({ name: "Sarah" });
+    expect(await asSarah.query(api.messages.whoami)).toMatchObject({
+      name: "Sarah",
+      issuer: "https://convex.test",
+    });
+    const id = await asSarah.action(api.messages.sendAsAction, { body: "hi" });
+    expect(await t.run((ctx) => ctx.db.get(id))).toMatchObject({
+      author: "Sarah",
+    });
+  });
+
+  test("stores files", async () => {
+    const t = convexTest(schema, modules);
+    const result = await t.action(api.files.upload, { text: "hello" });
+    expect(result.text).toEqual("hello");
+    expect(result.url).toMatch(/^https:\/\/convex.test\//);
+    expect(result.metadata).toMatchObject({
+      storageId: result.storageId,
+      size: 5,
+      contentType: "text/plain",
+      sha256:
+        "2cf24dba5fb0a30e26e83b2ac5b9e29e1b161e5c1fa7425e73043362938b9824",
+    });
+  });
+
+  test("runs vector searches", async () => {
+    const t = convexTest(schema, modules);
+    const [, id] = await t.run(async (ctx) => [
+      await ctx.db.insert("embeddings", { vector: [1, 0] }),
+      await ctx.db.insert("embeddings", { vector: [0, 1] }),
+    ]);
+    const results = await t.action(api.embeddings.nearest, {
+      vector: [0.1, 0.9],
+    });
+    expect(results).toMatchObject([{ _id: id }]);
+  });
+
+  test("throws for functions that weren't passed in", async () => {
+    const t = convexTest(schema, modules);
+    await expect(t.query(api.other.list)).rejects.toThrow(
+      /Could not find a registered Convex function "other:list"/,
+    );
+  });
+});
@@ -0,0 +1,210 @@
+import { parseArgs } from "../common/index.js";
+import { Value } from "../values/index.js";
+import {
+  FunctionReference,
+  FunctionReturnType,
+  getFunctionName,
+  OptionalRestArgs,
+} from "../server/api.js";
+import { GenericDataModel } from "../server/data_model.js";
+import { GenericDatabaseWriter } from "../server/database.js";
+import { Auth, UserIdentity } from "../server/authentication.js";
+import { Scheduler } from "../server/scheduler.js";
+import { StorageActionWriter } from "../server/storage.js";
+import {
+  DataModelFromSchemaDefinition,
+  GenericSchema,
+  SchemaDefinition,
+} from "../server/schema.js";
+import { setupAuth } from "../server/impl/authentication_impl.js";
+import { setupWriter } from "../server/impl/database_impl.js";
+import { setupMutationScheduler } from "../server/impl/scheduler_impl.js";
+import { setupStorageActionWriter } from "../server/impl/storage_impl.js";
+import { InMemoryBackend, TestModules } from "./backend.js";
+
+/**
+ * The context passed to the callback of {@link TestConvex.run}.
+ *
+ * It is like the context of a mutation, except that `storage` can also store
+ * and read files, like in an action.
+ *
+ * @public
+ */
+export interface TestRunCtx<DataModel extends GenericDataModel> {
+  db: GenericDatabaseWriter<DataModel>;
+  auth: Auth;
+  storage: StorageActionWriter;
+  scheduler: Scheduler;
+}
+
+/**
+ * A Convex deployment running in memory, returned by {@link convexTest}.
+ *
+ * @public
+ */
+export interface TestConvex<DataModel extends GenericDataModel> {
+  /**
+   * Run a query, like a client would.
+   *
+   * @param query - A {@link FunctionReference} for the query to run, e.g.
+   * `api.messages.list`.
+   * @param args - The arguments to the query.
+   * @returns The query's result.
+   */
+  query<Query extends FunctionReference<"query", "public" | "internal">>(
+    query: Query,
+    ...args: OptionalRestArgs<Query>
+  ): Promise<FunctionReturnType<Query>>;
+
+  /**
+   * Run a mutation, like a client would. If the mutation throws, none of
+   * its writes are applied.
+   *
+   * @param mutation - A {@link FunctionReference} for the mutation to run,
+   * e.g. `api.messages.send`.
+   * @param args - The arguments to the mutation.
+   * @returns The mutation's result.
+   */
+  mutation<
+    Mutation extends FunctionReference<"mutation", "public" | "internal">,
+  >(
+    mutation: Mutation,
+    ...args: OptionalRestArgs<Mutation>
+  ): Promise<FunctionReturnType<Mutation>>;
+
+  /**
+   * Run an action, like a client would.
+   *
+   * @param action - A {@link FunctionReference} for the action to run.
+   * @param args - The arguments to the action.
+   * @returns The action's result.
+   */
+  action<Action extends FunctionReference<"action", "public" | "internal">>(
+    action: Action,
+    ...args: OptionalRestArgs<Action>
+  ): Promise<FunctionReturnType<Action>>;
+
+  /**
+   * Run arbitrary code in a mutation transaction, e.g. to set up or inspect
+   * the database in a test.
+   *
+   * ```ts
+   * const messages = await t.run((ctx) => ctx.db.query("messages").collect());
+   * ```
+   *
+   * @param func - The code to run. Its writes are rolled back if it throws.
+   * @returns The value `func` returns, as is.
+   */
+  run<Output>(
+    func: (ctx: TestRunCtx<DataModel>) => Promise<Output>,
+  ): Promise<Output>;
+
+  /**
+   * Get a copy of this deployment that calls functions as the given user.
+   *
+   * `ctx.auth.getUserIdentity()` returns `identity`, with `subject`,
+   * `issuer` and `tokenIdentifier` filled in if they're missing.
+   *
+   * @param identity - The fields of the user's {@link UserIdentity}.
+   */
+  withIdentity(identity: Partial<UserIdentity>): TestConvex<DataModel>;
+
+  /**
+   * Run the scheduled functions that are due, including any functions they
+   * schedule that are due too.
+   *
+   * Functions scheduled with a delay only become due once `Date.now()`
+   * reaches their scheduled time, so use your test framework's fake timers
+   * (e.g. `vi.useFakeTimers()` and `vi.advanceTimersByTime()`) to run them.
+   */
+  finishScheduledFunctions(): Promise<void>;
+}
+
+/**
+ * Create a Convex deployment that runs in memory, to unit test Convex
+ * functions without a backend.
+ *
+ * ```ts
+ * import { convexTest } from "convex/testing";
+ * import { expect, test } from "vitest";
+ * import { api } from "./_generated/api";
+ * import schema from "./schema";
+ * import * as messages from "./messages";
+ *
+ * test("sending messages", async () => {
+ *   const t = convexTest(schema, { messages });
+ *   await t.mutation(api.messages.send, { body: "Hi!", author: "Sarah" });
+ *   const messages = await t.query(api.messages.list);
+ *   expect(messages).toMatchObject([{ body: "Hi!", author: "Sarah" }]);
+ * });
+ * ```
+ *
+ * Documents are validated against the schema and queries can use its
+ * indexes. Scheduled functions, file storage and authentication are
+ * simulated too.
+ *
+ * @param schema - The schema from `convex/schema.ts`, if the app has one.
+ * @param modules - The modules defining the functions the test calls, see
+ * {@link TestModules}.
+ * @returns A {@link TestConvex} to call functions with.
+ *
+ * @public
+ */
+export function convexTest<Schema extends GenericSchema>(
+  schema?: SchemaDefinition<Schema, boolean>,
+  modules: TestModules = {},
+): TestConvex<
+  DataModelFromSchemaDefinition<SchemaDefinition<Schema, boolean>>
+> {
+  return testConvex(new InMemoryBackend(schema, modules), null);
+}
+
+function testConvex(
+  backend: InMemoryBackend,
+  identity: UserIdentity | null,
+): TestConvex<any> {
+  const runFunction = async (
+    udfType: "query" | "mutation" | "action",
+    reference: FunctionReference<any, any>,
+    args?: Record<string, Value>,
+  ): Promise<any> => {
+    backend.install();
+    return await backend.runFunction(
+      udfType,
+      getFunctionName(reference),
+      parseArgs(args),
+      identity,
+    );
+  };
+  return {
+    query: (query, ...args) => runFunction("query", query, args[0]),
+    mutation: (mutation, ...args) => runFunction("mutation", mutation, args[0]),
+    action: (action, ...args) => runFunction("action", action, args[0]),
+    run: async (func) => {
+      backend.install();
+      return await backend.runInTransaction(identity, () =>
+        func({
+          db: setupWriter(),
+          auth: setupAuth(""),
+          storage: setupStorageActionWriter(""),
+          scheduler: setupMutationScheduler(),
+        }),
+      );
+    },
+    withIdentity: (fields) => {
+      const subject =
+        fields.subject ?? `user_${Math.random().toString(36).slice(2)}`;
+      const issuer = fields.issuer ?? "https://convex.test";
+      return testConvex(backend, {
+        ...fields,
+        subject,
+        issuer,
+        tokenIdentifier: fields.tokenIdentifier ?? `${issuer}|${subject}`,
+      });
+    },
+    finishScheduledFunctions: async () => {
+      backend.install();
+      await backend.finishScheduledFunctions();
+    },
+  };
+}
@@ -0,0 +1,503 @@
+import { GenericValidator } from "../values/validator.js";
+import { ValidatorJSON } from "../values/validators.js";
+import { formatIssue, validateValue } from "../values/validate.js";
+import { convexOrUndefinedToJson, JSONValue, Value } from "../values/value.js";
+import { SchemaDefinition } from "../server/schema.js";
+import { SerializedQuery, Source } from "../server/impl/query_impl.js";
+import { SerializedRangeExpression } from "../server/impl/index_range_builder_impl.js";
+import { compareArrays, compareValues } from "./compare.js";
+import {
+  evaluateFilter,
+  getFieldValue,
+  jsonToConvexOrUndefined,
+} from "./filter.js";
+import { validatorFromJson } from "../values/validator_from_json.js";
+
+/**
+ * A document stored in the in-memory database.
+ */
+export type Document = Record<string, Value> & {
+  _id: string;
+  _creationTime: number;
+};
+
+type IndexKey = (Value | undefined)[];
+
+type TableSchema = {
+  indexes: Map<string, string[]>;
+  searchIndexes: Map<string, { searchField: string; filterFields: string[] }>;
+  vectorIndexes: Map<string, { vectorField: string; dimensions: number }>;
+  documentType: GenericValidator;
+};
+
+type ExportedSchema = {
+  tables: {
+    tableName: string;
+    indexes: { indexDescriptor: string; fields: string[] }[];
+    searchIndexes: {
+      indexDescriptor: string;
+      searchField: string;
+      filterFields: string[];
+    }[];
+    vectorIndexes: {
+      indexDescriptor: string;
+      vectorField: string;
+      dimensions: number;
+    }[];
+    documentType: ValidatorJSON;
+  }[];
+  schemaValidation: boolean;
+};
+
+/**
+ * A copy of the database contents that can be restored to roll back a
+ * failed mutation.
+ */
+export type Snapshot = Map<string, Map<string, Document>>;
+
+export type PageResult = {
+  page: Document[];
+  isDone: boolean;
+  continueCursor: string;
+};
+
+// A cursor past every document, returned once a query has no more results.
+const END_CURSOR = "_end_cursor";
+
+/**
+ * An in-memory document store that executes the queries serialized by
+ * `QueryImpl`, using the indexes declared in a schema.
+ */
+export class InMemoryDatabase {
+  private tables: Map<string, Map<string, Document>> = new Map();
+  private tableSchemas: Map<string, TableSchema> = new Map();
+  private schemaValidation: boolean;
+  private nextId = 0;
+  private lastCreationTime = 0;
+
+  constructor(schema?: SchemaDefinition<any, boolean>) {
+    this.schemaValidation = false;
+    if (schema === undefined) {
+      return;
+    }
+    const exported: ExportedSchema = JSON.parse(schema.export());
+    this.schemaValidation = exported.schemaValidation;
+    for (const table of exported.tables) {
+      this.tableSchemas.set(table.tableName, {
+        indexes: new Map(
+          table.indexes.map((index) => [index.indexDescriptor, index.fields]),
+        ),
+        searchIndexes: new Map(
+          table.searchIndexes.map((index) => [index.indexDescriptor, index]),
+        ),
+        vectorIndexes: new Map(
+          table.vectorIndexes.map((index) => [index.indexDescriptor, index]),
+        ),
+        documentType: validatorFromJson(table.documentType),
+      });
+    }
+  }
+
+  snapshot(): Snapshot {
+    return new Map(
+      [...this.tables].map(([tableName, documents]) => [
+        tableName,
+        new Map(documents),
+      ]),
+    );
+  }
+
+  restore(snapshot: Snapshot) {
+    this.tables = snapshot;
+  }
+
+  tableNameFromId(id: string): string | null {
+    const match = /^\d+;(.+)$/.exec(id);
+    return match === null ? null : match[1];
+  }
+
+  normalizeId(tableName: string, id: string): string | null {
+    return this.tableNameFromId(id) === tableName ? id : null;
+  }
+
+  get(id: string): Document | null {
+    const tableName = this.tableNameFromId(id);
+    if (tableName === null) {
+      throw new Error(`Invalid ID "${id}"`);
+    }
+    return this.tables.get(tableName)?.get(id) ?? null;
+  }
+
+  insert(tableName: string, value: Record<string, Value>): string {
+    const _id = `${++this.nextId};${tableName}`;
+    const _creationTime = Math.max(Date.now(), this.lastCreationTime + 1);
+    this.lastCreationTime = _creationTime;
+    this.write(tableName, { ...value, _id, _creationTime });
+    return _id;
+  }
+
+  patch(id: string, fields: Record<string, Value | undefined>) {
+    const existing = this.getExisting(id, "Update");
+    const document: Record<string, Value> = { ...existing };
+    for (const [fieldName, value] of Object.entries(fields)) {
+      if (value === undefined) {
+        delete document[fieldName];
+      } else {
+        document[fieldName] = value;
+      }
+    }
+    this.write(
+      this.tableNameFromId(id)!,
+      this.withSystemFields(document, existing),
+    );
+  }
+
+  replace(id: string, value: Record<string, Value>) {
+    const existing = this.getExisting(id, "Replace");
+    this.write(
+      this.tableNameFromId(id)!,
+      this.withSystemFields(value, existing),
+    );
+  }
+
+  delete(id: string) {
+    this.getExisting(id, "Delete");
+    this.tables.get(this.tableNameFromId(id)!)!.delete(id);
+  }
+
+  count(tableName: string): number {
+    return this.tables.get(tableName)?.size ?? 0;
+  }
+
+  /**
+   * Every document a query returns, in order.
+   */
+  query(query: SerializedQuery): Document[] {
+    return this.queryPage(query, null, null, null).page;
+  }
+
+  /**
+   * One page of a query's results. Cursors are the serialized index key of
+   * the last document read, so pages stay stable as documents are added or
+   * removed around them. Like the deployment's cursors, they only work with a
+   * query in the order that created them.
+   */
+  queryPage(
+    query: SerializedQuery,
+    cursor: string | null,
+    endCursor: string | null,
+    pageSize: number | null,
+  ): PageResult {
+    const order =
+      query.source.type !== "Search" && query.source.order === "desc"
+        ? "desc"
+        : "asc";
+    const direction = order === "desc" ? -1 : 1;
+    const after = (key: IndexKey, cursor: string) =>
+      cursor === END_CURSOR
+        ? false
+        : direction * compareArrays(key, parseCursor(cursor, order)) > 0;
+    let entries = this.source(query.source);
+    if (direction === -1) {
+      entries.reverse();
+    }
+    if (cursor !== null) {
+      entries = entries.filter(({ key }) => after(key, cursor));
+    }
+    if (endCursor !== null) {
+      entries = entries.filter(({ key }) => !after(key, endCursor));
+    }
+    const remaining = query.operators.map((operator) =>
+      "limit" in operator ? operator.limit : Infinity,
+    );
+    const page: Document[] = [];
+    let lastKey: IndexKey | null = null;
+    let isDone = true;
+    scan: for (const { key, document } of entries) {
+      if (endCursor === null && pageSize !== null && page.length >= pageSize) {
+        isDone = false;
+        break;
+      }
+      for (const [j, operator] of query.operators.entries()) {
+        if ("filter" in operator) {
+          if (evaluateFilter(operator.filter, document) !== true) {
+            lastKey = key;
+            continue scan;
+          }
+        } else if (remaining[j]-- <= 0) {
+          break scan;
+        }
+      }
+      page.push(document);
+      lastKey = key;
+    }
+    const continueCursor =
+      endCursor ??
+      (lastKey !== null ? serializeCursor(lastKey, order) : cursor) ??
+      END_CURSOR;
+    return { page, isDone, continueCursor };
+  }
+
+  /**
+   * The IDs and scores of the documents nearest to a vector, by cosine
+   * similarity.
+   */
+  vectorSearch(query: {
+    indexName: string;
+    limit?: number;
+    vector: number[];
+    expressions: JSONValue;
+  }): { _id: string; _score: number }[] {
+    const [tableName, indexName] = splitIndexName(query.indexName);
+    const index = this.tableSchemas
+      .get(tableName)
+      ?.vectorIndexes.get(indexName);
+    if (index === undefined) {
+      throw new Error(`Vector index ${query.indexName} not found.`);
+    }
+    if (query.vector.length !== index.dimensions) {
+      throw new Error(
+        `Vector dimensions ${query.vector.length} don't match index ${query.indexName} with ${index.dimensions} dimensions.`,
+      );
+    }
+    const results = [];
+    for (const document of this.documents(tableName)) {
+      const vector = getFieldValue(document, index.vectorField);
+      if (!Array.isArray(vector) || vector.length !== index.dimensions) {
+        continue;
+      }
+      if (
+        query.expressions !== null &&
+        evaluateFilter(query.expressions, document) !== true
+      ) {
+        continue;
+      }
+      results.push({
+        _id: document._id,
+        _score: cosineSimilarity(query.vector, vector as number[]),
+      });
+    }
+    results.sort((a, b) => b._score - a._score);
+    return results.slice(0, query.limit ?? 10);
+  }
+
+  documents(tableName: string): Document[] {
+    return [...(this.tables.get(tableName)?.values() ?? [])];
+  }
+
+  private getExisting(id: string, operation: string): Document {
+    const existing = this.get(id);
+    if (existing === null) {
+      throw new Error(`${operation} on nonexistent document ID ${id}`);
+    }
+    return existing;
+  }
+
+  private withSystemFields(
+    value: Record<string, Value>,
+    existing: Document,
+  ): Document {
+    for (const fieldName of ["_id", "_creationTime"] as const) {
+      if (
+        value[fieldName] !== undefined &&
+        value[fieldName] !== existing[fieldName]
+      ) {
+        throw new Error(
+          `Provided ${fieldName} field ${String(value[fieldName])} doesn't match the existing document's ${fieldName}.`,
+        );
+      }
+    }
+    return {
+      ...value,
+      _id: existing._id,
+      _creationTime: existing._creationTime,
+    };
+  }
+
+  private write(tableName: string, document: Document) {
+    if (this.schemaValidation && !tableName.startsWith("_")) {
+      this.validateDocument(tableName, document);
+    }
+    let table = this.tables.get(tableName);
+    if (table === undefined) {
+      table = new Map();
+      this.tables.set(tableName, table);
+    }
+    table.set(document._id, document);
+  }
+
+  private validateDocument(tableName: string, document: Document) {
+    const tableSchema = this.tableSchemas.get(tableName);
+    if (tableSchema === undefined) {
+      throw new Error(
+        `Failed to insert or update a document in table "${tableName}" because it is not defined in the schema.`,
+      );
+    }
+    const { _id, _creationTime, ...fields } = document;
+    const result = validateValue(tableSchema.documentType, fields);
+    if (!result.success) {
+      throw new Error(
+        `Failed to insert or update a document in table "${tableName}" because it does not match the schema:\n${result.issues
+          .map((issue) => `  ${formatIssue(issue)}`)
+          .join("\n")}`,
+      );
+    }
+  }
+
+  private source(source: Source): { key: IndexKey; document: Document }[] {
+    let entries: { key: IndexKey; document: Document }[];
+    switch (source.type) {
+      case "FullTableScan":
+        entries = this.documents(source.tableName).map((document) => ({
+          key: [document._creationTime, document._id],
+          document,
+        }));
+        break;
+      case "IndexRange": {
+        const [tableName, indexName] = splitIndexName(source.indexName);
+        const fields = this.indexFields(tableName, indexName);
+        entries = this.documents(tableName)
+          .filter((document) => inRange(document, source.range))
+          .map((document) => ({
+            key: fields.map((fieldPath) => getFieldValue(document, fieldPath)),
+            document,
+          }));
+        break;
+      }
+      case "Search": {
+        const [tableName, indexName] = splitIndexName(source.indexName);
+        const index = this.tableSchemas
+          .get(tableName)
+          ?.searchIndexes.get(indexName);
+        if (index === undefined) {
+          throw new Error(`Search index ${source.indexName} not found.`);
+        }
+        entries = [];
+        for (const document of this.documents(tableName)) {
+          const score = searchScore(document, source.filters);
+          if (score > 0) {
+            entries.push({
+              key: [-score, document._creationTime, document._id],
+              document,
+            });
+          }
+        }
+        break;
+      }
+    }
+    return entries.sort((a, b) => compareArrays(a.key, b.key));
+  }
+
+  private indexFields(tableName: string, indexName: string): string[] {
+    if (indexName === "by_creation_time") {
+      return ["_creationTime", "_id"];
+    }
+    if (indexName === "by_id") {
+      return ["_id"];
+    }
+    const fields = this.tableSchemas.get(tableName)?.indexes.get(indexName);
+    if (fields === undefined) {
+      throw new Error(`Index ${tableName}.${indexName} not found.`);
+    }
+    return [...fields, "_creationTime", "_id"];
+  }
+}
+
+function splitIndexName(fullIndexName: string): [string, string] {
+  const dot = fullIndexName.indexOf(".");
+  return [fullIndexName.slice(0, dot), fullIndexName.slice(dot + 1)];
+}
+
+function inRange(
+  document: Document,
+  range: ReadonlyArray<SerializedRangeExpression>,
+): boolean {
+  return range.every(({ type, fieldPath, value }) => {
+    const comparison = compareValues(
+      getFieldValue(document, fieldPath),
+      jsonToConvexOrUndefined(value),
+    );
+    switch (type) {
+      case "Eq":
+        return comparison === 0;
+      case "Gt":
+        return comparison > 0;
+      case "Gte":
+        return comparison >= 0;
+      case "Lt":
+        return comparison < 0;
+      case "Lte":
+        return comparison <= 0;
+    }
+  });
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((term) => term.length > 0);
+}
+
+// The number of search terms found in the document, like Convex the last
+// term also matches as a prefix. Zero if the document doesn't match.
+function searchScore(
+  document: Document,
+  filters: Extract<Source, { type: "Search" }>["filters"],
+): number {
+  let score = 0;
+  for (const filter of filters) {
+    const fieldValue = getFieldValue(document, filter.fieldPath);
+    if (filter.type === "Eq") {
+      if (compareValues(fieldValue, jsonToConvexOrUndefined(filter.value))) {
+        return 0;
+      }
+      continue;
+    }
+    if (typeof fieldValue !== "string") {
+      return 0;
+    }
+    const documentTerms = tokenize(fieldValue);
+    const searchTerms = tokenize(filter.value);
+    searchTerms.forEach((term, i) => {
+      const isLast = i === searchTerms.length - 1;
+      if (
+        documentTerms.some((documentTerm) =>
+          isLast ? documentTerm.startsWith(term) : documentTerm === term,
+        )
+      ) {
+        score++;
+      }
+    });
+  }
+  return score;
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+function serializeCursor(key: IndexKey, order: "asc" | "desc"): string {
+  return JSON.stringify({ order, key: key.map(convexOrUndefinedToJson) });
+}
+
+function parseCursor(cursor: string, order: "asc" | "desc"): IndexKey {
+  const parsed = JSON.parse(cursor) as {
+    order: "asc" | "desc";
+    key: JSONValue[];
+  };
+  if (parsed.order !== order) {
+    throw new Error(
+      `InvalidCursor: Tried to run a query in "${order}" order with a cursor from a query in "${parsed.order}" order.`,
+    );
+  }
+  return parsed.key.map(jsonToConvexOrUndefined);
+}
@@ -0,0 +1,139 @@
+import { JSONValue, jsonToConvex, Value } from "../values/value.js";
+import { compareValues } from "./compare.js";
+
+/**
+ * Parse JSON produced by `convexOrUndefinedToJson`, which encodes a missing
+ * value as `{ $undefined: null }`.
+ */
+export function jsonToConvexOrUndefined(json: JSONValue): Value | undefined {
+  if (
+    typeof json === "object" &&
+    json !== null &&
+    !Array.isArray(json) &&
+    Object.keys(json).length === 1 &&
+    "$undefined" in json
+  ) {
+    return undefined;
+  }
+  return jsonToConvex(json);
+}
+
+/**
+ * Look up a dotted field path like `"author.name"` in a document, returning
+ * `undefined` if any part of the path is missing.
+ */
+export function getFieldValue(
+  document: Record<string, Value>,
+  fieldPath: string,
+): Value | undefined {
+  let value: Value | undefined = document;
+  for (const fieldName of fieldPath.split(".")) {
+    if (
+      typeof value !== "object" ||
+      value === null ||
+      Array.isArray(value) ||
+      value instanceof ArrayBuffer
+    ) {
+      return undefined;
+    }
+    value = (value as Record<string, Value | undefined>)[fieldName];
+  }
+  return value;
+}
+
+/**
+ * Evaluate a filter expression serialized by `filterBuilderImpl` against a
+ * document.
+ */
+export function evaluateFilter(
+  expression: JSONValue,
+  document: Record<string, Value>,
+): Value | undefined {
+  if (typeof expression !== "object" || expression === null) {
+    throw new Error(`Invalid filter expression ${JSON.stringify(expression)}`);
+  }
+  const [[op, operand]] = Object.entries(expression);
+  const evaluate = (e: JSONValue) => evaluateFilter(e, document);
+  const evaluateArgs = () => (operand as JSONValue[]).map(evaluate);
+  switch (op) {
+    case "$literal":
+      return jsonToConvexOrUndefined(operand);
+    case "$field":
+      return getFieldValue(document, operand as string);
+    case "$eq": {
+      const [l, r] = evaluateArgs();
+      return compareValues(l, r) === 0;
+    }
+    case "$neq": {
+      const [l, r] = evaluateArgs();
+      return compareValues(l, r) !== 0;
+    }
+    case "$lt": {
+      const [l, r] = evaluateArgs();
+      return compareValues(l, r) < 0;
+    }
+    case "$lte": {
+      const [l, r] = evaluateArgs();
+      return compareValues(l, r) <= 0;
+    }
+    case "$gt": {
+      const [l, r] = evaluateArgs();
+      return compareValues(l, r) > 0;
+    }
+    case "$gte": {
+      const [l, r] = evaluateArgs();
+      return compareValues(l, r) >= 0;
+    }
+    case "$and":
+      return evaluateArgs().every((value) => value === true);
+    case "$or":
+      return evaluateArgs().some((value) => value === true);
+    case "$not":
+      return evaluate(operand) !== true;
+    case "$neg": {
+      const value = evaluate(operand);
+      if (typeof value !== "number" && typeof value !== "bigint") {
+        throw new Error(`Can't negate non-numeric value ${String(value)}`);
+      }
+      return -value;
+    }
+    case "$add":
+    case "$sub":
+    case "$mul":
+    case "$div":
+    case "$mod": {
+      const [l, r] = evaluateArgs();
+      return arithmetic(op, l, r);
+    }
+    default:
+      throw new Error(`Unsupported filter expression ${op}`);
+  }
+}
+
+function arithmetic(
+  op: "$add" | "$sub" | "$mul" | "$div" | "$mod",
+  l: Value | undefined,
+  r: Value | undefined,
+): Value {
+  if (
+    !(typeof l === "number" && typeof r === "number") &&
+    !(typeof l === "bigint" && typeof r === "bigint")
+  ) {
+    throw new Error(
+      `Arithmetic operands must both be numbers or both be bigints, received ${typeof l} and ${typeof r}`,
+    );
+  }
+  const [a, b] = [l, r] as [number, number];
+  switch (op) {
+    case "$add":
+      return a + b;
+    case "$sub":
+      return a - b;
+    case "$mul":
+      return a * b;
+    case "$div":
+      return a / b;
+    case "$mod":
+      return a % b;
+  }
+}
@@ -0,0 +1,18 @@
+/**
+ * Utilities for unit testing Convex functions without a Convex deployment.
+ *
+ * Usage:
+ * ```ts
+ * import { convexTest } from "convex/testing";
+ * ```
+ *
+ * {@link convexTest} runs queries, mutations and actions against an
+ * in-memory database, so tests can run in any JavaScript test framework
+ * without network access.
+ *
+ * @module
+ */
+
+export { convexTest } from "./convex_test.js";
+export type { TestConvex, TestRunCtx } from "./convex_test.js";
+export type { TestModules } from "./backend.js";
@@ -40,6 +40,10 @@ export type {
   VUnion,
   VOptional,
 } from "./validators.js";
+export { validateValue, formatIssue, ValidationError } from "./validate.js";
+export type { ValidationIssue, ValidationResult } from "./validate.js";
+export { validatorJsonToJsonSchema } from "./json_schema.js";
+export type { JsonSchema } from "./json_schema.js";
 import * as Base64 from "./base64.js";
 export { Base64 };
 export type { Infer } from "./validator.js";
@@ -0,0 +1,81 @@
+import { test, expect } from "vitest";
+import { v } from "./validator.js";
+import { validatorJsonToJsonSchema } from "./json_schema.js";
+
+test("primitive validators", () => {
+  expect(validatorJsonToJsonSchema(v.string().json)).toEqual({
+    type: "string",
+  });
+  expect(validatorJsonToJsonSchema(v.float64().json)).toEqual({
+    type: "number",
+  });
+  expect(validatorJsonToJsonSchema(v.null().json)).toEqual({ type: "null" });
+  expect(validatorJsonToJsonSchema(v.any().json)).toEqual({});
+  expect(validatorJsonToJsonSchema(v.literal(BigInt(1)).json)).toEqual({
+    const: { $integer: "AQAAAAAAAAA=" },
+  });
+  expect(validatorJsonToJsonSchema(v.int64().json)).toEqual({
+    type: "object",
+    description: "Base64 encoded 64-bit signed integer",
+    properties: { $integer: { type: "string", contentEncoding: "base64" } },
+    required: ["$integer"],
+    additionalProperties: false,
+  });
+});
+
+test("nested validators", () => {
+  const validator = v.object({
+    author: v.id("users"),
+    body: v.optional(v.string()),
+    tags: v.array(v.union(v.literal("a"), v.literal("b"))),
+    counts: v.record(v.id("users"), v.number()),
+  });
+  expect(validatorJsonToJsonSchema(validator.json)).toEqual({
+    type: "object",
+    properties: {
+      author: {
+        type: "string",
+        description: 'ID of a document in the "users" table',
+      },
+      body: { type: "string" },
+      tags: {
+        type: "array",
+        items: { anyOf: [{ const: "a" }, { const: "b" }] },
+      },
+      counts: {
+        type: "object",
+        additionalProperties: { type: "number" },
+        propertyNames: {
+          type: "string",
+          description: 'ID of a document in the "users" table',
+        },
+      },
+    },
+    required: ["author", "tags", "counts"],
+    additionalProperties: false,
+  });
+});
+
+test("discriminated unions", () => {
+  const validator = v.discriminatedUnion("kind", [
+    v.object({ kind: v.literal("a") }),
+    v.object({ kind: v.literal("b") }),
+  ]);
+  expect(validatorJsonToJsonSchema(validator.json)).toEqual({
+    oneOf: [
+      {
+        type: "object",
+        properties: { kind: { const: "a" } },
+        required: ["kind"],
+        additionalProperties: false,
+      },
+      {
+        type: "object",
+        properties: { kind: { const: "b" } },
+        required: ["kind"],
+        additionalProperties: false,
+      },
+    ],
+    discriminator: { propertyName: "kind" },
+  });
+});
@@ -0,0 +1,115 @@
+import { ValidatorJSON } from "./validators.js";
+import { JSONValue } from "./value.js";
+
+/**
+ * A [JSON Schema](https://json-schema.org/draft/2020-12/json-schema-core)
+ * (draft 2020-12) document.
+ *
+ * @public
+ */
+export type JsonSchema = { [keyword: string]: JSONValue };
+
+/**
+ * Convert the JSON representation of a validator to a JSON Schema describing
+ * the same values in the JSON encoding Convex uses over HTTP, i.e. the output
+ * of {@link convexToJson}.
+ *
+ * In that encoding `v.int64()` values are objects like
+ * `{ "$integer": "<base64>" }` and `v.bytes()` values are objects like
+ * `{ "$bytes": "<base64>" }`. Special floating point values like `NaN`, which
+ * are encoded as `{ "$float": "<base64>" }`, are not described by the schema
+ * for `v.float64()`.
+ *
+ * @param validator - A {@link ValidatorJSON}, for example parsed from the
+ * `args` of a function returned by the deployment.
+ * @returns A draft 2020-12 {@link JsonSchema} without a `$schema` keyword, so
+ * that it can be embedded in other documents.
+ * @public
+ */
+export function validatorJsonToJsonSchema(
+  validator: ValidatorJSON,
+): JsonSchema {
+  switch (validator.type) {
+    case "null":
+      return { type: "null" };
+    case "number":
+      return { type: "number" };
+    case "bigint":
+      return encodedObjectSchema("$integer", "64-bit signed integer");
+    case "boolean":
+      return { type: "boolean" };
+    case "string":
+      return { type: "string" };
+    case "bytes":
+      return encodedObjectSchema("$bytes", "bytes");
+    case "any":
+      return {};
+    case "literal":
+      return { const: validator.value };
+    case "id":
+      return {
+        type: "string",
+        description: `ID of a document in the "${validator.tableName}" table`,
+      };
+    case "array":
+      return {
+        type: "array",
+        items: validatorJsonToJsonSchema(validator.value),
+      };
+    case "record": {
+      const schema: JsonSchema = {
+        type: "object",
+        additionalProperties: validatorJsonToJsonSchema(
+          validator.values.fieldType,
+        ),
+      };
+      if (validator.keys.type !== "string") {
+        schema.propertyNames = validatorJsonToJsonSchema(validator.keys);
+      }
+      return schema;
+    }
+    case "object": {
+      const properties: Record<string, JsonSchema> = {};
+      const required: string[] = [];
+      for (const [fieldName, field] of Object.entries(validator.value)) {
+        properties[fieldName] = validatorJsonToJsonSchema(field.fieldType);
+        if (!field.optional) {
+          required.push(fieldName);
+        }
+      }
+      return {
+        type: "object",
+        properties,
+        required,
+        additionalProperties: false,
+      };
+    }
+    case "union":
+      if (validator.discriminator !== undefined) {
+        // `discriminator` is an OpenAPI keyword that JSON Schema validators
+        // ignore. Members have distinct discriminator values so exactly one
+        // of them matches.
+        return {
+          oneOf: validator.value.map(validatorJsonToJsonSchema),
+          discriminator: { propertyName: validator.discriminator },
+        };
+      }
+      return { anyOf: validator.value.map(validatorJsonToJsonSchema) };
+    default: {
+      const _typeCheck: never = validator;
+      throw new Error(`Unknown validator type ${(validator as any).type}`);
+    }
+  }
+}
+
+function encodedObjectSchema(key: string, description: string): JsonSchema {
+  return {
+    type: "object",
+    description: `Base64 encoded ${description}`,
+    properties: {
+      [key]: { type: "string", contentEncoding: "base64" },
+    },
+    required: [key],
+    additionalProperties: false,
+  };
+}
@@ -0,0 +1,321 @@
+import { isSimpleObject } from "../common/index.js";
+import { GenericValidator } from "./validator.js";
+import { convexToJson } from "./value.js";
+
+// This code is used by code that may not have bigint literals.
+const MIN_INT64 = BigInt("-9223372036854775808");
+const MAX_INT64 = BigInt("9223372036854775807");
+
+/**
+ * A single reason a value did not match a validator.
+ *
+ * @public
+ */
+export type ValidationIssue = {
+  /**
+   * The location of the invalid value within the validated value: object
+   * properties and record keys are strings, array indexes are numbers.
+   *
+   * The empty array refers to the validated value itself.
+   */
+  path: (string | number)[];
+  message: string;
+};
+
+/**
+ * The result of {@link validateValue}.
+ *
+ * @public
+ */
+export type ValidationResult<T> =
+  | { success: true; value: T }
+  | { success: false; issues: ValidationIssue[] };
+
+/**
+ * Thrown by `parse` when a value does not match a validator.
+ *
+ * @public
+ */
+export class ValidationError extends Error {
+  name = "ValidationError";
+  readonly issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[]) {
+    super(
+      `Value does not match validator:\n${issues
+        .map((issue) => `  ${formatIssue(issue)}`)
+        .join("\n")}`,
+    );
+    this.issues = issues;
+  }
+}
+
+/**
+ * Check a value against a validator on the client, using the same rules as
+ * Convex uses for function arguments and documents.
+ *
+ * `v.id()` validators only check that the value is a string since the table
+ * an ID belongs to can only be determined by a Convex deployment.
+ *
+ * ```ts
+ * const result = validateValue(v.object({ name: v.string() }), { name: 1 });
+ * if (!result.success) {
+ *   console.log(result.issues); // [{ path: ["name"], message: "..." }]
+ * }
+ * ```
+ *
+ * @param validator - The {@link Validator} to check against.
+ * @param value - The value to check.
+ * @returns A {@link ValidationResult} with the value if it's valid and the
+ * reasons it's invalid otherwise.
+ * @public
+ */
+export function validateValue<V extends GenericValidator>(
+  validator: V,
+  value: unknown,
+): ValidationResult<V["type"]> {
+  const issues: ValidationIssue[] = [];
+  if (value !== undefined || validator.isOptional !== "optional") {
+    collectIssues(validator, value, [], issues);
+  }
+  if (issues.length > 0) {
+    return { success: false, issues };
+  }
+  return { success: true, value: value as V["type"] };
+}
+
+/**
+ * Format a {@link ValidationIssue} as a single line, e.g.
+ * `at .messages[2].body: Expected string, received number`.
+ *
+ * @public
+ */
+export function formatIssue(issue: ValidationIssue): string {
+  if (issue.path.length === 0) {
+    return issue.message;
+  }
+  const path = issue.path
+    .map((segment) =>
+      typeof segment === "number" ? `[${segment}]` : `.${segment}`,
+    )
+    .join("");
+  return `at ${path}: ${issue.message}`;
+}
+
+function collectIssues(
+  validator: GenericValidator,
+  value: unknown,
+  path: (string | number)[],
+  issues: ValidationIssue[],
+) {
+  const fail = (message: string) => issues.push({ path, message });
+  const expect = (expected: string) =>
+    fail(`Expected ${expected}, received ${describeValue(value)}`);
+  switch (validator.kind) {
+    case "id":
+      if (typeof value !== "string") {
+        expect(`an ID for table "${validator.tableName}"`);
+      }
+      return;
+    case "string":
+      if (typeof value !== "string") {
+        expect("string");
+      }
+      return;
+    case "float64":
+      if (typeof value !== "number") {
+        expect("number");
+      }
+      return;
+    case "int64":
+      if (typeof value !== "bigint") {
+        expect("bigint");
+      } else if (value < MIN_INT64 || MAX_INT64 < value) {
+        fail(`BigInt ${value} does not fit into a 64-bit signed integer`);
+      }
+      return;
+    case "boolean":
+      if (typeof value !== "boolean") {
+        expect("boolean");
+      }
+      return;
+    case "null":
+      if (value !== null) {
+        expect("null");
+      }
+      return;
+    case "bytes":
+      if (!(value instanceof ArrayBuffer)) {
+        expect("ArrayBuffer");
+      }
+      return;
+    case "any":
+      if (value === undefined) {
+        expect("a Convex value");
+      }
+      return;
+    case "literal":
+      if (value !== validator.value) {
+        expect(JSON.stringify(convexToJson(validator.value as any)));
+      }
+      return;
+    case "array":
+      if (!Array.isArray(value)) {
+        expect("array");
+        return;
+      }
+      value.forEach((element, index) => {
+        collectIssues(validator.element, element, [...path, index], issues);
+      });
+      return;
+    case "object": {
+      if (!isPlainObject(value)) {
+        expect("object");
+        return;
+      }
+      for (const [fieldName, fieldValidator] of Object.entries(
+        validator.fields,
+      )) {
+        const fieldValue = value[fieldName];
+        if (fieldValue === undefined) {
+          if (fieldValidator.isOptional !== "optional") {
+            issues.push({
+              path: [...path, fieldName],
+              message: "Missing required field",
+            });
+          }
+          continue;
+        }
+        collectIssues(fieldValidator, fieldValue, [...path, fieldName], issues);
+      }
+      for (const fieldName of Object.keys(value)) {
+        if (
+          !(fieldName in validator.fields) &&
+          value[fieldName] !== undefined
+        ) {
+          issues.push({
+            path: [...path, fieldName],
+            message: "Unexpected field",
+          });
+        }
+      }
+      return;
+    }
+    case "record": {
+      if (!isPlainObject(value)) {
+        expect("object");
+        return;
+      }
+      for (const [key, entry] of Object.entries(value)) {
+        if (entry === undefined) {
+          continue;
+        }
+        const keyIssues: ValidationIssue[] = [];
+        collectIssues(validator.key, key, [...path, key], keyIssues);
+        if (keyIssues.length > 0) {
+          issues.push({
+            path: [...path, key],
+            message: `Invalid record key: ${keyIssues[0].message}`,
+          });
+        }
+        collectIssues(validator.value, entry, [...path, key], issues);
+      }
+      return;
+    }
+    case "union": {
+      if (validator.discriminator !== undefined) {
+        collectDiscriminatedUnionIssues(
+          validator.discriminator,
+          validator.members,
+          value,
+          path,
+          issues,
+        );
+        return;
+      }
+      for (const member of validator.members) {
+        const memberIssues: ValidationIssue[] = [];
+        collectIssues(member, value, path, memberIssues);
+        if (memberIssues.length === 0) {
+          return;
+        }
+      }
+      fail(
+        `Value ${describeValue(value)} does not match any member of the union`,
+      );
+      return;
+    }
+    default: {
+      const _typeCheck: never = validator;
+      throw new Error(`Unknown validator kind ${(validator as any).kind}`);
+    }
+  }
+}
+
+function collectDiscriminatedUnionIssues(
+  discriminator: string,
+  members: GenericValidator[],
+  value: unknown,
+  path: (string | number)[],
+  issues: ValidationIssue[],
+) {
+  if (!isPlainObject(value)) {
+    issues.push({
+      path,
+      message: `Expected object, received ${describeValue(value)}`,
+    });
+    return;
+  }
+  const tags = [];
+  for (const member of members) {
+    // `v.discriminatedUnion` checks that every member is an object with a
+    // literal discriminator field.
+    const tag = (member as any).fields[discriminator].value;
+    if (tag === value[discriminator]) {
+      collectIssues(member, value, path, issues);
+      return;
+    }
+    tags.push(JSON.stringify(convexToJson(tag)));
+  }
+  const received = value[discriminator];
+  issues.push({
+    path: [...path, discriminator],
+    message:
+      received === undefined
+        ? `Missing required field, expected one of ${tags.join(", ")}`
+        : `Unexpected ${discriminator} ${formatTag(received)}, expected one of ${tags.join(", ")}`,
+  });
+}
+
+function formatTag(value: unknown): string {
+  try {
+    return JSON.stringify(convexToJson(value as any));
+  } catch {
+    return describeValue(value);
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    value !== null &&
+    typeof value === "object" &&
+    !Array.isArray(value) &&
+    isSimpleObject(value)
+  );
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) {
+    return "null";
+  }
+  if (Array.isArray(value)) {
+    return "array";
+  }
+  if (value instanceof ArrayBuffer) {
+    return "ArrayBuffer";
+  }
+  if (typeof value === "object" && !isSimpleObject(value)) {
+    return value.constructor?.name ?? "object";
+  }
+  return typeof value;
+}
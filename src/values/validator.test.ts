@@ -1,8 +1,13 @@
 /* eslint-disable @typescript-eslint/ban-types */
 import { GenericId } from "../values/index.js";
-import { describe, test } from "vitest";
+import { describe, expect, test } from "vitest";
 import { assert, Equals } from "../test/type_testing.js";
 import { v, Infer } from "../values/validator.js";
+import {
+  formatIssue,
+  validateValue,
+  ValidationError,
+} from "../values/validate.js";
 
 describe("Validators", () => {
   test("optional types don't lose specificity", () => {
@@ -104,3 +109,148 @@ describe("Validators", () => {
     assert<Equals<Infer<typeof obj>, Expected>>();
   });
 });
+
+describe("Validation", () => {
+  const message = v.object({
+    author: v.id("users"),
+    body: v.string(),
+    likes: v.optional(v.int64()),
+    tags: v.array(v.union(v.literal("pinned"), v.literal("edited"))),
+    metadata: v.record(v.string(), v.number()),
+  });
+
+  test("valid values pass", () => {
+    const value = {
+      author: "abc123",
+      body: "hello",
+      tags: ["pinned"],
+      metadata: { score: 1.5 },
+    };
+    expect(message.validate(value)).toEqual({ success: true, value });
+    expect(message.parse(value)).toBe(value);
+    expect(validateValue(v.optional(v.string()), undefined).success).toBe(true);
+    expect(validateValue(v.bytes(), new ArrayBuffer(8)).success).toBe(true);
+  });
+
+  test("issues have field paths", () => {
+    const result = validateValue(message, {
+      author: 1,
+      likes: 3,
+      tags: ["pinned", "starred"],
+      metadata: { score: "high" },
+      extra: true,
+    });
+    expect(result).toEqual({
+      success: false,
+      issues: [
+        {
+          path: ["author"],
+          message: 'Expected an ID for table "users", received number',
+        },
+        { path: ["body"], message: "Missing required field" },
+        { path: ["likes"], message: "Expected bigint, received number" },
+        {
+          path: ["tags", 1],
+          message: "Value string does not match any member of the union",
+        },
+        {
+          path: ["metadata", "score"],
+          message: "Expected number, received string",
+        },
+        { path: ["extra"], message: "Unexpected field" },
+      ],
+    });
+  });
+
+  test("parse throws a ValidationError", () => {
+    expect(() => v.array(v.string()).parse(["a", null])).toThrowError(
+      new ValidationError([
+        { path: [1], message: "Expected string, received null" },
+      ]),
+    );
+    expect(() => v.string().parse(undefined)).toThrowError(
+      "Expected string, received undefined",
+    );
+    expect(() => v.object({}).parse([])).toThrowError(
+      "Expected object, received array",
+    );
+  });
+
+  test("formatIssue", () => {
+    expect(
+      formatIssue({ path: ["messages", 2, "body"], message: "Bad" }),
+    ).toEqual("at .messages[2].body: Bad");
+    expect(formatIssue({ path: [], message: "Bad" })).toEqual("Bad");
+  });
+
+  test("parse narrows the type", () => {
+    const parse = (value: unknown) => message.parse(value);
+    assert<Equals<ReturnType<typeof parse>, Infer<typeof message>>>();
+  });
+});
+
+describe("Discriminated unions", () => {
+  const event = v.discriminatedUnion("kind", [
+    v.object({ kind: v.literal("click"), x: v.number(), y: v.number() }),
+    v.object({ kind: v.literal("keypress"), key: v.string() }),
+  ]);
+
+  test("infers a union that narrows on the discriminator", () => {
+    type Event = Infer<typeof event>;
+    assert<
+      Equals<
+        Event,
+        | { kind: "click"; x: number; y: number }
+        | { kind: "keypress"; key: string }
+      >
+    >();
+    const keyOf = (e: Event) => (e.kind === "keypress" ? e.key : null);
+    assert<Equals<ReturnType<typeof keyOf>, string | null>>();
+  });
+
+  test("records the discriminator in the JSON", () => {
+    expect(event.json).toEqual({
+      type: "union",
+      value: event.members.map((member) => member.json),
+      discriminator: "kind",
+    });
+    expect(v.optional(event).discriminator).toEqual("kind");
+    expect(v.union(v.string()).json).toEqual({
+      type: "union",
+      value: [{ type: "string" }],
+    });
+  });
+
+  test("rejects members without a literal discriminator", () => {
+    expect(() =>
+      v.discriminatedUnion("kind", [
+        // @ts-expect-error The discriminator must be a literal
+        v.object({ kind: v.string() }),
+      ]),
+    ).toThrowError('must have a required literal "kind" field');
+    expect(() =>
+      v.discriminatedUnion("kind", [
+        v.object({ kind: v.literal("a") }),
+        v.object({ kind: v.literal("a") }),
+      ]),
+    ).toThrowError('Duplicate "kind" value a');
+  });
+
+  test("validation errors name the unexpected tag", () => {
+    expect(event.validate({ kind: "scroll", dy: 3 })).toEqual({
+      success: false,
+      issues: [
+        {
+          path: ["kind"],
+          message:
+            'Unexpected kind "scroll", expected one of "click", "keypress"',
+        },
+      ],
+    });
+    expect(event.validate({ kind: "click", x: 1, y: "2" })).toEqual({
+      success: false,
+      issues: [{ path: ["y"], message: "Expected number, received string" }],
+    });
+    expect(event.validate({ kind: "keypress", key: "a" }).success).toBe(true);
+  });
+});
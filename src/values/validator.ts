@@ -149,6 +149,52 @@ export const v = {
       members,
     });
   },
+  /**
+   * A union of object validators that all have a literal field named
+   * `discriminator`, e.g. `kind`, with a different value for each member.
+   *
+   * Values are only checked against the member whose `discriminator` field
+   * matches, so validation errors name the unexpected field value or the
+   * mismatches within that member instead of listing every member.
+   *
+   * ```ts
+   * const event = v.discriminatedUnion("kind", [
+   *   v.object({ kind: v.literal("click"), x: v.number(), y: v.number() }),
+   *   v.object({ kind: v.literal("keypress"), key: v.string() }),
+   * ]);
+   * ```
+   */
+  discriminatedUnion<
+    Discriminator extends string,
+    T extends VObject<
+      any,
+      { [Field in Discriminator]: VLiteral<any, "required"> },
+      "required",
+      any
+    >[],
+  >(discriminator: Discriminator, members: [...T]) {
+    const seen = new Set<unknown>();
+    for (const member of members) {
+      // Checked at runtime too for callers without type checking.
+      const field = member.fields[discriminator] as GenericValidator;
+      if (field?.kind !== "literal" || field.isOptional === "optional") {
+        throw new Error(
+          `Every member of v.discriminatedUnion("${discriminator}", ...) must have a required literal "${discriminator}" field.`,
+        );
+      }
+      if (seen.has(field.value)) {
+        throw new Error(
+          `Duplicate "${discriminator}" value ${String(field.value)} in v.discriminatedUnion.`,
+        );
+      }
+      seen.add(field.value);
+    }
+    return new VUnion<T[number]["type"], T>({
+      isOptional: "required",
+      members,
+      discriminator,
+    });
+  },
   any() {
     return new VAny({ isOptional: "required" });
   },
@@ -0,0 +1,61 @@
+import { GenericValidator, v } from "./validator.js";
+import { ObjectFieldType, ValidatorJSON } from "./validators.js";
+import { jsonToConvex } from "./value.js";
+
+/**
+ * Rebuild a validator from the JSON that registered functions and schemas
+ * export, so it can be checked with `validateValue`.
+ */
+export function validatorFromJson(json: ValidatorJSON): GenericValidator {
+  switch (json.type) {
+    case "null":
+      return v.null();
+    case "number":
+      return v.float64();
+    case "bigint":
+      return v.int64();
+    case "boolean":
+      return v.boolean();
+    case "string":
+      return v.string();
+    case "bytes":
+      return v.bytes();
+    case "any":
+      return v.any();
+    case "literal":
+      return v.literal(jsonToConvex(json.value) as string);
+    case "id":
+      return v.id(json.tableName);
+    case "array":
+      return v.array(validatorFromJson(json.value));
+    case "record":
+      return v.record(
+        validatorFromJson(json.keys) as any,
+        fieldFromJson(json.values),
+      );
+    case "object":
+      return v.object(
+        Object.fromEntries(
+          Object.entries(json.value).map(([fieldName, field]) => [
+            fieldName,
+            fieldFromJson(field),
+          ]),
+        ),
+      );
+    case "union": {
+      const members = json.value.map(validatorFromJson);
+      return json.discriminator !== undefined
+        ? v.discriminatedUnion(json.discriminator, members as any)
+        : v.union(...members);
+    }
+    default: {
+      const _typeCheck: never = json;
+      throw new Error(`Unknown validator type ${(json as any).type}`);
+    }
+  }
+}
+
+function fieldFromJson(field: ObjectFieldType): GenericValidator {
+  const validator = validatorFromJson(field.fieldType);
+  return field.optional ? v.optional(validator) : validator;
+}
@@ -1,6 +1,11 @@
 import { GenericId } from "./index.js";
 import { GenericValidator } from "./validator.js";
 import { JSONValue, convexToJson } from "./value.js";
+import {
+  ValidationError,
+  ValidationResult,
+  validateValue,
+} from "./validate.js";
 
 type TableNameFromType<T> =
   T extends GenericId<infer TableName> ? TableName : string;
@@ -26,6 +31,25 @@ abstract class BaseValidator<
   get optional(): boolean {
     return this.isOptional === "optional" ? true : false;
   }
+  /**
+   * Check whether a value matches this validator.
+   *
+   * See {@link validateValue} for details.
+   */
+  validate(value: unknown): ValidationResult<Type> {
+    return validateValue(this as unknown as GenericValidator, value);
+  }
+  /**
+   * Return the value if it matches this validator, otherwise throw a
+   * {@link ValidationError} describing every mismatch.
+   */
+  parse(value: unknown): Type {
+    const result = this.validate(value);
+    if (!result.success) {
+      throw new ValidationError(result.issues);
+    }
+    return result.value;
+  }
   /** @internal */
   abstract get json(): ValidatorJSON;
   /** @internal */
@@ -349,23 +373,42 @@ export class VUnion<
   FieldPaths extends string = T[number]["fieldPaths"],
 > extends BaseValidator<Type, IsOptional, FieldPaths> {
   readonly members: T;
+  /**
+   * The name of the field that determines which member an object belongs to,
+   * if this validator was constructed with `v.discriminatedUnion`.
+   */
+  readonly discriminator: string | undefined;
   readonly kind = "union" as const;
-  constructor({ isOptional, members }: { isOptional: IsOptional; members: T }) {
+  constructor({
+    isOptional,
+    members,
+    discriminator,
+  }: {
+    isOptional: IsOptional;
+    members: T;
+    discriminator?: string;
+  }) {
     super({ isOptional });
     this.members = members;
+    this.discriminator = discriminator;
   }
   /** @internal */
   get json(): ValidatorJSON {
-    return {
+    const json: ValidatorJSON = {
       type: this.kind,
       value: this.members.map((v) => v.json),
     };
+    if (this.discriminator !== undefined) {
+      json.discriminator = this.discriminator;
+    }
+    return json;
   }
   /** @internal */
   asOptional() {
     return new VUnion<Type | undefined, T, "optional">({
       isOptional: "optional",
       members: this.members,
+      discriminator: this.discriminator,
     });
   }
 }
@@ -485,4 +528,4 @@ export type ValidatorJSON =
   | { type: "array"; value: ValidatorJSON }
   | { type: "record"; keys: ValidatorJSON; values: ObjectFieldType }
   | { type: "object"; value: Record<string, ObjectFieldType> }
-  | { type: "union"; value: ValidatorJSON[] };
+  | { type: "union"; value: ValidatorJSON[]; discriminator?: string };
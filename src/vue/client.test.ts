@@ -0,0 +1,193 @@
+import { describe, expect, test, vi } from "vitest";
+import { createApp, effectScope, nextTick, ref } from "vue";
+import { ConvexClient } from "../browser/index.js";
+import {
+  makeFunctionReference,
+  PaginationOptions,
+  PaginationResult,
+} from "../server/index.js";
+import {
+  convexVue,
+  ConvexVueAuth,
+  useConvexAuth,
+  useMutation,
+  usePaginatedQuery,
+  useQuery,
+} from "./client.js";
+
+type Subscription = {
+  args: any;
+  callback: (result: any) => void;
+  onError?: (e: Error) => void;
+  active: boolean;
+};
+
+function fakeClient() {
+  const subscriptions: Subscription[] = [];
+  let onAuthChange: ((isAuthenticated: boolean) => void) | undefined;
+  const clearAuth = vi.fn();
+  const client = {
+    disabled: false,
+    onUpdate: (_query: any, args: any, callback: any, onError: any) => {
+      const subscription = { args, callback, onError, active: true };
+      subscriptions.push(subscription);
+      return () => {
+        subscription.active = false;
+      };
+    },
+    onPaginatedUpdate: (
+      _query: any,
+      args: any,
+      _options: any,
+      callback: any,
+      onError: any,
+    ) => {
+      const subscription = { args, callback, onError, active: true };
+      subscriptions.push(subscription);
+      return Object.assign(
+        () => {
+          subscription.active = false;
+        },
+        { loadMore: () => false },
+      );
+    },
+    mutation: vi.fn(async (_mutation: any, args: any) => args),
+    setAuth: (_fetchToken: any, onChange: any) => {
+      onAuthChange = onChange;
+    },
+    client: { clearAuth },
+  } as unknown as ConvexClient;
+  return {
+    client,
+    subscriptions,
+    clearAuth,
+    confirmAuth: (isAuthenticated: boolean) => onAuthChange!(isAuthenticated),
+  };
+}
+
+function withApp<T>(
+  client: ConvexClient,
+  setup: () => T,
+  auth?: ConvexVueAuth,
+): { result: T; stop: () => void } {
+  const app = createApp({ render: () => null });
+  app.use(convexVue, { client, auth });
+  const scope = effectScope();
+  const result = app.runWithContext(() => scope.run(setup)!);
+  return { result, stop: () => scope.stop() };
+}
+
+const query = makeFunctionReference<"query", { channel: string }, string[]>(
+  "messages:list",
+);
+
+describe("convex/vue", () => {
+  test("useQuery resubscribes when the arguments change", async () => {
+    const { client, subscriptions } = fakeClient();
+    const channel = ref<string | null>("general");
+    const { result, stop } = withApp(client, () =>
+      useQuery(query, () =>
+        channel.value === null ? "skip" : { channel: channel.value },
+      ),
+    );
+    expect(result.isLoading.value).toBe(true);
+    expect(subscriptions.map((s) => s.args)).toEqual([{ channel: "general" }]);
+
+    subscriptions[0].callback(["hi"]);
+    expect(result.data.value).toEqual(["hi"]);
+    expect(result.isLoading.value).toBe(false);
+
+    channel.value = "random";
+    await nextTick();
+    expect(subscriptions[0].active).toBe(false);
+    expect(subscriptions[1].args).toEqual({ channel: "random" });
+    expect(result.data.value).toBeUndefined();
+
+    channel.value = null;
+    await nextTick();
+    expect(subscriptions[1].active).toBe(false);
+    expect(subscriptions).toHaveLength(2);
+    expect(result.isLoading.value).toBe(false);
+    stop();
+  });
+
+  test("useQuery unsubscribes when the scope stops", () => {
+    const { client, subscriptions } = fakeClient();
+    const { result, stop } = withApp(client, () =>
+      useQuery(query, { channel: "general" }),
+    );
+    subscriptions[0].onError!(new Error("boom"));
+    expect(result.error.value?.message).toEqual("boom");
+    stop();
+    expect(subscriptions[0].active).toBe(false);
+  });
+
+  test("usePaginatedQuery exposes page errors", () => {
+    const { client, subscriptions } = fakeClient();
+    const paginatedQuery = makeFunctionReference<
+      "query",
+      { channel: string; paginationOpts: PaginationOptions },
+      PaginationResult<string>
+    >("messages:paginate");
+    const { result, stop } = withApp(client, () =>
+      usePaginatedQuery(
+        paginatedQuery,
+        { channel: "general" },
+        { initialNumItems: 1 },
+      ),
+    );
+    expect(result.isLoading.value).toBe(true);
+    subscriptions[0].onError!(new Error("boom"));
+    expect(result.error.value?.message).toEqual("boom");
+    expect(result.isLoading.value).toBe(false);
+
+    subscriptions[0].callback({ results: ["hi"], status: "CanLoadMore" });
+    expect(result.results.value).toEqual(["hi"]);
+    expect(result.error.value).toBeUndefined();
+    stop();
+    expect(subscriptions[0].active).toBe(false);
+  });
+
+  test("useMutation runs mutations with the client", async () => {
+    const { client } = fakeClient();
+    const mutation = makeFunctionReference<"mutation", { body: string }>(
+      "messages:send",
+    );
+    const { result } = withApp(client, () => useMutation(mutation));
+    await result({ body: "hi" });
+    expect(client.mutation).toHaveBeenCalledWith(mutation, { body: "hi" });
+  });
+
+  test("useConvexAuth follows the auth provider", async () => {
+    const { client, confirmAuth, clearAuth } = fakeClient();
+    const isLoading = ref(true);
+    const isAuthenticated = ref(false);
+    const { result } = withApp(client, () => useConvexAuth(), {
+      isLoading,
+      isAuthenticated,
+      fetchAccessToken: async () => "token",
+    });
+    expect(result.isLoading.value).toBe(true);
+
+    isLoading.value = false;
+    isAuthenticated.value = true;
+    await nextTick();
+    expect(result.isLoading.value).toBe(true);
+    confirmAuth(true);
+    expect(result.isLoading.value).toBe(false);
+    expect(result.isAuthenticated.value).toBe(true);
+
+    isAuthenticated.value = false;
+    await nextTick();
+    expect(clearAuth).toHaveBeenCalled();
+    expect(result.isAuthenticated.value).toBe(false);
+    expect(result.isLoading.value).toBe(false);
+  });
+
+  test("throws without the plugin", () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    expect(() =>
+      effectScope().run(() => useQuery(query, { channel: "general" })),
+    ).toThrow(/Could not find a Convex client/);
+  });
+});
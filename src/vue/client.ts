@@ -0,0 +1,389 @@
+import {
+  computed,
+  ComputedRef,
+  inject,
+  InjectionKey,
+  MaybeRefOrGetter,
+  Plugin,
+  readonly,
+  Ref,
+  shallowRef,
+  toValue,
+  watch,
+} from "vue";
+import { ConvexClient } from "../browser/index.js";
+import {
+  ConvexAuthState,
+  ConvexAuthStateTracker,
+} from "../browser/auth_state.js";
+import {
+  PaginatedQueryStatus,
+  PaginatedSubscription,
+} from "../browser/paginated_query.js";
+import { AuthTokenFetcher } from "../browser/sync/authentication_manager.js";
+import {
+  FunctionArgs,
+  FunctionReference,
+  FunctionReturnType,
+  OptionalRestArgs,
+} from "../server/api.js";
+import { PaginationOptions, PaginationResult } from "../server/index.js";
+import { convexToJson, jsonToConvex, Value } from "../values/index.js";
+import { BetterOmit, Expand } from "../type_utils.js";
+
+const convexClientKey: InjectionKey<ConvexClient> = Symbol("convexClient");
+const convexAuthKey: InjectionKey<Readonly<Ref<ConvexAuthState>>> =
+  Symbol("convexAuth");
+
+/**
+ * The authentication state of an auth provider, passed to {@link convexVue}
+ * to authenticate the Convex client.
+ *
+ * @public
+ */
+export interface ConvexVueAuth {
+  /** Whether the auth provider is still loading the user's session. */
+  isLoading: MaybeRefOrGetter<boolean>;
+  /** Whether the user is logged in with the auth provider. */
+  isAuthenticated: MaybeRefOrGetter<boolean>;
+  /** Fetch a JWT access token for the logged in user. */
+  fetchAccessToken: AuthTokenFetcher;
+}
+
+/**
+ * The options of the {@link convexVue} plugin.
+ *
+ * @public
+ */
+export interface ConvexVueOptions {
+  /** The {@link browser.ConvexClient} to use in the app's components. */
+  client: ConvexClient;
+  /**
+   * Authenticate the client with an auth provider, like
+   * {@link react.ConvexProviderWithAuth} does in React.
+   */
+  auth?: ConvexVueAuth;
+}
+
+/**
+ * A Vue plugin that provides a {@link browser.ConvexClient} to the
+ * composables in `convex/vue`.
+ *
+ * ```ts
+ * import { createApp } from "vue";
+ * import { ConvexClient } from "convex/browser";
+ * import { convexVue } from "convex/vue";
+ *
+ * const client = new ConvexClient(import.meta.env.VITE_CONVEX_URL);
+ * createApp(App).use(convexVue, { client }).mount("#app");
+ * ```
+ *
+ * @public
+ */
+export const convexVue: Plugin<[ConvexVueOptions]> = {
+  install(app, options) {
+    app.provide(convexClientKey, options.client);
+    const auth = options.auth;
+    if (auth !== undefined) {
+      const state = shallowRef<ConvexAuthState>({
+        isLoading: true,
+        isAuthenticated: false,
+      });
+      const tracker = new ConvexAuthStateTracker(
+        options.client,
+        auth.fetchAccessToken,
+        (newState) => {
+          state.value = newState;
+        },
+      );
+      watch(
+        () => [toValue(auth.isLoading), toValue(auth.isAuthenticated)],
+        ([isLoading, isAuthenticated]) =>
+          tracker.update(isLoading, isAuthenticated),
+        { immediate: true },
+      );
+      app.provide(convexAuthKey, readonly(state));
+    }
+  },
+};
+
+/**
+ * Get the {@link browser.ConvexClient} provided by the {@link convexVue}
+ * plugin.
+ *
+ * @public
+ */
+export function useConvexClient(): ConvexClient {
+  const client = inject(convexClientKey, undefined);
+  if (client === undefined) {
+    throw new Error(
+      "Could not find a Convex client! `useConvexClient` must be used in a " +
+        "component of an app that uses the `convexVue` plugin.",
+    );
+  }
+  return client;
+}
+
+/**
+ * Get the authentication state of the Convex client, when the
+ * {@link convexVue} plugin has the `auth` option.
+ *
+ * `isLoading` is `true` until the auth provider has loaded and the Convex
+ * backend has validated the user's token, and `isAuthenticated` is then
+ * whether it was valid.
+ *
+ * @public
+ */
+export function useConvexAuth(): {
+  isLoading: ComputedRef<boolean>;
+  isAuthenticated: ComputedRef<boolean>;
+} {
+  const state = inject(convexAuthKey, undefined);
+  if (state === undefined) {
+    throw new Error(
+      "Could not find the Convex auth state! `useConvexAuth` must be used " +
+        "in a component of an app that passes `auth` to the `convexVue` plugin.",
+    );
+  }
+  return {
+    isLoading: computed(() => state.value.isLoading),
+    isAuthenticated: computed(() => state.value.isAuthenticated),
+  };
+}
+
+/**
+ * The return value of {@link useQuery}.
+ *
+ * @public
+ */
+export type UseQueryReturnType<Query extends FunctionReference<"query">> = {
+  /** The query's result, or `undefined` while it's loading or skipped. */
+  data: Readonly<Ref<FunctionReturnType<Query> | undefined>>;
+  /** The error the query threw, if any. */
+  error: Readonly<Ref<Error | undefined>>;
+  /** Whether the query's first result is loading. */
+  isLoading: ComputedRef<boolean>;
+};
+
+/**
+ * Load a reactive query within a Vue component.
+ *
+ * The query is resubscribed whenever its arguments change, so they can be a
+ * ref or getter. Pass `"skip"` instead of arguments to skip the query.
+ *
+ * ```ts
+ * const channel = ref("#general");
+ * const { data: messages } = useQuery(api.messages.list, () => ({
+ *   channel: channel.value,
+ * }));
+ * ```
+ *
+ * @param query - A {@link server.FunctionReference} for the public query to
+ * run.
+ * @param args - The arguments to the query function or the string `"skip"`.
+ * @returns Refs for the query's result, its error and whether it's loading.
+ *
+ * @public
+ */
+export function useQuery<Query extends FunctionReference<"query">>(
+  query: Query,
+  args: MaybeRefOrGetter<FunctionArgs<Query> | "skip">,
+): UseQueryReturnType<Query> {
+  const client = useConvexClient();
+  const data = shallowRef<FunctionReturnType<Query> | undefined>(undefined);
+  const error = shallowRef<Error | undefined>(undefined);
+  const argsKey = useArgsKey(args);
+  watch(
+    argsKey,
+    (key, _oldKey, onCleanup) => {
+      data.value = undefined;
+      error.value = undefined;
+      if (key === null) {
+        return;
+      }
+      const unsubscribe = client.onUpdate(
+        query,
+        parseArgsKey(key),
+        (result) => {
+          data.value = result;
+          error.value = undefined;
+        },
+        (e) => {
+          error.value = e;
+        },
+      );
+      onCleanup(unsubscribe);
+    },
+    { immediate: true },
+  );
+  return {
+    data,
+    error,
+    isLoading: computed(
+      () =>
+        argsKey.value !== null &&
+        data.value === undefined &&
+        error.value === undefined,
+    ),
+  };
+}
+
+/**
+ * Construct a function to run a mutation within a Vue component.
+ *
+ * @param mutation - A {@link server.FunctionReference} for the public
+ * mutation to run.
+ * @returns A function that runs the mutation and returns a promise of its
+ * result.
+ *
+ * @public
+ */
+export function useMutation<Mutation extends FunctionReference<"mutation">>(
+  mutation: Mutation,
+): (
+  ...args: OptionalRestArgs<Mutation>
+) => Promise<Awaited<FunctionReturnType<Mutation>>> {
+  const client = useConvexClient();
+  return (...args) => client.mutation(mutation, args[0] ?? {});
+}
+
+/**
+ * Construct a function to run an action within a Vue component.
+ *
+ * @param action - A {@link server.FunctionReference} for the public action
+ * to run.
+ * @returns A function that runs the action and returns a promise of its
+ * result.
+ *
+ * @public
+ */
+export function useAction<Action extends FunctionReference<"action">>(
+  action: Action,
+): (
+  ...args: OptionalRestArgs<Action>
+) => Promise<Awaited<FunctionReturnType<Action>>> {
+  const client = useConvexClient();
+  return (...args) => client.action(action, args[0] ?? {});
+}
+
+/**
+ * The return value of {@link usePaginatedQuery}.
+ *
+ * @public
+ */
+export type UsePaginatedQueryReturnType<Item> = {
+  /** The results of all the loaded pages. */
+  results: Readonly<Ref<Item[]>>;
+  /** The status of the pagination. */
+  status: Readonly<Ref<PaginatedQueryStatus>>;
+  /** The error a page of the query threw, if any. */
+  error: Readonly<Ref<Error | undefined>>;
+  /** Whether a page is loading. */
+  isLoading: ComputedRef<boolean>;
+  /**
+   * Load another page of results. This only has an effect if the status is
+   * "CanLoadMore".
+   */
+  loadMore: (numItems: number) => void;
+};
+
+/**
+ * Load a paginated query reactively within a Vue component, to create a
+ * growing list.
+ *
+ * This works like {@link react.usePaginatedQuery}: the query must take a
+ * `paginationOpts` argument and return a {@link server.PaginationResult},
+ * and pagination restarts from the first page when the arguments change.
+ *
+ * @param query - A {@link server.FunctionReference} for the public query to
+ * run.
+ * @param args - The arguments to the query function, excluding
+ * `paginationOpts`, or the string `"skip"`.
+ * @param options - An object specifying the `initialNumItems` to load in
+ * the first page.
+ * @returns Refs for the loaded results, the pagination status and its error,
+ * and a `loadMore` function.
+ *
+ * @public
+ */
+export function usePaginatedQuery<
+  Query extends FunctionReference<
+    "query",
+    "public",
+    { paginationOpts: PaginationOptions },
+    PaginationResult<any>
+  >,
+>(
+  query: Query,
+  args: MaybeRefOrGetter<
+    Expand<BetterOmit<FunctionArgs<Query>, "paginationOpts">> | "skip"
+  >,
+  options: { initialNumItems: number },
+): UsePaginatedQueryReturnType<FunctionReturnType<Query>["page"][number]> {
+  const client = useConvexClient();
+  const results = shallowRef<FunctionReturnType<Query>["page"][number][]>([]);
+  const status = shallowRef<PaginatedQueryStatus>("LoadingFirstPage");
+  const error = shallowRef<Error | undefined>(undefined);
+  let subscription: PaginatedSubscription<
+    FunctionReturnType<Query>["page"][number]
+  > | null = null;
+  const argsKey = useArgsKey(args);
+  watch(
+    argsKey,
+    (key, _oldKey, onCleanup) => {
+      results.value = [];
+      status.value = "LoadingFirstPage";
+      error.value = undefined;
+      subscription = null;
+      if (key === null) {
+        return;
+      }
+      const newSubscription = client.onPaginatedUpdate(
+        query,
+        parseArgsKey(key),
+        options,
+        (result) => {
+          results.value = result.results;
+          status.value = result.status;
+          error.value = undefined;
+        },
+        (e) => {
+          error.value = e;
+        },
+      );
+      subscription = newSubscription;
+      onCleanup(newSubscription);
+    },
+    { immediate: true },
+  );
+  return {
+    results,
+    status,
+    error,
+    isLoading: computed(
+      () =>
+        error.value === undefined &&
+        (status.value === "LoadingFirstPage" || status.value === "LoadingMore"),
+    ),
+    loadMore: (numItems: number) => {
+      if (subscription?.loadMore(numItems)) {
+        status.value = subscription.status;
+      }
+    },
+  };
+}
+
+// Serialize the arguments so that the query is only resubscribed when they
+// change, or `null` if the query is skipped.
+function useArgsKey(
+  args: MaybeRefOrGetter<unknown>,
+): ComputedRef<string | null> {
+  return computed(() => {
+    const value = toValue(args) as Record<string, Value> | "skip";
+    return value === "skip" ? null : JSON.stringify(convexToJson(value));
+  });
+}
+
+function parseArgsKey(key: string): any {
+  return jsonToConvex(JSON.parse(key));
+}
@@ -0,0 +1,48 @@
+/**
+ * Tools to integrate Convex into Vue 3 applications.
+ *
+ * This module contains:
+ * 1. {@link convexVue}, a plugin that provides a
+ *    {@link browser.ConvexClient} to the app's components.
+ * 2. Composables {@link useQuery}, {@link usePaginatedQuery},
+ *    {@link useMutation} and {@link useAction} for accessing the client from
+ *    components.
+ * 3. {@link useConvexAuth} for the authentication state when the plugin is
+ *    given an auth provider.
+ *
+ * ## Usage
+ *
+ * ```typescript
+ * import { createApp } from "vue";
+ * import { ConvexClient } from "convex/browser";
+ * import { convexVue } from "convex/vue";
+ *
+ * const client = new ConvexClient("https://small-mouse-123.convex.cloud");
+ * createApp(App).use(convexVue, { client }).mount("#app");
+ * ```
+ *
+ * ```typescript
+ * // In a component's `<script setup>`:
+ * import { useQuery } from "convex/vue";
+ * import { api } from "../convex/_generated/api";
+ *
+ * const { data: messages, isLoading } = useQuery(api.messages.list, {});
+ * ```
+ *
+ * @module
+ */
+export {
+  convexVue,
+  useConvexClient,
+  useConvexAuth,
+  useQuery,
+  useMutation,
+  useAction,
+  usePaginatedQuery,
+} from "./client.js";
+export type {
+  ConvexVueAuth,
+  ConvexVueOptions,
+  UseQueryReturnType,
+  UsePaginatedQueryReturnType,
+} from "./client.js";